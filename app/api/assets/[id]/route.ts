@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AssetService } from "@/lib/services/assetService"
+
+// Asset ids are content hashes, so a response never goes stale and can be cached for good
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const etag = `"${params.id.split(".")[0]}"`
+    if (request.headers.get("if-none-match") === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } })
+    }
+
+    const asset = await AssetService.get(params.id)
+    if (!asset) {
+      return NextResponse.json({ error: "Asset not found" }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(asset.body), {
+      headers: {
+        "Content-Type": asset.contentType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        ETag: etag,
+        "X-Content-Type-Options": "nosniff",
+        // Uploaded SVGs are served from our own origin; never let them run scripts
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; img-src data:",
+      },
+    })
+  } catch (error) {
+    console.error("Get asset error:", error)
+    return NextResponse.json({ error: "Failed to fetch asset" }, { status: 500 })
+  }
+}
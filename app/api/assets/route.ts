@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { AssetService, AssetError } from "@/lib/services/assetService"
+
+// POST multipart/form-data with a "file" field. Open to guests, who design before signing in.
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData()
+    const file = form.get("file")
+    if (!(file instanceof Blob)) {
+      return NextResponse.json({ error: "file is required" }, { status: 400 })
+    }
+
+    const asset = await AssetService.store(Buffer.from(await file.arrayBuffer()))
+    return NextResponse.json(asset, { status: 201 })
+  } catch (error) {
+    if (error instanceof AssetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Upload asset error:", error)
+    return NextResponse.json({ error: "Failed to store file" }, { status: 500 })
+  }
+}
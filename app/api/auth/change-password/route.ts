@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { UserService, PasswordError } from "@/lib/services/userService"
+import { requireActor, AuthorizationError } from "@/lib/authorization"
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("Sign in to change your password")
+
+    const { currentPassword, newPassword } = await request.json()
+
+    await UserService.changePassword(actor.id, currentPassword, newPassword)
+    return NextResponse.json({ message: "Password changed" })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof PasswordError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Change password error:", error)
+    return NextResponse.json({ error: "Failed to change password" }, { status: 500 })
+  }
+}
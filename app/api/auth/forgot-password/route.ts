@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { UserService } from "@/lib/services/userService"
+import { EmailService } from "@/lib/services/emailService"
+
+// Answers the same whether or not the email has an account, so it cannot be used to find accounts
+export async function POST(request: NextRequest) {
+  try {
+    const { email, language } = await request.json()
+
+    const user = typeof email === "string" && email.trim() ? await UserService.findUserByEmail(email.trim()) : null
+    if (user) {
+      try {
+        await EmailService.sendPasswordReset(user, UserService.createPasswordResetToken(user), language)
+      } catch (error) {
+        console.error(`Failed to send password reset email to ${user.email}:`, error)
+      }
+    }
+
+    return NextResponse.json({ message: "If the account exists, a reset link has been sent" })
+  } catch (error) {
+    console.error("Forgot password error:", error)
+    return NextResponse.json({ error: "Failed to request password reset" }, { status: 500 })
+  }
+}
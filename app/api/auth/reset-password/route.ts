@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { UserService, PasswordError } from "@/lib/services/userService"
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token, password } = await request.json()
+
+    await UserService.resetPassword(token, password)
+    return NextResponse.json({ message: "Password reset" })
+  } catch (error) {
+    if (error instanceof PasswordError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Reset password error:", error)
+    return NextResponse.json({ error: "Failed to reset password" }, { status: 500 })
+  }
+}
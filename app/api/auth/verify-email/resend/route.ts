@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { UserService } from "@/lib/services/userService"
+import { EmailService } from "@/lib/services/emailService"
+import { MailError } from "@/lib/mail"
+import { requireActor, AuthorizationError } from "@/lib/authorization"
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("Sign in to verify your email")
+    const { language } = await request.json()
+
+    const user = actor.email ? await UserService.findUserByEmail(actor.email) : null
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+    if (UserService.isEmailVerified(user)) {
+      return NextResponse.json({ message: "Email already verified" })
+    }
+
+    await EmailService.sendEmailVerification(user, UserService.createEmailVerificationToken(actor.id, user.email), language)
+    return NextResponse.json({ message: "Verification email sent" })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof MailError) {
+      return NextResponse.json({ error: "The email could not be sent, please try again later" }, { status: 502 })
+    }
+    console.error("Resend verification error:", error)
+    return NextResponse.json({ error: "Failed to send verification email" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { UserService, EmailVerificationError } from "@/lib/services/userService"
+import { requireActor, AuthorizationError } from "@/lib/authorization"
+
+// Whether the signed-in user has verified their email
+export async function GET() {
+  try {
+    const actor = await requireActor()
+    return NextResponse.json({ verified: await UserService.hasVerifiedEmail(actor.id), email: actor.email })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Email verification status error:", error)
+    return NextResponse.json({ error: "Failed to fetch verification status" }, { status: 500 })
+  }
+}
+
+// Use the token from a verification email; works without a session so the link opens anywhere
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json()
+
+    await UserService.verifyEmail(token)
+    return NextResponse.json({ message: "Email verified" })
+  } catch (error) {
+    if (error instanceof EmailVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Verify email error:", error)
+    return NextResponse.json({ error: "Failed to verify email" }, { status: 500 })
+  }
+}
@@ -1,22 +1,46 @@
 import { NextRequest, NextResponse } from "next/server"
 import { CartService } from "@/lib/services/cartService"
+import { requireActor, AuthorizationError } from "@/lib/authorization"
 
+// Carts are private: only the signed-in user can read or replace their own
 export async function GET(req: NextRequest) {
-  const { searchParams } = new URL(req.url)
-  const userId = searchParams.get("userId")
-  if (!userId) return NextResponse.json({ error: "userId required" }, { status: 400 })
-  const cart = await CartService.getCartByUserId(userId)
-  return NextResponse.json(cart || { userId, items: [] })
+  try {
+    const actor = await requireActor()
+    const { searchParams } = new URL(req.url)
+    const userId = searchParams.get("userId") || actor.id
+    if (userId !== actor.id) {
+      throw new AuthorizationError("You can only access your own cart")
+    }
+    const cart = await CartService.getCartByUserId(userId)
+    return NextResponse.json(cart || { userId, items: [] })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Get cart error:", error)
+    return NextResponse.json({ error: "Failed to fetch cart" }, { status: 500 })
+  }
 }
 
 export async function POST(req: NextRequest) {
-  const body = await req.json()
-  const { userId, items } = body
-  if (!userId || !Array.isArray(items)) {
-    return NextResponse.json({ error: "userId and items required" }, { status: 400 })
+  try {
+    const actor = await requireActor()
+    const body = await req.json()
+    const { items } = body
+    const userId = body.userId || actor.id
+    if (!Array.isArray(items)) {
+      return NextResponse.json({ error: "items required" }, { status: 400 })
+    }
+    if (userId !== actor.id) {
+      throw new AuthorizationError("You can only access your own cart")
+    }
+    const updated = await CartService.upsertCart(userId, items)
+    return NextResponse.json(updated, { status: 200 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Save cart error:", error)
+    return NextResponse.json({ error: "Failed to save cart" }, { status: 500 })
   }
-  const updated = await CartService.upsertCart(userId, items)
-  return NextResponse.json(updated, { status: 200 })
 }
-
-
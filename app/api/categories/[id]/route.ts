@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from "next/server"
 import { updateCategory, deleteCategory } from "@/lib/services/categoryService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
   try {
+    await requirePermission("catalog:manage")
+
     const data = await req.json()
     const updated = await updateCategory(params.id, data)
     if (!updated) return NextResponse.json({ error: "Not found" }, { status: 404 })
     return NextResponse.json(updated)
   } catch (e: any) {
+    if (e instanceof AuthorizationError) {
+      return NextResponse.json({ error: e.message }, { status: e.status })
+    }
     const status = e.message?.includes("exists") ? 400 : 500
     return NextResponse.json({ error: e.message || "Failed to update" }, { status })
   }
@@ -15,10 +21,15 @@ export async function PUT(req: NextRequest, { params }: { params: { id: string }
 
 export async function DELETE(_req: NextRequest, { params }: { params: { id: string } }) {
   try {
+    await requirePermission("catalog:manage")
+
     const ok = await deleteCategory(params.id)
     if (!ok) return NextResponse.json({ error: "Not found" }, { status: 404 })
     return NextResponse.json({ success: true })
   } catch (e: any) {
+    if (e instanceof AuthorizationError) {
+      return NextResponse.json({ error: e.message }, { status: e.status })
+    }
     return NextResponse.json({ error: e.message || "Failed to delete" }, { status: 500 })
   }
 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createCategory, getCategories } from "@/lib/services/categoryService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET() {
   try {
@@ -12,10 +13,15 @@ export async function GET() {
 
 export async function POST(req: NextRequest) {
   try {
+    await requirePermission("catalog:manage")
+
     const body = await req.json()
     const category = await createCategory(body)
     return NextResponse.json(category, { status: 201 })
   } catch (e: any) {
+    if (e instanceof AuthorizationError) {
+      return NextResponse.json({ error: e.message }, { status: e.status })
+    }
     const status = e.message?.includes("exists") ? 400 : 500
     return NextResponse.json({ error: e.message || "Failed to create category" }, { status })
   }
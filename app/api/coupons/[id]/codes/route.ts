@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { generateCouponCodes, getCouponById, getCouponCodes } from "@/lib/services/couponService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+const csvField = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Generated single-use codes of a coupon, as JSON or as a CSV download with ?format=csv
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("marketing:manage")
+
+    const coupon = await getCouponById(params.id)
+    if (!coupon) {
+      return NextResponse.json({ error: "Coupon not found" }, { status: 404 })
+    }
+
+    const batchId = request.nextUrl.searchParams.get("batchId") || undefined
+    const codes = await getCouponCodes(params.id, batchId)
+
+    if (request.nextUrl.searchParams.get("format") !== "csv") {
+      return NextResponse.json(codes.map(({ _id, ...code }) => code))
+    }
+
+    const rows = [
+      ["code", "batch_id", "status", "redeemed_at", "order_id", "customer"],
+      ...codes.map((code) => [
+        code.code,
+        code.batchId,
+        code.redeemedAt ? "redeemed" : "unused",
+        code.redeemedAt ? new Date(code.redeemedAt).toISOString() : "",
+        code.orderId,
+        code.customer,
+      ]),
+    ]
+    const csv = rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n"
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${coupon.code}${batchId ? `-${batchId.slice(0, 8)}` : ""}-codes.csv"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching coupon codes:", error)
+    return NextResponse.json({ error: "Failed to fetch coupon codes" }, { status: 500 })
+  }
+}
+
+// Generate a batch of unique single-use codes for the coupon
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("marketing:manage")
+
+    const { count, prefix } = await request.json()
+    const batch = await generateCouponCodes(params.id, Number(count), prefix)
+
+    return NextResponse.json({ batchId: batch.batchId, count: batch.codes.length, codes: batch.codes }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error generating coupon codes:", error)
+    return NextResponse.json({ error: error.message || "Failed to generate coupon codes" }, { status: 400 })
+  }
+}
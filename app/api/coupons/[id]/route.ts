@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getCouponById, updateCoupon, deleteCoupon } from "@/lib/services/couponService"
 import type { UpdateCouponData } from "@/types"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    await requirePermission("marketing:manage")
+
     const coupon = await getCouponById(params.id)
     
     if (!coupon) {
@@ -18,6 +21,9 @@ export async function GET(
 
     return NextResponse.json(coupon)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error fetching coupon:", error)
     return NextResponse.json(
       { error: "Failed to fetch coupon" },
@@ -31,6 +37,8 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    await requirePermission("marketing:manage")
+
     const updateData: Partial<UpdateCouponData> = await request.json()
     
     // Validate discount value if provided
@@ -85,6 +93,9 @@ export async function PUT(
     const coupon = await updateCoupon(processedUpdateData)
     return NextResponse.json(coupon)
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error updating coupon:", error)
     return NextResponse.json(
       { error: error.message || "Failed to update coupon" },
@@ -98,6 +109,8 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    await requirePermission("marketing:manage")
+
     const success = await deleteCoupon(params.id)
     
     if (!success) {
@@ -109,6 +122,9 @@ export async function DELETE(
 
     return NextResponse.json({ message: "Coupon deleted successfully" })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error deleting coupon:", error)
     return NextResponse.json(
       { error: "Failed to delete coupon" },
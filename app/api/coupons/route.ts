@@ -1,9 +1,29 @@
 import { NextRequest, NextResponse } from "next/server"
-import { createCoupon, getAllCoupons } from "@/lib/services/couponService"
+import { createCoupon, getAllCoupons, releaseExpiredCouponReservations } from "@/lib/services/couponService"
 import type { CreateCouponData } from "@/types"
+import { getActor, can, requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET() {
   try {
+    const actor = await getActor()
+    if (!can(actor, "marketing:manage")) {
+      // The storefront promo bar only sees coupons anyone can use right now, without their targeting rules
+      const now = new Date()
+      const coupons = (await getAllCoupons()).filter(
+        (coupon) =>
+          coupon.isActive &&
+          !coupon.singleUseCodesOnly &&
+          !coupon.allowedCustomers?.length &&
+          new Date(coupon.validFrom) <= now &&
+          now <= new Date(coupon.validUntil),
+      )
+      return NextResponse.json(
+        coupons.map(({ allowedCustomers, maxUsageCount, currentUsageCount, ...coupon }) => coupon),
+      )
+    }
+
+    // Usage counts include reservations, so drop the abandoned ones before showing them
+    await releaseExpiredCouponReservations()
     const coupons = await getAllCoupons()
     return NextResponse.json(coupons)
   } catch (error) {
@@ -17,6 +37,8 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission("marketing:manage")
+
     const couponData: CreateCouponData = await request.json()
     
     // Validate required fields
@@ -64,6 +86,9 @@ export async function POST(request: NextRequest) {
     const coupon = await createCoupon(processedCouponData)
     return NextResponse.json(coupon, { status: 201 })
   } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating coupon:", error)
     return NextResponse.json(
       { error: error.message || "Failed to create coupon" },
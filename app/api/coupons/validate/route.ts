@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
 import { validateCoupon } from "@/lib/services/couponService"
+import { getActor } from "@/lib/authorization"
 
 export async function POST(request: NextRequest) {
   try {
-    const { code, orderTotal, cartItems } = await request.json()
+    const { code, orderTotal, cartItems, customerEmail } = await request.json()
     
     if (!code || orderTotal === undefined) {
       return NextResponse.json(
@@ -19,7 +20,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const validationResult = await validateCoupon(code, orderTotal, cartItems || [])
+    const actor = await getActor()
+    const validationResult = await validateCoupon(code, orderTotal, cartItems || [], {
+      customerNumber: actor?.customerNumber,
+      email: customerEmail,
+    })
     
     return NextResponse.json(validationResult)
   } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { DesignProductService } from "@/lib/services/designProductService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET() {
   try {
@@ -16,10 +17,15 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission("catalog:manage")
+
     const body = await request.json()
     const product = await DesignProductService.createDesignProduct(body)
     return NextResponse.json(product, { status: 201 })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating design product:", error)
     return NextResponse.json(
       { error: "Failed to create design product" },
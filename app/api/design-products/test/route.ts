@@ -1,8 +1,11 @@
 import { NextResponse } from "next/server"
 import { DesignProductService } from "@/lib/services/designProductService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET() {
   try {
+    await requirePermission("catalog:manage")
+
     // Test the connection and service
     const products = await DesignProductService.getAllDesignProducts()
     return NextResponse.json({
@@ -11,6 +14,9 @@ export async function GET() {
       products: products.slice(0, 2) // Return first 2 products for testing
     })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error testing design products API:", error)
     return NextResponse.json(
       { 
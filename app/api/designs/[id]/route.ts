@@ -1,6 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { DesignService } from "@/lib/services/designService"
+import { requireActor, AuthorizationError } from "@/lib/authorization"
 
+// Open to anyone with the id: share links to the design tool load designs through here
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     const design = await DesignService.getDesignById(params.id)
@@ -18,7 +20,15 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
 
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const designData = await request.json()
+    // Only the owner may change or remove a design; others get the same 404 as a missing one
+    const actor = await requireActor()
+    const existing = await DesignService.getDesignById(params.id)
+    if (!existing || existing.userId !== actor.id) {
+      return NextResponse.json({ error: "Design not found" }, { status: 404 })
+    }
+
+    // Ownership cannot be handed over through an update
+    const { userId: _userId, ...designData } = await request.json()
 
     const updatedDesign = await DesignService.updateDesign(params.id, designData)
 
@@ -28,6 +38,9 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
 
     return NextResponse.json(updatedDesign)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Update design error:", error)
     return NextResponse.json({ error: "Failed to update design" }, { status: 500 })
   }
@@ -35,6 +48,12 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
 
 export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const actor = await requireActor()
+    const existing = await DesignService.getDesignById(params.id)
+    if (!existing || existing.userId !== actor.id) {
+      return NextResponse.json({ error: "Design not found" }, { status: 404 })
+    }
+
     const deleted = await DesignService.deleteDesign(params.id)
 
     if (!deleted) {
@@ -43,6 +62,9 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
 
     return NextResponse.json({ message: "Design deleted successfully" })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Delete design error:", error)
     return NextResponse.json({ error: "Failed to delete design" }, { status: 500 })
   }
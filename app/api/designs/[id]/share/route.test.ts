@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+
+const { getServerSession, DesignService, EmailService, UserService, LoginThrottleService } = vi.hoisted(() => ({
+  getServerSession: vi.fn(),
+  DesignService: { getDesignById: vi.fn() },
+  EmailService: { sendDesignShared: vi.fn() },
+  UserService: { hasVerifiedEmail: vi.fn() },
+  LoginThrottleService: { hit: vi.fn() },
+}))
+
+vi.mock("next-auth/next", () => ({ getServerSession }))
+vi.mock("@/lib/auth", () => ({ authOptions: {} }))
+vi.mock("@/lib/services/designService", () => ({ DesignService }))
+vi.mock("@/lib/services/emailService", () => ({ EmailService }))
+vi.mock("@/lib/services/userService", () => ({ UserService }))
+vi.mock("@/lib/services/loginThrottleService", () => ({ LoginThrottleService }))
+vi.mock("@/lib/mail", () => ({ MailError: class extends Error {} }))
+
+import { POST } from "@/app/api/designs/[id]/share/route"
+
+const share = () =>
+  POST(
+    new NextRequest("http://localhost/api/designs/d1/share", {
+      method: "POST",
+      body: JSON.stringify({ to: "friend@example.com" }),
+      headers: { "Content-Type": "application/json" },
+    }),
+    { params: { id: "d1" } },
+  )
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  getServerSession.mockResolvedValue({ user: { id: "u1", role: "user", email: "owner@example.com" } })
+  UserService.hasVerifiedEmail.mockResolvedValue(true)
+  DesignService.getDesignById.mockResolvedValue({ id: "d1", userId: "u1" })
+  LoginThrottleService.hit.mockResolvedValue({ count: 1, expiresAt: new Date(Date.now() + 60_000) })
+})
+
+describe("POST /api/designs/[id]/share", () => {
+  it("sends the design for its verified owner", async () => {
+    expect((await share()).status).toBe(200)
+    expect(LoginThrottleService.hit).toHaveBeenCalledWith("share:u1", expect.any(Number))
+    expect(EmailService.sendDesignShared).toHaveBeenCalledTimes(1)
+  })
+
+  it("requires a verified email address", async () => {
+    UserService.hasVerifiedEmail.mockResolvedValue(false)
+    const response = await share()
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: "email_unverified" })
+    expect(EmailService.sendDesignShared).not.toHaveBeenCalled()
+  })
+
+  it("stops sending once the account has used up its shares", async () => {
+    LoginThrottleService.hit.mockResolvedValue({ count: 11, expiresAt: new Date(Date.now() + 60_000) })
+    const response = await share()
+    expect(response.status).toBe(429)
+    expect(response.headers.get("Retry-After")).toBe("60")
+    expect(EmailService.sendDesignShared).not.toHaveBeenCalled()
+  })
+
+  it("does not send other users' designs", async () => {
+    DesignService.getDesignById.mockResolvedValue({ id: "d1", userId: "u2" })
+    expect((await share()).status).toBe(404)
+    expect(EmailService.sendDesignShared).not.toHaveBeenCalled()
+  })
+})
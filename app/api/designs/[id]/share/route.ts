@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DesignService } from "@/lib/services/designService"
+import { EmailService } from "@/lib/services/emailService"
+import { UserService } from "@/lib/services/userService"
+import { LoginThrottleService } from "@/lib/services/loginThrottleService"
+import { MailError } from "@/lib/mail"
+import { requireActor, AuthorizationError } from "@/lib/authorization"
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+// Shares one account can send per window, counted like login attempts
+const SHARE_WINDOW_MS = 60 * 60 * 1000
+const MAX_SHARES_PER_WINDOW = 10
+
+/**
+ * Mail a link to a design. Only its owner can, from a verified address and a few times an hour,
+ * so throwaway accounts cannot use the endpoint to send mail to anyone.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const actor = await requireActor("Sign in to share designs by email")
+    if (!(await UserService.hasVerifiedEmail(actor.id))) {
+      return NextResponse.json(
+        { error: "Verify your email address before sharing designs", code: "email_unverified" },
+        { status: 403 },
+      )
+    }
+
+    const { to, message, language } = await request.json()
+    if (typeof to !== "string" || !EMAIL_PATTERN.test(to.trim())) {
+      return NextResponse.json({ error: "Enter a valid email address" }, { status: 400 })
+    }
+    if (typeof message === "string" && message.length > 1000) {
+      return NextResponse.json({ error: "The message can be at most 1000 characters" }, { status: 400 })
+    }
+
+    const design = await DesignService.getDesignById(params.id)
+    if (!design || design.userId !== actor.id) {
+      return NextResponse.json({ error: "Design not found" }, { status: 404 })
+    }
+
+    const shares = await LoginThrottleService.hit(`share:${actor.id}`, SHARE_WINDOW_MS)
+    if (shares.count > MAX_SHARES_PER_WINDOW) {
+      const retryAfterSeconds = Math.max(1, Math.ceil((shares.expiresAt.getTime() - Date.now()) / 1000))
+      return NextResponse.json(
+        { error: "You have shared too many designs, please try again later" },
+        { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } },
+      )
+    }
+
+    await EmailService.sendDesignShared({
+      design,
+      to: to.trim(),
+      senderName: actor.name || actor.email || "",
+      message: typeof message === "string" ? message : undefined,
+      language,
+    })
+    return NextResponse.json({ message: "Design shared" })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof MailError) {
+      return NextResponse.json({ error: "The email could not be sent, please try again later" }, { status: 502 })
+    }
+    console.error("Share design error:", error)
+    return NextResponse.json({ error: "Failed to share design" }, { status: 500 })
+  }
+}
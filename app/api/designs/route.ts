@@ -1,22 +1,22 @@
 import { NextRequest, NextResponse } from "next/server"
 import { DesignService } from "@/lib/services/designService"
+import { requireActor, assertOwnerOr, AuthorizationError } from "@/lib/authorization"
 
 export async function GET(request: NextRequest) {
   try {
-    // Get userId from query parameter
+    const actor = await requireActor()
+
+    // Defaults to the signed-in user's designs; staff may ask for anyone's
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: "User ID is required" },
-        { status: 400 }
-      )
-    }
+    const userId = searchParams.get('userId') || actor.id
+    assertOwnerOr(actor, userId === actor.id, "orders:view")
     
     const designs = await DesignService.getDesignsByUserId(userId)
     return NextResponse.json(designs)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error fetching designs:", error)
     return NextResponse.json(
       { error: "Failed to fetch designs" },
@@ -27,10 +27,16 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const actor = await requireActor("Sign in to save designs")
+
+    // Designs are always saved to the signed-in user's account
     const body = await request.json()
-    const design = await DesignService.createDesign(body)
+    const design = await DesignService.createDesign({ ...body, userId: actor.id })
     return NextResponse.json(design, { status: 201 })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating design:", error)
     return NextResponse.json(
       { error: "Failed to create design" },
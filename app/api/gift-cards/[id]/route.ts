@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { GiftCardService, GiftCardError } from "@/lib/services/giftCardService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+// A gift card with its transaction ledger, newest first
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("marketing:manage")
+
+    const giftCard = await GiftCardService.getGiftCardById(params.id)
+    if (!giftCard) {
+      return NextResponse.json({ error: "Gift card not found" }, { status: 404 })
+    }
+
+    const transactions = await GiftCardService.getTransactions(params.id)
+    return NextResponse.json({ ...giftCard, transactions })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching gift card:", error)
+    return NextResponse.json({ error: "Failed to fetch gift card" }, { status: 500 })
+  }
+}
+
+// Enable or disable a card, or correct its balance with { adjustment, note }
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const actor = await requirePermission("marketing:manage")
+
+    const { status, adjustment, note } = await request.json()
+
+    if (adjustment !== undefined) {
+      const giftCard = await GiftCardService.adjustBalance(params.id, Number(adjustment), note, actor.email)
+      return NextResponse.json(giftCard)
+    }
+
+    if (status !== "active" && status !== "disabled") {
+      return NextResponse.json({ error: "Status must be active or disabled" }, { status: 400 })
+    }
+    const giftCard = await GiftCardService.setStatus(params.id, status)
+    if (!giftCard) {
+      return NextResponse.json({ error: "Gift card not found" }, { status: 404 })
+    }
+    return NextResponse.json(giftCard)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating gift card:", error)
+    return NextResponse.json({ error: "Failed to update gift card" }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { GiftCardService, GiftCardError } from "@/lib/services/giftCardService"
+import { getActor } from "@/lib/authorization"
+
+// Balance of a gift card code as the current customer may spend it at checkout
+export async function POST(request: NextRequest) {
+  try {
+    const { code } = await request.json()
+    if (!code || typeof code !== "string") {
+      return NextResponse.json({ error: "Enter a gift card code" }, { status: 400 })
+    }
+
+    const actor = await getActor()
+    const balance = await GiftCardService.checkBalance(code, actor?.customerNumber)
+    return NextResponse.json(balance)
+  } catch (error) {
+    if (error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error checking gift card balance:", error)
+    return NextResponse.json({ error: "Failed to check gift card balance" }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { GiftCardService, GiftCardError } from "@/lib/services/giftCardService"
+import type { GiftCardKind } from "@/lib/models/GiftCard"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission("marketing:manage")
+
+    const kind = request.nextUrl.searchParams.get("kind") as GiftCardKind | null
+    const giftCards = await GiftCardService.getGiftCards(kind || undefined)
+    return NextResponse.json(giftCards)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching gift cards:", error)
+    return NextResponse.json({ error: "Failed to fetch gift cards" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission("marketing:manage")
+
+    const { kind, amount, expiresAt, customer, recipientName, recipientEmail, note } = await request.json()
+
+    const giftCard = await GiftCardService.issueGiftCard(
+      {
+        kind,
+        amount: Number(amount),
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+        customer,
+        recipientName,
+        recipientEmail,
+        note,
+      },
+      actor.email,
+    )
+    return NextResponse.json(giftCard, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error issuing gift card:", error)
+    return NextResponse.json({ error: "Failed to issue gift card" }, { status: 500 })
+  }
+}
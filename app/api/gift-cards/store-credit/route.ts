@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { GiftCardService } from "@/lib/services/giftCardService"
+import { getActor } from "@/lib/authorization"
+
+// The signed-in customer's store credit balance; zero when they have none
+export async function GET() {
+  try {
+    const actor = await getActor()
+    const customer = actor?.customerNumber
+    if (!customer) {
+      return NextResponse.json({ error: "Sign in to see your store credit" }, { status: 401 })
+    }
+
+    const credit = await GiftCardService.getStoreCredit(customer)
+    if (credit) await GiftCardService.releaseExpiredHolds(credit.id)
+    const current = credit ? await GiftCardService.getGiftCardById(credit.id) : null
+
+    return NextResponse.json({
+      balance: current?.status === "active" ? current.balance : 0,
+      currency: "SEK",
+    })
+  } catch (error) {
+    console.error("Error fetching store credit:", error)
+    return NextResponse.json({ error: "Failed to fetch store credit" }, { status: 500 })
+  }
+}
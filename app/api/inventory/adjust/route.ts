@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { InventoryService, InventoryError } from "@/lib/services/inventoryService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requirePermission("inventory:manage")
+
+    const { productId, variationId, size, quantity, note } = await request.json()
+    if (!productId || !variationId) {
+      return NextResponse.json({ error: "Product and variation are required" }, { status: 400 })
+    }
+
+    const stockAfter = await InventoryService.adjustStock(
+      { productId, variationId, size: size || undefined },
+      Number(quantity),
+      note,
+      actor.email,
+    )
+    return NextResponse.json({ stockAfter })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof InventoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error adjusting stock:", error)
+    return NextResponse.json({ error: "Failed to adjust stock" }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { InventoryService } from "@/lib/services/inventoryService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET() {
+  try {
+    await requirePermission("inventory:manage")
+
+    const items = await InventoryService.getLowStock()
+    return NextResponse.json(items)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching low stock:", error)
+    return NextResponse.json({ error: "Failed to fetch low stock" }, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { InventoryService } from "@/lib/services/inventoryService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission("inventory:manage")
+
+    const productId = request.nextUrl.searchParams.get("productId") || undefined
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || undefined
+    const movements = await InventoryService.getMovements({ productId, limit })
+    return NextResponse.json(movements)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching stock movements:", error)
+    return NextResponse.json({ error: "Failed to fetch stock movements" }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { InvoiceService, InvoiceError } from "@/lib/services/invoiceService"
+import { OrderService } from "@/lib/services/orderService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+// Credit the invoice in full and issue a replacement from the current order and seller details
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const actor = await requirePermission("orders:fulfil")
+
+    const invoice = await InvoiceService.getInvoiceById(params.id)
+    const order = invoice ? await OrderService.getOrderById(invoice.orderId) : null
+    if (!invoice || !order) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    const invoices = await InvoiceService.correctInvoice(params.id, order, actor.email || "unknown")
+    return NextResponse.json(invoices, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Correct invoice error:", error)
+    return NextResponse.json({ error: "Failed to correct invoice" }, { status: 500 })
+  }
+}
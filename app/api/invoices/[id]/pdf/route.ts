@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { InvoiceService } from "@/lib/services/invoiceService"
+import { generateInvoicePDF } from "@/lib/utils/invoicePdf"
+import { requireActor, can, ownsCustomerRecord, AuthorizationError } from "@/lib/authorization"
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const actor = await requireActor("Not signed in")
+
+    // Other customers' invoices answer 404 so invoice ids cannot be probed
+    const invoice = await InvoiceService.getInvoiceById(params.id)
+    if (!invoice || !(ownsCustomerRecord(actor, invoice.customer) || can(actor, "orders:view"))) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 })
+    }
+
+    const pdf = generateInvoicePDF(invoice).output("arraybuffer")
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${invoice.invoiceNumber}.pdf"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Invoice PDF error:", error)
+    return NextResponse.json({ error: "Failed to generate invoice PDF" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { InvoiceService, InvoiceError } from "@/lib/services/invoiceService"
+import { OrderService } from "@/lib/services/orderService"
+import { isOrderNumber } from "@/lib/services/orderNumberService"
+import { PaymentService } from "@/lib/services/paymentService"
+import { requireActor, requirePermission, can, ownsCustomerRecord, AuthorizationError } from "@/lib/authorization"
+
+// Invoices and credit notes for the signed-in customer, or for any order when staff pass ?orderId=
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("Not signed in")
+
+    const orderId = request.nextUrl.searchParams.get("orderId")
+    if (orderId) {
+      const invoices = await InvoiceService.getInvoicesByOrderId(orderId)
+      const visible = can(actor, "orders:view")
+        ? invoices
+        : invoices.filter((invoice) => ownsCustomerRecord(actor, invoice.customer))
+      return NextResponse.json(visible)
+    }
+
+    const invoices = actor.customerNumber ? await InvoiceService.getInvoicesByCustomer(actor.customerNumber) : []
+    return NextResponse.json(invoices)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Get invoices error:", error)
+    return NextResponse.json({ error: "Failed to fetch invoices" }, { status: 500 })
+  }
+}
+
+// Issue any missing invoice or credit notes for an order, or with `retryPending` retry every invoice that failed at payment
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission("orders:fulfil")
+
+    const { orderId, retryPending } = await request.json()
+    if (retryPending) {
+      return NextResponse.json({ issued: await PaymentService.retryPendingInvoices() })
+    }
+    const order = isOrderNumber(orderId) ? await OrderService.getOrderById(orderId) : null
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    const invoices = await InvoiceService.issueForOrder(order)
+    if (order.invoicePending) await OrderService.setInvoicePending(order.id, false)
+    return NextResponse.json(invoices, { status: 201 })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Issue invoices error:", error)
+    return NextResponse.json({ error: "Failed to issue invoices" }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { OrderService } from "@/lib/services/orderService"
+import { PrintFileService, PrintFileError, type PrintFileFormat } from "@/lib/services/printFileService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+const FORMATS: PrintFileFormat[] = ["pdf", "png"]
+
+// GET ?format=pdf|png&dpi=300 renders one designed angle of an order line for production
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; itemIndex: string; angle: string } },
+) {
+  try {
+    await requirePermission("orders:fulfil")
+
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get("format") || "pdf") as PrintFileFormat
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: "format must be pdf or png" }, { status: 400 })
+    }
+    const dpi = searchParams.get("dpi") ? Number(searchParams.get("dpi")) : undefined
+    if (dpi !== undefined && !(Number.isInteger(dpi) && dpi >= 72 && dpi <= 1200)) {
+      return NextResponse.json({ error: "dpi must be a whole number between 72 and 1200" }, { status: 400 })
+    }
+
+    const order = await OrderService.getOrderById(params.id)
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    const file = await PrintFileService.renderPrintFile(order, Number(params.itemIndex), params.angle, { format, dpi })
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof PrintFileError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Render print file error:", error)
+    return NextResponse.json({ error: "Failed to render print file" }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { OrderService } from "@/lib/services/orderService"
+import { PrintFileService } from "@/lib/services/printFileService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+// The production files an order needs, one per designed angle, and the angles that cannot be printed yet
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("orders:fulfil")
+
+    const order = await OrderService.getOrderById(params.id)
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    const { jobs, skipped } = await PrintFileService.listPrintJobs(order)
+    const base = `/api/orders/${encodeURIComponent(order.id)}/print-files`
+    return NextResponse.json({
+      files: jobs.map((job) => ({
+        ...job,
+        url: `${base}/${job.itemIndex}/${encodeURIComponent(job.angle)}`,
+      })),
+      skipped,
+    })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("List print files error:", error)
+    return NextResponse.json({ error: "Failed to list print files" }, { status: 500 })
+  }
+}
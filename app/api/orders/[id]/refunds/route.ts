@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { RefundService, RefundError } from "@/lib/services/refundService"
+import { isOrderNumber } from "@/lib/services/orderNumberService"
+import { GiftCardError } from "@/lib/services/giftCardService"
+import { PaymentProviderError } from "@/lib/payments"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const actor = await requirePermission("orders:fulfil")
+    if (!isOrderNumber(params.id)) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    const { type, items, reason, destination, restock } = await request.json()
+
+    const updatedOrder = await RefundService.refundOrder(
+      params.id,
+      { type, items, reason, destination, restock },
+      actor.email,
+    )
+
+    return NextResponse.json(updatedOrder)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof RefundError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("Refund order error:", error)
+    return NextResponse.json({ error: "Failed to refund order" }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+
+const { OrderService, PaymentService, InventoryService, EmailService } = vi.hoisted(() => ({
+  OrderService: { claimCancellation: vi.fn(), releaseCancellation: vi.fn(), getOrderById: vi.fn(), updateOrderStatus: vi.fn() },
+  PaymentService: { cancelOrderPayment: vi.fn() },
+  InventoryService: { restockOrder: vi.fn() },
+  EmailService: { sendOrderStatusChanged: vi.fn() },
+}))
+
+vi.mock("@/lib/authorization", () => ({
+  requirePermission: async () => ({ email: "ops@example.com" }),
+  AuthorizationError: class extends Error {},
+}))
+vi.mock("@/lib/services/orderService", () => ({ OrderService }))
+vi.mock("@/lib/services/paymentService", () => ({ PaymentService }))
+vi.mock("@/lib/services/inventoryService", () => ({ InventoryService }))
+vi.mock("@/lib/services/emailService", () => ({ EmailService }))
+vi.mock("@/lib/services/refundService", () => ({ RefundError: class extends Error {} }))
+vi.mock("@/lib/services/giftCardService", () => ({ GiftCardError: class extends Error {} }))
+vi.mock("@/lib/payments", () => ({ PaymentProviderError: class extends Error {} }))
+
+import { PATCH } from "@/app/api/orders/[id]/route"
+
+const orderId = "PW-2026-000001-1"
+const cancel = () =>
+  PATCH(
+    new NextRequest(`http://localhost/api/orders/${orderId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "Cancelled" }),
+      headers: { "Content-Type": "application/json" },
+    }),
+    { params: { id: orderId } },
+  )
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  OrderService.claimCancellation.mockResolvedValue({ id: orderId, status: "Queued", paymentStatus: "paid" })
+  OrderService.updateOrderStatus.mockResolvedValue({ id: orderId, status: "Cancelled" })
+})
+
+describe("PATCH /api/orders/[id] cancelling", () => {
+  it("claims the order before undoing its payment", async () => {
+    expect((await cancel()).status).toBe(200)
+    expect(OrderService.claimCancellation.mock.invocationCallOrder[0]).toBeLessThan(
+      PaymentService.cancelOrderPayment.mock.invocationCallOrder[0],
+    )
+    expect(OrderService.updateOrderStatus).toHaveBeenCalledWith(orderId, "Cancelled", expect.anything())
+  })
+
+  it("leaves the payment alone when the order moved on", async () => {
+    OrderService.claimCancellation.mockResolvedValue(null)
+    OrderService.getOrderById.mockResolvedValue({ id: orderId, status: "Shipped" })
+
+    expect((await cancel()).status).toBe(422)
+    expect(PaymentService.cancelOrderPayment).not.toHaveBeenCalled()
+  })
+
+  it("leaves the payment alone while another cancellation runs", async () => {
+    OrderService.claimCancellation.mockResolvedValue(null)
+    OrderService.getOrderById.mockResolvedValue({ id: orderId, status: "Queued" })
+
+    expect((await cancel()).status).toBe(409)
+    expect(PaymentService.cancelOrderPayment).not.toHaveBeenCalled()
+  })
+
+  it("releases the claim when the payment cannot be undone", async () => {
+    PaymentService.cancelOrderPayment.mockRejectedValue(new Error("provider down"))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    expect((await cancel()).status).toBe(500)
+    expect(OrderService.releaseCancellation).toHaveBeenCalledWith(orderId)
+    expect(OrderService.updateOrderStatus).not.toHaveBeenCalled()
+  })
+})
@@ -1,18 +1,97 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { OrderService } from "@/lib/services/orderService"
+import { isOrderNumber } from "@/lib/services/orderNumberService"
+import { InventoryService } from "@/lib/services/inventoryService"
+import { EmailService } from "@/lib/services/emailService"
+import { PaymentService } from "@/lib/services/paymentService"
+import { RefundError } from "@/lib/services/refundService"
+import { GiftCardError } from "@/lib/services/giftCardService"
+import { PaymentProviderError } from "@/lib/payments"
+import { canTransition, isOrderStatus, OrderNotPaidError, OrderStatusTransitionError } from "@/lib/utils/orderStatus"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const { status } = await request.json()
+    const actor = await requirePermission("orders:fulfil")
+    if (!isOrderNumber(params.id)) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    const { status, note, tracking } = await request.json()
 
-    const updatedOrder = await OrderService.updateOrderStatus(params.id, status)
+    if (!isOrderStatus(status)) {
+      return NextResponse.json({ error: `Unknown order status: ${status}` }, { status: 400 })
+    }
+    if (tracking && (status !== "Shipped" || !tracking.carrier?.trim() || !tracking.number?.trim())) {
+      return NextResponse.json({ error: "Tracking needs a carrier and number and is only set when shipping" }, { status: 400 })
+    }
+    if (tracking?.url?.trim() && !/^https?:\/\//i.test(tracking.url.trim())) {
+      return NextResponse.json({ error: "The tracking link must be an http(s) URL" }, { status: 400 })
+    }
+
+    const changedBy = actor.email || "unknown"
+
+    // The order is claimed before its payment is undone, so no other status change can slip in
+    // between; a provider error releases the claim, leaving the order open for a retry
+    if (status === "Cancelled") {
+      const order = await OrderService.claimCancellation(params.id)
+      if (!order) {
+        const current = await OrderService.getOrderById(params.id)
+        if (!current) {
+          return NextResponse.json({ error: "Order not found" }, { status: 404 })
+        }
+        if (!canTransition(current.status, status)) {
+          throw new OrderStatusTransitionError(current.status, status)
+        }
+        return NextResponse.json({ error: "The order is already being cancelled, please reload" }, { status: 409 })
+      }
+      try {
+        await PaymentService.cancelOrderPayment(order, changedBy)
+      } catch (error) {
+        await OrderService.releaseCancellation(params.id)
+        throw error
+      }
+    }
+
+    const updatedOrder = await OrderService.updateOrderStatus(params.id, status, {
+      changedBy,
+      note: typeof note === "string" && note.trim() ? note.trim() : undefined,
+      tracking: tracking
+        ? { carrier: tracking.carrier.trim(), number: tracking.number.trim(), url: tracking.url?.trim() || undefined }
+        : undefined,
+    })
 
     if (!updatedOrder) {
+      const exists = await OrderService.getOrderById(params.id)
+      if (exists) {
+        return NextResponse.json({ error: "Order status changed concurrently, please reload" }, { status: 409 })
+      }
       return NextResponse.json({ error: "Order not found" }, { status: 404 })
     }
 
+    // Cancelled orders never ship, so their stock goes back; Cancelled is final, so this runs once
+    if (status === "Cancelled") {
+      await InventoryService.restockOrder(params.id, undefined, { note: "Order cancelled", createdBy: changedBy })
+    }
+    await EmailService.sendOrderStatusChanged(updatedOrder)
+
     return NextResponse.json(updatedOrder)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof OrderStatusTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    if (error instanceof OrderNotPaidError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof RefundError || error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
     console.error("Update order error:", error)
     return NextResponse.json({ error: "Failed to update order" }, { status: 500 })
   }
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { PricingService, PricingError } from "@/lib/services/pricingService"
+import { getActor } from "@/lib/authorization"
+
+export async function POST(request: NextRequest) {
+  try {
+    const { items, shippingMethodId, shippingOption, destination, couponCode, customerEmail, vatNumber } = await request.json()
+    const actor = await getActor()
+
+    const quote = await PricingService.quoteOrder({
+      items,
+      shippingMethodId: shippingMethodId || shippingOption,
+      destination,
+      couponCode,
+      customer: { customerNumber: actor?.customerNumber, email: customerEmail },
+      vatNumber,
+    })
+
+    return NextResponse.json(quote)
+  } catch (error) {
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Quote order error:", error)
+    return NextResponse.json({ error: "Failed to price order" }, { status: 500 })
+  }
+}
@@ -1,31 +1,23 @@
-import { type NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { OrderService } from "@/lib/services/orderService"
+import { requireActor, can, AuthorizationError } from "@/lib/authorization"
 
+// Staff see every order; customers only their own. Orders are created with their payment, in
+// /api/payment/create-payment-intent, so an order never exists without a payment holding it.
 export async function GET() {
   try {
-    const orders = await OrderService.getAllOrders()
+    const actor = await requireActor()
+
+    if (can(actor, "orders:view")) {
+      return NextResponse.json(await OrderService.getAllOrders())
+    }
+    const orders = actor.customerNumber ? await OrderService.getOrdersByCustomer(actor.customerNumber) : []
     return NextResponse.json(orders)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Get orders error:", error)
     return NextResponse.json({ error: "Failed to fetch orders" }, { status: 500 })
   }
 }
-
-export async function POST(request: NextRequest) {
-  try {
-    const orderData = await request.json()
-
-    const orderId = `ORD-${String(Date.now()).slice(-6)}` // Simple unique ID
-    const newOrder = await OrderService.createOrder({
-      orderId,
-      date: new Date().toISOString().split("T")[0],
-      status: "Queued",
-      ...orderData,
-    })
-
-    return NextResponse.json(newOrder, { status: 201 })
-  } catch (error) {
-    console.error("Create order error:", error)
-    return NextResponse.json({ error: "Failed to create order" }, { status: 500 })
-  }
-}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+
+const { getServerSession, OrderService } = vi.hoisted(() => ({
+  getServerSession: vi.fn(),
+  OrderService: { getOrderById: vi.fn() },
+}))
+
+vi.mock("next-auth/next", () => ({ getServerSession }))
+vi.mock("@/lib/auth", () => ({ authOptions: {} }))
+vi.mock("@/lib/services/orderService", () => ({ OrderService }))
+vi.mock("@/lib/services/invoiceService", () => ({ InvoiceService: {} }))
+vi.mock("@/lib/services/couponService", () => ({ commitCouponReservation: vi.fn(), releaseCouponReservation: vi.fn() }))
+vi.mock("@/lib/services/giftCardService", () => ({ GiftCardService: {} }))
+vi.mock("@/lib/services/inventoryService", () => ({ InventoryService: {} }))
+vi.mock("@/lib/services/emailService", () => ({ EmailService: {} }))
+vi.mock("@/lib/services/pricingService", () => ({ roundCurrency: (value: number) => Math.round(value * 100) / 100 }))
+vi.mock("@/lib/payments", () => ({ getPaymentProvider: vi.fn(), PaymentProviderError: class extends Error {} }))
+
+process.env.NEXTAUTH_SECRET = "test-secret"
+
+import { POST } from "@/app/api/payment/confirm/route"
+import { PaymentService } from "@/lib/services/paymentService"
+
+type Role = "guest" | "user" | "operations" | "admin"
+
+function signInAs(role: Role, customerNumber?: string) {
+  getServerSession.mockResolvedValue(role === "guest" ? null : { user: { id: `${role}-1`, role, customerNumber } })
+}
+
+const confirm = (body: Record<string, unknown>) =>
+  POST(
+    new NextRequest("http://localhost/api/payment/confirm", {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    }),
+  )
+
+const confirmOrderPayment = vi.spyOn(PaymentService, "confirmOrderPayment")
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  OrderService.getOrderById.mockImplementation(async (id: string) =>
+    id === "PW-2026-000001-1" ? { id, customer: "C-1", paymentStatus: "pending" } : null,
+  )
+  confirmOrderPayment.mockResolvedValue({
+    order: { id: "PW-2026-000001-1", paymentStatus: "paid" },
+    payment: { status: "paid" },
+  } as any)
+})
+
+describe("POST /api/payment/confirm", () => {
+  it("confirms for a guest holding the order's confirmation token", async () => {
+    signInAs("guest")
+    const response = await confirm({ orderId: "PW-2026-000001-1", token: PaymentService.confirmationToken("PW-2026-000001-1") })
+    expect(response.status).toBe(200)
+    expect(confirmOrderPayment).toHaveBeenCalledWith("PW-2026-000001-1", {})
+  })
+
+  it("hides the order from a guest without a token or with another order's token", async () => {
+    signInAs("guest")
+    expect((await confirm({ orderId: "PW-2026-000001-1" })).status).toBe(404)
+    expect((await confirm({ orderId: "PW-2026-000001-1", token: PaymentService.confirmationToken("PW-2026-000002-9") })).status).toBe(404)
+    expect(confirmOrderPayment).not.toHaveBeenCalled()
+  })
+
+  it("confirms for the customer who owns the order", async () => {
+    signInAs("user", "C-1")
+    expect((await confirm({ orderId: "PW-2026-000001-1" })).status).toBe(200)
+  })
+
+  it("hides the order from other customers", async () => {
+    signInAs("user", "C-2")
+    expect((await confirm({ orderId: "PW-2026-000001-1" })).status).toBe(404)
+    expect(confirmOrderPayment).not.toHaveBeenCalled()
+  })
+
+  it.each(["operations", "admin"] as const)("confirms any order for %s", async (role) => {
+    signInAs(role)
+    expect((await confirm({ orderId: "PW-2026-000001-1" })).status).toBe(200)
+  })
+
+  it("turns away mistyped order numbers without a lookup", async () => {
+    signInAs("admin")
+    expect((await confirm({ orderId: "PW-2026-000001-7" })).status).toBe(404)
+    expect(OrderService.getOrderById).not.toHaveBeenCalled()
+  })
+
+  it("answers unknown orders like forbidden ones", async () => {
+    signInAs("admin")
+    const response = await confirm({ orderId: "PW-2026-009999-7" })
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: "Order not found" })
+  })
+})
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { PaymentService, PaymentError } from "@/lib/services/paymentService"
+import { OrderService } from "@/lib/services/orderService"
+import { isOrderNumber } from "@/lib/services/orderNumberService"
+import { PaymentProviderError } from "@/lib/payments"
+import { getActor, can, ownsCustomerRecord } from "@/lib/authorization"
+
+// The customer who started the payment (holding its confirmation token), the order's owner or fulfilment staff
+export async function POST(request: NextRequest) {
+  try {
+    const { orderId, authorizationToken, token } = await request.json()
+    if (!orderId) {
+      return NextResponse.json({ error: "Missing order id" }, { status: 400 })
+    }
+    if (!isOrderNumber(orderId)) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    // Order numbers are sequential, so answer 404 rather than revealing which ones exist
+    const [actor, existing] = await Promise.all([getActor(), OrderService.getOrderById(orderId)])
+    const allowed =
+      !!existing &&
+      (PaymentService.isConfirmationToken(existing.id, token) ||
+        ownsCustomerRecord(actor, existing.customer) ||
+        can(actor, "orders:fulfil"))
+    if (!allowed) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 })
+    }
+
+    const { order, payment } = await PaymentService.confirmOrderPayment(
+      orderId,
+      authorizationToken ? { authorizationToken } : {},
+    )
+
+    return NextResponse.json({
+      orderId: order.id,
+      paymentStatus: order.paymentStatus,
+      status: payment.status,
+      error: payment.error,
+    })
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
+    console.error("Error confirming payment:", error)
+    return NextResponse.json({ error: "Failed to confirm payment" }, { status: 500 })
+  }
+}
@@ -1,57 +1,208 @@
 import { NextRequest, NextResponse } from "next/server"
-import Stripe from "stripe"
-
-// Check if Stripe secret key is available
-if (!process.env.STRIPE_SECRET_KEY) {
-  console.warn("STRIPE_SECRET_KEY is not set. Payment functionality will be disabled.")
-}
-
-const stripe = process.env.STRIPE_SECRET_KEY 
-  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
-      apiVersion: "2023-10-16" as any, // Use a valid API version with type assertion
-    })
-  : null
+import { PricingService, PricingError, roundCurrency } from "@/lib/services/pricingService"
+import { OrderService, IdempotencyConflictError } from "@/lib/services/orderService"
+import { PaymentService } from "@/lib/services/paymentService"
+import { CouponRedemptionError, reserveCoupon, releaseCouponReservation } from "@/lib/services/couponService"
+import { GiftCardService, GiftCardError } from "@/lib/services/giftCardService"
+import { InventoryService, InventoryError } from "@/lib/services/inventoryService"
+import { UserService } from "@/lib/services/userService"
+import { appBaseUrl, getPaymentProvider, PaymentProviderError, type ProviderPayment } from "@/lib/payments"
+import type { Order, OrderTender } from "@/lib/models/Order"
+import { getActor } from "@/lib/authorization"
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if Stripe is configured
-    if (!stripe) {
+    const { order: requestOrder, metadata = {} } = await request.json()
+    if (!requestOrder) {
+      return NextResponse.json({ error: "Missing order details" }, { status: 400 })
+    }
+
+    // Gift card codes pay for the order but are not stored on it
+    const { giftCardCodes = [], useStoreCredit = false, ...orderData } = requestOrder
+
+    const provider = getPaymentProvider(orderData.paymentMethod)
+    if (!provider.isEnabled()) {
       return NextResponse.json(
-        { error: "Payment service not configured" },
-        { status: 503 }
+        { error: "The selected payment method is not available" },
+        { status: 400 }
       )
     }
 
-    const { amount, currency = "sek", metadata = {} } = await request.json()
+    // A repeated request (double click, modal re-render, network retry) resumes the original payment
+    const idempotencyKey = request.headers.get("Idempotency-Key") || undefined
+    const requestHash = OrderService.fingerprintRequest(requestOrder)
+    const existingOrder = await OrderService.findReplay({ idempotencyKey, requestHash })
+    if (existingOrder?.paymentIntentId) {
+      const existingPayment = await getPaymentProvider(existingOrder.paymentMethod).confirmPayment(existingOrder.paymentIntentId)
+      return NextResponse.json(
+        {
+          clientSecret: existingPayment.clientSecret,
+          paymentIntentId: existingPayment.reference,
+          orderId: existingOrder.id,
+          confirmationToken: PaymentService.confirmationToken(existingOrder.id),
+          status: existingPayment.status,
+        },
+        { headers: { "Idempotent-Replayed": "true" } },
+      )
+    }
+    if (existingOrder) {
+      // Paid in full with gift cards, so there is no provider payment to resume
+      return NextResponse.json(
+        { orderId: existingOrder.id, status: existingOrder.paymentStatus },
+        { headers: { "Idempotent-Replayed": "true" } },
+      )
+    }
 
-    // Validate amount is a valid number and greater than 0
-    const numericAmount = parseFloat(amount);
-    if (isNaN(numericAmount) || numericAmount <= 0) {
-      console.error("Invalid payment amount:", amount);
+    const actor = await getActor()
+    const couponCustomer = { customerNumber: actor?.customerNumber, email: orderData.customerEmail }
+    if (actor && !(await UserService.hasVerifiedEmail(actor.id))) {
+      return NextResponse.json(
+        { error: "Verify your email address before placing an order", code: "email_unverified" },
+        { status: 403 },
+      )
+    }
+
+    // Charge the server-side quote, never an amount supplied by the browser
+    const quote = await PricingService.quoteOrder({
+      items: orderData.items,
+      shippingMethodId: orderData.shippingMethodId || orderData.shippingOption,
+      destination: PricingService.destinationFor(orderData),
+      couponCode: orderData.appliedCoupon?.code,
+      customer: couponCustomer,
+      vatNumber: orderData.customerVatNumber,
+    })
+    const requestedMethodId = orderData.shippingMethodId || orderData.shippingOption
+    if (requestedMethodId && requestedMethodId !== quote.shippingMethod.methodId) {
+      return NextResponse.json(
+        { error: "The selected shipping method is not available for this address" },
+        { status: 409 }
+      )
+    }
+    if (quote.total <= 0) {
+      console.error("Invalid payment amount:", quote.total)
       return NextResponse.json(
         { error: "Invalid amount. Please provide a valid payment amount." },
         { status: 400 }
       )
     }
 
-    // Create a PaymentIntent with the order amount and currency
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(numericAmount * 100), // Convert to cents using validated numeric amount
-      currency: currency.toLowerCase(),
-      automatic_payment_methods: {
-        enabled: true,
-      },
-      metadata: {
-        ...metadata,
-        integration_check: "accept_a_payment",
-      },
-    })
+    const orderId = await OrderService.generateOrderId()
+
+    // Reserve the coupon before charging so a used-up code never reaches the payment provider.
+    // The use is committed by the payment webhook, or released if the payment fails or is abandoned.
+    if (quote.coupon) {
+      await reserveCoupon({
+        couponId: quote.coupon.id,
+        code: quote.coupon.code,
+        orderId,
+        customer: couponCustomer,
+        amount: quote.discounts.find((discount) => discount.source === "coupon")?.amount ?? 0,
+      })
+    }
+
+    let order: Order
+    let payment: ProviderPayment | undefined
+    try {
+      // Stock is reserved until the payment settles, so two checkouts cannot buy the last item
+      await InventoryService.reserveForOrder(orderId, quote.lines)
+
+      // Gift cards and store credit are held before charging; the provider only takes what is left
+      const giftCardTenders = await GiftCardService.holdForOrder({
+        orderId,
+        amount: quote.total,
+        codes: giftCardCodes,
+        useStoreCredit,
+        customer: actor?.customerNumber,
+      })
+      const giftCardAmount = roundCurrency(giftCardTenders.reduce((sum, tender) => sum + tender.amount, 0))
+      const amountDue = roundCurrency(quote.total - giftCardAmount)
+      const tenders: OrderTender[] = [...giftCardTenders]
+
+      if (amountDue > 0) {
+        payment = await provider.createPayment({
+          orderId,
+          amount: amountDue,
+          lines: PaymentService.paymentLines(quote, giftCardAmount),
+          currency: quote.currency,
+          customer: {
+            name: orderData.customerName,
+            email: orderData.customerEmail,
+            phone: orderData.customerPhone,
+            country: orderData.customerCountry,
+          },
+          // Redirect-based methods bring the customer back here to confirm the payment
+          returnUrl: `${appBaseUrl()}/order-confirmation?orderId=${encodeURIComponent(orderId)}&token=${PaymentService.confirmationToken(orderId)}`,
+          metadata,
+          idempotencyKey,
+        })
+        tenders.push({ method: provider.method, amount: amountDue })
+      }
+
+      // The order exists before payment so the webhook can settle it even if the tab is closed
+      // Only whitelisted customer fields come from the body; everything after them is set by the server
+      const input = OrderService.customerInput(orderData)
+      order = await OrderService.createOrder({
+        ...input,
+        date: new Date().toISOString().split("T")[0],
+        customer: actor?.customerNumber || "Guest",
+        orderId,
+        ...PricingService.applyQuote(input.items, quote),
+        status: "Queued",
+        paymentMethod: provider.method,
+        paymentIntentId: payment?.reference,
+        paymentStatus: payment ? "pending" : "paid",
+        ...(payment ? {} : { paidAt: new Date() }),
+        tenders,
+        idempotencyKey,
+        requestHash,
+      })
+    } catch (error) {
+      await releaseCouponReservation(orderId)
+      await GiftCardService.releaseOrder(orderId)
+      await InventoryService.releaseOrder(orderId)
+      throw error
+    }
+    if (order.id !== orderId) {
+      await releaseCouponReservation(orderId)
+      await GiftCardService.releaseOrder(orderId)
+      await InventoryService.releaseOrder(orderId)
+    } else if (!payment) {
+      await PaymentService.settlePaidOrder(order)
+    }
+
+    if (!payment) {
+      return NextResponse.json({ orderId: order.id, status: order.paymentStatus, quote })
+    }
 
     return NextResponse.json({
-      clientSecret: paymentIntent.client_secret,
-      paymentIntentId: paymentIntent.id,
+      clientSecret: payment.clientSecret,
+      paymentIntentId: payment.reference,
+      orderId: order.id,
+      confirmationToken: PaymentService.confirmationToken(order.id),
+      redirectUrl: payment.redirectUrl,
+      appUrl: payment.appUrl,
+      status: payment.status,
+      quote,
     })
   } catch (error) {
+    if (error instanceof InventoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof GiftCardError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof CouponRedemptionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    if (error instanceof IdempotencyConflictError) {
+      return NextResponse.json({ error: error.message, orderId: error.orderId }, { status: 409 })
+    }
+    if (error instanceof PricingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ error: error.message }, { status: 502 })
+    }
     console.error("Error creating payment intent:", error)
     return NextResponse.json(
       { error: "Failed to create payment intent" },
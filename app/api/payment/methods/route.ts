@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import { getEnabledPaymentMethods } from "@/lib/payments"
+
+export const dynamic = "force-dynamic"
+
+// Payment methods the checkout may offer, based on which providers are configured
+export async function GET() {
+  return NextResponse.json({ methods: getEnabledPaymentMethods() })
+}
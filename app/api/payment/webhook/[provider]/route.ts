@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getProviderByName } from "@/lib/payments"
+import { handlePaymentWebhook } from "@/lib/payments/webhook"
+
+export async function POST(request: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = getProviderByName(params.provider)
+  if (!provider) {
+    return NextResponse.json({ error: "Unknown payment provider" }, { status: 404 })
+  }
+  return handlePaymentWebhook(provider, request)
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server"
+import { stripeProvider } from "@/lib/payments/stripeProvider"
+import { handlePaymentWebhook } from "@/lib/payments/webhook"
+
+// Stripe endpoint registered before other providers; same as /api/payment/webhook/stripe
+export async function POST(request: NextRequest) {
+  return handlePaymentWebhook(stripeProvider, request)
+}
@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { ProductService } from "@/lib/services/productService"
+import { InventoryService } from "@/lib/services/inventoryService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -16,14 +18,23 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
 
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const actor = await requirePermission("catalog:manage")
+
     const productData = await request.json()
+    const previous = await ProductService.getProductById(params.id)
     // Accept hasVariations and variations in the body
     const updatedProduct = await ProductService.updateProduct(params.id, productData)
     if (!updatedProduct) {
       return NextResponse.json({ error: "Product not found" }, { status: 404 })
     }
+    if (previous) {
+      await InventoryService.recordProductEdits(previous, updatedProduct, actor.email)
+    }
     return NextResponse.json(updatedProduct)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Update product error:", error)
     return NextResponse.json({ error: "Failed to update product" }, { status: 500 })
   }
@@ -31,6 +42,8 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
 
 export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    await requirePermission("catalog:manage")
+
     const deleted = await ProductService.deleteProduct(params.id)
 
     if (!deleted) {
@@ -39,6 +52,9 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
 
     return NextResponse.json({ message: "Product deleted successfully" })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Delete product error:", error)
     return NextResponse.json({ error: "Failed to delete product" }, { status: 500 })
   }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { ProductService } from "@/lib/services/productService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET(request: NextRequest) {
   try {
@@ -49,11 +50,16 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission("catalog:manage")
+
     const body = await request.json()
     // Accept hasVariations and variations in the body
     const product = await ProductService.createProduct(body)
     return NextResponse.json(product, { status: 201 })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating product:", error)
     return NextResponse.json(
       { error: "Failed to create product" },
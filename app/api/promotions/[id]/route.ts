@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { PromotionService } from "@/lib/services/promotionService"
+import type { CreatePromotionData } from "@/lib/models/Promotion"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("marketing:manage")
+
+    const updateData: Partial<CreatePromotionData> = await request.json()
+
+    if (updateData.type) {
+      const ruleError = PromotionService.validateRule(updateData)
+      if (ruleError) {
+        return NextResponse.json({ error: ruleError }, { status: 400 })
+      }
+    }
+    if (updateData.validFrom) updateData.validFrom = new Date(updateData.validFrom)
+    if (updateData.validUntil) updateData.validUntil = new Date(updateData.validUntil)
+
+    const promotion = await PromotionService.updatePromotion(params.id, updateData)
+    if (!promotion) {
+      return NextResponse.json({ error: "Promotion not found" }, { status: 404 })
+    }
+    return NextResponse.json(promotion)
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating promotion:", error)
+    return NextResponse.json({ error: error.message || "Failed to update promotion" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("marketing:manage")
+
+    const success = await PromotionService.deletePromotion(params.id)
+    if (!success) {
+      return NextResponse.json({ error: "Promotion not found or failed to delete" }, { status: 404 })
+    }
+    return NextResponse.json({ message: "Promotion deleted successfully" })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting promotion:", error)
+    return NextResponse.json({ error: "Failed to delete promotion" }, { status: 500 })
+  }
+}
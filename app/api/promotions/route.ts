@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { PromotionService } from "@/lib/services/promotionService"
+import type { CreatePromotionData } from "@/lib/models/Promotion"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET() {
+  try {
+    await requirePermission("marketing:manage")
+
+    const promotions = await PromotionService.getAllPromotions()
+    return NextResponse.json(promotions)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching promotions:", error)
+    return NextResponse.json({ error: "Failed to fetch promotions" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission("marketing:manage")
+
+    const promotionData: CreatePromotionData = await request.json()
+
+    if (!promotionData.name || !promotionData.type) {
+      return NextResponse.json({ error: "Missing required fields: name and type are required" }, { status: 400 })
+    }
+    const ruleError = PromotionService.validateRule(promotionData)
+    if (ruleError) {
+      return NextResponse.json({ error: ruleError }, { status: 400 })
+    }
+
+    const promotion = await PromotionService.createPromotion({
+      ...promotionData,
+      priority: Number(promotionData.priority) || 0,
+      stacking: promotionData.stacking || "stackable",
+      isActive: promotionData.isActive ?? true,
+      validFrom: promotionData.validFrom ? new Date(promotionData.validFrom) : undefined,
+      validUntil: promotionData.validUntil ? new Date(promotionData.validUntil) : undefined,
+    })
+    return NextResponse.json(promotion, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating promotion:", error)
+    return NextResponse.json({ error: error.message || "Failed to create promotion" }, { status: 500 })
+  }
+}
@@ -1,9 +1,16 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { UserService } from "@/lib/services/userService"
+import { EmailService } from "@/lib/services/emailService"
+import { passwordPolicyError } from "@/lib/utils/password"
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password } = await request.json()
+    const { email, password, language } = await request.json()
+
+    const policyError = passwordPolicyError(password)
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 })
+    }
 
     // Check if user already exists
     const existingUser = await UserService.findUserByEmail(email)
@@ -15,11 +22,23 @@ export async function POST(request: NextRequest) {
     const customerNumber = `CUST-${Math.floor(10000 + Math.random() * 90000)}`
     const newUser = await UserService.createUser({
       email,
-      password, // In a real app, hash this password before saving
+      password, // Hashed by UserService
       role: "user",
       customerNumber,
+      emailVerifiedAt: null, // Set once the link in the verification email is used
     })
 
+    // The account works right away; the link only has to be used before the first order
+    try {
+      await EmailService.sendEmailVerification(
+        newUser,
+        UserService.createEmailVerificationToken(newUser.id, newUser.email),
+        language,
+      )
+    } catch (error) {
+      console.error(`Failed to send verification email to ${newUser.email}:`, error)
+    }
+
     const { password: _, ...userWithoutPassword } = newUser
 
     return NextResponse.json({
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { NextRequest } from "next/server"
+
+const { getServerSession, UserService, OrderService, ProductService, createCoupon } = vi.hoisted(() => ({
+  getServerSession: vi.fn(),
+  UserService: { getAllUsers: vi.fn(), hasVerifiedEmail: vi.fn() },
+  OrderService: { getAllOrders: vi.fn(), getOrdersByCustomer: vi.fn() },
+  ProductService: { deleteProduct: vi.fn() },
+  createCoupon: vi.fn(),
+}))
+
+vi.mock("next-auth/next", () => ({ getServerSession }))
+vi.mock("@/lib/auth", () => ({ authOptions: {} }))
+vi.mock("@/lib/services/userService", () => ({ UserService }))
+vi.mock("@/lib/services/orderService", () => ({ OrderService }))
+vi.mock("@/lib/services/productService", () => ({ ProductService }))
+vi.mock("@/lib/services/couponService", () => ({
+  createCoupon,
+  getAllCoupons: vi.fn(),
+  releaseExpiredCouponReservations: vi.fn(),
+  CouponRedemptionError: class extends Error {},
+}))
+
+import { GET as listUsers } from "@/app/api/users/route"
+import * as ordersRoute from "@/app/api/orders/route"
+import { DELETE as deleteProduct } from "@/app/api/products/[id]/route"
+import { POST as createCouponRoute } from "@/app/api/coupons/route"
+
+type Role = "guest" | "user" | "operations" | "admin"
+
+function signInAs(role: Role) {
+  getServerSession.mockResolvedValue(
+    role === "guest" ? null : { user: { id: `${role}-1`, role, customerNumber: role === "user" ? "C-1001" : undefined } },
+  )
+}
+
+const json = (body: unknown) =>
+  new NextRequest("http://localhost/api", { method: "POST", body: JSON.stringify(body), headers: { "Content-Type": "application/json" } })
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  UserService.getAllUsers.mockResolvedValue([{ id: "u1" }])
+  OrderService.getAllOrders.mockResolvedValue([{ id: "ORD-1", customer: "C-1001" }, { id: "ORD-2", customer: "C-2002" }])
+  OrderService.getOrdersByCustomer.mockResolvedValue([{ id: "ORD-1", customer: "C-1001" }])
+  ProductService.deleteProduct.mockResolvedValue(true)
+  createCoupon.mockImplementation(async (coupon) => coupon)
+})
+
+describe("GET /api/users", () => {
+  it.each([
+    ["guest", 401],
+    ["user", 403],
+    ["operations", 403],
+    ["admin", 200],
+  ] as const)("answers %s with %i", async (role, status) => {
+    signInAs(role)
+    const response = await listUsers()
+    expect(response.status).toBe(status)
+    expect(UserService.getAllUsers).toHaveBeenCalledTimes(status === 200 ? 1 : 0)
+  })
+})
+
+const listOrders = ordersRoute.GET
+
+describe("GET /api/orders", () => {
+  it("requires a session", async () => {
+    signInAs("guest")
+    expect((await listOrders()).status).toBe(401)
+  })
+
+  it("shows customers only their own orders", async () => {
+    signInAs("user")
+    const response = await listOrders()
+    expect(await response.json()).toEqual([{ id: "ORD-1", customer: "C-1001" }])
+    expect(OrderService.getOrdersByCustomer).toHaveBeenCalledWith("C-1001")
+    expect(OrderService.getAllOrders).not.toHaveBeenCalled()
+  })
+
+  it.each(["operations", "admin"] as const)("shows %s every order", async (role) => {
+    signInAs(role)
+    const response = await listOrders()
+    expect(await response.json()).toHaveLength(2)
+  })
+})
+
+describe("POST /api/orders", () => {
+  // Orders are only created together with their payment
+  it("does not exist", () => {
+    expect("POST" in ordersRoute).toBe(false)
+  })
+})
+
+describe("DELETE /api/products/[id]", () => {
+  it.each([
+    ["guest", 401],
+    ["user", 403],
+    ["operations", 403],
+    ["admin", 200],
+  ] as const)("answers %s with %i", async (role, status) => {
+    signInAs(role)
+    const response = await deleteProduct(new NextRequest("http://localhost/api/products/p1", { method: "DELETE" }), {
+      params: { id: "p1" },
+    })
+    expect(response.status).toBe(status)
+    expect(ProductService.deleteProduct).toHaveBeenCalledTimes(status === 200 ? 1 : 0)
+  })
+})
+
+describe("POST /api/coupons", () => {
+  const coupon = {
+    code: "spring",
+    discountType: "percentage",
+    discountValue: 10,
+    validFrom: "2026-01-01",
+    validUntil: "2026-12-31",
+  }
+
+  it.each([
+    ["guest", 401],
+    ["user", 403],
+    ["operations", 403],
+    ["admin", 201],
+  ] as const)("answers %s with %i", async (role, status) => {
+    signInAs(role)
+    const response = await createCouponRoute(json(coupon))
+    expect(response.status).toBe(status)
+    expect(createCoupon).toHaveBeenCalledTimes(status === 201 ? 1 : 0)
+  })
+})
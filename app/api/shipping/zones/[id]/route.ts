@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ShippingService, validateShippingZone } from "@/lib/services/shippingService"
+import type { CreateShippingZoneData } from "@/lib/models/Shipping"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("settings:manage")
+
+    const zone = await ShippingService.getZoneById(params.id)
+    if (!zone) {
+      return NextResponse.json({ error: "Shipping zone not found" }, { status: 404 })
+    }
+    return NextResponse.json(zone)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching shipping zone:", error)
+    return NextResponse.json({ error: "Failed to fetch shipping zone" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("settings:manage")
+
+    const updateData: Partial<CreateShippingZoneData> = await request.json()
+
+    const existing = await ShippingService.getZoneById(params.id)
+    if (!existing) {
+      return NextResponse.json({ error: "Shipping zone not found" }, { status: 404 })
+    }
+
+    // Validate the zone as it will look after the update
+    const validationError = validateShippingZone({ ...existing, ...updateData })
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const zone = await ShippingService.updateZone(params.id, updateData)
+    return NextResponse.json(zone)
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating shipping zone:", error)
+    return NextResponse.json({ error: error.message || "Failed to update shipping zone" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("settings:manage")
+
+    const success = await ShippingService.deleteZone(params.id)
+    if (!success) {
+      return NextResponse.json({ error: "Shipping zone not found or failed to delete" }, { status: 404 })
+    }
+    return NextResponse.json({ message: "Shipping zone deleted successfully" })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting shipping zone:", error)
+    return NextResponse.json({ error: "Failed to delete shipping zone" }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ShippingService, validateShippingZone } from "@/lib/services/shippingService"
+import type { CreateShippingZoneData } from "@/lib/models/Shipping"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET() {
+  try {
+    await requirePermission("settings:manage")
+
+    const zones = await ShippingService.getAllZones()
+    return NextResponse.json(zones)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching shipping zones:", error)
+    return NextResponse.json({ error: "Failed to fetch shipping zones" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission("settings:manage")
+
+    const zoneData: CreateShippingZoneData = await request.json()
+
+    const validationError = validateShippingZone(zoneData)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const zone = await ShippingService.createZone({ ...zoneData, isActive: zoneData.isActive ?? true })
+    return NextResponse.json(zone, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating shipping zone:", error)
+    return NextResponse.json({ error: error.message || "Failed to create shipping zone" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { StockAlertService, StockAlertError } from "@/lib/services/stockAlertService"
+import { getActor } from "@/lib/authorization"
+
+// Guests can sign up too, so the email comes from the body when nobody is signed in
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await getActor()
+    const { productId, variationId, size, email, language } = await request.json()
+
+    const subscription = await StockAlertService.subscribe({
+      productId,
+      variationId,
+      size: size || undefined,
+      email: email || actor?.email,
+      customer: actor?.customerNumber,
+      language,
+    })
+    return NextResponse.json({ id: subscription.id, status: subscription.status }, { status: 201 })
+  } catch (error) {
+    if (error instanceof StockAlertError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating restock alert:", error)
+    return NextResponse.json({ error: "Failed to sign up for restock alert" }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { StockAlertService } from "@/lib/services/stockAlertService"
+
+// Opened from the link in a restock email
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get("token") || ""
+    const unsubscribed = await StockAlertService.unsubscribe(token)
+    return new NextResponse(
+      unsubscribed ? "You will not get this restock alert." : "This restock alert was already sent or cancelled.",
+      { headers: { "Content-Type": "text/plain; charset=utf-8" } },
+    )
+  } catch (error) {
+    console.error("Error cancelling restock alert:", error)
+    return NextResponse.json({ error: "Failed to cancel restock alert" }, { status: 500 })
+  }
+}
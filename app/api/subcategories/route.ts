@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createSubcategory, getSubcategories } from "@/lib/services/categoryService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET(req: NextRequest) {
   try {
@@ -14,10 +15,15 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
+    await requirePermission("catalog:manage")
+
     const body = await req.json()
     const item = await createSubcategory(body)
     return NextResponse.json(item, { status: 201 })
   } catch (e: any) {
+    if (e instanceof AuthorizationError) {
+      return NextResponse.json({ error: e.message }, { status: e.status })
+    }
     const status = e.message?.includes("exists") ? 400 : 500
     return NextResponse.json({ error: e.message || "Failed to create subcategory" }, { status })
   }
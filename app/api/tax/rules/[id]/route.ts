@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { TaxService } from "@/lib/services/taxService"
+import { TAX_CLASSES, type CreateTaxRuleData } from "@/lib/models/Tax"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("settings:manage")
+
+    const updateData: Partial<CreateTaxRuleData> = await request.json()
+
+    if (updateData.taxClass && !TAX_CLASSES.some((c) => c.value === updateData.taxClass)) {
+      return NextResponse.json({ error: `Unknown tax class: ${updateData.taxClass}` }, { status: 400 })
+    }
+    if (updateData.rate !== undefined && (updateData.rate < 0 || updateData.rate >= 1)) {
+      return NextResponse.json({ error: "Rate must be a fraction between 0 and 1" }, { status: 400 })
+    }
+
+    const rule = await TaxService.updateRule(params.id, updateData)
+    if (!rule) {
+      return NextResponse.json({ error: "Tax rule not found" }, { status: 404 })
+    }
+    return NextResponse.json(rule)
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating tax rule:", error)
+    return NextResponse.json({ error: error.message || "Failed to update tax rule" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("settings:manage")
+
+    const success = await TaxService.deleteRule(params.id)
+    if (!success) {
+      return NextResponse.json({ error: "Tax rule not found or failed to delete" }, { status: 404 })
+    }
+    return NextResponse.json({ message: "Tax rule deleted successfully" })
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error deleting tax rule:", error)
+    return NextResponse.json({ error: "Failed to delete tax rule" }, { status: 500 })
+  }
+}
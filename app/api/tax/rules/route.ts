@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { TaxService } from "@/lib/services/taxService"
+import { TAX_CLASSES, type CreateTaxRuleData } from "@/lib/models/Tax"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET() {
+  try {
+    await requirePermission("settings:manage")
+
+    const rules = await TaxService.getAllRules()
+    return NextResponse.json(rules)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching tax rules:", error)
+    return NextResponse.json({ error: "Failed to fetch tax rules" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission("settings:manage")
+
+    const ruleData: CreateTaxRuleData = await request.json()
+
+    if (!ruleData.country || !ruleData.taxClass || ruleData.rate === undefined) {
+      return NextResponse.json(
+        { error: "Missing required fields: country, taxClass and rate are required" },
+        { status: 400 }
+      )
+    }
+    if (!TAX_CLASSES.some((c) => c.value === ruleData.taxClass)) {
+      return NextResponse.json({ error: `Unknown tax class: ${ruleData.taxClass}` }, { status: 400 })
+    }
+    if (ruleData.rate < 0 || ruleData.rate >= 1) {
+      return NextResponse.json({ error: "Rate must be a fraction between 0 and 1" }, { status: 400 })
+    }
+
+    const rule = await TaxService.createRule({ ...ruleData, isActive: ruleData.isActive ?? true })
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error creating tax rule:", error)
+    return NextResponse.json({ error: error.message || "Failed to create tax rule" }, { status: 500 })
+  }
+}
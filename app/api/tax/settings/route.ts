@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { TaxService } from "@/lib/services/taxService"
+import { TAX_CLASSES, type TaxSettings } from "@/lib/models/Tax"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+export async function GET() {
+  try {
+    await requirePermission("settings:manage")
+
+    const settings = await TaxService.getSettings()
+    return NextResponse.json(settings)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error fetching tax settings:", error)
+    return NextResponse.json({ error: "Failed to fetch tax settings" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    await requirePermission("settings:manage")
+
+    const { pricesIncludeTax, shippingTaxClass, originCountry }: Partial<TaxSettings> = await request.json()
+
+    if (shippingTaxClass && !TAX_CLASSES.some((c) => c.value === shippingTaxClass)) {
+      return NextResponse.json({ error: `Unknown tax class: ${shippingTaxClass}` }, { status: 400 })
+    }
+
+    const settings = await TaxService.updateSettings({
+      ...(pricesIncludeTax !== undefined && { pricesIncludeTax: !!pricesIncludeTax }),
+      ...(shippingTaxClass !== undefined && { shippingTaxClass: shippingTaxClass || null }),
+      ...(originCountry && { originCountry }),
+    })
+    return NextResponse.json(settings)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Error updating tax settings:", error)
+    return NextResponse.json({ error: "Failed to update tax settings" }, { status: 500 })
+  }
+}
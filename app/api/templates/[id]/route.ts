@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { TemplateService } from "@/lib/services/templateService"
 import type { UpdateTemplateData } from "@/lib/models/Template"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 const templateService = new TemplateService()
 
@@ -33,6 +34,8 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    await requirePermission("catalog:manage")
+
     const data: UpdateTemplateData = await request.json()
     data.id = params.id
 
@@ -40,6 +43,9 @@ export async function PUT(
 
     return NextResponse.json(template)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error updating template:", error)
     return NextResponse.json(
       { error: "Failed to update template" },
@@ -53,6 +59,8 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    await requirePermission("catalog:manage")
+
     const success = await templateService.deleteTemplate(params.id)
 
     if (!success) {
@@ -64,6 +72,9 @@ export async function DELETE(
 
     return NextResponse.json({ message: "Template deleted successfully" })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error deleting template:", error)
     return NextResponse.json(
       { error: "Failed to delete template" },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { TemplateService } from "@/lib/services/templateService"
 import type { CreateTemplateData } from "@/lib/models/Template"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 const templateService = new TemplateService()
 
@@ -32,6 +33,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    await requirePermission("catalog:manage")
+
     const data: CreateTemplateData = await request.json()
 
     // Validate required fields
@@ -56,6 +59,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(template, { status: 201 })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Error creating template:", error)
     return NextResponse.json(
       { error: "Failed to create template" },
@@ -1,9 +1,20 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { UserService } from "@/lib/services/userService"
+import { UserService, PasswordError } from "@/lib/services/userService"
+import { requireActor, requirePermission, assertOwnerOr, can, AuthorizationError } from "@/lib/authorization"
+
+const SELF_EDITABLE_FIELDS = ["fullName", "phone", "address", "city", "postalCode", "country"]
 
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const userData = await request.json()
+    const actor = await requireActor()
+    assertOwnerOr(actor, params.id === actor.id, "users:manage")
+
+    // Verification and lockout state only change through their own flows
+    const { emailVerified, emailVerifiedAt, failedLoginCount, lastFailedLoginAt, lockedUntil, ...body } = await request.json()
+    // Customers may edit their own contact details; roles, numbers and emails are managed by admins
+    const userData = can(actor, "users:manage")
+      ? body
+      : Object.fromEntries(Object.entries(body).filter(([field]) => SELF_EDITABLE_FIELDS.includes(field)))
 
     const updatedUser = await UserService.updateUser(params.id, userData)
 
@@ -13,6 +24,12 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
 
     return NextResponse.json(updatedUser)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof PasswordError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Update user error:", error)
     return NextResponse.json({ error: "Failed to update user" }, { status: 500 })
   }
@@ -20,6 +37,8 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
 
 export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    await requirePermission("users:manage")
+
     const deleted = await UserService.deleteUser(params.id)
 
     if (!deleted) {
@@ -28,6 +47,9 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
 
     return NextResponse.json({ message: "User deleted successfully" })
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Delete user error:", error)
     return NextResponse.json({ error: "Failed to delete user" }, { status: 500 })
   }
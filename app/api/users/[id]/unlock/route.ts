@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { UserService } from "@/lib/services/userService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
+
+// Lift a login lockout before it runs out
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    await requirePermission("users:manage")
+
+    const user = await UserService.unlockUser(params.id)
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(user)
+  } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Unlock user error:", error)
+    return NextResponse.json({ error: "Failed to unlock user" }, { status: 500 })
+  }
+}
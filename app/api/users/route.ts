@@ -1,11 +1,17 @@
 import { NextResponse } from "next/server"
 import { UserService } from "@/lib/services/userService"
+import { requirePermission, AuthorizationError } from "@/lib/authorization"
 
 export async function GET() {
   try {
+    await requirePermission("users:manage")
+
     const users = await UserService.getAllUsers()
     return NextResponse.json(users)
   } catch (error) {
+    if (error instanceof AuthorizationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error("Get users error:", error)
     return NextResponse.json({ error: "Failed to fetch users" }, { status: 500 })
   }
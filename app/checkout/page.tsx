@@ -3,7 +3,6 @@
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { useAppSelector, useAppDispatch } from "@/lib/redux/hooks"
-import { createOrder } from "@/lib/redux/slices/ordersSlice"
 import { clearCart } from "@/lib/redux/slices/cartSlice"
 import { translations } from "@/lib/constants"
 import { Button } from "@/components/ui/button"
@@ -11,6 +10,7 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { Separator } from "@/components/ui/separator"
@@ -18,6 +18,10 @@ import { ShieldCheck, CreditCard, Smartphone, ClubIcon as KlarnaIcon } from "luc
 import { useSession } from "next-auth/react"
 import { useToast } from "@/hooks/use-toast"
 import StripePaymentModal from "@/components/payment/stripe-payment-modal"
+import SwishPaymentModal from "@/components/payment/swish-payment-modal"
+import { EmailVerificationNotice } from "@/components/auth/email-verification-notice"
+import type { PaymentMethod } from "@/lib/payments/paymentProvider"
+import type { OrderQuote } from "@/lib/services/pricingService"
 
 export default function CheckoutPage() {
   const dispatch = useAppDispatch()
@@ -28,11 +32,14 @@ export default function CheckoutPage() {
   const t = translations[language]
   const { toast } = useToast()
 
-  const [paymentMethod, setPaymentMethod] = useState("card")
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("card")
+  const [enabledMethods, setEnabledMethods] = useState<PaymentMethod[] | null>(null)
   const [shippingOption, setShippingOption] = useState("standard")
   const [loading, setLoading] = useState(false)
   const [showPaymentModal, setShowPaymentModal] = useState(false)
+  const [showSwishModal, setShowSwishModal] = useState(false)
   const [orderData, setOrderData] = useState<any>(null)
+  const [idempotencyKey, setIdempotencyKey] = useState<string>()
 
   // Billing/Shipping form state
   const [fullName, setFullName] = useState("")
@@ -42,6 +49,7 @@ export default function CheckoutPage() {
   const [city, setCity] = useState("")
   const [postalCode, setPostalCode] = useState("")
   const [country, setCountry] = useState("")
+  const [vatNumber, setVatNumber] = useState("")
 
   // Coupon state
   const [couponCode, setCouponCode] = useState("")
@@ -50,46 +58,119 @@ export default function CheckoutPage() {
   const [couponLoading, setCouponLoading] = useState(false)
   const [couponError, setCouponError] = useState("")
 
-  const subtotal = cart.reduce((total, item) => {
-    let itemPrice = 0;
-    
-    // Handle different price formats
-    if (typeof item.price === 'number') {
-      itemPrice = item.price;
-    } else if (typeof item.price === 'string') {
-      // Remove any non-numeric characters except decimal point
-      const cleanPrice = item.price.replace(/[^\d.-]/g, '');
-      itemPrice = parseFloat(cleanPrice) || 0;
+  // Gift cards are checked for their balance here and held against the order on payment
+  const [giftCardCode, setGiftCardCode] = useState("")
+  const [appliedGiftCards, setAppliedGiftCards] = useState<Array<{ code: string; maskedCode: string; balance: number }>>([])
+  const [giftCardLoading, setGiftCardLoading] = useState(false)
+  const [giftCardError, setGiftCardError] = useState("")
+  const [storeCreditBalance, setStoreCreditBalance] = useState(0)
+  const [useStoreCredit, setUseStoreCredit] = useState(false)
+
+  // Totals come from the server-side pricing engine; the client never computes them
+  const [quote, setQuote] = useState<OrderQuote | null>(null)
+  const [quoteLoading, setQuoteLoading] = useState(false)
+  const couponCodeForQuote = appliedCoupon?.coupon?.code || globalActiveCoupon?.code
+
+  // Only offer the methods whose providers are configured on the server
+  useEffect(() => {
+    const fetchMethods = async () => {
+      try {
+        const response = await fetch("/api/payment/methods")
+        const data = await response.json()
+        const methods: PaymentMethod[] = response.ok ? data.methods : []
+        setEnabledMethods(methods)
+        setPaymentMethod((current) => (methods.includes(current) || methods.length === 0 ? current : methods[0]))
+      } catch (error) {
+        console.error("Error fetching payment methods:", error)
+        setEnabledMethods([])
+      }
+    }
+    fetchMethods()
+  }, [])
+
+  useEffect(() => {
+    if (cart.length === 0) {
+      setQuote(null)
+      return
     }
-    
-    // If we have selectedSizes, calculate from those instead
-    if (item.selectedSizes && item.selectedSizes.length > 0) {
-      return total + item.selectedSizes.reduce((sum, size) => sum + (size.price * size.quantity), 0);
+
+    let cancelled = false
+    const fetchQuote = async () => {
+      setQuoteLoading(true)
+      try {
+        const response = await fetch("/api/orders/quote", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            items: cart,
+            shippingMethodId: shippingOption,
+            destination: { country, postalCode },
+            vatNumber,
+            couponCode: couponCodeForQuote,
+            customerEmail: email || undefined,
+          }),
+        })
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to price order")
+        }
+        if (!cancelled) {
+          setQuote(result)
+          // The server falls back to another method when the selected one does not ship to this address
+          if (result.shippingMethod?.methodId && result.shippingMethod.methodId !== shippingOption) {
+            setShippingOption(result.shippingMethod.methodId)
+          }
+        }
+      } catch (error) {
+        console.error("Error fetching order quote:", error)
+        if (!cancelled) {
+          setQuote(null)
+          toast({
+            title: "Pricing Unavailable",
+            description: error instanceof Error ? error.message : "Could not calculate your order total.",
+            variant: "destructive",
+          })
+        }
+      } finally {
+        if (!cancelled) setQuoteLoading(false)
+      }
     }
-    
-    return total + (itemPrice * item.quantity);
-  }, 0)
-  
-  // Prefer globally active coupon if present; compute discount accordingly
-  const percentageDiscount = globalActiveCoupon?.discountType === "percentage" ? globalActiveCoupon.discountValue : 0
-  const eligibleSubtotal = cart.reduce((total, item) => {
-    const eligible = (item as any).eligibleForCoupons === true
-    let pricePerUnit = 0
-    if (item.selectedSizes && item.selectedSizes.length > 0) {
-      pricePerUnit = item.selectedSizes.reduce((s, sz) => s + (sz.price * sz.quantity), 0) / item.quantity
-    } else if (typeof item.price === 'number') {
-      pricePerUnit = item.price
-    } else if (typeof item.price === 'string') {
-      pricePerUnit = parseFloat(item.price.replace(/[^\d.-]/g, '')) || 0
+
+    // Debounced so typing an address does not fire a request per keystroke
+    const timer = setTimeout(fetchQuote, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
     }
-    return total + (eligible ? pricePerUnit * item.quantity : 0)
-  }, 0)
-  const globalDiscountAmount = (eligibleSubtotal * percentageDiscount) / 100
-  const discountAmount = appliedCoupon?.discountAmount || globalDiscountAmount || 0
-  const subtotalAfterDiscount = Math.max(0, subtotal - discountAmount)
-  const vatAmount = subtotalAfterDiscount * 0.25
-  const shippingCost = shippingOption === "express" ? 149 : 79
-  const grandTotal = subtotalAfterDiscount + vatAmount + shippingCost
+  }, [cart, shippingOption, couponCodeForQuote, email, country, postalCode, vatNumber])
+
+  const subtotal = quote?.subtotal ?? 0
+  const discountAmount = quote?.discountAmount ?? 0
+  const couponDiscountAmount = quote?.discounts.find((d) => d.source === "coupon")?.amount ?? 0
+  const freeShippingDiscount = quote?.discounts.find((d) => d.type === "free_shipping")
+  const vatAmount = quote?.vatAmount ?? 0
+  const shippingCost = quote?.shippingCost ?? 0
+  const grandTotal = quote?.total ?? 0
+
+  // Mirrors the server: gift cards in the order entered, store credit last
+  let giftCardRemaining = grandTotal
+  const giftCardPayments = [
+    ...appliedGiftCards.map((card) => ({ label: `${t.giftCard} ${card.maskedCode}`, balance: card.balance })),
+    ...(useStoreCredit ? [{ label: t.storeCredit, balance: storeCreditBalance }] : []),
+  ].map((payment) => {
+    const amount = Math.round(Math.min(payment.balance, Math.max(0, giftCardRemaining)) * 100) / 100
+    giftCardRemaining -= amount
+    return { label: payment.label, amount }
+  })
+  const amountDue = Math.max(0, Math.round(giftCardRemaining * 100) / 100)
+
+  useEffect(() => {
+    if (!(session?.user as any)?.customerNumber) return
+    fetch("/api/gift-cards/store-credit")
+      .then((response) => (response.ok ? response.json() : { balance: 0 }))
+      .then((data) => setStoreCreditBalance(data.balance || 0))
+      .catch(() => setStoreCreditBalance(0))
+  }, [session])
 
 
 
@@ -110,7 +191,7 @@ useEffect(() => {
   const handleApplyCoupon = async () => {
     // If a global active coupon exists, prefer that and skip manual code
     if (globalActiveCoupon?.code) {
-      setAppliedCoupon({ coupon: globalActiveCoupon, discountAmount: globalDiscountAmount })
+      setAppliedCoupon({ coupon: globalActiveCoupon, discountAmount })
       try {
         const { toast } = await import("@/hooks/use-toast")
         toast({ title: "🎉 Coupon Applied", description: `${globalActiveCoupon.code} activated.` })
@@ -134,6 +215,7 @@ useEffect(() => {
           code: couponCode.trim(),
           orderTotal: subtotal,
           cartItems: cart,
+          customerEmail: email || undefined,
         }),
       })
 
@@ -171,6 +253,45 @@ useEffect(() => {
     })
   }
 
+  const handleApplyGiftCard = async () => {
+    const code = giftCardCode.trim().toUpperCase()
+    if (!code) return
+    if (appliedGiftCards.some((card) => card.code === code)) {
+      setGiftCardError("This gift card is already applied")
+      return
+    }
+
+    setGiftCardLoading(true)
+    setGiftCardError("")
+    try {
+      const response = await fetch("/api/gift-cards/balance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        setGiftCardError(result.error || "Invalid gift card")
+        return
+      }
+      setAppliedGiftCards((cards) => [...cards, { code, maskedCode: result.code, balance: result.balance }])
+      setGiftCardCode("")
+      toast({
+        title: "Gift Card Applied",
+        description: `${result.balance.toFixed(2)} SEK available on ${result.code}`,
+        variant: "success",
+      })
+    } catch (error) {
+      setGiftCardError("Failed to check the gift card. Please try again.")
+    } finally {
+      setGiftCardLoading(false)
+    }
+  }
+
+  const handleRemoveGiftCard = (code: string) => {
+    setAppliedGiftCards((cards) => cards.filter((card) => card.code !== code))
+  }
+
   const handlePayment = async () => {
     if (cart.length === 0) {
       toast({
@@ -223,8 +344,8 @@ useEffect(() => {
             productId: (item as any).productId || item.id,
           };
       }),
-      shippingOption: shippingOption as "standard" | "express",
-      paymentMethod: paymentMethod as "card" | "swish" | "klarna",
+      shippingOption,
+      paymentMethod,
       status: "Queued" as const, // Default status for new orders
       // Customer information from form
       customerName: fullName,
@@ -234,57 +355,125 @@ useEffect(() => {
       customerCity: city,
       customerPostalCode: postalCode,
       customerCountry: country,
+      customerVatNumber: vatNumber || undefined,
+      language,
       // Coupon information
-      appliedCoupon: appliedCoupon ? {
-        code: appliedCoupon.coupon.code,
-        discountAmount: appliedCoupon.discountAmount,
-        discountType: appliedCoupon.coupon.discountType,
+      appliedCoupon: quote?.coupon ? {
+        code: quote.coupon.code,
+        discountAmount: couponDiscountAmount,
+        discountType: quote.coupon.discountType,
       } : null,
+      // Paid first; the selected payment method covers the rest
+      giftCardCodes: appliedGiftCards.map((card) => card.code),
+      useStoreCredit,
     }
 
     setOrderData(orderData)
-    setShowPaymentModal(true)
+    // One key per checkout attempt; re-renders of the payment modal reuse it
+    const key = crypto.randomUUID()
+    setIdempotencyKey(key)
+
+    if (amountDue <= 0 && giftCardPayments.length > 0) {
+      await completeGiftCardPayment(orderData, key)
+    } else if (paymentMethod === "klarna") {
+      await startRedirectPayment(orderData, key)
+    } else if (paymentMethod === "swish") {
+      setShowSwishModal(true)
+    } else {
+      setShowPaymentModal(true)
+    }
   }
 
-  const handlePaymentSuccess = async (paymentIntentId: string) => {
+  // Gift cards and store credit cover the whole order, so the order is paid as soon as it is created
+  const completeGiftCardPayment = async (orderData: any, key: string) => {
+    setLoading(true)
     try {
-      setLoading(true)
-      
-      // Create order with payment information
-      const orderWithPayment = {
-        ...orderData,
-        paymentIntentId,
-        status: "Queued" as const,
+      const response = await fetch("/api/payment/create-payment-intent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify({ order: orderData, currency: "sek" }),
+      })
+      const data = await response.json()
+      if (!response.ok || data.status !== "paid") {
+        throw new Error(data.error || "The gift card balance no longer covers this order")
       }
 
-      await dispatch(createOrder(orderWithPayment)).unwrap()
       dispatch(clearCart())
-      
       toast({
         title: "Payment Successful",
         description: "Your order has been placed successfully!",
         variant: "success",
       })
-
       router.push("/order-confirmation")
     } catch (error) {
-      console.error("Error creating order:", error)
+      console.error("Error paying with gift card:", error)
       toast({
-        title: "Order Creation Failed",
-        description: "Payment was successful but order creation failed. Please contact support.",
+        title: "Payment Error",
+        description: error instanceof Error ? error.message : "Failed to place order",
         variant: "destructive",
       })
-    } finally {
       setLoading(false)
-      setShowPaymentModal(false)
     }
   }
 
+  // Klarna completes on its own hosted page and returns the customer to the order confirmation
+  const startRedirectPayment = async (orderData: any, key: string) => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/payment/create-payment-intent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify({ order: orderData, currency: "sek" }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.redirectUrl) {
+        throw new Error(data.error || "Failed to start payment")
+      }
+
+      toast({ title: t.redirectingToKlarna })
+      window.location.href = data.redirectUrl
+    } catch (error) {
+      console.error("Error starting Klarna payment:", error)
+      toast({
+        title: "Payment Error",
+        description: error instanceof Error ? error.message : "Failed to start payment",
+        variant: "destructive",
+      })
+      setLoading(false)
+    }
+  }
+
+  const handlePaymentSuccess = async (reference: string) => {
+    // The order was created with the payment and is marked paid by the provider's webhook
+    console.log("Payment confirmed:", reference)
+    dispatch(clearCart())
+
+    toast({
+      title: "Payment Successful",
+      description: "Your order has been placed successfully!",
+      variant: "success",
+    })
+
+    setShowPaymentModal(false)
+    setShowSwishModal(false)
+    router.push("/order-confirmation")
+  }
+
   const handlePaymentError = (error: string) => {
     console.error("Payment error:", error)
     setShowPaymentModal(false)
   }
 
+  // The Swish modal stays open with the reason so the customer can cancel or retry
+  const handleSwishError = (error: string) => {
+    console.error("Swish payment error:", error)
+    toast({
+      title: "Payment Failed",
+      description: error,
+      variant: "destructive",
+    })
+  }
+
   // if (cart.length === 0) {
   //   // Redirect to cart if empty, but only if not already on order-confirmation
   //   if (typeof window !== "undefined" && !window.location.pathname.includes("/order-confirmation")) {
@@ -296,6 +485,7 @@ useEffect(() => {
   return (
     <div className="space-y-8">
       <h1 className="text-4xl font-bold text-center text-slate-900 dark:text-white">{t.checkout}</h1>
+      <EmailVerificationNotice />
       <div className="grid lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 space-y-6">
           <Card className="shadow-lg border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
@@ -372,6 +562,16 @@ useEffect(() => {
                     placeholder="Sweden"
                   />
                 </div>
+                <div className="space-y-1 md:col-span-3">
+                  <Label htmlFor="checkout-vat-number">{t.vatNumber}</Label>
+                  <Input
+                    id="checkout-vat-number"
+                    value={vatNumber}
+                    onChange={(e) => setVatNumber(e.target.value)}
+                    placeholder="DE123456789"
+                  />
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{t.vatNumberHint}</p>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -383,28 +583,30 @@ useEffect(() => {
               </CardTitle>
             </CardHeader>
             <CardContent className="p-6">
-              <RadioGroup value={shippingOption} onValueChange={setShippingOption} className="space-y-3">
-                <Label
-                  htmlFor="std-shipping"
-                  className="flex items-center gap-3 p-4 border border-slate-200 dark:border-slate-700 rounded-lg has-[:checked]:border-sky-500 has-[:checked]:bg-sky-50 dark:has-[:checked]:bg-sky-900/30 cursor-pointer transition-all duration-200"
-                >
-                  <RadioGroupItem value="standard" id="std-shipping" />
-                  <div className="flex flex-col">
-                    <span className="font-medium text-slate-900 dark:text-white">{t.standardShipping}</span>
-                    <span className="text-slate-600 dark:text-slate-400 text-sm">79 SEK</span>
-                  </div>
-                </Label>
-                <Label
-                  htmlFor="exp-shipping"
-                  className="flex items-center gap-3 p-4 border border-slate-200 dark:border-slate-700 rounded-lg has-[:checked]:border-sky-500 has-[:checked]:bg-sky-50 dark:has-[:checked]:bg-sky-900/30 cursor-pointer transition-all duration-200"
-                >
-                  <RadioGroupItem value="express" id="exp-shipping" />
-                  <div className="flex flex-col">
-                    <span className="font-medium text-slate-900 dark:text-white">{t.expressShipping}</span>
-                    <span className="text-slate-600 dark:text-slate-400 text-sm">149 SEK</span>
-                  </div>
-                </Label>
-              </RadioGroup>
+              {quote?.shippingRates?.length ? (
+                <RadioGroup value={shippingOption} onValueChange={setShippingOption} className="space-y-3">
+                  {quote.shippingRates.map((rate) => (
+                    <Label
+                      key={rate.methodId}
+                      htmlFor={`shipping-${rate.methodId}`}
+                      className="flex items-center gap-3 p-4 border border-slate-200 dark:border-slate-700 rounded-lg has-[:checked]:border-sky-500 has-[:checked]:bg-sky-50 dark:has-[:checked]:bg-sky-900/30 cursor-pointer transition-all duration-200"
+                    >
+                      <RadioGroupItem value={rate.methodId} id={`shipping-${rate.methodId}`} />
+                      <div className="flex flex-col">
+                        <span className="font-medium text-slate-900 dark:text-white">{rate.name}</span>
+                        <span className="text-slate-600 dark:text-slate-400 text-sm">
+                          {rate.isFree ? t.freeShipping : `${rate.price.toFixed(2)} SEK`} •{" "}
+                          {t.deliveryEstimate
+                            .replace("{min}", String(rate.minDeliveryDays))
+                            .replace("{max}", String(rate.maxDeliveryDays))}
+                        </span>
+                      </div>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              ) : (
+                <p className="text-sm text-slate-600 dark:text-slate-400">{t.noShippingMethods}</p>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -415,27 +617,13 @@ useEffect(() => {
               <CardTitle className="text-2xl font-semibold text-slate-900 dark:text-white">{t.orderSummary}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3 p-6 text-base">
-              {cart.map((item) => (
+              {cart.map((item, index) => (
                 <div key={item.id} className="flex justify-between text-slate-700 dark:text-slate-300">
                   <span>
                     {item.name} x {item.quantity}
                   </span>
                   <span>
-                    {(() => {
-                      let totalPrice;
-                      if (item.selectedSizes && item.selectedSizes.length > 0) {
-                        // Calculate from selected sizes
-                        totalPrice = item.selectedSizes.reduce((sum, size) => sum + (size.price * size.quantity), 0);
-                      } else if (typeof item.price === 'number') {
-                        totalPrice = item.price * item.quantity;
-                      } else if (typeof item.price === 'string') {
-                        const cleanPrice = item.price.replace(/[^\d.-]/g, '');
-                        totalPrice = (parseFloat(cleanPrice) || 0) * item.quantity;
-                      } else {
-                        totalPrice = 0;
-                      }
-                      return `${totalPrice.toFixed(2)} SEK`;
-                    })()}
+                    {quote?.lines[index] ? `${quote.lines[index].lineTotal.toFixed(2)} SEK` : "…"}
                   </span>
                 </div>
               ))}
@@ -444,25 +632,66 @@ useEffect(() => {
                 <span>Subtotal:</span>
                 <span>{subtotal.toFixed(2)} SEK</span>
               </div>
-              {appliedCoupon && (
-                <div className="flex justify-between text-green-600 dark:text-green-400">
-                  <span>Discount ({appliedCoupon.coupon.code}):</span>
-                  <span>-{discountAmount.toFixed(2)} SEK</span>
+              {quote?.discounts
+                .filter((discount) => discount.type !== "free_shipping")
+                .map((discount) => (
+                  <div key={`${discount.source}-${discount.id}`} className="flex justify-between text-green-600 dark:text-green-400">
+                    <span>
+                      {discount.name}
+                      {discount.code && discount.code !== discount.name ? ` (${discount.code})` : ""}:
+                    </span>
+                    <span>-{discount.amount.toFixed(2)} SEK</span>
+                  </div>
+                ))}
+              {quote?.taxBreakdown?.lines.length ? (
+                quote.taxBreakdown.lines.map((line) => (
+                  <div key={line.taxClass} className="flex justify-between text-slate-700 dark:text-slate-300">
+                    <span>
+                      {line.label} ({Math.round(line.rate * 1000) / 10}%)
+                      {quote.taxBreakdown.pricesIncludeTax ? ` ${t.taxIncluded}` : ""}:
+                    </span>
+                    <span>{line.taxAmount.toFixed(2)} SEK</span>
+                  </div>
+                ))
+              ) : (
+                <div className="flex justify-between text-slate-700 dark:text-slate-300">
+                  <span>{t.vat}:</span>
+                  <span>{vatAmount.toFixed(2)} SEK</span>
                 </div>
               )}
+              {quote?.taxBreakdown?.reverseCharge && (
+                <p className="text-xs text-slate-500 dark:text-slate-400">{t.reverseChargeNote}</p>
+              )}
               <div className="flex justify-between text-slate-700 dark:text-slate-300">
-                <span>{t.vat}:</span>
-                <span>{vatAmount.toFixed(2)} SEK</span>
-              </div>
-              <div className="flex justify-between text-slate-700 dark:text-slate-300">
-                <span>{t.shipping}:</span>
+                <span>
+                  {t.shipping}
+                  {quote?.shippingMethod ? ` (${quote.shippingMethod.name})` : ""}:
+                </span>
                 <span>{shippingCost.toFixed(2)} SEK</span>
               </div>
+              {freeShippingDiscount && (
+                <div className="flex justify-between text-green-600 dark:text-green-400">
+                  <span>{freeShippingDiscount.name}:</span>
+                  <span>{t.freeShipping}</span>
+                </div>
+              )}
               <Separator className="bg-slate-200 dark:bg-slate-700" />
               <div className="flex justify-between font-bold text-xl text-slate-900 dark:text-white">
                 <span>{t.total}:</span>
                 <span>{grandTotal.toFixed(2)} SEK</span>
               </div>
+              {giftCardPayments.map((payment) => (
+                <div key={payment.label} className="flex justify-between text-green-600 dark:text-green-400">
+                  <span>{payment.label}:</span>
+                  <span>-{payment.amount.toFixed(2)} SEK</span>
+                </div>
+              ))}
+              {giftCardPayments.length > 0 && (
+                <div className="flex justify-between font-bold text-lg text-slate-900 dark:text-white">
+                  <span>{t.amountToPay}:</span>
+                  <span>{amountDue.toFixed(2)} SEK</span>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -484,9 +713,14 @@ useEffect(() => {
                           Applied
                         </Badge>
                       </div>
-                      <p className="text-sm text-green-700 dark:text-green-300 mt-1">
-                        You're saving {discountAmount.toFixed(2)} SEK on this order!
-                      </p>
+                      {quote?.couponMessage ? (
+                        // Limits can depend on the email entered, so the code may stop applying after it was accepted
+                        <p className="text-sm text-red-600 dark:text-red-400 mt-1">{quote.couponMessage}</p>
+                      ) : (
+                        <p className="text-sm text-green-700 dark:text-green-300 mt-1">
+                          You're saving {couponDiscountAmount.toFixed(2)} SEK on this order!
+                        </p>
+                      )}
                     </div>
                     <Button
                       variant="outline"
@@ -537,64 +771,149 @@ useEffect(() => {
             </CardContent>
           </Card>
 
+          {/* Gift Card Section */}
+          <Card className="shadow-lg border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+            <CardHeader className="border-b border-slate-100 dark:border-slate-700 pb-4">
+              <CardTitle className="text-2xl font-semibold text-slate-900 dark:text-white">{t.giftCard}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-6 space-y-4">
+              {appliedGiftCards.map((card) => (
+                <div
+                  key={card.code}
+                  className="flex items-center justify-between bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3"
+                >
+                  <div>
+                    <span className="font-mono font-bold text-green-800 dark:text-green-200">{card.maskedCode}</span>
+                    <p className="text-sm text-green-700 dark:text-green-300">{card.balance.toFixed(2)} SEK available</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemoveGiftCard(card.code)}
+                    className="text-red-600 border-red-200 hover:bg-red-50 dark:text-red-400 dark:border-red-800 dark:hover:bg-red-900/20"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <Input
+                    placeholder={t.giftCardPlaceholder}
+                    value={giftCardCode}
+                    onChange={(e) => {
+                      setGiftCardCode(e.target.value.toUpperCase())
+                      setGiftCardError("")
+                    }}
+                    className={giftCardError ? "border-red-500 focus:border-red-500" : ""}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault()
+                        handleApplyGiftCard()
+                      }
+                    }}
+                  />
+                </div>
+                <Button
+                  onClick={handleApplyGiftCard}
+                  disabled={giftCardLoading || !giftCardCode.trim()}
+                  className="bg-slate-600 hover:bg-slate-700 text-white"
+                >
+                  {giftCardLoading ? "Checking..." : "Apply"}
+                </Button>
+              </div>
+              {giftCardError && <p className="text-sm text-red-600 dark:text-red-400">{giftCardError}</p>}
+              {storeCreditBalance > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="useStoreCredit"
+                    checked={useStoreCredit}
+                    onCheckedChange={(checked) => setUseStoreCredit(checked === true)}
+                  />
+                  <Label htmlFor="useStoreCredit" className="text-sm text-slate-700 dark:text-slate-300">
+                    {t.useStoreCredit.replace("{amount}", storeCreditBalance.toFixed(2))}
+                  </Label>
+                </div>
+              )}
+              <p className="text-xs text-slate-500 dark:text-slate-400">{t.giftCardHint}</p>
+            </CardContent>
+          </Card>
+
           <Card className="shadow-lg border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
             <CardHeader className="border-b border-slate-100 dark:border-slate-700 pb-4">
               <CardTitle className="text-2xl font-semibold text-slate-900 dark:text-white">{t.paymentMethod}</CardTitle>
             </CardHeader>
             <CardContent className="p-6">
-              <Tabs value={paymentMethod} onValueChange={setPaymentMethod} className="w-full">
-                <TabsList className="grid w-full grid-cols-3 bg-slate-100 dark:bg-slate-700">
-                  <TabsTrigger
+              {enabledMethods && enabledMethods.length === 0 ? (
+                <p className="text-sm text-slate-700 dark:text-slate-300">{t.noPaymentMethods}</p>
+              ) : (
+                <Tabs value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)} className="w-full">
+                  <TabsList
+                    className="grid w-full bg-slate-100 dark:bg-slate-700"
+                    style={{ gridTemplateColumns: `repeat(${enabledMethods?.length || 1}, minmax(0, 1fr))` }}
+                  >
+                    {enabledMethods?.includes("card") && (
+                      <TabsTrigger
+                        value="card"
+                        className="data-[state=active]:bg-white dark:data-[state=active]:bg-slate-800 data-[state=active]:shadow-sm"
+                      >
+                        <CreditCard className="h-4 w-4 mr-1 sm:mr-2" />
+                        {t.payWithCard}
+                      </TabsTrigger>
+                    )}
+                    {enabledMethods?.includes("swish") && (
+                      <TabsTrigger
+                        value="swish"
+                        className="data-[state=active]:bg-white dark:data-[state=active]:bg-slate-800 data-[state=active]:shadow-sm"
+                      >
+                        <Smartphone className="h-4 w-4 mr-1 sm:mr-2" />
+                        {t.payWithSwish}
+                      </TabsTrigger>
+                    )}
+                    {enabledMethods?.includes("klarna") && (
+                      <TabsTrigger
+                        value="klarna"
+                        className="data-[state=active]:bg-white dark:data-[state=active]:bg-slate-800 data-[state=active]:shadow-sm"
+                      >
+                        <KlarnaIcon className="h-4 w-4 mr-1 sm:mr-2" />
+                        {t.payWithKlarna}
+                      </TabsTrigger>
+                    )}
+                  </TabsList>
+                  <TabsContent
                     value="card"
-                    className="data-[state=active]:bg-white dark:data-[state=active]:bg-slate-800 data-[state=active]:shadow-sm"
+                    className="mt-4 text-sm text-slate-700 dark:text-slate-300 p-2 border border-slate-200 dark:border-slate-700 rounded-md bg-slate-50 dark:bg-slate-800/50"
                   >
-                    <CreditCard className="h-4 w-4 mr-1 sm:mr-2" />
-                    {t.payWithCard}
-                  </TabsTrigger>
-                  <TabsTrigger
+                    {t.cardPaymentInstructions}
+                  </TabsContent>
+                  <TabsContent
                     value="swish"
-                    className="data-[state=active]:bg-white dark:data-[state=active]:bg-slate-800 data-[state=active]:shadow-sm"
+                    className="mt-4 text-sm text-slate-700 dark:text-slate-300 p-2 border border-slate-200 dark:border-slate-700 rounded-md bg-slate-50 dark:bg-slate-800/50"
                   >
-                    <Smartphone className="h-4 w-4 mr-1 sm:mr-2" />
-                    {t.payWithSwish}
-                  </TabsTrigger>
-                  <TabsTrigger
+                    {t.swishInstructions}
+                  </TabsContent>
+                  <TabsContent
                     value="klarna"
-                    className="data-[state=active]:bg-white dark:data-[state=active]:bg-slate-800 data-[state=active]:shadow-sm"
+                    className="mt-4 text-sm text-slate-700 dark:text-slate-300 p-2 border border-slate-200 dark:border-slate-700 rounded-md bg-slate-50 dark:bg-slate-800/50"
                   >
-                    <KlarnaIcon className="h-4 w-4 mr-1 sm:mr-2" />
-                    {t.payWithKlarna}
-                  </TabsTrigger>
-                </TabsList>
-                <TabsContent
-                  value="card"
-                  className="mt-4 text-sm text-slate-700 dark:text-slate-300 p-2 border border-slate-200 dark:border-slate-700 rounded-md bg-slate-50 dark:bg-slate-800/50"
-                >
-                  {t.mockCardPayment}
-                </TabsContent>
-                <TabsContent
-                  value="swish"
-                  className="mt-4 text-sm text-slate-700 dark:text-slate-300 p-2 border border-slate-200 dark:border-slate-700 rounded-md bg-slate-50 dark:bg-slate-800/50"
-                >
-                  {t.mockSwishInstructions}
-                </TabsContent>
-                <TabsContent
-                  value="klarna"
-                  className="mt-4 text-sm text-slate-700 dark:text-slate-300 p-2 border border-slate-200 dark:border-slate-700 rounded-md bg-slate-50 dark:bg-slate-800/50"
-                >
-                  {t.mockKlarnaOptions}
-                </TabsContent>
-              </Tabs>
+                    {t.klarnaInstructions}
+                  </TabsContent>
+                </Tabs>
+              )}
             </CardContent>
             <CardFooter className="p-6 pt-0">
               <Button
                 size="lg"
                 className="w-full bg-sky-600 hover:bg-sky-700 text-white shadow-lg"
                 onClick={handlePayment}
-                disabled={loading}
+                disabled={loading || quoteLoading || !quote || !enabledMethods?.includes(paymentMethod)}
               >
                 <ShieldCheck className="mr-2 h-5 w-5" />
-                {loading ? t.processing : `${t.payNow} (${grandTotal.toFixed(2)} SEK)`}
+                {loading
+                  ? t.processing
+                  : amountDue <= 0 && giftCardPayments.length > 0
+                    ? t.placeOrder
+                    : `${t.payNow} (${amountDue.toFixed(2)} SEK)`}
               </Button>
             </CardFooter>
           </Card>
@@ -605,11 +924,23 @@ useEffect(() => {
       <StripePaymentModal
         isOpen={showPaymentModal}
         onClose={() => setShowPaymentModal(false)}
-        amount={grandTotal}
+        amount={amountDue}
         currency="sek"
         onPaymentSuccess={handlePaymentSuccess}
         onPaymentError={handlePaymentError}
         orderData={orderData}
+        idempotencyKey={idempotencyKey}
+      />
+
+      <SwishPaymentModal
+        isOpen={showSwishModal}
+        onClose={() => setShowSwishModal(false)}
+        amount={amountDue}
+        currency="sek"
+        onPaymentSuccess={handlePaymentSuccess}
+        onPaymentError={handleSwishError}
+        orderData={orderData}
+        idempotencyKey={idempotencyKey}
       />
     </div>
   )
@@ -0,0 +1,88 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useAppSelector } from "@/lib/redux/hooks"
+import { translations } from "@/lib/constants"
+import { AuthFormCard } from "@/components/auth/auth-form-card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+
+export default function ForgotPasswordPage() {
+  const { language } = useAppSelector((state) => state.app)
+  const { toast } = useToast()
+  const t = translations[language]
+
+  const [email, setEmail] = useState("")
+  const [sentTo, setSentTo] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, language }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+
+      setSentTo(email)
+    } catch (err) {
+      toast({
+        title: t.forgotPassword,
+        description: err instanceof Error && err.message ? err.message : "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthFormCard
+      title={t.forgotPassword}
+      footerContent={
+        <Button
+          variant="link"
+          className="p-0 text-sky-600 hover:text-sky-700 dark:text-sky-400 dark:hover:text-sky-500"
+          asChild
+        >
+          <Link href="/login">{t.backToLogin}</Link>
+        </Button>
+      }
+    >
+      {sentTo ? (
+        <p className="text-sm text-slate-600 dark:text-slate-300">{t.resetLinkSent.replace("{email}", sentTo)}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-300">{t.forgotPasswordIntro}</p>
+          <div className="space-y-1">
+            <Label htmlFor="email">{t.email}</Label>
+            <Input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              placeholder="you@example.com"
+            />
+          </div>
+          <Button type="submit" className="w-full bg-sky-600 hover:bg-sky-700 text-white" disabled={isSubmitting}>
+            {isSubmitting ? t.sendingResetLink : t.sendResetLink}
+          </Button>
+        </form>
+      )}
+    </AuthFormCard>
+  )
+}
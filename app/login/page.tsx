@@ -43,7 +43,12 @@ export default function LoginPage() {
       if (result?.error) {
         toast({
           title: t.loginFailed,
-          description: t.invalidCredentials,
+          description:
+            result.error === "AccountLocked"
+              ? t.accountLocked
+              : result.error === "TooManyAttempts"
+                ? t.tooManyLoginAttempts
+                : t.invalidCredentials,
           variant: "destructive",
         })
       } else {
@@ -101,7 +106,15 @@ export default function LoginPage() {
             />
           </div>
           <div className="space-y-1">
-            <Label htmlFor="password">{t.password}</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="password">{t.password}</Label>
+              <Link
+                href="/forgot-password"
+                className="text-xs text-sky-600 hover:text-sky-700 dark:text-sky-400 dark:hover:text-sky-500"
+              >
+                {t.forgotPassword}
+              </Link>
+            </div>
             <Input
               id="password"
               type="password"
@@ -1,6 +1,9 @@
 "use client"
 
-import { useAppSelector } from "@/lib/redux/hooks"
+import { Suspense, useEffect, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { useAppSelector, useAppDispatch } from "@/lib/redux/hooks"
+import { clearCart } from "@/lib/redux/slices/cartSlice"
 import { translations } from "@/lib/constants"
 import { Button } from "@/components/ui/button"
 import {
@@ -11,14 +14,91 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card"
-import { ShieldCheck, Package } from "lucide-react"
+import { ShieldCheck, Package, Loader2, XCircle } from "lucide-react"
 import Link from "next/link"
 import { useSession } from "next-auth/react"
 
+type ConfirmationState = "confirmed" | "confirming" | "failed"
+
+// Redirect-based payments (Klarna) return here with the order id and, once approved, an authorization token
+function usePaymentConfirmation(): ConfirmationState {
+  const dispatch = useAppDispatch()
+  const searchParams = useSearchParams()
+  const orderId = searchParams.get("orderId")
+  const authorizationToken = searchParams.get("authorization_token")
+  const token = searchParams.get("token")
+  const outcome = searchParams.get("payment")
+  const [state, setState] = useState<ConfirmationState>(
+    outcome === "canceled" || outcome === "failed" ? "failed" : orderId ? "confirming" : "confirmed",
+  )
+
+  useEffect(() => {
+    if (!orderId || outcome) return
+
+    const confirm = async () => {
+      try {
+        const response = await fetch("/api/payment/confirm", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ orderId, authorizationToken, token }),
+        })
+        const data = await response.json()
+        if (response.ok && (data.status === "paid" || data.status === "pending")) {
+          // Pending means the provider is still reviewing; the webhook settles the order
+          dispatch(clearCart())
+          setState("confirmed")
+        } else {
+          setState("failed")
+        }
+      } catch (error) {
+        console.error("Error confirming payment:", error)
+        setState("failed")
+      }
+    }
+    confirm()
+  }, [orderId, authorizationToken, token, outcome])
+
+  return state
+}
+
 export default function OrderConfirmationPage() {
+  return (
+    <Suspense>
+      <OrderConfirmation />
+    </Suspense>
+  )
+}
+
+function OrderConfirmation() {
   const { language } = useAppSelector((state) => state.app)
   const t = translations[language]
   const { data: session } = useSession()
+  const confirmation = usePaymentConfirmation()
+
+  if (confirmation !== "confirmed") {
+    return (
+      <div className="flex items-center justify-center py-20 px-4 min-h-[calc(100vh-200px)] bg-gradient-to-br from-white to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <Card className="w-full max-w-2xl rounded-2xl shadow-2xl border-0 bg-white dark:bg-slate-900">
+          <CardContent className="flex flex-col items-center gap-4 px-10 py-10 text-center">
+            {confirmation === "confirming" ? (
+              <>
+                <Loader2 className="h-12 w-12 animate-spin text-sky-600" />
+                <p className="text-slate-700 dark:text-slate-300">{t.confirmingPayment}</p>
+              </>
+            ) : (
+              <>
+                <XCircle className="h-12 w-12 text-red-600" />
+                <p className="text-slate-700 dark:text-slate-300">{t.paymentNotCompleted}</p>
+                <Button asChild className="bg-sky-600 hover:bg-sky-700 text-white">
+                  <Link href="/checkout">{t.returnToCheckout}</Link>
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
 
   return (
     <div className="flex items-center justify-center py-20 px-4 min-h-[calc(100vh-200px)] bg-gradient-to-br from-white to-slate-100 dark:from-slate-900 dark:to-slate-800">
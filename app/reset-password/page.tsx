@@ -0,0 +1,117 @@
+"use client"
+
+import type React from "react"
+
+import { Suspense, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { useAppSelector } from "@/lib/redux/hooks"
+import { translations } from "@/lib/constants"
+import { AuthFormCard } from "@/components/auth/auth-form-card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPassword />
+    </Suspense>
+  )
+}
+
+function ResetPassword() {
+  const router = useRouter()
+  const token = useSearchParams().get("token") || ""
+  const { language } = useAppSelector((state) => state.app)
+  const { toast } = useToast()
+  const t = translations[language]
+
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [validationError, setValidationError] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setValidationError("")
+
+    if (password !== confirmPassword) {
+      setValidationError(t.passwordsDoNotMatch)
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        // Policy errors are worth showing as-is; anything else means the link is no longer usable
+        setValidationError(response.status === 400 && data.error?.startsWith("Password") ? data.error : t.invalidResetLink)
+        return
+      }
+
+      toast({ title: t.resetPassword, description: t.passwordResetDone, variant: "success" })
+      router.push("/login")
+    } catch (err) {
+      setValidationError(t.invalidResetLink)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <AuthFormCard
+      title={t.resetPassword}
+      footerContent={
+        <Button
+          variant="link"
+          className="p-0 text-sky-600 hover:text-sky-700 dark:text-sky-400 dark:hover:text-sky-500"
+          asChild
+        >
+          <Link href={token ? "/login" : "/forgot-password"}>{token ? t.backToLogin : t.forgotPassword}</Link>
+        </Button>
+      }
+    >
+      {!token ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{t.invalidResetLink}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-1">
+            <Label htmlFor="password">{t.newPassword}</Label>
+            <Input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={8}
+              placeholder="••••••••"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="confirmPassword">{t.confirmPassword}</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              required
+              placeholder="••••••••"
+            />
+          </div>
+          {validationError && <p className="text-sm text-red-600 dark:text-red-400">{validationError}</p>}
+          <Button type="submit" className="w-full bg-sky-600 hover:bg-sky-700 text-white" disabled={isSubmitting}>
+            {isSubmitting ? t.changingPassword : t.resetPassword}
+          </Button>
+        </form>
+      )}
+    </AuthFormCard>
+  )
+}
@@ -45,7 +45,7 @@ export default function SignupPage() {
       const response = await fetch("/api/register", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, language }),
       })
 
       const data = await response.json()
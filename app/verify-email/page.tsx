@@ -0,0 +1,61 @@
+"use client"
+
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { useAppSelector } from "@/lib/redux/hooks"
+import { translations } from "@/lib/constants"
+import { AuthFormCard } from "@/components/auth/auth-form-card"
+import { Button } from "@/components/ui/button"
+
+export default function VerifyEmailPage() {
+  return (
+    <Suspense>
+      <VerifyEmail />
+    </Suspense>
+  )
+}
+
+function VerifyEmail() {
+  const token = useSearchParams().get("token") || ""
+  const { language } = useAppSelector((state) => state.app)
+  const t = translations[language]
+
+  const [status, setStatus] = useState<"verifying" | "verified" | "invalid">(token ? "verifying" : "invalid")
+
+  useEffect(() => {
+    if (!token) return
+
+    let cancelled = false
+    fetch("/api/auth/verify-email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    })
+      .then((response) => !cancelled && setStatus(response.ok ? "verified" : "invalid"))
+      .catch(() => !cancelled && setStatus("invalid"))
+
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  return (
+    <AuthFormCard
+      title={t.verifyEmailTitle}
+      footerContent={
+        <Button
+          variant="link"
+          className="p-0 text-sky-600 hover:text-sky-700 dark:text-sky-400 dark:hover:text-sky-500"
+          asChild
+        >
+          {status === "verified" ? <Link href="/dashboard">{t.dashboard}</Link> : <Link href="/login">{t.backToLogin}</Link>}
+        </Button>
+      }
+    >
+      {status === "verifying" && <p className="text-sm text-slate-600 dark:text-slate-300">{t.verifyingEmail}</p>}
+      {status === "verified" && <p className="text-sm text-green-700 dark:text-green-400">{t.emailVerified}</p>}
+      {status === "invalid" && <p className="text-sm text-red-600 dark:text-red-400">{t.invalidVerificationLink}</p>}
+    </AuthFormCard>
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import type { PrintArea } from "@/lib/models/Product"
+import { DESIGN_CANVAS_SIZE, printAreaGuides } from "@/lib/utils/printArea"
+
+interface PrintAreaGuidesProps {
+  area: PrintArea
+  className?: string
+  style?: React.CSSProperties
+  children?: React.ReactNode // Extra SVG content in canvas coordinates, e.g. editing handles
+}
+
+/**
+ * Bleed, print and safe zones of a print area drawn over the design canvas. The SVG uses
+ * canvas pixels as its coordinate system, so it lines up with the canvas at any display size.
+ */
+export function PrintAreaGuides({ area, className, style, children }: PrintAreaGuidesProps) {
+  const guides = printAreaGuides(area)
+  const rect = (r: typeof guides.print) => ({ x: r.left, y: r.top, width: r.width, height: r.height })
+
+  return (
+    <svg
+      viewBox={`0 0 ${DESIGN_CANVAS_SIZE} ${DESIGN_CANVAS_SIZE}`}
+      className={className}
+      style={{ pointerEvents: "none", overflow: "visible", ...style }}
+    >
+      <rect {...rect(guides.bleed)} fill="none" stroke="#ef4444" strokeWidth={1} strokeDasharray="2 3" />
+      {guides.polygon ? (
+        <>
+          <rect {...rect(guides.print)} fill="none" stroke="#3b82f6" strokeWidth={0.75} strokeOpacity={0.4} />
+          <polygon
+            points={guides.polygon.map((p) => `${p.x},${p.y}`).join(" ")}
+            fill="rgba(59, 130, 246, 0.04)"
+            stroke="#3b82f6"
+            strokeWidth={1.5}
+          />
+        </>
+      ) : (
+        <rect {...rect(guides.print)} fill="rgba(59, 130, 246, 0.04)" stroke="#3b82f6" strokeWidth={1.5} />
+      )}
+      <rect {...rect(guides.safe)} fill="none" stroke="#22c55e" strokeWidth={1} strokeDasharray="6 4" />
+      {children}
+    </svg>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { MailWarning } from "lucide-react"
+import { useAppSelector } from "@/lib/redux/hooks"
+import { translations } from "@/lib/constants"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+
+// Reminds signed-in customers with an unverified email that orders need a verified address
+export function EmailVerificationNotice({ className }: { className?: string }) {
+  const { status } = useSession()
+  const { language } = useAppSelector((state) => state.app)
+  const { toast } = useToast()
+  const t = translations[language]
+
+  const [email, setEmail] = useState<string | null>(null)
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    if (status !== "authenticated") return
+
+    fetch("/api/auth/verify-email")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setEmail(data && !data.verified ? data.email : null))
+      .catch(() => setEmail(null))
+  }, [status])
+
+  const resend = async () => {
+    setSending(true)
+    try {
+      const response = await fetch("/api/auth/verify-email/resend", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ language }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error)
+      }
+      toast({ title: t.verifyEmailTitle, description: t.verificationSent, variant: "success" })
+    } catch (error) {
+      toast({
+        title: t.verifyEmailTitle,
+        description: error instanceof Error && error.message ? error.message : "Failed to send verification email",
+        variant: "destructive",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (!email) return null
+
+  return (
+    <Alert className={`border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20 ${className ?? ""}`}>
+      <MailWarning className="h-4 w-4 text-amber-600" />
+      <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-amber-900 dark:text-amber-100">
+        <span>{t.verifyEmailNotice.replace("{email}", email)}</span>
+        <Button variant="outline" size="sm" onClick={resend} disabled={sending} className="shrink-0">
+          {t.resendVerification}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -4,9 +4,14 @@ import { useState, useEffect, useMemo } from "react"
 import * as Yup from "yup"
 import { useAppSelector, useAppDispatch } from "@/lib/redux/hooks"
 import { fetchProductsPaginated, createProduct, updateProduct, deleteProduct, setPage, setSearchTerm, setSelectedCategory } from "@/lib/redux/slices/productsSlice"
-import { fetchUsers, updateUser, deleteUser } from "@/lib/redux/slices/usersSlice"
+import { fetchUsers, updateUser, deleteUser, unlockUser } from "@/lib/redux/slices/usersSlice"
 import { fetchTemplates, createTemplate, updateTemplate, deleteTemplate } from "@/lib/redux/slices/templatesSlice"
 import { fetchCoupons, createCoupon, updateCoupon, deleteCoupon } from "@/lib/redux/slices/couponsSlice"
+import { fetchShippingZones, createShippingZone, updateShippingZone, deleteShippingZone } from "@/lib/redux/slices/shippingSlice"
+import { fetchTaxRules, fetchTaxSettings, createTaxRule, updateTaxRule, deleteTaxRule, updateTaxSettings } from "@/lib/redux/slices/taxSlice"
+import { fetchPromotions, createPromotion, updatePromotion, deletePromotion } from "@/lib/redux/slices/promotionsSlice"
+import { fetchGiftCards, issueGiftCard, fetchGiftCardTransactions } from "@/lib/redux/slices/giftCardsSlice"
+import { fetchLowStock, fetchStockMovements } from "@/lib/redux/slices/inventorySlice"
 import { translations } from "@/lib/constants"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -41,7 +46,12 @@ import {
   FolderTree,
   Shield,
   LogOut,
-  User
+  User,
+  Truck,
+  Receipt,
+  Percent,
+  Gift,
+  Boxes
 } from "lucide-react"
 import { toast } from "sonner"
 import type { Product, User as UserType, Template, Coupon } from "@/types"
@@ -50,7 +60,7 @@ import type { CreateTemplateData, CreateCouponData, UpdateCouponData, Category,
 import { fetchCategories, fetchSubcategories, deleteCategory as deleteCategoryThunk, deleteSubcategory as deleteSubcategoryThunk, createCategory as createCategoryThunk, updateCategory as updateCategoryThunk, createSubcategory as createSubcategoryThunk, updateSubcategory as updateSubcategoryThunk } from "@/lib/redux/slices/categoriesSlice"
 
 // Import table components
-import { UserTable } from "./common/UserTable"
+import { UserTable, isLocked } from "./common/UserTable"
 import { ProductTable } from "./common/ProductTable"
 import { TemplateTable } from "./common/TemplateTable"
 import { CouponTable } from "./common/CouponTable"
@@ -64,8 +74,27 @@ import { ProductFormDialog } from "./common/ProductFormDialog"
 import { UserFormDialog } from "./common/UserFormDialog"
 import { TemplateFormDialog } from "./common/TemplateFormDialog"
 import { CouponFormDialog } from "./common/CouponFormDialog"
+import { CouponCodesDialog } from "./common/CouponCodesDialog"
+import { ShippingZoneTable } from "./common/ShippingZoneTable"
+import { ShippingZoneFormDialog } from "./common/ShippingZoneFormDialog"
+import type { CreateShippingZoneData, ShippingZone } from "@/lib/models/Shipping"
+import { TaxRuleTable } from "./common/TaxRuleTable"
+import { TaxRuleFormDialog } from "./common/TaxRuleFormDialog"
+import { TaxSettingsPanel } from "./common/TaxSettingsPanel"
+import type { CreateTaxRuleData, TaxRule, TaxSettings } from "@/lib/models/Tax"
+import { PromotionTable } from "./common/PromotionTable"
+import { PromotionFormDialog } from "./common/PromotionFormDialog"
+import type { CreatePromotionData, Promotion } from "@/lib/models/Promotion"
+import { GiftCardTable } from "./common/GiftCardTable"
+import { GiftCardIssueDialog } from "./common/GiftCardIssueDialog"
+import { GiftCardLedgerDialog } from "./common/GiftCardLedgerDialog"
+import type { CreateGiftCardData } from "@/lib/models/GiftCard"
+import { LowStockTable } from "./common/LowStockTable"
+import { StockMovementTable } from "./common/StockMovementTable"
+import { StockAdjustDialog } from "./common/StockAdjustDialog"
+import type { LowStockItem } from "@/lib/models/Inventory"
 
-type AdminPage = "users" | "products" | "templates" | "coupons" | "categories" | "subcategories" | "analytics"
+type AdminPage = "users" | "products" | "templates" | "coupons" | "promotions" | "giftCards" | "inventory" | "shipping" | "tax" | "categories" | "subcategories" | "analytics"
 
 interface AdminDashboardNewProps {
   onLogout?: () => void
@@ -83,6 +112,11 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
   const { items: users, loading: usersLoading } = useAppSelector((state) => state.users)
   const { items: templates, loading: templatesLoading } = useAppSelector((state) => state.templatesManagement)
   const { items: coupons, loading: couponsLoading } = useAppSelector((state) => state.coupons)
+  const { promotions, loading: promotionsLoading } = useAppSelector((state) => state.promotions)
+  const { giftCards, loading: giftCardsLoading } = useAppSelector((state) => state.giftCards)
+  const { lowStock, movements: stockMovements, loading: inventoryLoading } = useAppSelector((state) => state.inventory)
+  const { zones: shippingZones, loading: shippingLoading } = useAppSelector((state) => state.shipping)
+  const { rules: taxRules, settings: taxSettings, loading: taxLoading } = useAppSelector((state) => state.tax)
   const { categories, subcategories } = useAppSelector((state) => (state as any).categories)
   const { language } = useAppSelector((state) => state.app)
   const t = translations[language]
@@ -104,6 +138,21 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
   const [isAddCouponDialogOpen, setIsAddCouponDialogOpen] = useState(false)
   const [isEditCouponDialogOpen, setIsEditCouponDialogOpen] = useState(false)
   const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null)
+  const [codesCoupon, setCodesCoupon] = useState<Coupon | null>(null)
+
+  const [isPromotionDialogOpen, setIsPromotionDialogOpen] = useState(false)
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null)
+
+  const [isGiftCardDialogOpen, setIsGiftCardDialogOpen] = useState(false)
+  const [ledgerGiftCardId, setLedgerGiftCardId] = useState<string | null>(null)
+
+  const [adjustingStock, setAdjustingStock] = useState<LowStockItem | null>(null)
+
+  const [isShippingZoneDialogOpen, setIsShippingZoneDialogOpen] = useState(false)
+  const [editingShippingZone, setEditingShippingZone] = useState<ShippingZone | null>(null)
+
+  const [isTaxRuleDialogOpen, setIsTaxRuleDialogOpen] = useState(false)
+  const [editingTaxRule, setEditingTaxRule] = useState<TaxRule | null>(null)
 
   const [isAddCategoryOpen, setIsAddCategoryOpen] = useState(false)
   const [isEditCategoryOpen, setIsEditCategoryOpen] = useState(false)
@@ -128,6 +177,13 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
     dispatch(fetchUsers())
     dispatch(fetchTemplates())
     dispatch(fetchCoupons())
+    dispatch(fetchPromotions())
+    dispatch(fetchGiftCards())
+    dispatch(fetchLowStock())
+    dispatch(fetchStockMovements())
+    dispatch(fetchShippingZones())
+    dispatch(fetchTaxRules())
+    dispatch(fetchTaxSettings())
     dispatch(fetchCategories())
     dispatch(fetchSubcategories())
   }, [dispatch])
@@ -164,6 +220,36 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
       icon: Ticket,
       count: coupons.length,
     },
+    {
+      id: "promotions" as AdminPage,
+      label: "Manage Promotions",
+      icon: Percent,
+      count: promotions.length,
+    },
+    {
+      id: "giftCards" as AdminPage,
+      label: "Gift Cards",
+      icon: Gift,
+      count: giftCards.length,
+    },
+    {
+      id: "inventory" as AdminPage,
+      label: "Inventory",
+      icon: Boxes,
+      count: lowStock.length,
+    },
+    {
+      id: "shipping" as AdminPage,
+      label: "Manage Shipping",
+      icon: Truck,
+      count: shippingZones.length,
+    },
+    {
+      id: "tax" as AdminPage,
+      label: "Manage Taxes",
+      icon: Receipt,
+      count: taxRules.length,
+    },
     {
       id: "categories" as AdminPage,
       label: "Manage Categories",
@@ -211,7 +297,7 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
 
   const filteredUsers = users.filter(
     (user) =>
-      (selectedUserRole === "all" || user.role === selectedUserRole) &&
+      (selectedUserRole === "all" || user.role === selectedUserRole || (selectedUserRole === "locked" && isLocked(user))) &&
       (user.email.toLowerCase().includes(userSearchTerm.toLowerCase()) ||
         user.fullName?.toLowerCase().includes(userSearchTerm.toLowerCase()) ||
         user.customerNumber.toLowerCase().includes(userSearchTerm.toLowerCase())),
@@ -377,6 +463,15 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
     }
   }
 
+  const handleUnlockUser = async (user: UserType) => {
+    try {
+      await dispatch(unlockUser(user.id)).unwrap()
+      toast.success(`${t.accountUnlocked}: ${user.email}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to unlock user")
+    }
+  }
+
   const handleDeleteTemplate = async (id: string, name: string) => {
     if (confirm(`Are you sure you want to delete template "${name}"?`)) {
       try {
@@ -399,6 +494,123 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
     }
   }
 
+  const handleSaveShippingZone = async (
+    values: CreateShippingZoneData & { id?: string },
+    { setSubmitting }: FormikHelpers<any>
+  ) => {
+    try {
+      if (values.id) {
+        await dispatch(updateShippingZone({ ...values, id: values.id })).unwrap()
+      } else {
+        await dispatch(createShippingZone(values)).unwrap()
+      }
+      toast.success(`Shipping zone "${values.name}" saved successfully`)
+      setIsShippingZoneDialogOpen(false)
+      setEditingShippingZone(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save shipping zone")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDeleteShippingZone = async (id: string, name: string) => {
+    if (confirm(`Are you sure you want to delete shipping zone "${name}"?`)) {
+      try {
+        await dispatch(deleteShippingZone(id)).unwrap()
+        toast.success(`Shipping zone "${name}" deleted successfully`)
+      } catch (error) {
+        toast.error("Failed to delete shipping zone")
+      }
+    }
+  }
+
+  const handleSavePromotion = async (
+    values: CreatePromotionData & { id?: string },
+    { setSubmitting }: FormikHelpers<any>
+  ) => {
+    try {
+      if (values.id) {
+        await dispatch(updatePromotion({ ...values, id: values.id })).unwrap()
+      } else {
+        await dispatch(createPromotion(values)).unwrap()
+      }
+      toast.success(`Promotion "${values.name}" saved successfully`)
+      setIsPromotionDialogOpen(false)
+      setEditingPromotion(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save promotion")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleIssueGiftCard = async (values: CreateGiftCardData) => {
+    try {
+      const giftCard = await dispatch(issueGiftCard(values)).unwrap()
+      toast.success(`Gift card ${giftCard.code} issued`)
+      setIsGiftCardDialogOpen(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to issue gift card")
+    }
+  }
+
+  const handleViewGiftCardLedger = (giftCardId: string) => {
+    setLedgerGiftCardId(giftCardId)
+    dispatch(fetchGiftCardTransactions(giftCardId))
+  }
+
+  const handleDeletePromotion = async (promotion: Promotion) => {
+    if (confirm(`Are you sure you want to delete the promotion "${promotion.name}"?`)) {
+      try {
+        await dispatch(deletePromotion(promotion.id)).unwrap()
+        toast.success(`Promotion "${promotion.name}" deleted successfully`)
+      } catch (error) {
+        toast.error("Failed to delete promotion")
+      }
+    }
+  }
+
+  const handleSaveTaxRule = async (
+    values: CreateTaxRuleData & { id?: string },
+    { setSubmitting }: FormikHelpers<any>
+  ) => {
+    try {
+      if (values.id) {
+        await dispatch(updateTaxRule({ ...values, id: values.id })).unwrap()
+      } else {
+        await dispatch(createTaxRule(values)).unwrap()
+      }
+      toast.success(`Tax rule for ${values.country} saved successfully`)
+      setIsTaxRuleDialogOpen(false)
+      setEditingTaxRule(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save tax rule")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDeleteTaxRule = async (rule: TaxRule) => {
+    if (confirm(`Are you sure you want to delete the ${rule.taxClass} rule for ${rule.country}?`)) {
+      try {
+        await dispatch(deleteTaxRule(rule.id)).unwrap()
+        toast.success("Tax rule deleted successfully")
+      } catch (error) {
+        toast.error("Failed to delete tax rule")
+      }
+    }
+  }
+
+  const handleSaveTaxSettings = async (settings: Partial<TaxSettings>) => {
+    try {
+      await dispatch(updateTaxSettings(settings)).unwrap()
+      toast.success("Tax settings saved")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save tax settings")
+    }
+  }
+
   const openEditProductDialog = (product: Product) => {
     setEditingProduct(product)
     setIsEditProductDialogOpen(true)
@@ -462,6 +674,7 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
                     <SelectItem value="user">{t.userRole}: {t.user}</SelectItem>
                     <SelectItem value="admin">{t.userRole}: {t.admin}</SelectItem>
                     <SelectItem value="operations">{t.userRole}: {t.operations}</SelectItem>
+                    <SelectItem value="locked">{t.lockedAccounts}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -474,6 +687,7 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
                 getRoleColor={getRoleColor}
                 onEdit={openEditUserDialog}
                 onDelete={handleDeleteUser}
+                onUnlock={handleUnlockUser}
               />
             </CardContent>
           </Card>
@@ -648,6 +862,166 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
                 t={t}
                 onEdit={openEditCouponDialog}
                 onDelete={handleDeleteCoupon}
+                onManageCodes={setCodesCoupon}
+              />
+            </CardContent>
+          </Card>
+        )
+
+      case "shipping":
+        return (
+          <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
+            <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 space-y-4">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
+                  <Truck className="h-5 w-5 text-purple-600" />
+                  Manage Shipping
+                </CardTitle>
+                <Button
+                  className="bg-gradient-to-r from-[#634c9e] to-[#7a5ec7] hover:from-[#584289] hover:to-[#6b52b3] text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                  onClick={() => {
+                    setEditingShippingZone(null)
+                    setIsShippingZoneDialogOpen(true)
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Zone
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <ShippingZoneTable
+                zones={shippingZones}
+                loading={shippingLoading}
+                onEdit={(zone) => {
+                  setEditingShippingZone(zone)
+                  setIsShippingZoneDialogOpen(true)
+                }}
+                onDelete={handleDeleteShippingZone}
+              />
+            </CardContent>
+          </Card>
+        )
+
+      case "promotions":
+        return (
+          <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
+            <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 space-y-4">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
+                  <Percent className="h-5 w-5 text-purple-600" />
+                  Manage Promotions
+                </CardTitle>
+                <Button
+                  className="bg-gradient-to-r from-[#634c9e] to-[#7a5ec7] hover:from-[#584289] hover:to-[#6b52b3] text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                  onClick={() => {
+                    setEditingPromotion(null)
+                    setIsPromotionDialogOpen(true)
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Promotion
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <PromotionTable
+                promotions={promotions}
+                loading={promotionsLoading}
+                onEdit={(promotion) => {
+                  setEditingPromotion(promotion)
+                  setIsPromotionDialogOpen(true)
+                }}
+                onDelete={handleDeletePromotion}
+              />
+            </CardContent>
+          </Card>
+        )
+
+      case "giftCards":
+        return (
+          <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
+            <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 space-y-4">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
+                  <Gift className="h-5 w-5 text-rose-600" />
+                  Gift Cards & Store Credit
+                </CardTitle>
+                <Button
+                  className="bg-gradient-to-r from-[#634c9e] to-[#7a5ec7] hover:from-[#584289] hover:to-[#6b52b3] text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                  onClick={() => setIsGiftCardDialogOpen(true)}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Issue Gift Card
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <GiftCardTable
+                giftCards={giftCards}
+                loading={giftCardsLoading}
+                onViewLedger={(giftCard) => handleViewGiftCardLedger(giftCard.id)}
+              />
+            </CardContent>
+          </Card>
+        )
+
+      case "inventory":
+        return (
+          <div className="space-y-6">
+            <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
+              <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
+                <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
+                  <Boxes className="h-5 w-5 text-amber-600" />
+                  Low Stock
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0 overflow-x-auto">
+                <LowStockTable items={lowStock} loading={inventoryLoading} onAdjust={setAdjustingStock} />
+              </CardContent>
+            </Card>
+            <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
+              <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
+                <CardTitle className="text-slate-900 dark:text-slate-100">Stock Movements</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <StockMovementTable movements={stockMovements} />
+              </CardContent>
+            </Card>
+          </div>
+        )
+
+      case "tax":
+        return (
+          <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
+            <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 space-y-4">
+              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
+                  <Receipt className="h-5 w-5 text-purple-600" />
+                  Manage Taxes
+                </CardTitle>
+                <Button
+                  className="bg-gradient-to-r from-[#634c9e] to-[#7a5ec7] hover:from-[#584289] hover:to-[#6b52b3] text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                  onClick={() => {
+                    setEditingTaxRule(null)
+                    setIsTaxRuleDialogOpen(true)
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Rule
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <TaxSettingsPanel settings={taxSettings} onSave={handleSaveTaxSettings} />
+              <TaxRuleTable
+                rules={taxRules}
+                loading={taxLoading}
+                onEdit={(rule) => {
+                  setEditingTaxRule(rule)
+                  setIsTaxRuleDialogOpen(true)
+                }}
+                onDelete={handleDeleteTaxRule}
               />
             </CardContent>
           </Card>
@@ -948,6 +1322,62 @@ export function AdminDashboardNew({ onLogout }: AdminDashboardNewProps) {
         isEdit={true}
       />
 
+      <CouponCodesDialog
+        key={codesCoupon?.id || 'coupon-codes'}
+        open={!!codesCoupon}
+        onOpenChange={(open) => !open && setCodesCoupon(null)}
+        coupon={coupons.find((coupon) => coupon.id === codesCoupon?.id) || codesCoupon}
+        onGenerated={() => dispatch(fetchCoupons())}
+      />
+
+      <PromotionFormDialog
+        key={editingPromotion?.id || (isPromotionDialogOpen ? 'create-promotion' : 'create-promotion-closed')}
+        open={isPromotionDialogOpen}
+        onOpenChange={setIsPromotionDialogOpen}
+        initialValues={editingPromotion || {}}
+        categories={categories}
+        onSubmit={handleSavePromotion}
+        isEdit={!!editingPromotion}
+      />
+
+      <GiftCardIssueDialog
+        open={isGiftCardDialogOpen}
+        onOpenChange={setIsGiftCardDialogOpen}
+        onSubmit={handleIssueGiftCard}
+      />
+
+      <GiftCardLedgerDialog
+        key={ledgerGiftCardId || 'gift-card-ledger'}
+        open={!!ledgerGiftCardId}
+        onOpenChange={(open) => !open && setLedgerGiftCardId(null)}
+        giftCard={giftCards.find((giftCard) => giftCard.id === ledgerGiftCardId) || null}
+      />
+
+      <StockAdjustDialog
+        key={adjustingStock ? `${adjustingStock.variationId}-${adjustingStock.size || ''}` : 'stock-adjust'}
+        open={!!adjustingStock}
+        onOpenChange={(open) => !open && setAdjustingStock(null)}
+        item={adjustingStock}
+      />
+
+      <ShippingZoneFormDialog
+        key={editingShippingZone?.id || (isShippingZoneDialogOpen ? 'create-zone' : 'create-zone-closed')}
+        open={isShippingZoneDialogOpen}
+        onOpenChange={setIsShippingZoneDialogOpen}
+        initialValues={editingShippingZone || {}}
+        onSubmit={handleSaveShippingZone}
+        isEdit={!!editingShippingZone}
+      />
+
+      <TaxRuleFormDialog
+        key={editingTaxRule?.id || (isTaxRuleDialogOpen ? 'create-tax-rule' : 'create-tax-rule-closed')}
+        open={isTaxRuleDialogOpen}
+        onOpenChange={setIsTaxRuleDialogOpen}
+        initialValues={editingTaxRule || {}}
+        onSubmit={handleSaveTaxRule}
+        isEdit={!!editingTaxRule}
+      />
+
       {/* Category Dialogs */}
       <CategoryFormDialog
         open={isAddCategoryOpen}
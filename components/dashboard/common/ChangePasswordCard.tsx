@@ -0,0 +1,104 @@
+import React, { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { KeyRound } from "lucide-react"
+import { toast } from "sonner"
+import { useAppSelector } from "@/lib/redux/hooks"
+import { translations } from "@/lib/constants"
+
+export const ChangePasswordCard: React.FC = () => {
+  const { language } = useAppSelector((state) => state.app)
+  const t = translations[language]
+
+  const [currentPassword, setCurrentPassword] = useState("")
+  const [newPassword, setNewPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (newPassword !== confirmPassword) {
+      toast.error(t.passwordsDoNotMatch)
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch("/api/auth/change-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to change password")
+      }
+
+      setCurrentPassword("")
+      setNewPassword("")
+      setConfirmPassword("")
+      toast.success(t.passwordChanged)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to change password")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
+      <CardHeader className="border-b border-primary/10 dark:border-primary/20 bg-primary/5 dark:bg-primary/10">
+        <CardTitle className="flex items-center gap-2 text-primary dark:text-primary/90">
+          <KeyRound className="h-5 w-5 text-primary" />
+          {t.changePassword}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="currentPassword">{t.currentPassword}</Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              autoComplete="current-password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">{t.newPassword}</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmNewPassword">{t.confirmPassword}</Label>
+              <Input
+                id="confirmNewPassword"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <Button type="submit" className="bg-primary hover:bg-primary/90 text-white shadow-md" disabled={submitting}>
+            {submitting ? t.changingPassword : t.changePassword}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
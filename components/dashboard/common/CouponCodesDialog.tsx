@@ -0,0 +1,133 @@
+import React, { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Download, AlertCircle } from "lucide-react"
+import { toast } from "sonner"
+import type { Coupon } from "@/types"
+
+interface CouponCodesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  coupon: Coupon | null
+  onGenerated: () => void
+}
+
+const csvUrl = (couponId: string, batchId?: string) =>
+  `/api/coupons/${couponId}/codes?format=csv${batchId ? `&batchId=${encodeURIComponent(batchId)}` : ""}`
+
+export const CouponCodesDialog: React.FC<CouponCodesDialogProps> = ({ open, onOpenChange, coupon, onGenerated }) => {
+  const [count, setCount] = useState(100)
+  const [prefix, setPrefix] = useState("")
+  const [generating, setGenerating] = useState(false)
+  const [lastBatch, setLastBatch] = useState<{ batchId: string; count: number } | null>(null)
+
+  if (!coupon) return null
+
+  const handleGenerate = async () => {
+    setGenerating(true)
+    try {
+      const response = await fetch(`/api/coupons/${coupon.id}/codes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ count, prefix: prefix || undefined }),
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to generate codes")
+      }
+      setLastBatch({ batchId: result.batchId, count: result.count })
+      toast.success(`${result.count} codes generated for "${coupon.code}"`)
+      onGenerated()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to generate codes")
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary">Single-Use Codes</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-400">
+            Generate unique codes for <span className="font-mono font-semibold">{coupon.code}</span>. Each code can be
+            redeemed once and uses the discount and limits of this coupon.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!coupon.singleUseCodesOnly && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Once codes are generated, the code {coupon.code} itself can no longer be redeemed.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="codeCount">Number of codes</Label>
+              <Input
+                id="codeCount"
+                type="number"
+                min="1"
+                max="10000"
+                value={count}
+                onChange={(e) => setCount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="codePrefix">Prefix</Label>
+              <Input
+                id="codePrefix"
+                placeholder="Optional"
+                maxLength={8}
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ""))}
+              />
+            </div>
+          </div>
+
+          {lastBatch && (
+            <Button asChild variant="outline" className="w-full">
+              <a href={csvUrl(coupon.id, lastBatch.batchId)}>
+                <Download className="mr-2 h-4 w-4" />
+                Download the {lastBatch.count} new codes (CSV)
+              </a>
+            </Button>
+          )}
+
+          {coupon.singleUseCodesOnly && (
+            <Button asChild variant="ghost" className="w-full">
+              <a href={csvUrl(coupon.id)}>
+                <Download className="mr-2 h-4 w-4" />
+                Download all codes with redemption status (CSV)
+              </a>
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-3">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={generating}>
+            Close
+          </Button>
+          <Button onClick={handleGenerate} disabled={generating || count < 1} className="bg-primary hover:bg-primary/90">
+            {generating ? "Generating..." : "Generate Codes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -43,6 +43,7 @@ const couponSchema = Yup.object().shape({
     .min(0.01, "Discount value must be greater than 0"),
   minimumOrderAmount: Yup.number().min(0, "Minimum order amount must be 0 or greater"),
   maxUsageCount: Yup.number().min(1, "Maximum usage count must be at least 1"),
+  maxUsesPerCustomer: Yup.number().min(1, "Uses per customer must be at least 1"),
   validFrom: Yup.date().required("Valid from date is required"),
   validUntil: Yup.date()
     .required("Valid until date is required")
@@ -73,6 +74,11 @@ export const CouponFormDialog: React.FC<CouponFormDialogProps> = ({
       discountValue: initialValues.discountValue ?? 0,
       minimumOrderAmount: initialValues.minimumOrderAmount ?? 0,
       maxUsageCount: initialValues.maxUsageCount ?? undefined,
+      priority: initialValues.priority ?? 0,
+      stacking: initialValues.stacking || "stackable",
+      maxUsesPerCustomer: initialValues.maxUsesPerCustomer ?? undefined,
+      firstOrderOnly: initialValues.firstOrderOnly ?? false,
+      allowedCustomers: (initialValues.allowedCustomers || []).join(", "),
       isActive: initialValues.isActive !== undefined ? initialValues.isActive : true,
       validFrom: initialValues.validFrom
         ? new Date(initialValues.validFrom).toISOString().slice(0, 16)
@@ -88,6 +94,11 @@ export const CouponFormDialog: React.FC<CouponFormDialogProps> = ({
       initialValues.discountValue,
       initialValues.minimumOrderAmount,
       initialValues.maxUsageCount,
+      initialValues.priority,
+      initialValues.stacking,
+      initialValues.maxUsesPerCustomer,
+      initialValues.firstOrderOnly,
+      initialValues.allowedCustomers,
       initialValues.isActive,
       initialValues.validFrom,
       initialValues.validUntil,
@@ -106,6 +117,12 @@ export const CouponFormDialog: React.FC<CouponFormDialogProps> = ({
         validUntil: new Date(values.validUntil),
         minimumOrderAmount: values.minimumOrderAmount || undefined,
         maxUsageCount: values.maxUsageCount || undefined,
+        priority: Number(values.priority) || 0,
+        maxUsesPerCustomer: values.maxUsesPerCustomer || undefined,
+        allowedCustomers: values.allowedCustomers
+          .split(",")
+          .map((customer) => customer.trim())
+          .filter(Boolean),
       }
       onSubmit(submitData as any, helpers)
     },
@@ -300,6 +317,85 @@ export const CouponFormDialog: React.FC<CouponFormDialogProps> = ({
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Priority */}
+            <div className="space-y-2">
+              <Label htmlFor="priority" className="text-sm font-medium">
+                Priority
+              </Label>
+              <Input id="priority" type="number" value={formik.values.priority} onChange={formik.handleChange} />
+              <p className="text-xs text-slate-500">Higher priority discounts are applied before promotions with a lower one</p>
+            </div>
+
+            {/* Stacking */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Stacking</Label>
+              <Select value={formik.values.stacking} onValueChange={(value) => formik.setFieldValue("stacking", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stackable">Combines with promotions</SelectItem>
+                  <SelectItem value="exclusive">Exclusive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Uses Per Customer */}
+            <div className="space-y-2">
+              <Label htmlFor="maxUsesPerCustomer" className="text-sm font-medium">
+                Uses Per Customer
+              </Label>
+              <Input
+                id="maxUsesPerCustomer"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={formik.values.maxUsesPerCustomer || ""}
+                onChange={formik.handleChange}
+                onBlur={formik.handleBlur}
+                className={formik.touched.maxUsesPerCustomer && formik.errors.maxUsesPerCustomer ? "border-red-500" : ""}
+              />
+              {formik.touched.maxUsesPerCustomer && formik.errors.maxUsesPerCustomer && (
+                <p className="text-sm text-red-600">{formik.errors.maxUsesPerCustomer}</p>
+              )}
+              <p className="text-xs text-slate-500">Guests are counted by email address</p>
+            </div>
+
+            {/* First Order Only */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">First Order Only</Label>
+              <div className="flex items-center space-x-2 pt-2">
+                <Switch
+                  id="firstOrderOnly"
+                  checked={formik.values.firstOrderOnly}
+                  onCheckedChange={(checked) => formik.setFieldValue("firstOrderOnly", checked)}
+                />
+                <Label htmlFor="firstOrderOnly" className="text-sm">
+                  {formik.values.firstOrderOnly ? "New customers only" : "All customers"}
+                </Label>
+              </div>
+            </div>
+          </div>
+
+          {/* Allowed Customers */}
+          <div className="space-y-2">
+            <Label htmlFor="allowedCustomers" className="text-sm font-medium">
+              Restrict to Customers
+            </Label>
+            <Input
+              id="allowedCustomers"
+              placeholder="Customer numbers, separated by commas"
+              value={formik.values.allowedCustomers}
+              onChange={formik.handleChange}
+            />
+            <p className="text-xs text-slate-500">Leave empty to allow every customer</p>
+          </div>
+
           <Separator />
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -3,7 +3,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Edit3, Trash2, Percent, DollarSign } from "lucide-react"
+import { Edit3, Trash2, Percent, DollarSign, KeyRound } from "lucide-react"
 import type { Coupon } from "@/types"
 
 interface CouponTableProps {
@@ -12,9 +12,10 @@ interface CouponTableProps {
   t: any
   onEdit: (coupon: Coupon) => void
   onDelete: (id: string, code: string) => void
+  onManageCodes: (coupon: Coupon) => void
 }
 
-export const CouponTable: React.FC<CouponTableProps> = ({ coupons, loading, t, onEdit, onDelete }) => {
+export const CouponTable: React.FC<CouponTableProps> = ({ coupons, loading, t, onEdit, onDelete, onManageCodes }) => {
   const CouponSkeleton = () => (
     <div className="p-6 space-y-4">
       {[...Array(5)].map((_, i) => (
@@ -110,6 +111,9 @@ export const CouponTable: React.FC<CouponTableProps> = ({ coupons, loading, t, o
             >
               <TableCell className="font-mono font-medium text-slate-900 dark:text-slate-100 py-4">
                 {coupon.code}
+                {coupon.singleUseCodesOnly && (
+                  <div className="font-sans text-xs font-normal text-slate-500">Single-use codes</div>
+                )}
               </TableCell>
               <TableCell className="text-slate-700 dark:text-slate-300 py-4">
                 <div className="max-w-[200px] truncate">
@@ -134,6 +138,9 @@ export const CouponTable: React.FC<CouponTableProps> = ({ coupons, loading, t, o
               <TableCell className="text-slate-700 dark:text-slate-300 py-4">
                 {coupon.currentUsageCount}
                 {coupon.maxUsageCount ? ` / ${coupon.maxUsageCount}` : " / ∞"}
+                {coupon.maxUsesPerCustomer && (
+                  <div className="text-xs text-slate-500">{coupon.maxUsesPerCustomer} per customer</div>
+                )}
               </TableCell>
               <TableCell className="text-slate-700 dark:text-slate-300 py-4">
                 {formatDate(coupon.validUntil)}
@@ -153,6 +160,14 @@ export const CouponTable: React.FC<CouponTableProps> = ({ coupons, loading, t, o
                   >
                     <Edit3 className="mr-1.5 h-4 w-4" />Edit
                   </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => onManageCodes(coupon)} 
+                    className="border-primary/30 hover:bg-primary/5 hover:border-primary dark:hover:bg-primary/20 transition-colors text-primary"
+                  >
+                    <KeyRound className="mr-1.5 h-4 w-4" />Codes
+                  </Button>
                   <Button 
                     variant="outline" 
                     size="sm" 
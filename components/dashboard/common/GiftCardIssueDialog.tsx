@@ -0,0 +1,113 @@
+import React, { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import type { CreateGiftCardData } from "@/lib/models/GiftCard"
+
+interface GiftCardIssueDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (values: CreateGiftCardData) => Promise<void>
+}
+
+export const GiftCardIssueDialog: React.FC<GiftCardIssueDialogProps> = ({ open, onOpenChange, onSubmit }) => {
+  const [amount, setAmount] = useState(500)
+  const [expiresAt, setExpiresAt] = useState("")
+  const [recipientName, setRecipientName] = useState("")
+  const [recipientEmail, setRecipientEmail] = useState("")
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    try {
+      await onSubmit({
+        kind: "gift_card",
+        amount,
+        expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+        recipientName: recipientName || undefined,
+        recipientEmail: recipientEmail || undefined,
+        note: note || undefined,
+      })
+      setRecipientName("")
+      setRecipientEmail("")
+      setNote("")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary">Issue Gift Card</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-400">
+            A new code is generated. The balance can be spent over several orders until it runs out or expires.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="giftCardAmount">Amount (SEK)</Label>
+              <Input
+                id="giftCardAmount"
+                type="number"
+                min="1"
+                value={amount}
+                onChange={(e) => setAmount(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="giftCardExpiresAt">Expires</Label>
+              <Input id="giftCardExpiresAt" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="giftCardRecipientName">Recipient name</Label>
+              <Input id="giftCardRecipientName" value={recipientName} onChange={(e) => setRecipientName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="giftCardRecipientEmail">Recipient email</Label>
+              <Input
+                id="giftCardRecipientEmail"
+                type="email"
+                value={recipientEmail}
+                onChange={(e) => setRecipientEmail(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="giftCardNote">Note</Label>
+            <Textarea
+              id="giftCardNote"
+              placeholder="e.g. Sold in store, receipt 1042"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-3">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || amount <= 0} className="bg-primary hover:bg-primary/90">
+            {submitting ? "Issuing..." : "Issue Gift Card"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
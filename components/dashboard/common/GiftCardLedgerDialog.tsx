@@ -0,0 +1,154 @@
+import React, { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { useAppDispatch, useAppSelector } from "@/lib/redux/hooks"
+import { adjustGiftCardBalance, setGiftCardStatus } from "@/lib/redux/slices/giftCardsSlice"
+import type { GiftCard, GiftCardTransaction } from "@/lib/models/GiftCard"
+
+interface GiftCardLedgerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  giftCard: GiftCard | null
+}
+
+const transactionLabel = (transaction: GiftCardTransaction) => {
+  switch (transaction.type) {
+    case "issue":
+      return "Issued"
+    case "redeem":
+      return transaction.holdStatus === "held" ? "Held for order" : "Redeemed"
+    case "release":
+      return "Hold released"
+    case "refund":
+      return "Refunded"
+    default:
+      return "Adjusted"
+  }
+}
+
+export const GiftCardLedgerDialog: React.FC<GiftCardLedgerDialogProps> = ({ open, onOpenChange, giftCard }) => {
+  const dispatch = useAppDispatch()
+  const { transactions } = useAppSelector((state) => state.giftCards)
+  const [adjustment, setAdjustment] = useState(0)
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  if (!giftCard) return null
+
+  const handleAdjust = async () => {
+    setSaving(true)
+    try {
+      await dispatch(adjustGiftCardBalance({ id: giftCard.id, adjustment, note })).unwrap()
+      toast.success(`Balance of ${giftCard.code} adjusted`)
+      setAdjustment(0)
+      setNote("")
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to adjust balance")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleStatus = async () => {
+    const status = giftCard.status === "active" ? "disabled" : "active"
+    setSaving(true)
+    try {
+      await dispatch(setGiftCardStatus({ id: giftCard.id, status })).unwrap()
+      toast.success(`${giftCard.code} ${status === "active" ? "enabled" : "disabled"}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update gift card")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary font-mono">{giftCard.code}</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-400">
+            Balance {giftCard.balance.toFixed(2)} SEK
+            {giftCard.customer && ` • store credit of ${giftCard.customer}`}
+            {giftCard.note && ` • ${giftCard.note}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-72 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Entry</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.map((transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell className="text-xs">{new Date(transaction.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <div>{transactionLabel(transaction)}</div>
+                    {transaction.note && <div className="text-xs text-slate-500">{transaction.note}</div>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{transaction.orderId || "—"}</TableCell>
+                  <TableCell className={`text-right ${transaction.amount < 0 ? "text-red-600" : "text-green-700"}`}>
+                    {transaction.amount > 0 ? "+" : ""}
+                    {transaction.amount.toFixed(2)}
+                  </TableCell>
+                  <TableCell className="text-right">{transaction.balanceAfter.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="giftCardAdjustment">Adjust by (SEK)</Label>
+            <Input
+              id="giftCardAdjustment"
+              type="number"
+              value={adjustment}
+              onChange={(e) => setAdjustment(Number(e.target.value))}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="giftCardAdjustmentNote">Reason</Label>
+            <Input
+              id="giftCardAdjustmentNote"
+              placeholder="Required for adjustments"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-3">
+          <Button type="button" variant="outline" onClick={handleToggleStatus} disabled={saving}>
+            {giftCard.status === "active" ? "Disable" : "Enable"}
+          </Button>
+          <Button onClick={handleAdjust} disabled={saving || !adjustment || !note.trim()} className="bg-primary hover:bg-primary/90">
+            {saving ? "Saving..." : "Adjust Balance"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
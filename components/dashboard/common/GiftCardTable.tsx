@@ -0,0 +1,99 @@
+import React from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { History } from "lucide-react"
+import type { GiftCard } from "@/lib/models/GiftCard"
+
+interface GiftCardTableProps {
+  giftCards: GiftCard[]
+  loading: boolean
+  onViewLedger: (giftCard: GiftCard) => void
+}
+
+const isExpired = (giftCard: GiftCard) => !!giftCard.expiresAt && new Date(giftCard.expiresAt) <= new Date()
+
+export const GiftCardTable: React.FC<GiftCardTableProps> = ({ giftCards, loading, onViewLedger }) => {
+  if (loading) {
+    return (
+      <div className="p-6 space-y-4">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!giftCards.length)
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-2">No gift cards yet</div>
+        <p className="text-slate-500 dark:text-slate-400">
+          Issued gift cards and store credit from refunds show up here.
+        </p>
+      </div>
+    )
+
+  return (
+    <div className="overflow-x-auto max-w-full">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-primary/10 dark:border-primary/20 bg-primary/5 dark:bg-primary/10">
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Code</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Type</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Balance</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Owner</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Expires</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Status</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {giftCards.map((giftCard, index) => (
+            <TableRow
+              key={giftCard.id}
+              className={`border-b transition-colors hover:bg-primary/5 dark:hover:bg-primary/10 ${
+                index % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50/50 dark:bg-slate-800/20"
+              }`}
+            >
+              <TableCell className="font-mono font-medium py-4">{giftCard.code}</TableCell>
+              <TableCell className="py-4">{giftCard.kind === "store_credit" ? "Store credit" : "Gift card"}</TableCell>
+              <TableCell className="py-4">
+                <div className="font-medium">{giftCard.balance.toFixed(2)} SEK</div>
+                <div className="text-xs text-slate-500">of {giftCard.initialBalance.toFixed(2)} SEK</div>
+              </TableCell>
+              <TableCell className="py-4">
+                {giftCard.customer || giftCard.recipientName || giftCard.recipientEmail || "—"}
+              </TableCell>
+              <TableCell className="py-4">
+                {giftCard.expiresAt ? new Date(giftCard.expiresAt).toLocaleDateString() : "Never"}
+              </TableCell>
+              <TableCell className="py-4">
+                <Badge
+                  className={`${
+                    giftCard.status === "active" && !isExpired(giftCard)
+                      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                      : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+                  } font-medium px-3 py-1 rounded-full text-xs`}
+                >
+                  {giftCard.status === "disabled" ? "Disabled" : isExpired(giftCard) ? "Expired" : "Active"}
+                </Badge>
+              </TableCell>
+              <TableCell className="py-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onViewLedger(giftCard)}
+                  className="border-primary/30 hover:bg-primary/5 hover:border-primary dark:hover:bg-primary/20 transition-colors text-primary"
+                >
+                  <History className="mr-1.5 h-4 w-4" />Ledger
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import React from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { PackagePlus } from "lucide-react"
+import type { LowStockItem } from "@/lib/models/Inventory"
+
+interface LowStockTableProps {
+  items: LowStockItem[]
+  loading: boolean
+  onAdjust: (item: LowStockItem) => void
+}
+
+export const LowStockTable: React.FC<LowStockTableProps> = ({ items, loading, onAdjust }) => {
+  if (loading) {
+    return (
+      <div className="p-6 space-y-4">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!items.length)
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-2">Stock levels look good</div>
+        <p className="text-slate-500 dark:text-slate-400">
+          Variations at or below their product&apos;s low-stock threshold show up here.
+        </p>
+      </div>
+    )
+
+  return (
+    <div className="overflow-x-auto max-w-full">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-primary/10 dark:border-primary/20 bg-primary/5 dark:bg-primary/10">
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Product</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Variation</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">In stock</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Threshold</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item, index) => (
+            <TableRow
+              key={`${item.variationId}-${item.size || ""}`}
+              className={`border-b transition-colors hover:bg-primary/5 dark:hover:bg-primary/10 ${
+                index % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50/50 dark:bg-slate-800/20"
+              }`}
+            >
+              <TableCell className="font-medium py-4">{item.productName}</TableCell>
+              <TableCell className="py-4">
+                {[item.colorName, item.size].filter(Boolean).join(" / ") || "—"}
+              </TableCell>
+              <TableCell className="py-4">
+                <Badge
+                  className={`${
+                    item.stockQuantity === 0
+                      ? "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+                      : "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+                  } font-medium px-3 py-1 rounded-full text-xs`}
+                >
+                  {item.stockQuantity === 0 ? "Out of stock" : item.stockQuantity}
+                </Badge>
+              </TableCell>
+              <TableCell className="py-4">{item.threshold}</TableCell>
+              <TableCell className="py-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onAdjust(item)}
+                  className="border-primary/30 hover:bg-primary/5 hover:border-primary dark:hover:bg-primary/20 transition-colors text-primary"
+                >
+                  <PackagePlus className="mr-1.5 h-4 w-4" />Adjust
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Download, FilePenLine, FilePlus, FileText } from "lucide-react"
+import { toast } from "sonner"
+import { useAppDispatch, useAppSelector } from "@/lib/redux/hooks"
+import { fetchInvoices, issueOrderInvoices, correctInvoice } from "@/lib/redux/slices/invoicesSlice"
+import type { Order } from "@/types"
+
+interface OrderInvoicePanelProps {
+  order: Order
+}
+
+export const OrderInvoicePanel: React.FC<OrderInvoicePanelProps> = ({ order }) => {
+  const dispatch = useAppDispatch()
+  const allInvoices = useAppSelector((state) => state.invoices.items)
+  const invoices = allInvoices.filter((invoice) => invoice.orderId === order.id)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const isPaid = !!order.paidAt || order.paymentStatus === "paid"
+  // Only the latest invoice can be corrected; earlier ones have already been credited and replaced
+  const currentInvoiceId = invoices.filter((invoice) => invoice.type === "invoice").at(-1)?.id
+  const missingCreditNotes = (order.refunds || []).some(
+    (refund) => !invoices.some((invoice) => invoice.refundId === refund.id),
+  )
+
+  useEffect(() => {
+    dispatch(fetchInvoices(order.id))
+  }, [dispatch, order.id, order.refunds?.length])
+
+  const handleIssue = async () => {
+    setBusyId("issue")
+    try {
+      await dispatch(issueOrderInvoices(order.id)).unwrap()
+      toast.success(`Invoices issued for order ${order.id}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to issue invoices")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleCorrect = async (id: string, invoiceNumber: string) => {
+    if (!confirm(`Credit ${invoiceNumber} in full and issue a new invoice from the current order and seller details?`)) {
+      return
+    }
+    setBusyId(id)
+    try {
+      await dispatch(correctInvoice(id)).unwrap()
+      toast.success(`${invoiceNumber} credited and replaced`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to correct invoice")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="bg-gradient-to-r from-violet-50 to-indigo-50 dark:from-violet-900/20 dark:to-indigo-900/20 rounded-lg p-6 border border-violet-200 dark:border-violet-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-violet-900 dark:text-violet-100 flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Invoices
+        </h3>
+        {isPaid && (invoices.length === 0 || missingCreditNotes) && (
+          <Button size="sm" variant="outline" onClick={handleIssue} disabled={busyId !== null}>
+            <FilePlus className="h-4 w-4 mr-1" />
+            Issue missing
+          </Button>
+        )}
+      </div>
+
+      {invoices.length === 0 ? (
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {isPaid ? "No invoice has been issued yet." : "The invoice is issued once the order has been paid."}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {invoices.map((invoice) => (
+            <div key={invoice.id} className="flex items-center justify-between gap-3 text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{invoice.type === "credit_note" ? "Credit note" : "Invoice"}</Badge>
+                <span className="font-medium text-slate-900 dark:text-slate-100">{invoice.invoiceNumber}</span>
+                <span className="text-slate-600 dark:text-slate-400">{invoice.total.toFixed(2)} SEK</span>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" asChild>
+                  <a href={`/api/invoices/${invoice.id}/pdf`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                {invoice.id === currentInvoiceId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleCorrect(invoice.id, invoice.invoiceNumber)}
+                    disabled={busyId !== null}
+                    title="Correct"
+                  >
+                    <FilePenLine className={`h-4 w-4 ${busyId === invoice.id ? "animate-pulse" : ""}`} />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+import React, { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { RotateCcw, Truck, Undo2 } from "lucide-react"
+import { toast } from "sonner"
+import { useAppDispatch } from "@/lib/redux/hooks"
+import { refundOrder } from "@/lib/redux/slices/ordersSlice"
+import type { Order, OrderTender } from "@/types"
+
+interface OrderRefundPanelProps {
+  order: Order
+  onRefunded: (order: Order) => void
+}
+
+export const paymentStatusColor = (status?: Order["paymentStatus"]) => {
+  switch (status) {
+    case "paid":
+      return "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+    case "partially_refunded":
+      return "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+    case "refunded":
+      return "bg-slate-200 text-slate-800 dark:bg-slate-700 dark:text-slate-200"
+    case "failed":
+    case "canceled":
+      return "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+    default:
+      return "bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300"
+  }
+}
+
+const tenderLabel = (tender: OrderTender) => {
+  switch (tender.method) {
+    case "gift_card":
+      return `Gift card ${tender.code ?? ""}`.trim()
+    case "store_credit":
+      return "Store credit"
+    case "swish":
+      return "Swish"
+    case "klarna":
+      return "Klarna"
+    default:
+      return "Card"
+  }
+}
+
+export const OrderRefundPanel: React.FC<OrderRefundPanelProps> = ({ order, onRefunded }) => {
+  const dispatch = useAppDispatch()
+  const [quantities, setQuantities] = useState<Record<number, number>>({})
+  const [reason, setReason] = useState("")
+  const [destination, setDestination] = useState<"original" | "store_credit">("original")
+  const [restock, setRestock] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+
+  const refundedAmount = order.refundedAmount || 0
+  const remaining = Math.max(0, order.total - refundedAmount)
+  const canRefund = (!!order.paymentIntentId || !!order.tenders?.length) && (order.paymentStatus === "paid" || order.paymentStatus === "partially_refunded") && remaining > 0
+  const shippingRefunded = (order.refunds || []).some((r) => r.type === "shipping")
+
+  const refundedQuantity = (index: number) =>
+    (order.refunds || []).reduce(
+      (sum, r) => sum + (r.items || []).filter((i) => i.index === index).reduce((s, i) => s + i.quantity, 0),
+      0,
+    )
+
+  const submitRefund = async (type: "full" | "items" | "shipping") => {
+    const items =
+      type === "items"
+        ? Object.entries(quantities)
+            .map(([index, quantity]) => ({ index: Number(index), quantity }))
+            .filter((i) => i.quantity > 0)
+        : undefined
+
+    if (type === "items" && (!items || items.length === 0)) {
+      toast.error("Select at least one item quantity to refund")
+      return
+    }
+    if (type === "full" && !confirm(`Refund the remaining ${remaining.toFixed(2)} SEK for order ${order.id}?`)) {
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const updated = await dispatch(
+        refundOrder({ id: order.id, type, items, reason: reason || undefined, destination, restock }),
+      ).unwrap()
+      onRefunded(updated)
+      setQuantities({})
+      setReason("")
+      toast.success(`Refund issued for order ${order.id}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to refund order")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-gradient-to-r from-rose-50 to-pink-50 dark:from-rose-900/20 dark:to-pink-900/20 rounded-lg p-6 border border-rose-200 dark:border-rose-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-rose-900 dark:text-rose-100 flex items-center gap-2">
+          <Undo2 className="h-5 w-5" />
+          Payment & Refunds
+        </h3>
+        <Badge className={`${paymentStatusColor(order.paymentStatus)} font-medium capitalize`}>
+          {(order.paymentStatus || "pending").replace("_", " ")}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="font-medium text-rose-700 dark:text-rose-300">Charged</p>
+          <p className="text-lg font-bold text-rose-900 dark:text-rose-100">{order.total.toFixed(2)} SEK</p>
+        </div>
+        <div>
+          <p className="font-medium text-rose-700 dark:text-rose-300">Refunded</p>
+          <p className="text-lg font-bold text-rose-900 dark:text-rose-100">{refundedAmount.toFixed(2)} SEK</p>
+        </div>
+        <div>
+          <p className="font-medium text-rose-700 dark:text-rose-300">Refundable</p>
+          <p className="text-lg font-bold text-rose-900 dark:text-rose-100">{remaining.toFixed(2)} SEK</p>
+        </div>
+      </div>
+
+      {(order.tenders || []).length > 1 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {(order.tenders || []).map((tender, index) => (
+            <Badge key={index} variant="outline" className="font-normal">
+              {tenderLabel(tender)}: {tender.amount.toFixed(2)} SEK
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {canRefund && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            {order.items.map((item, index) => {
+              const available = item.quantity - refundedQuantity(index)
+              return (
+                <div key={index} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-slate-700 dark:text-slate-300">
+                    {item.name} ({available} of {item.quantity} refundable)
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={available}
+                    value={quantities[index] ?? 0}
+                    disabled={available <= 0 || submitting}
+                    onChange={(e) =>
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [index]: Math.min(available, Math.max(0, parseInt(e.target.value) || 0)),
+                      }))
+                    }
+                    className="w-20"
+                  />
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="refund-reason">Reason (optional)</Label>
+            <Input
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Misprint on back panel"
+              disabled={submitting}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Refund to</Label>
+            <Select
+              value={destination}
+              onValueChange={(value) => setDestination(value as "original" | "store_credit")}
+              disabled={submitting}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="original">Original payment</SelectItem>
+                <SelectItem value="store_credit" disabled={order.customer === "Guest"}>
+                  Store credit
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id={`restock-${order.id}`}
+              checked={restock}
+              onChange={(e) => setRestock(e.target.checked)}
+              disabled={submitting}
+            />
+            <Label htmlFor={`restock-${order.id}`}>Return refunded items to stock</Label>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => submitRefund("items")} disabled={submitting} className="flex-1">
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Refund Selected Items
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => submitRefund("shipping")}
+              disabled={submitting || shippingRefunded || !order.shippingCost}
+              className="flex-1"
+            >
+              <Truck className="mr-2 h-4 w-4" />
+              Refund Shipping
+            </Button>
+            <Button onClick={() => submitRefund("full")} disabled={submitting} className="flex-1 bg-rose-600 hover:bg-rose-700 text-white">
+              <Undo2 className="mr-2 h-4 w-4" />
+              Full Refund
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(order.refunds || []).length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-rose-700 dark:text-rose-300">Refund History</p>
+          {(order.refunds || []).map((refund) => (
+            <div
+              key={refund.id}
+              className="flex items-start justify-between text-sm bg-white/60 dark:bg-slate-800/60 rounded-md p-2 border border-rose-100 dark:border-rose-900"
+            >
+              <div>
+                <span className="font-medium capitalize">{refund.type}</span>
+                {refund.items && refund.items.length > 0 && (
+                  <span className="text-slate-600 dark:text-slate-400">
+                    {" "}
+                    • {refund.items.map((i) => `${order.items[i.index]?.name ?? `Item ${i.index + 1}`} × ${i.quantity}`).join(", ")}
+                  </span>
+                )}
+                {refund.tenders && refund.tenders.length > 0 && (
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    To {refund.tenders.map((t) => `${tenderLabel(t)} (${t.amount.toFixed(2)} SEK)`).join(", ")}
+                  </div>
+                )}
+                {refund.reason && <div className="text-xs text-slate-500 dark:text-slate-400">{refund.reason}</div>}
+                <div className="text-xs text-slate-500 dark:text-slate-400">
+                  {new Date(refund.createdAt).toLocaleString()}
+                  {refund.createdBy && ` • ${refund.createdBy}`}
+                </div>
+              </div>
+              <span className="font-semibold text-rose-900 dark:text-rose-100">-{refund.amount.toFixed(2)} SEK</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
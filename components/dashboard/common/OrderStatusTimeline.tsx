@@ -0,0 +1,39 @@
+import React from "react"
+import type { OrderStatusChange } from "@/lib/utils/orderStatus"
+
+interface OrderStatusTimelineProps {
+  history?: OrderStatusChange[]
+  // Customers see when things happened, not which staff member did it
+  showActor?: boolean
+}
+
+export const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({ history = [], showActor = true }) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-slate-500 dark:text-slate-400">No status changes recorded yet.</p>
+  }
+
+  return (
+    <ol className="relative border-l border-slate-200 dark:border-slate-700 ml-2 space-y-4">
+      {history.map((entry, index) => {
+        const isLatest = index === history.length - 1
+        return (
+          <li key={`${entry.to}-${index}`} className="ml-4">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-slate-900 ${
+                isLatest ? "bg-sky-600" : "bg-slate-300 dark:bg-slate-600"
+              }`}
+            />
+            <div className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+              {entry.from ? `${entry.from} → ${entry.to}` : entry.to}
+            </div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              {new Date(entry.changedAt).toLocaleString()}
+              {showActor && entry.changedBy && ` • ${entry.changedBy}`}
+            </div>
+            {entry.note && <p className="text-sm text-slate-700 dark:text-slate-300 mt-1">{entry.note}</p>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -1,7 +1,18 @@
-import React from "react"
+import React, { useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { RotateCcw } from "lucide-react"
 import Image from "next/image"
+import { PrintAreaGuides } from "@/components/PrintAreaGuides"
+import type { PrintArea } from "@/lib/models/Product"
+import {
+  DEFAULT_BLEED_MM,
+  DEFAULT_PRINT_DPI,
+  DEFAULT_SAFE_MARGIN_MM,
+  DESIGN_CANVAS_SIZE,
+  canvasRectOf,
+  type CanvasRect,
+} from "@/lib/utils/printArea"
 
 interface ProductAnglesSelectorProps {
   angles: string[]
@@ -16,6 +27,9 @@ interface ProductAnglesSelectorProps {
     is_primary: boolean
   }>
   productImage?: string // Fallback product image
+  // Print area editing (product form): the selected side is shown large with its zones
+  printAreas?: PrintArea[]
+  onPrintAreasChange?: (printAreas: PrintArea[]) => void
 }
 
 export const ProductAnglesSelector: React.FC<ProductAnglesSelectorProps> = ({
@@ -25,6 +39,8 @@ export const ProductAnglesSelector: React.FC<ProductAnglesSelectorProps> = ({
   className = "",
   variationImages = [],
   productImage,
+  printAreas,
+  onPrintAreasChange,
 }) => {
   console.log('😂 [ProductAnglesSelector] Render with props:', {
     angles,
@@ -44,7 +60,7 @@ export const ProductAnglesSelector: React.FC<ProductAnglesSelectorProps> = ({
   const hasValidImages = variationImages.some(img => img.url && img.url.trim() !== '')
   const isSingleProductCase = variationImages.length === 0 && angles.length > 0
   
-  if (!hasValidImages && !isSingleProductCase) {
+  if (!hasValidImages && !isSingleProductCase && !onPrintAreasChange) {
     console.log('😂 [ProductAnglesSelector] No valid variation images and not a single product case - returning null')
     return null
   }
@@ -104,8 +120,8 @@ export const ProductAnglesSelector: React.FC<ProductAnglesSelectorProps> = ({
             const isSelected = selectedAngle === angle
             const imageUrl = getImageForAngle(angle)
             
-            // Skip angles that don't have images
-            if (!imageUrl) {
+            // Skip angles that don't have images; when editing print areas they show by name
+            if (!imageUrl && !onPrintAreasChange) {
               return null
             }
             
@@ -120,12 +136,18 @@ export const ProductAnglesSelector: React.FC<ProductAnglesSelectorProps> = ({
                 onClick={() => onSelect(angle)}
                 title={getAngleDisplayName(angle)}
               >
-                <Image
-                  src={imageUrl}
-                  alt={`${getAngleDisplayName(angle)} view`}
-                  fill
-                  className="object-cover"
-                />
+                {imageUrl ? (
+                  <Image
+                    src={imageUrl}
+                    alt={`${getAngleDisplayName(angle)} view`}
+                    fill
+                    className="object-cover"
+                  />
+                ) : (
+                  <span className="flex h-full items-center justify-center bg-gray-50 text-[10px] text-gray-500">
+                    {getAngleDisplayName(angle)}
+                  </span>
+                )}
                 {isSelected && (
                   <div className="absolute inset-0 bg-blue-500 bg-opacity-20 flex items-center justify-center">
                     <div className="w-3 h-3 bg-blue-500 rounded-full border border-white"></div>
@@ -140,6 +162,174 @@ export const ProductAnglesSelector: React.FC<ProductAnglesSelectorProps> = ({
           })}
         </div>
       </div>
+      {onPrintAreasChange && (
+        <PrintAreaEditor
+          angle={selectedAngle}
+          imageUrl={getImageForAngle(selectedAngle)}
+          printAreas={printAreas || []}
+          onChange={onPrintAreasChange}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+interface PrintAreaEditorProps {
+  angle: string
+  imageUrl: string | null
+  printAreas: PrintArea[]
+  onChange: (printAreas: PrintArea[]) => void
+}
+
+/**
+ * Edit one side's print area over its product image, which stands in for the design canvas.
+ * Drag the rectangle to move it, drag its corner to resize it (the mm proportions are kept),
+ * and in shape mode click to add the corners of a non-rectangular printable shape.
+ */
+const PrintAreaEditor: React.FC<PrintAreaEditorProps> = ({ angle, imageUrl, printAreas, onChange }) => {
+  const boxRef = useRef<HTMLDivElement>(null)
+  const [drawingShape, setDrawingShape] = useState(false)
+  const area = printAreas.find((a) => a.angle === angle)
+  const isValid = !!area && area.widthMm > 0 && area.heightMm > 0
+
+  const update = (changes: Partial<PrintArea>) => {
+    const next: PrintArea = { ...(area || { angle, widthMm: 0, heightMm: 0 }), ...changes }
+    onChange([...printAreas.filter((a) => a.angle !== angle), next])
+  }
+
+  const setNumber = (field: "widthMm" | "heightMm" | "safeMarginMm" | "bleedMm" | "dpi", value: string) => {
+    const number = value === "" ? undefined : Number(value)
+    // Changing the physical size keeps the rectangle's width on the canvas and follows the new proportions
+    if ((field === "widthMm" || field === "heightMm") && area?.canvasRect && number) {
+      const widthMm = field === "widthMm" ? number : area.widthMm
+      const heightMm = field === "heightMm" ? number : area.heightMm
+      if (widthMm > 0 && heightMm > 0) {
+        update({ [field]: number, canvasRect: { ...area.canvasRect, height: (area.canvasRect.width * heightMm) / widthMm } })
+        return
+      }
+    }
+    update({ [field]: field === "widthMm" || field === "heightMm" ? number ?? 0 : number })
+  }
+
+  // Screen pixels to canvas pixels for the preview box
+  const toCanvas = (clientX: number, clientY: number) => {
+    const box = boxRef.current!.getBoundingClientRect()
+    const scale = DESIGN_CANVAS_SIZE / box.width
+    return { x: (clientX - box.left) * scale, y: (clientY - box.top) * scale }
+  }
+
+  const startDrag = (mode: "move" | "resize") => (e: React.PointerEvent) => {
+    if (!area || !isValid || drawingShape) return
+    e.preventDefault()
+    e.stopPropagation()
+    const start = toCanvas(e.clientX, e.clientY)
+    const initial: CanvasRect = canvasRectOf(area)
+    const aspect = area.heightMm / area.widthMm
+
+    const onMove = (event: PointerEvent) => {
+      const point = toCanvas(event.clientX, event.clientY)
+      const dx = point.x - start.x
+      const dy = point.y - start.y
+      const rect =
+        mode === "move"
+          ? { ...initial, left: initial.left + dx, top: initial.top + dy }
+          : { ...initial, width: Math.max(initial.width + dx, 20), height: Math.max(initial.width + dx, 20) * aspect }
+      update({ canvasRect: rect })
+    }
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove)
+      window.removeEventListener("pointerup", onUp)
+    }
+    window.addEventListener("pointermove", onMove)
+    window.addEventListener("pointerup", onUp)
+  }
+
+  const addShapePoint = (e: React.MouseEvent) => {
+    if (!drawingShape || !area || !isValid) return
+    const rect = canvasRectOf(area)
+    const point = toCanvas(e.clientX, e.clientY)
+    const pxPerMm = rect.width / area.widthMm
+    const clamp = (value: number, max: number) => Math.round(Math.min(Math.max(value, 0), max) * 10) / 10
+    update({
+      polygon: [
+        ...(area.polygon || []),
+        { x: clamp((point.x - rect.left) / pxPerMm, area.widthMm), y: clamp((point.y - rect.top) / pxPerMm, area.heightMm) },
+      ],
+    })
+  }
+
+  const rect = area && isValid ? canvasRectOf(area) : null
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div
+        ref={boxRef}
+        className={`relative mx-auto aspect-square w-full max-w-xs overflow-hidden rounded-lg border border-gray-200 bg-white ${drawingShape ? "cursor-crosshair" : ""}`}
+        onClick={addShapePoint}
+      >
+        {imageUrl && <Image src={imageUrl} alt={`${angle} view`} fill className="object-contain" />}
+        {area && rect && (
+          <PrintAreaGuides area={area} className="absolute inset-0 h-full w-full">
+            <rect
+              x={rect.left}
+              y={rect.top}
+              width={rect.width}
+              height={rect.height}
+              fill="transparent"
+              style={{ pointerEvents: drawingShape ? "none" : "all", cursor: "move" }}
+              onPointerDown={startDrag("move")}
+            />
+            <rect
+              x={rect.left + rect.width - 6}
+              y={rect.top + rect.height - 6}
+              width={12}
+              height={12}
+              fill="#3b82f6"
+              style={{ pointerEvents: drawingShape ? "none" : "all", cursor: "nwse-resize" }}
+              onPointerDown={startDrag("resize")}
+            />
+          </PrintAreaGuides>
+        )}
+      </div>
+      <p className="text-center text-xs text-gray-500">
+        Blue: print area, green: safe zone, red: bleed. The image stands in for the {DESIGN_CANVAS_SIZE}px design canvas.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-5">
+        <Input type="number" min="0" step="1" placeholder="Width (mm)" value={area?.widthMm || ""} onChange={(e) => setNumber("widthMm", e.target.value)} />
+        <Input type="number" min="0" step="1" placeholder="Height (mm)" value={area?.heightMm || ""} onChange={(e) => setNumber("heightMm", e.target.value)} />
+        <Input type="number" min="0" step="0.5" placeholder={`Safe ${DEFAULT_SAFE_MARGIN_MM} mm`} value={area?.safeMarginMm ?? ""} onChange={(e) => setNumber("safeMarginMm", e.target.value)} />
+        <Input type="number" min="0" step="0.5" placeholder={`Bleed ${DEFAULT_BLEED_MM} mm`} value={area?.bleedMm ?? ""} onChange={(e) => setNumber("bleedMm", e.target.value)} />
+        <Input type="number" min="72" step="1" placeholder={`${DEFAULT_PRINT_DPI} dpi`} value={area?.dpi ?? ""} onChange={(e) => setNumber("dpi", e.target.value)} />
+      </div>
+
+      {isValid && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button type="button" size="sm" variant={drawingShape ? "default" : "outline"} onClick={() => setDrawingShape(!drawingShape)}>
+            {drawingShape ? "Finish shape" : "Draw shape"}
+          </Button>
+          {area?.polygon && area.polygon.length > 0 && (
+            <Button type="button" size="sm" variant="outline" onClick={() => update({ polygon: undefined })}>
+              Use full rectangle
+            </Button>
+          )}
+          {area?.canvasRect && (
+            <Button type="button" size="sm" variant="outline" onClick={() => update({ canvasRect: undefined })}>
+              <RotateCcw className="mr-1 h-3 w-3" />
+              Centre
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="text-red-600"
+            onClick={() => onChange(printAreas.filter((a) => a.angle !== angle))}
+          >
+            Remove print area
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
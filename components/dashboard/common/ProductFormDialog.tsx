@@ -14,6 +14,10 @@ import { ProductAnglesSelector } from "./ProductAnglesSelector"
 import { useState } from "react"
 import { useAppSelector } from "@/lib/redux/hooks"
 import { Badge } from "@/components/ui/badge"
+import { TAX_CLASSES } from "@/lib/models/Tax"
+import { DEFAULT_LOW_STOCK_THRESHOLD } from "@/lib/models/Inventory"
+import type { PrintArea } from "@/lib/models/Product"
+import { PRINTABLE_ANGLES } from "@/lib/utils/printArea"
 
 // Extend Window interface for color picker
 declare global {
@@ -166,6 +170,7 @@ export const ProductFormDialog: React.FC<ProductFormDialogProps> = ({
   
   const [showVariations, setShowVariations] = useState(initialValues.hasVariations || false)
   const [expandedVariations, setExpandedVariations] = useState<Set<string>>(new Set())
+  const [printAreaAngle, setPrintAreaAngle] = useState<string>("front")
   
   // Ensure showVariations state is updated when initialValues change (for edit mode)
   React.useEffect(() => {
@@ -192,6 +197,7 @@ export const ProductFormDialog: React.FC<ProductFormDialogProps> = ({
       hasVariations: initialValues.hasVariations || false,
       variations: initialValues.variations || [],
       eligibleForCoupons: initialValues.eligibleForCoupons ?? false,
+      printAreas: initialValues.printAreas || [],
       purchaseLimit: initialValues.purchaseLimit || {
         enabled: false,
         maxQuantityPerOrder: 5,
@@ -239,7 +245,9 @@ export const ProductFormDialog: React.FC<ProductFormDialogProps> = ({
           variations: values.variations?.map((variation: any) => ({
             ...variation,
             images: variation.images?.filter((img: any) => img.url && img.url.trim() !== '') || []
-          })) || []
+          })) || [],
+          // Sides without a full size are not printable
+          printAreas: (values.printAreas || []).filter((area: PrintArea) => area.widthMm > 0 && area.heightMm > 0),
         }
         
         // For products without variations, create angles array from individual angle images
@@ -631,7 +639,87 @@ export const ProductFormDialog: React.FC<ProductFormDialogProps> = ({
             />
             <Label htmlFor="eligibleForCoupons">Eligible for site-wide coupons</Label>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Shipping weight, used by weight-based shipping methods */}
+            <div className="space-y-2">
+              <Label htmlFor="weight" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                Shipping weight per unit (grams)
+              </Label>
+              <Input
+                id="weight"
+                type="number"
+                min="0"
+                step="1"
+                value={formik.values.weight ?? ""}
+                onChange={(e) => formik.setFieldValue("weight", e.target.value === "" ? undefined : Number(e.target.value))}
+                placeholder="e.g. 250"
+                className="border-slate-300 focus:border-sky-500 focus:ring-sky-200"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-slate-700 dark:text-slate-300">Tax class</Label>
+              <Select value={formik.values.taxClass || "standard"} onValueChange={(value) => formik.setFieldValue("taxClass", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAX_CLASSES.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {/* Stock at or below this shows up under Inventory > Low Stock */}
+            <div className="space-y-2">
+              <Label htmlFor="lowStockThreshold" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                Low-stock threshold
+              </Label>
+              <Input
+                id="lowStockThreshold"
+                type="number"
+                min="0"
+                step="1"
+                value={formik.values.lowStockThreshold ?? ""}
+                onChange={(e) =>
+                  formik.setFieldValue("lowStockThreshold", e.target.value === "" ? undefined : Number(e.target.value))
+                }
+                placeholder={`Default ${DEFAULT_LOW_STOCK_THRESHOLD}`}
+                className="border-slate-300 focus:border-sky-500 focus:ring-sky-200"
+              />
+            </div>
+          </div>
           
+          {/* Physical print area per side, used by the design tool and for production files */}
+          <div className="space-y-3 border rounded-lg p-4 bg-slate-50 dark:bg-slate-800/30">
+            <div>
+              <Label className="font-medium">Print areas</Label>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Set the printable size in mm for each side and place it on the product. Sides without a size cannot be printed.
+              </p>
+            </div>
+            <ProductAnglesSelector
+              angles={[...PRINTABLE_ANGLES]}
+              selectedAngle={printAreaAngle}
+              onSelect={setPrintAreaAngle}
+              variationImages={
+                formik.values.hasVariations
+                  ? formik.values.variations?.[0]?.images || []
+                  : PRINTABLE_ANGLES.map((angle) => ({
+                      id: `${angle}_img`,
+                      url: formik.values[`${angle}Image`] || "",
+                      alt_text: "",
+                      angle,
+                      is_primary: angle === "front",
+                    }))
+              }
+              printAreas={formik.values.printAreas}
+              onPrintAreasChange={(printAreas) => formik.setFieldValue("printAreas", printAreas)}
+            />
+          </div>
+
           {/* Purchase Limits Section */}
           <div className="space-y-4 border rounded-lg p-4 bg-slate-50 dark:bg-slate-800/30">
             <div className="flex items-center gap-2">
@@ -0,0 +1,316 @@
+import React from "react"
+import { useFormik } from "formik"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import { Plus, Trash2 } from "lucide-react"
+import {
+  PROMOTION_TYPES,
+  type CreatePromotionData,
+  type Promotion,
+  type PromotionStacking,
+  type PromotionTier,
+  type PromotionType,
+} from "@/lib/models/Promotion"
+
+interface PromotionFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialValues: Partial<Promotion>
+  categories: Array<{ id: string; name: string }>
+  onSubmit: (values: CreatePromotionData & { id?: string }, helpers: any) => void
+  isEdit: boolean
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+
+const toDateInput = (date?: Date | string) => (date ? new Date(date).toISOString().slice(0, 16) : "")
+
+export const PromotionFormDialog: React.FC<PromotionFormDialogProps> = ({
+  open,
+  onOpenChange,
+  initialValues,
+  categories,
+  onSubmit,
+  isEdit,
+}) => {
+  const formik = useFormik({
+    initialValues: {
+      name: initialValues.name || "",
+      description: initialValues.description || "",
+      type: (initialValues.type || "percentage") as PromotionType,
+      discountValue: initialValues.discountValue ?? 10,
+      buyQuantity: initialValues.buyQuantity ?? 2,
+      getQuantity: initialValues.getQuantity ?? 1,
+      getPercentOff: initialValues.getPercentOff ?? 100,
+      tiers: (initialValues.tiers?.length ? initialValues.tiers : [{ minQuantity: 10, percentOff: 5 }]) as PromotionTier[],
+      shippingMethodIds: (initialValues.shippingMethodIds || []).join(", "),
+      minimumOrderAmount: initialValues.minimumOrderAmount ?? "",
+      applicableCategories: initialValues.applicableCategories || [],
+      priority: initialValues.priority ?? 0,
+      stacking: (initialValues.stacking || "stackable") as PromotionStacking,
+      isActive: initialValues.isActive ?? true,
+      validFrom: toDateInput(initialValues.validFrom),
+      validUntil: toDateInput(initialValues.validUntil),
+    },
+    onSubmit: (values, helpers) => {
+      const { type } = values
+      onSubmit(
+        {
+          id: isEdit ? initialValues.id : undefined,
+          name: values.name.trim(),
+          description: values.description.trim() || undefined,
+          type,
+          // Only the settings of the chosen type are kept
+          discountValue: type === "percentage" || type === "fixed" ? Number(values.discountValue) : undefined,
+          buyQuantity: type === "buy_x_get_y" ? Number(values.buyQuantity) : undefined,
+          getQuantity: type === "buy_x_get_y" ? Number(values.getQuantity) : undefined,
+          getPercentOff: type === "buy_x_get_y" ? Number(values.getPercentOff) : undefined,
+          tiers:
+            type === "tiered_quantity"
+              ? values.tiers.map((tier) => ({ minQuantity: Number(tier.minQuantity), percentOff: Number(tier.percentOff) }))
+              : undefined,
+          shippingMethodIds: type === "free_shipping" ? splitList(values.shippingMethodIds) : undefined,
+          minimumOrderAmount: values.minimumOrderAmount === "" ? undefined : Number(values.minimumOrderAmount),
+          applicableProducts: initialValues.applicableProducts,
+          applicableCategories: values.applicableCategories,
+          priority: Number(values.priority) || 0,
+          stacking: values.stacking,
+          isActive: values.isActive,
+          validFrom: values.validFrom ? new Date(values.validFrom) : undefined,
+          validUntil: values.validUntil ? new Date(values.validUntil) : undefined,
+        },
+        helpers,
+      )
+    },
+    enableReinitialize: true,
+  })
+
+  const { values } = formik
+
+  const updateTier = (index: number, patch: Partial<PromotionTier>) => {
+    formik.setFieldValue(
+      "tiers",
+      values.tiers.map((tier, i) => (i === index ? { ...tier, ...patch } : tier)),
+    )
+  }
+
+  const toggleCategory = (id: string, checked: boolean) => {
+    formik.setFieldValue(
+      "applicableCategories",
+      checked ? [...values.applicableCategories, id] : values.applicableCategories.filter((c) => c !== id),
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary">{isEdit ? "Edit Promotion" : "Create Promotion"}</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-400">
+            Applied automatically at checkout when its conditions are met. Higher priority rules run first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={formik.handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-name">Name *</Label>
+              <Input id="promotion-name" name="name" value={values.name} onChange={formik.handleChange} placeholder="Buy 3 pay for 2" required />
+              <p className="text-xs text-slate-500">Shown to customers next to the discount</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <div className="flex items-center space-x-2 pt-2">
+                <Switch id="promotion-active" checked={values.isActive} onCheckedChange={(checked) => formik.setFieldValue("isActive", checked)} />
+                <Label htmlFor="promotion-active">{values.isActive ? "Active" : "Inactive"}</Label>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="promotion-description">Description</Label>
+            <Textarea id="promotion-description" name="description" value={values.description} onChange={formik.handleChange} rows={2} />
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type *</Label>
+              <Select value={values.type} onValueChange={(value) => formik.setFieldValue("type", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROMOTION_TYPES.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {(values.type === "percentage" || values.type === "fixed") && (
+              <div className="space-y-2">
+                <Label htmlFor="promotion-value">{values.type === "percentage" ? "Discount (%) *" : "Discount (SEK) *"}</Label>
+                <Input id="promotion-value" name="discountValue" type="number" min="0" step="0.01" value={values.discountValue} onChange={formik.handleChange} />
+              </div>
+            )}
+
+            {values.type === "free_shipping" && (
+              <div className="space-y-2">
+                <Label htmlFor="promotion-methods">Shipping methods</Label>
+                <Input
+                  id="promotion-methods"
+                  name="shippingMethodIds"
+                  value={values.shippingMethodIds}
+                  onChange={formik.handleChange}
+                  placeholder="Method ids, empty for every method"
+                />
+              </div>
+            )}
+          </div>
+
+          {values.type === "buy_x_get_y" && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promotion-buy">Buy *</Label>
+                <Input id="promotion-buy" name="buyQuantity" type="number" min="1" value={values.buyQuantity} onChange={formik.handleChange} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-get">Get *</Label>
+                <Input id="promotion-get" name="getQuantity" type="number" min="1" value={values.getQuantity} onChange={formik.handleChange} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotion-get-percent">Off the cheapest (%)</Label>
+                <Input id="promotion-get-percent" name="getPercentOff" type="number" min="1" max="100" value={values.getPercentOff} onChange={formik.handleChange} />
+              </div>
+            </div>
+          )}
+
+          {values.type === "tiered_quantity" && (
+            <div className="space-y-2">
+              <Label>Quantity tiers (eligible units → % off)</Label>
+              {values.tiers.map((tier, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input type="number" min="1" value={tier.minQuantity} onChange={(e) => updateTier(index, { minQuantity: Number(e.target.value) })} className="w-32" />
+                  <span className="text-sm text-slate-500">units →</span>
+                  <Input type="number" min="1" max="100" value={tier.percentOff} onChange={(e) => updateTier(index, { percentOff: Number(e.target.value) })} className="w-32" />
+                  <span className="text-sm text-slate-500">%</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={values.tiers.length === 1}
+                    onClick={() => formik.setFieldValue("tiers", values.tiers.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => formik.setFieldValue("tiers", [...values.tiers, { minQuantity: 0, percentOff: 0 }])}
+              >
+                <Plus className="mr-1.5 h-4 w-4" />
+                Add Tier
+              </Button>
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-priority">Priority</Label>
+              <Input id="promotion-priority" name="priority" type="number" value={values.priority} onChange={formik.handleChange} />
+            </div>
+            <div className="space-y-2">
+              <Label>Stacking</Label>
+              <Select value={values.stacking} onValueChange={(value) => formik.setFieldValue("stacking", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stackable">Combines with others</SelectItem>
+                  <SelectItem value="exclusive">Exclusive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-minimum">Minimum order (SEK)</Label>
+              <Input
+                id="promotion-minimum"
+                name="minimumOrderAmount"
+                type="number"
+                min="0"
+                value={values.minimumOrderAmount}
+                onChange={formik.handleChange}
+                placeholder="None"
+              />
+            </div>
+          </div>
+
+          {categories.length > 0 && (
+            <div className="space-y-2">
+              <Label>Categories</Label>
+              <p className="text-xs text-slate-500">Only items in these categories are discounted. Leave all unchecked for the whole cart.</p>
+              <div className="grid grid-cols-2 gap-2">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={values.applicableCategories.includes(category.id)}
+                      onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-from">Valid from</Label>
+              <Input id="promotion-from" name="validFrom" type="datetime-local" value={values.validFrom} onChange={formik.handleChange} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotion-until">Valid until</Label>
+              <Input id="promotion-until" name="validUntil" type="datetime-local" value={values.validUntil} onChange={formik.handleChange} />
+            </div>
+          </div>
+
+          <DialogFooter className="flex gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={formik.isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={formik.isSubmitting} className="bg-primary hover:bg-primary/90">
+              {formik.isSubmitting ? "Saving..." : isEdit ? "Update Promotion" : "Create Promotion"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,138 @@
+import React from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Edit3, Trash2 } from "lucide-react"
+import { PROMOTION_TYPES, type Promotion } from "@/lib/models/Promotion"
+
+interface PromotionTableProps {
+  promotions: Promotion[]
+  loading: boolean
+  onEdit: (promotion: Promotion) => void
+  onDelete: (promotion: Promotion) => void
+}
+
+const typeLabel = (type: string) => PROMOTION_TYPES.find((t) => t.value === type)?.label || type
+
+// Short description of what the rule gives, e.g. "Buy 2 get 1 free"
+function describeRule(promotion: Promotion): string {
+  switch (promotion.type) {
+    case "percentage":
+      return `${promotion.discountValue}% off`
+    case "fixed":
+      return `${promotion.discountValue} SEK off`
+    case "buy_x_get_y": {
+      const percent = promotion.getPercentOff ?? 100
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${percent === 100 ? "free" : `${percent}% off`}`
+    }
+    case "tiered_quantity":
+      return (promotion.tiers || []).map((tier) => `${tier.minQuantity}+: ${tier.percentOff}%`).join(", ")
+    case "free_shipping":
+      return promotion.shippingMethodIds?.length ? `Free ${promotion.shippingMethodIds.join(", ")}` : "Free shipping"
+    default:
+      return ""
+  }
+}
+
+function describeScope(promotion: Promotion): string {
+  const parts = []
+  if (promotion.applicableCategories?.length) parts.push(`${promotion.applicableCategories.length} categories`)
+  if (promotion.applicableProducts?.length) parts.push(`${promotion.applicableProducts.length} products`)
+  if (promotion.minimumOrderAmount) parts.push(`min ${promotion.minimumOrderAmount} SEK`)
+  return parts.length ? parts.join(", ") : "Whole cart"
+}
+
+export const PromotionTable: React.FC<PromotionTableProps> = ({ promotions, loading, onEdit, onDelete }) => {
+  if (loading) {
+    return (
+      <div className="p-6 space-y-4">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!promotions.length)
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-2">No promotions yet</div>
+        <p className="text-slate-500 dark:text-slate-400">
+          Promotions apply automatically at checkout, without a coupon code.
+        </p>
+      </div>
+    )
+
+  return (
+    <div className="overflow-x-auto max-w-full">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-primary/10 dark:border-primary/20 bg-primary/5 dark:bg-primary/10">
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Priority</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Name</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Rule</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Applies To</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Stacking</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Status</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {promotions.map((promotion, index) => (
+            <TableRow
+              key={promotion.id}
+              className={`border-b transition-colors hover:bg-primary/5 dark:hover:bg-primary/10 ${
+                index % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50/50 dark:bg-slate-800/20"
+              }`}
+            >
+              <TableCell className="font-mono font-medium py-4">{promotion.priority}</TableCell>
+              <TableCell className="py-4">
+                <div className="font-medium">{promotion.name}</div>
+                <div className="text-xs text-slate-500">{typeLabel(promotion.type)}</div>
+              </TableCell>
+              <TableCell className="py-4">{describeRule(promotion)}</TableCell>
+              <TableCell className="py-4">{describeScope(promotion)}</TableCell>
+              <TableCell className="py-4">
+                <Badge variant="outline" className="font-medium px-3 py-1 rounded-full text-xs">
+                  {promotion.stacking === "exclusive" ? "Exclusive" : "Stackable"}
+                </Badge>
+              </TableCell>
+              <TableCell className="py-4">
+                <Badge
+                  className={`${
+                    promotion.isActive
+                      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                      : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+                  } font-medium px-3 py-1 rounded-full text-xs`}
+                >
+                  {promotion.isActive ? "Active" : "Inactive"}
+                </Badge>
+              </TableCell>
+              <TableCell className="py-4">
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onEdit(promotion)}
+                    className="border-primary/30 hover:bg-primary/5 hover:border-primary dark:hover:bg-primary/20 transition-colors text-primary"
+                  >
+                    <Edit3 className="mr-1.5 h-4 w-4" />Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onDelete(promotion)}
+                    className="bg-transparent hover:bg-red-50 hover:text-red-700 hover:border-red-300 dark:hover:bg-red-900/20 text-red-600 border-red-200 transition-colors"
+                  >
+                    <Trash2 className="mr-1.5 h-4 w-4" />Delete
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
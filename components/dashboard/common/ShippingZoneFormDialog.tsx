@@ -0,0 +1,295 @@
+import React from "react"
+import { useFormik } from "formik"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import { Plus, Trash2 } from "lucide-react"
+import type { CreateShippingZoneData, ShippingMethod, ShippingZone } from "@/lib/models/Shipping"
+
+interface ShippingZoneFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialValues: Partial<ShippingZone>
+  onSubmit: (values: CreateShippingZoneData & { id?: string }, helpers: any) => void
+  isEdit: boolean
+}
+
+const newMethod = (): ShippingMethod => ({
+  id: "",
+  name: "",
+  pricingBasis: "flat",
+  price: 0,
+  rates: [],
+  minDeliveryDays: 2,
+  maxDeliveryDays: 5,
+  isActive: true,
+})
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+
+export const ShippingZoneFormDialog: React.FC<ShippingZoneFormDialogProps> = ({
+  open,
+  onOpenChange,
+  initialValues,
+  onSubmit,
+  isEdit,
+}) => {
+  const formik = useFormik({
+    initialValues: {
+      name: initialValues.name || "",
+      countries: (initialValues.countries || []).join(", "),
+      postalCodePrefixes: (initialValues.postalCodePrefixes || []).join(", "),
+      isActive: initialValues.isActive ?? true,
+      methods: initialValues.methods?.length ? initialValues.methods : [newMethod()],
+    },
+    onSubmit: (values, helpers) => {
+      onSubmit(
+        {
+          id: isEdit ? initialValues.id : undefined,
+          name: values.name.trim(),
+          countries: splitList(values.countries),
+          postalCodePrefixes: splitList(values.postalCodePrefixes),
+          isActive: values.isActive,
+          methods: values.methods.map((method) => ({
+            ...method,
+            rates: method.pricingBasis === "flat" ? [] : method.rates,
+            freeShippingThreshold:
+              method.freeShippingThreshold === undefined || (method.freeShippingThreshold as any) === ""
+                ? undefined
+                : Number(method.freeShippingThreshold),
+          })),
+        },
+        helpers,
+      )
+    },
+    enableReinitialize: true,
+  })
+
+  const updateMethod = (index: number, patch: Partial<ShippingMethod>) => {
+    formik.setFieldValue(
+      "methods",
+      formik.values.methods.map((m, i) => (i === index ? { ...m, ...patch } : m)),
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary">
+            {isEdit ? "Edit Shipping Zone" : "Create Shipping Zone"}
+          </DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-400">
+            A zone covers one or more countries, optionally narrowed to postal code prefixes. Use * for all other countries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={formik.handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="zone-name">Zone Name *</Label>
+              <Input id="zone-name" name="name" value={formik.values.name} onChange={formik.handleChange} placeholder="Nordics" />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <div className="flex items-center space-x-2 pt-2">
+                <Switch
+                  id="zone-active"
+                  checked={formik.values.isActive}
+                  onCheckedChange={(checked) => formik.setFieldValue("isActive", checked)}
+                />
+                <Label htmlFor="zone-active">{formik.values.isActive ? "Active" : "Inactive"}</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-countries">Countries *</Label>
+              <Input
+                id="zone-countries"
+                name="countries"
+                value={formik.values.countries}
+                onChange={formik.handleChange}
+                placeholder="SE, NO, DK, FI"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zone-postal">Postal code prefixes</Label>
+              <Input
+                id="zone-postal"
+                name="postalCodePrefixes"
+                value={formik.values.postalCodePrefixes}
+                onChange={formik.handleChange}
+                placeholder="e.g. 98, 99 (leave empty for the whole country)"
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-slate-900 dark:text-slate-100">Shipping Methods</h3>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => formik.setFieldValue("methods", [...formik.values.methods, newMethod()])}
+              >
+                <Plus className="mr-1.5 h-4 w-4" />
+                Add Method
+              </Button>
+            </div>
+
+            {formik.values.methods.map((method, index) => (
+              <div key={method.id || `new-${index}`} className="border rounded-lg p-4 space-y-3 bg-slate-50 dark:bg-slate-800/30">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label>Name *</Label>
+                    <Input value={method.name} onChange={(e) => updateMethod(index, { name: e.target.value })} placeholder="PostNord Parcel" />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Carrier</Label>
+                    <Input value={method.carrier || ""} onChange={(e) => updateMethod(index, { carrier: e.target.value || undefined })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Price by</Label>
+                    <Select
+                      value={method.pricingBasis}
+                      onValueChange={(value) => updateMethod(index, { pricingBasis: value as ShippingMethod["pricingBasis"] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="flat">Flat rate</SelectItem>
+                        <SelectItem value="weight">Weight (grams)</SelectItem>
+                        <SelectItem value="items">Item count</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>{method.pricingBasis === "flat" ? "Price (SEK)" : "Fallback price (SEK)"}</Label>
+                    <Input type="number" min="0" step="0.01" value={method.price} onChange={(e) => updateMethod(index, { price: Number(e.target.value) })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Free shipping from (SEK)</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={method.freeShippingThreshold ?? ""}
+                      onChange={(e) =>
+                        updateMethod(index, { freeShippingThreshold: e.target.value === "" ? undefined : Number(e.target.value) })
+                      }
+                      placeholder="No threshold"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Delivery (days)</Label>
+                    <div className="flex items-center gap-2">
+                      <Input type="number" min="0" value={method.minDeliveryDays} onChange={(e) => updateMethod(index, { minDeliveryDays: Number(e.target.value) })} />
+                      <span>–</span>
+                      <Input type="number" min="0" value={method.maxDeliveryDays} onChange={(e) => updateMethod(index, { maxDeliveryDays: Number(e.target.value) })} />
+                    </div>
+                  </div>
+                </div>
+
+                {method.pricingBasis !== "flat" && (
+                  <div className="space-y-2">
+                    <Label>Rate tiers ({method.pricingBasis === "weight" ? "up to grams" : "up to items"})</Label>
+                    {(method.rates || []).map((tier, tierIndex) => (
+                      <div key={tierIndex} className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min="1"
+                          value={tier.upTo}
+                          onChange={(e) =>
+                            updateMethod(index, {
+                              rates: method.rates!.map((t, i) => (i === tierIndex ? { ...t, upTo: Number(e.target.value) } : t)),
+                            })
+                          }
+                          className="w-32"
+                        />
+                        <span className="text-sm text-slate-500">→</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={tier.price}
+                          onChange={(e) =>
+                            updateMethod(index, {
+                              rates: method.rates!.map((t, i) => (i === tierIndex ? { ...t, price: Number(e.target.value) } : t)),
+                            })
+                          }
+                          className="w-32"
+                        />
+                        <span className="text-sm text-slate-500">SEK</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateMethod(index, { rates: method.rates!.filter((_, i) => i !== tierIndex) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateMethod(index, { rates: [...(method.rates || []), { upTo: 0, price: 0 }] })}
+                    >
+                      <Plus className="mr-1.5 h-4 w-4" />
+                      Add Tier
+                    </Button>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Switch checked={method.isActive} onCheckedChange={(checked) => updateMethod(index, { isActive: checked })} />
+                    <Label>{method.isActive ? "Offered at checkout" : "Hidden"}</Label>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={formik.values.methods.length === 1}
+                    onClick={() => formik.setFieldValue("methods", formik.values.methods.filter((_, i) => i !== index))}
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                  >
+                    <Trash2 className="mr-1.5 h-4 w-4" />
+                    Remove Method
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter className="flex gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={formik.isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={formik.isSubmitting} className="bg-primary hover:bg-primary/90">
+              {formik.isSubmitting ? "Saving..." : isEdit ? "Update Zone" : "Create Zone"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
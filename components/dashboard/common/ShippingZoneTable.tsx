@@ -0,0 +1,117 @@
+import React from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Edit3, Trash2 } from "lucide-react"
+import type { ShippingMethod, ShippingZone } from "@/lib/models/Shipping"
+
+interface ShippingZoneTableProps {
+  zones: ShippingZone[]
+  loading: boolean
+  onEdit: (zone: ShippingZone) => void
+  onDelete: (id: string, name: string) => void
+}
+
+const describeMethod = (method: ShippingMethod) => {
+  const price =
+    method.pricingBasis === "flat" || !method.rates?.length
+      ? `${method.price} SEK`
+      : `${Math.min(...method.rates.map((t) => t.price))}–${Math.max(...method.rates.map((t) => t.price))} SEK by ${method.pricingBasis}`
+  const free = method.freeShippingThreshold !== undefined ? `, free from ${method.freeShippingThreshold} SEK` : ""
+  return `${method.name}: ${price}${free} (${method.minDeliveryDays}–${method.maxDeliveryDays} days)`
+}
+
+export const ShippingZoneTable: React.FC<ShippingZoneTableProps> = ({ zones, loading, onEdit, onDelete }) => {
+  if (loading) {
+    return (
+      <div className="p-6 space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!zones.length)
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-2">No shipping zones configured</div>
+        <p className="text-slate-500 dark:text-slate-400">
+          Checkout uses the default Standard (79 SEK) and Express (149 SEK) rates until a zone is created.
+        </p>
+      </div>
+    )
+
+  return (
+    <div className="overflow-x-auto max-w-full">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-primary/10 dark:border-primary/20 bg-primary/5 dark:bg-primary/10">
+            <TableHead className="min-w-[140px] font-bold text-primary py-4 text-sm uppercase tracking-wider">Zone</TableHead>
+            <TableHead className="min-w-[160px] font-bold text-primary py-4 text-sm uppercase tracking-wider">Destinations</TableHead>
+            <TableHead className="min-w-[280px] font-bold text-primary py-4 text-sm uppercase tracking-wider">Methods</TableHead>
+            <TableHead className="min-w-[100px] font-bold text-primary py-4 text-sm uppercase tracking-wider">Status</TableHead>
+            <TableHead className="min-w-[140px] font-bold text-primary py-4 text-sm uppercase tracking-wider">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {zones.map((zone, index) => (
+            <TableRow
+              key={zone.id}
+              className={`border-b transition-colors hover:bg-primary/5 dark:hover:bg-primary/10 ${
+                index % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50/50 dark:bg-slate-800/20"
+              }`}
+            >
+              <TableCell className="font-medium text-slate-900 dark:text-slate-100 py-4">{zone.name}</TableCell>
+              <TableCell className="text-slate-700 dark:text-slate-300 py-4">
+                <div>{zone.countries.join(", ")}</div>
+                {zone.postalCodePrefixes?.length ? (
+                  <div className="text-xs text-slate-500">Postal codes: {zone.postalCodePrefixes.join(", ")}*</div>
+                ) : null}
+              </TableCell>
+              <TableCell className="text-slate-700 dark:text-slate-300 py-4 text-sm">
+                {zone.methods.map((method) => (
+                  <div key={method.id} className={method.isActive ? "" : "line-through text-slate-400"}>
+                    {describeMethod(method)}
+                  </div>
+                ))}
+              </TableCell>
+              <TableCell className="py-4">
+                <Badge
+                  className={`${
+                    zone.isActive
+                      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                      : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+                  } font-medium px-3 py-1 rounded-full text-xs`}
+                >
+                  {zone.isActive ? "Active" : "Inactive"}
+                </Badge>
+              </TableCell>
+              <TableCell className="py-4">
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onEdit(zone)}
+                    className="border-primary/30 hover:bg-primary/5 hover:border-primary dark:hover:bg-primary/20 transition-colors text-primary"
+                  >
+                    <Edit3 className="mr-1.5 h-4 w-4" />Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onDelete(zone.id, zone.name)}
+                    className="bg-transparent hover:bg-red-50 hover:text-red-700 hover:border-red-300 dark:hover:bg-red-900/20 text-red-600 border-red-200 transition-colors"
+                  >
+                    <Trash2 className="mr-1.5 h-4 w-4" />Delete
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+import React, { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "sonner"
+import { useAppDispatch } from "@/lib/redux/hooks"
+import { adjustStock } from "@/lib/redux/slices/inventorySlice"
+import type { LowStockItem } from "@/lib/models/Inventory"
+
+interface StockAdjustDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  item: LowStockItem | null
+}
+
+export const StockAdjustDialog: React.FC<StockAdjustDialogProps> = ({ open, onOpenChange, item }) => {
+  const dispatch = useAppDispatch()
+  const [quantity, setQuantity] = useState(0)
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  if (!item) return null
+
+  const handleAdjust = async () => {
+    setSaving(true)
+    try {
+      const { stockAfter } = await dispatch(
+        adjustStock({ productId: item.productId, variationId: item.variationId, size: item.size, quantity, note }),
+      ).unwrap()
+      toast.success(`${item.productName} now has ${stockAfter} in stock`)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to adjust stock")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary">Adjust Stock</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-400">
+            {item.productName}
+            {item.colorName && ` • ${item.colorName}`}
+            {item.size && ` • size ${item.size}`} • {item.stockQuantity} in stock
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="stockAdjustment">Change</Label>
+            <Input
+              id="stockAdjustment"
+              type="number"
+              step={1}
+              value={quantity}
+              onChange={(e) => setQuantity(Number(e.target.value))}
+              disabled={saving}
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="stockAdjustmentNote">Reason</Label>
+            <Input
+              id="stockAdjustmentNote"
+              placeholder="e.g. Delivery, stocktake, damaged"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex gap-3">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdjust} disabled={saving || !quantity || !note.trim()} className="bg-primary hover:bg-primary/90">
+            {saving ? "Saving..." : "Adjust Stock"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
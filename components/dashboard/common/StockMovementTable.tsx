@@ -0,0 +1,61 @@
+import React from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { StockMovement, StockMovementType } from "@/lib/models/Inventory"
+
+interface StockMovementTableProps {
+  movements: StockMovement[]
+}
+
+const movementLabels: Record<StockMovementType, string> = {
+  reserve: "Reserved for order",
+  release: "Reservation released",
+  return: "Returned to stock",
+  adjust: "Adjusted",
+}
+
+export const StockMovementTable: React.FC<StockMovementTableProps> = ({ movements }) => {
+  if (!movements.length)
+    return <div className="text-center py-8 text-slate-500 dark:text-slate-400">No stock movements yet</div>
+
+  return (
+    <div className="overflow-x-auto max-w-full max-h-96 overflow-y-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Product</TableHead>
+            <TableHead>Entry</TableHead>
+            <TableHead>Order</TableHead>
+            <TableHead className="text-right">Change</TableHead>
+            <TableHead className="text-right">Stock</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {movements.map((movement) => (
+            <TableRow key={movement.id}>
+              <TableCell className="text-xs">{new Date(movement.createdAt).toLocaleString()}</TableCell>
+              <TableCell>
+                <div>{movement.productName || movement.productId}</div>
+                {movement.size && <div className="text-xs text-slate-500">Size {movement.size}</div>}
+              </TableCell>
+              <TableCell>
+                <div>{movementLabels[movement.type]}</div>
+                {(movement.note || movement.createdBy) && (
+                  <div className="text-xs text-slate-500">
+                    {[movement.note, movement.createdBy].filter(Boolean).join(" • ")}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{movement.orderId || "—"}</TableCell>
+              <TableCell className={`text-right ${movement.quantity < 0 ? "text-red-600" : "text-green-700"}`}>
+                {movement.quantity > 0 ? "+" : ""}
+                {movement.quantity}
+              </TableCell>
+              <TableCell className="text-right">{movement.stockAfter ?? "—"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import React from "react"
+import { useFormik } from "formik"
+import * as Yup from "yup"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { TAX_CLASSES, type CreateTaxRuleData, type TaxClass, type TaxRule } from "@/lib/models/Tax"
+
+interface TaxRuleFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialValues: Partial<TaxRule>
+  onSubmit: (values: CreateTaxRuleData & { id?: string }, helpers: any) => void
+  isEdit: boolean
+}
+
+const taxRuleSchema = Yup.object().shape({
+  country: Yup.string()
+    .required("Country is required")
+    .matches(/^(\*|[A-Za-z]{2})$/, "Use a two-letter country code, or * for all other countries"),
+  ratePercent: Yup.number().required("Rate is required").min(0, "Rate cannot be negative").max(99.99, "Rate must be below 100%"),
+})
+
+export const TaxRuleFormDialog: React.FC<TaxRuleFormDialogProps> = ({ open, onOpenChange, initialValues, onSubmit, isEdit }) => {
+  const formik = useFormik({
+    initialValues: {
+      country: initialValues.country || "",
+      taxClass: (initialValues.taxClass || "standard") as TaxClass,
+      // Edited as a percentage, stored as a fraction
+      ratePercent: initialValues.rate !== undefined ? Math.round(initialValues.rate * 10000) / 100 : 25,
+      label: initialValues.label || "",
+      isActive: initialValues.isActive ?? true,
+    },
+    validationSchema: taxRuleSchema,
+    onSubmit: (values, helpers) => {
+      onSubmit(
+        {
+          id: isEdit ? initialValues.id : undefined,
+          country: values.country === "*" ? "*" : values.country.toUpperCase(),
+          taxClass: values.taxClass,
+          rate: Number(values.ratePercent) / 100,
+          label: values.label.trim() || undefined,
+          isActive: values.isActive,
+        },
+        helpers,
+      )
+    },
+    enableReinitialize: true,
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-primary">{isEdit ? "Edit Tax Rule" : "Create Tax Rule"}</DialogTitle>
+          <DialogDescription className="text-slate-600 dark:text-slate-400">
+            Rate charged for a tax class when shipping to a country.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={formik.handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax-country">Country *</Label>
+              <Input id="tax-country" name="country" value={formik.values.country} onChange={formik.handleChange} onBlur={formik.handleBlur} placeholder="SE" />
+              {formik.touched.country && formik.errors.country && <p className="text-sm text-red-600">{formik.errors.country}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Tax Class *</Label>
+              <Select value={formik.values.taxClass} onValueChange={(value) => formik.setFieldValue("taxClass", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TAX_CLASSES.map((c) => (
+                    <SelectItem key={c.value} value={c.value}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-rate">Rate (%) *</Label>
+              <Input id="tax-rate" name="ratePercent" type="number" step="0.01" min="0" value={formik.values.ratePercent} onChange={formik.handleChange} onBlur={formik.handleBlur} />
+              {formik.touched.ratePercent && formik.errors.ratePercent && <p className="text-sm text-red-600">{formik.errors.ratePercent}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-label">Receipt label</Label>
+              <Input id="tax-label" name="label" value={formik.values.label} onChange={formik.handleChange} placeholder="VAT" />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="tax-active" checked={formik.values.isActive} onCheckedChange={(checked) => formik.setFieldValue("isActive", checked)} />
+            <Label htmlFor="tax-active">{formik.values.isActive ? "Active" : "Inactive"}</Label>
+          </div>
+
+          <DialogFooter className="flex gap-3">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={formik.isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={formik.isSubmitting} className="bg-primary hover:bg-primary/90">
+              {formik.isSubmitting ? "Saving..." : isEdit ? "Update Rule" : "Create Rule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,101 @@
+import React from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Edit3, Trash2 } from "lucide-react"
+import { TAX_CLASSES, type TaxRule } from "@/lib/models/Tax"
+
+interface TaxRuleTableProps {
+  rules: TaxRule[]
+  loading: boolean
+  onEdit: (rule: TaxRule) => void
+  onDelete: (rule: TaxRule) => void
+}
+
+const classLabel = (taxClass: string) => TAX_CLASSES.find((c) => c.value === taxClass)?.label || taxClass
+
+export const TaxRuleTable: React.FC<TaxRuleTableProps> = ({ rules, loading, onEdit, onDelete }) => {
+  if (loading) {
+    return (
+      <div className="p-6 space-y-4">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!rules.length)
+    return (
+      <div className="text-center py-12">
+        <div className="text-lg font-semibold text-slate-700 dark:text-slate-300 mb-2">No tax rules configured</div>
+        <p className="text-slate-500 dark:text-slate-400">
+          Swedish rates (25%, 12%, 6%, 0%) apply to every destination until a rule is created.
+        </p>
+      </div>
+    )
+
+  return (
+    <div className="overflow-x-auto max-w-full">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-primary/10 dark:border-primary/20 bg-primary/5 dark:bg-primary/10">
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Country</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Tax Class</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Rate</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Label</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Status</TableHead>
+            <TableHead className="font-bold text-primary py-4 text-sm uppercase tracking-wider">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.map((rule, index) => (
+            <TableRow
+              key={rule.id}
+              className={`border-b transition-colors hover:bg-primary/5 dark:hover:bg-primary/10 ${
+                index % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50/50 dark:bg-slate-800/20"
+              }`}
+            >
+              <TableCell className="font-mono font-medium py-4">{rule.country === "*" ? "All other" : rule.country}</TableCell>
+              <TableCell className="py-4">{classLabel(rule.taxClass)}</TableCell>
+              <TableCell className="py-4">{Math.round(rule.rate * 10000) / 100}%</TableCell>
+              <TableCell className="py-4">{rule.label || "VAT"}</TableCell>
+              <TableCell className="py-4">
+                <Badge
+                  className={`${
+                    rule.isActive
+                      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+                      : "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+                  } font-medium px-3 py-1 rounded-full text-xs`}
+                >
+                  {rule.isActive ? "Active" : "Inactive"}
+                </Badge>
+              </TableCell>
+              <TableCell className="py-4">
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onEdit(rule)}
+                    className="border-primary/30 hover:bg-primary/5 hover:border-primary dark:hover:bg-primary/20 transition-colors text-primary"
+                  >
+                    <Edit3 className="mr-1.5 h-4 w-4" />Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onDelete(rule)}
+                    className="bg-transparent hover:bg-red-50 hover:text-red-700 hover:border-red-300 dark:hover:bg-red-900/20 text-red-600 border-red-200 transition-colors"
+                  >
+                    <Trash2 className="mr-1.5 h-4 w-4" />Delete
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
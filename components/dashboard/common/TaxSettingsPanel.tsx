@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { TAX_CLASSES, type TaxSettings } from "@/lib/models/Tax"
+
+interface TaxSettingsPanelProps {
+  settings: TaxSettings | null
+  onSave: (settings: Partial<TaxSettings>) => Promise<void>
+}
+
+const UNTAXED = "none"
+
+export const TaxSettingsPanel: React.FC<TaxSettingsPanelProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<Partial<TaxSettings>>({})
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (settings) setDraft(settings)
+  }, [settings])
+
+  const save = async () => {
+    setSaving(true)
+    try {
+      await onSave(draft)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end p-6 border-b border-slate-100 dark:border-slate-800">
+      <div className="space-y-2">
+        <Label>Catalog prices</Label>
+        <div className="flex items-center space-x-2 pt-2">
+          <Switch
+            id="prices-include-tax"
+            checked={!!draft.pricesIncludeTax}
+            onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, pricesIncludeTax: checked }))}
+          />
+          <Label htmlFor="prices-include-tax">{draft.pricesIncludeTax ? "Include tax" : "Exclude tax"}</Label>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Shipping taxed as</Label>
+        <Select
+          value={draft.shippingTaxClass || UNTAXED}
+          onValueChange={(value) => setDraft((prev) => ({ ...prev, shippingTaxClass: value === UNTAXED ? null : (value as any) }))}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNTAXED}>Not taxed</SelectItem>
+            {TAX_CLASSES.map((c) => (
+              <SelectItem key={c.value} value={c.value}>
+                {c.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="origin-country">Shop registered in</Label>
+        <Input
+          id="origin-country"
+          value={draft.originCountry || ""}
+          onChange={(e) => setDraft((prev) => ({ ...prev, originCountry: e.target.value.toUpperCase() }))}
+          maxLength={2}
+        />
+      </div>
+      <Button onClick={save} disabled={saving || !settings} className="bg-primary hover:bg-primary/90">
+        {saving ? "Saving..." : "Save Tax Settings"}
+      </Button>
+    </div>
+  )
+}
@@ -3,9 +3,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Edit3, Trash2 } from "lucide-react"
+import { Edit3, Trash2, LockOpen } from "lucide-react"
 import type { User } from "@/types"
 
+export const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date()
+
 interface UserTableProps {
   users: User[]
   loading: boolean
@@ -13,9 +15,10 @@ interface UserTableProps {
   getRoleColor: (role: string) => string
   onEdit: (user: User) => void
   onDelete: (id: string, email: string) => void
+  onUnlock: (user: User) => void
 }
 
-export const UserTable: React.FC<UserTableProps> = ({ users, loading, t, getRoleColor, onEdit, onDelete }) => {
+export const UserTable: React.FC<UserTableProps> = ({ users, loading, t, getRoleColor, onEdit, onDelete, onUnlock }) => {
   if (loading) return (
     <div className="p-6 space-y-4">
       {[...Array(5)].map((_, i) => (
@@ -42,6 +45,7 @@ export const UserTable: React.FC<UserTableProps> = ({ users, loading, t, getRole
             <TableHead className="min-w-[120px] font-bold text-primary py-4 text-sm uppercase tracking-wider">{t.customerNumber}</TableHead>
             <TableHead className="min-w-[200px] font-bold text-primary py-4 text-sm uppercase tracking-wider">{t.email}</TableHead>
             <TableHead className="min-w-[100px] font-bold text-primary py-4 text-sm uppercase tracking-wider">{t.role}</TableHead>
+            <TableHead className="min-w-[140px] font-bold text-primary py-4 text-sm uppercase tracking-wider">{t.accountStatus}</TableHead>
             <TableHead className="min-w-[150px] font-bold text-primary py-4 text-sm uppercase tracking-wider">{t.actions}</TableHead>
           </TableRow>
         </TableHeader>
@@ -58,8 +62,36 @@ export const UserTable: React.FC<UserTableProps> = ({ users, loading, t, getRole
               <TableCell className="py-4">
                 <Badge className={`${getRoleColor(user.role)} font-medium px-3 py-1 rounded-full text-xs`}>{user.role}</Badge>
               </TableCell>
+              <TableCell className="py-4">
+                {isLocked(user) ? (
+                  <Badge
+                    className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300 font-medium px-3 py-1 rounded-full text-xs"
+                    title={`${user.failedLoginCount ?? 0} failed logins`}
+                  >
+                    {t.statusLockedUntil.replace("{time}", new Date(user.lockedUntil!).toLocaleString())}
+                  </Badge>
+                ) : user.emailVerified === false ? (
+                  <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300 font-medium px-3 py-1 rounded-full text-xs">
+                    {t.statusUnverified}
+                  </Badge>
+                ) : (
+                  <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 font-medium px-3 py-1 rounded-full text-xs">
+                    {t.statusActive}
+                  </Badge>
+                )}
+              </TableCell>
               <TableCell className="py-4">
                 <div className="flex gap-3">
+                  {isLocked(user) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onUnlock(user)}
+                      className="border-amber-300 hover:bg-amber-50 text-amber-700 dark:hover:bg-amber-900/20 transition-colors"
+                    >
+                      <LockOpen className="mr-1.5 h-4 w-4" />{t.unlockAccount}
+                    </Button>
+                  )}
                   <Button 
                     variant="outline" 
                     size="sm" 
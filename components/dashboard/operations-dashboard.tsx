@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Skeleton } from "@/components/ui/skeleton"
-import { FileArchive, Package, Clock, Printer, Truck, CheckCircle, User, ImageIcon, AlertTriangle } from "lucide-react"
+import { FileArchive, Package, Clock, Printer, Truck, CheckCircle, User, ImageIcon, AlertTriangle, PauseCircle, XCircle, RotateCcw, History } from "lucide-react"
 import { toast } from "sonner"
 import type { Order } from "@/types"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
@@ -18,6 +18,11 @@ import Image from "next/image"
 import { downloadOrderPDF } from "@/lib/utils/pdfExport"
 import { DesignCanvasRenderer } from "@/components/DesignCanvasRenderer"
 import { DesignElementsSummary } from "@/components/DesignElementsSummary"
+import { OrderRefundPanel, paymentStatusColor } from "@/components/dashboard/common/OrderRefundPanel"
+import { OrderInvoicePanel } from "@/components/dashboard/common/OrderInvoicePanel"
+import { OrderStatusTimeline } from "@/components/dashboard/common/OrderStatusTimeline"
+import { Input } from "@/components/ui/input"
+import { allowedNextStatuses, isPaidForProduction } from "@/lib/utils/orderStatus"
 
 export function OperationsDashboard() {
   const dispatch = useAppDispatch()
@@ -33,6 +38,10 @@ export function OperationsDashboard() {
   // Order details modal state
   const [detailsOpen, setDetailsOpen] = useState(false)
   const [detailsOrder, setDetailsOrder] = useState<Order | null>(null)
+  const [statusNote, setStatusNote] = useState("")
+  const [tracking, setTracking] = useState({ carrier: "", number: "", url: "" })
+  // Orders exist from checkout on, so abandoned and failed payments are hidden from the queue by default
+  const [paymentFilter, setPaymentFilter] = useState<"paid" | "unpaid" | "all">("paid")
   
   // Initialize visibility state safely on client side
   useEffect(() => {
@@ -70,29 +79,63 @@ export function OperationsDashboard() {
     };
   }, [dispatch, lastFetch])
 
-  const handleStatusUpdate = async (orderId: string, newStatus: Order["status"]) => {
+  const handleStatusUpdate = async (orderId: string, newStatus: Order["status"], note?: string) => {
+    // Tracking entered in the order details goes along when the order is shipped from there
+    const shipmentTracking =
+      newStatus === "Shipped" && detailsOrder?.id === orderId && tracking.carrier.trim() && tracking.number.trim()
+        ? tracking
+        : undefined
     try {
-      await dispatch(updateOrderStatus({ id: orderId, status: newStatus })).unwrap()
+      const updated = await dispatch(
+        updateOrderStatus({ id: orderId, status: newStatus, note, tracking: shipmentTracking }),
+      ).unwrap()
+      if (detailsOrder?.id === orderId) {
+        setDetailsOrder(updated)
+        setStatusNote("")
+        setTracking({ carrier: "", number: "", url: "" })
+      }
       toast.success(t.orderStatusChanged.replace("{orderId}", orderId).replace("{newStatus}", newStatus))
     } catch (error) {
-      toast.error(t.failedToUpdateOrder)
+      toast.error(error instanceof Error && error.message ? error.message : t.failedToUpdateOrder)
     }
   }
 
+  // Download the print-ready file of every designed side; sides without a print area are reported
   const handleExportPrintFile = async (orderId: string) => {
     try {
-      const order = orders.find(o => o.id === orderId)
-      if (!order) {
-        toast.error('Order not found')
+      const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/print-files`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to list print files")
+      }
+
+      if (data.skipped.length > 0) {
+        const reasons = data.skipped.map((s: { reason: string }) => s.reason).join("; ")
+        toast.warning(t.printFilesSkipped.replace("{count}", String(data.skipped.length)).replace("{reasons}", reasons))
+      }
+      if (data.files.length === 0) {
+        toast.error(t.noPrintFiles.replace("{orderId}", orderId))
         return
       }
-      
-      toast.success(`Generating PDF for order ${orderId}...`)
-      
-      // Generate and download PDF
+
+      toast.success(t.printFilePrepared.replace("{orderId}", orderId))
+      for (const file of data.files as Array<{ url: string }>) {
+        const link = document.createElement("a")
+        link.href = `${file.url}?format=pdf`
+        link.download = ""
+        document.body.appendChild(link)
+        link.click()
+        link.remove()
+      }
+    } catch (error) {
+      console.error('Error exporting print files:', error)
+      toast.error(error instanceof Error && error.message ? error.message : 'Failed to export print files. Please try again.')
+    }
+  }
+
+  const handleDownloadOrderSheet = (order: Order) => {
+    try {
       downloadOrderPDF(order)
-      
-      toast.success(`PDF generated successfully for order ${orderId}`)
     } catch (error) {
       console.error('Error generating PDF:', error)
       toast.error('Failed to generate PDF. Please try again.')
@@ -111,6 +154,12 @@ export function OperationsDashboard() {
         return <Truck className="h-4 w-4" />
       case "Completed":
         return <CheckCircle className="h-4 w-4" />
+      case "On Hold":
+        return <PauseCircle className="h-4 w-4" />
+      case "Cancelled":
+        return <XCircle className="h-4 w-4" />
+      case "Returned":
+        return <RotateCcw className="h-4 w-4" />
       default:
         return <Clock className="h-4 w-4" />
     }
@@ -128,16 +177,27 @@ export function OperationsDashboard() {
         return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
       case "Completed":
         return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+      case "On Hold":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+      case "Cancelled":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+      case "Returned":
+        return "bg-rose-100 text-rose-800 dark:bg-rose-900 dark:text-rose-200"
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
     }
   }
 
-  const statusOptions: Order["status"][] = ["Queued", "Printing", "In Production", "Shipped", "Completed"]
+  // Only offer the current status and the transitions the workflow allows from it
+  const statusOptions = (order: Order): Order["status"][] => [order.status, ...allowedNextStatuses(order.status, order.paymentStatus)]
+
+  const visibleOrders = orders.filter(
+    (o) => paymentFilter === "all" || isPaidForProduction(o.paymentStatus) === (paymentFilter === "paid"),
+  )
 
   // Calculate stats
   const totalOrders = orders.length
-  const queuedOrders = orders.filter((o) => o.status === "Queued").length
+  const queuedOrders = orders.filter((o) => o.status === "Queued" && isPaidForProduction(o.paymentStatus)).length
   const inProductionOrders = orders.filter((o) => o.status === "In Production" || o.status === "Printing").length
   const completedOrders = orders.filter((o) => o.status === "Completed").length
 
@@ -168,6 +228,7 @@ export function OperationsDashboard() {
             <TableHead className="min-w-[120px]">Customer</TableHead>
             <TableHead className="min-w-[100px]">Date</TableHead>
             <TableHead className="min-w-[120px]">Status</TableHead>
+            <TableHead className="min-w-[100px]">Payment</TableHead>
             <TableHead className="min-w-[150px]">Update Status</TableHead>
             <TableHead className="min-w-[150px]">Export Print File</TableHead>
           </TableRow>
@@ -187,6 +248,9 @@ export function OperationsDashboard() {
               <TableCell>
                 <Skeleton className="h-6 w-24" />
               </TableCell>
+              <TableCell>
+                <Skeleton className="h-6 w-16" />
+              </TableCell>
               <TableCell>
                 <Skeleton className="h-8 w-32" />
               </TableCell>
@@ -260,17 +324,29 @@ export function OperationsDashboard() {
       {/* Active Orders Queue */}
       <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
         <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
-          <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
-            <Package className="h-5 w-5 text-sky-600" />
-            {t.activeOrdersQueue}
-          </CardTitle>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <CardTitle className="flex items-center gap-2 text-slate-900 dark:text-slate-100">
+              <Package className="h-5 w-5 text-sky-600" />
+              {t.activeOrdersQueue}
+            </CardTitle>
+            <Select value={paymentFilter} onValueChange={(value) => setPaymentFilter(value as typeof paymentFilter)}>
+              <SelectTrigger className="sm:w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="paid">{t.paymentFilterPaid}</SelectItem>
+                <SelectItem value="unpaid">{t.paymentFilterUnpaid}</SelectItem>
+                <SelectItem value="all">{t.paymentFilterAll}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </CardHeader>
         <CardContent className="p-0">
           {loading ? (
             <div className="p-6">
               <OrdersSkeleton />
             </div>
-          ) : orders.length > 0 ? (
+          ) : visibleOrders.length > 0 ? (
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
@@ -287,6 +363,9 @@ export function OperationsDashboard() {
                     <TableHead className="min-w-[120px] font-semibold text-slate-700 dark:text-slate-300">
                       {t.status}
                     </TableHead>
+                    <TableHead className="min-w-[100px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t.payment}
+                    </TableHead>
                     <TableHead className="min-w-[150px] font-semibold text-slate-700 dark:text-slate-300">
                       {t.updateStatus}
                     </TableHead>
@@ -299,7 +378,7 @@ export function OperationsDashboard() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {orders.map((order, index) => (
+                  {visibleOrders.map((order, index) => (
                     <TableRow
                       key={order.id}
                       className={`border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800/50 ${
@@ -315,16 +394,21 @@ export function OperationsDashboard() {
                           {order.status}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <Badge className={`${paymentStatusColor(order.paymentStatus)} w-fit font-medium capitalize`}>
+                          {(order.paymentStatus || "pending").replace("_", " ")}
+                        </Badge>
+                      </TableCell>
                       <TableCell>
                         <Select
                           value={order.status}
-                          onValueChange={(value) => handleStatusUpdate(order.id, value as Order["status"])}
+                          onValueChange={(value) => value !== order.status && handleStatusUpdate(order.id, value as Order["status"])}
                         >
                           <SelectTrigger className="w-full min-w-[140px] border-slate-300 focus:border-[#634c9e] focus:ring-[#634c9e20]">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            {statusOptions.map((status) => (
+                            {statusOptions(order).map((status) => (
                               <SelectItem key={status} value={status}>
                                 <div className="flex items-center gap-2">
                                   {getStatusIcon(status)}
@@ -509,6 +593,78 @@ export function OperationsDashboard() {
                 </div>
               </div>
 
+              {/* Status History Section */}
+              <div className="bg-white dark:bg-slate-800 rounded-lg p-6 border border-slate-200 dark:border-slate-700 space-y-4">
+                <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Status History
+                </h3>
+                <OrderStatusTimeline history={detailsOrder.statusHistory} />
+                {detailsOrder.tracking && (
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    Tracking: {detailsOrder.tracking.carrier} {detailsOrder.tracking.number}
+                    {detailsOrder.tracking.url && (
+                      <a href={detailsOrder.tracking.url} target="_blank" rel="noopener noreferrer" className="ml-2 text-primary underline">
+                        Track
+                      </a>
+                    )}
+                  </p>
+                )}
+                {allowedNextStatuses(detailsOrder.status, detailsOrder.paymentStatus).includes("Shipped") && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pt-2 border-t border-slate-100 dark:border-slate-700">
+                    <Input
+                      value={tracking.carrier}
+                      onChange={(e) => setTracking({ ...tracking, carrier: e.target.value })}
+                      placeholder="Carrier, e.g. PostNord"
+                    />
+                    <Input
+                      value={tracking.number}
+                      onChange={(e) => setTracking({ ...tracking, number: e.target.value })}
+                      placeholder="Tracking number"
+                    />
+                    <Input
+                      value={tracking.url}
+                      onChange={(e) => setTracking({ ...tracking, url: e.target.value })}
+                      placeholder="Tracking link (optional)"
+                    />
+                  </div>
+                )}
+                {allowedNextStatuses(detailsOrder.status, detailsOrder.paymentStatus).length > 0 && (
+                  <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-slate-100 dark:border-slate-700">
+                    <Input
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      placeholder="Note for this status change (optional)"
+                      className="flex-1"
+                    />
+                    <Select
+                      value=""
+                      onValueChange={(value) => handleStatusUpdate(detailsOrder.id, value as Order["status"], statusNote)}
+                    >
+                      <SelectTrigger className="sm:w-[200px]">
+                        <SelectValue placeholder={t.updateStatus} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allowedNextStatuses(detailsOrder.status, detailsOrder.paymentStatus).map((status) => (
+                          <SelectItem key={status} value={status}>
+                            <div className="flex items-center gap-2">
+                              {getStatusIcon(status)}
+                              {status}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              {/* Payment & Refunds Section */}
+              <OrderRefundPanel order={detailsOrder} onRefunded={setDetailsOrder} />
+
+              {/* Invoices & Credit Notes Section */}
+              <OrderInvoicePanel order={detailsOrder} />
+
               {/* Products and Designs Section */}
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4 flex items-center gap-2">
@@ -938,12 +1094,19 @@ export function OperationsDashboard() {
                 >
                   Close
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDownloadOrderSheet(detailsOrder)}
+                  className="flex-1"
+                >
+                  {t.orderSheet}
+                </Button>
                 <Button 
                   onClick={() => handleExportPrintFile(detailsOrder.id)}
                   className="flex-1 bg-green-600 hover:bg-green-700 text-white"
                 >
                   <FileArchive className="mr-2 h-4 w-4" />
-                  Export Print File (PDF)
+                  {t.exportPrintFile}
                 </Button>
             </div>
             </div>
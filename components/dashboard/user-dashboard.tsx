@@ -1,8 +1,9 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, Fragment } from "react"
 import { useAppSelector, useAppDispatch } from "@/lib/redux/hooks"
 import { fetchOrders } from "@/lib/redux/slices/ordersSlice"
+import { fetchInvoices } from "@/lib/redux/slices/invoicesSlice"
 import { fetchDesigns, deleteDesign } from "@/lib/redux/slices/designsSlice"
 import { toast } from "sonner"
 import { 
@@ -24,15 +25,19 @@ import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { FileText, Palette, MapPin, Package, Edit3, Copy, Trash2, ArrowUpRight } from "lucide-react" // Added Edit3, Copy, Trash2
+import { FileText, Palette, MapPin, Package, Edit3, Copy, Trash2, ArrowUpRight, ChevronDown, ChevronUp, Download } from "lucide-react" // Added Edit3, Copy, Trash2
 import Image from "next/image"
 import { useSession } from "next-auth/react" // Import useSession
+import { OrderStatusTimeline } from "@/components/dashboard/common/OrderStatusTimeline"
+import { ChangePasswordCard } from "@/components/dashboard/common/ChangePasswordCard"
+import { EmailVerificationNotice } from "@/components/auth/email-verification-notice"
 
 export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }) {
   const dispatch = useAppDispatch()
   const { data: session } = useSession() // Get session data
   const { items: orders, loading: ordersLoading } = useAppSelector((state) => state.orders)
   const { items: designs, loading: designsLoading } = useAppSelector((state) => state.designs) // New designs state
+  const { items: invoices } = useAppSelector((state) => state.invoices)
   const { language } = useAppSelector((state) => state.app)
   const t = translations[language]
   
@@ -40,6 +45,9 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [designToDelete, setDesignToDelete] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
+
+  // Order whose status timeline is expanded in the order history table
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null)
   
   // Handle delete design
   const handleDeleteDesign = async () => {
@@ -87,6 +95,7 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
       if (isNowVisible && Date.now() - lastFetch > REFRESH_THRESHOLD) {
         if (user?.customerNumber) {
           dispatch(fetchOrders());
+          dispatch(fetchInvoices());
         }
         if ((user as any)?.id) {
           dispatch(fetchDesigns((user as any).id));
@@ -99,6 +108,7 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
     if (lastFetch === 0) {
       if (user?.customerNumber) {
         dispatch(fetchOrders());
+        dispatch(fetchInvoices());
       }
       if ((user as any)?.id) {
         dispatch(fetchDesigns((user as any).id));
@@ -124,6 +134,11 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
         return "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200"
       case "Printing":
         return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200"
+      case "On Hold":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200"
+      case "Cancelled":
+      case "Returned":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
     }
@@ -201,6 +216,8 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
 
   return (
     <div className="space-y-6">
+      <EmailVerificationNotice />
+
       {/* Welcome Section */}
       <Card className="bg-gradient-to-r from-primary/5 to-primary/10 dark:from-primary/10 dark:to-primary/20 border-primary/20 dark:border-primary/30 shadow-md">
         <CardContent className="p-6">
@@ -279,25 +296,67 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
                         <TableHead className="min-w-[100px] font-bold text-primary py-4 text-sm uppercase tracking-wider">
                           {t.total}
                         </TableHead>
+                        <TableHead className="min-w-[100px] font-bold text-primary py-4 text-sm uppercase tracking-wider">
+                          {t.invoices}
+                        </TableHead>
+                        <TableHead className="w-[60px]" />
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {userOrders.map((order, index) => (
-                        <TableRow
-                          key={order.id}
-                          className={`border-b transition-colors hover:bg-primary/5 dark:hover:bg-primary/10 ${
-                            index % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50/50 dark:bg-slate-800/20"
-                          }`}
-                        >
-                          <TableCell className="font-medium text-slate-900 dark:text-slate-100 py-4">{order.id}</TableCell>
-                          <TableCell className="text-slate-700 dark:text-slate-300 py-4">{order.date}</TableCell>
-                          <TableCell className="py-4">
-                            <Badge className={`${getStatusColor(order.status)} font-medium px-3 py-1 rounded-full text-xs`}>{order.status}</Badge>
-                          </TableCell>
-                          <TableCell className="font-semibold text-primary py-4">
-                            {order.total.toLocaleString()} SEK
-                          </TableCell>
-                        </TableRow>
+                        <Fragment key={order.id}>
+                          <TableRow
+                            className={`border-b transition-colors hover:bg-primary/5 dark:hover:bg-primary/10 ${
+                              index % 2 === 0 ? "bg-white dark:bg-slate-900" : "bg-slate-50/50 dark:bg-slate-800/20"
+                            }`}
+                          >
+                            <TableCell className="font-medium text-slate-900 dark:text-slate-100 py-4">{order.id}</TableCell>
+                            <TableCell className="text-slate-700 dark:text-slate-300 py-4">{order.date}</TableCell>
+                            <TableCell className="py-4">
+                              <Badge className={`${getStatusColor(order.status)} font-medium px-3 py-1 rounded-full text-xs`}>{order.status}</Badge>
+                            </TableCell>
+                            <TableCell className="font-semibold text-primary py-4">
+                              {order.total.toLocaleString()} SEK
+                            </TableCell>
+                            <TableCell className="py-4">
+                              {invoices.some((invoice) => invoice.orderId === order.id) ? (
+                                <div className="flex flex-col gap-1">
+                                  {invoices
+                                    .filter((invoice) => invoice.orderId === order.id)
+                                    .map((invoice) => (
+                                      <a
+                                        key={invoice.id}
+                                        href={`/api/invoices/${invoice.id}/pdf`}
+                                        className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                                      >
+                                        <Download className="h-3 w-3" />
+                                        {invoice.type === "credit_note" ? t.creditNote : t.invoice} {invoice.invoiceNumber}
+                                      </a>
+                                    ))}
+                                </div>
+                              ) : (
+                                <span className="text-xs text-slate-500 dark:text-slate-400">{t.invoicePending}</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="py-4">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                aria-label="Show status history"
+                                onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                              >
+                                {expandedOrderId === order.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                          {expandedOrderId === order.id && (
+                            <TableRow className="bg-slate-50/50 dark:bg-slate-800/20">
+                              <TableCell colSpan={6} className="py-4 px-6">
+                                <OrderStatusTimeline history={order.statusHistory} showActor={false} />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
                       ))}
                     </TableBody>
                   </Table>
@@ -433,7 +492,7 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
         </TabsContent>
 
         {/* Profile & Billing Tab */}
-        <TabsContent value="profile" className="mt-6">
+        <TabsContent value="profile" className="mt-6 space-y-6">
           <Card className="shadow-lg border-0 bg-white dark:bg-slate-900">
             <CardHeader className="border-b border-primary/10 dark:border-primary/20 bg-primary/5 dark:bg-primary/10">
               <CardTitle className="flex items-center gap-2 text-primary dark:text-primary/90">
@@ -477,6 +536,7 @@ export function UserDashboard({ defaultTab = "orders" }: { defaultTab?: string }
               <Button className="bg-primary hover:bg-primary/90 text-white shadow-md">{t.saveChanges}</Button>
             </CardContent>
           </Card>
+          <ChangePasswordCard />
         </TabsContent>
       </Tabs>
       
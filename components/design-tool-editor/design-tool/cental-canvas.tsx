@@ -10,6 +10,10 @@ import Image from "next/image"
 import { ProductAnglesSelector } from "@/components/dashboard/common/ProductAnglesSelector"
 import { LoadSavedDesign } from "./load-saved-design"
 import { useVariationDesignPersistence } from "@/hooks/useVariationDesignPersistence"
+import { PrintAreaGuides } from "@/components/PrintAreaGuides"
+import { DESIGN_CANVAS_SIZE, placementOf, printAreaFor, printAreaGuides } from "@/lib/utils/printArea"
+import type { PrintArea } from "@/lib/models/Product"
+import { AlertTriangle } from "lucide-react"
 
 // Type definition for product
 interface Product {
@@ -23,6 +27,7 @@ interface Product {
   image?: string;
   hasVariations?: boolean;
   variations?: any[];
+  printAreas?: PrintArea[];
 }
 
 export function CentralCanvas() {
@@ -78,6 +83,7 @@ export function CentralCanvas() {
           hasVariations: selectedProduct.hasVariations,
           variations: selectedProduct.variations,
           purchaseLimit: selectedProduct.purchaseLimit, // Add purchase limit data
+          printAreas: selectedProduct.printAreas,
         } : null,
           productColor,
           viewMode,
@@ -186,6 +192,7 @@ export function CentralCanvas() {
                 hasVariations: productData.hasVariations,
                 variations: productData.variations || [],
                 purchaseLimit: productData.purchaseLimit, // Add purchase limit data
+                printAreas: productData.printAreas,
               }
               
               dispatch(setSelectedProduct(restoredProduct))
@@ -240,6 +247,40 @@ export function CentralCanvas() {
     }
   }, [selectedProduct?.id, getFabricCanvas, isClient, isLoadingDesign])
   
+  // Print area of the current side, and how many objects stray outside it or its safe zone
+  const printArea = useMemo(
+    () => printAreaFor(selectedProduct as Product | null, viewMode),
+    [selectedProduct, viewMode],
+  )
+  const [placementWarnings, setPlacementWarnings] = useState({ outside: 0, outsideSafe: 0 })
+
+  useEffect(() => {
+    const canvas = getFabricCanvas()
+    if (!isClient || !canvas || !printArea) {
+      setPlacementWarnings({ outside: 0, outsideSafe: 0 })
+      return
+    }
+
+    const guides = printAreaGuides(printArea)
+    const check = () => {
+      const counts = { outside: 0, outsideSafe: 0 }
+      canvas.getObjects().forEach((obj: any) => {
+        if (!obj.visible) return
+        const placement = placementOf(obj.getBoundingRect(), guides)
+        if (placement === "outside") counts.outside++
+        if (placement === "outside_safe") counts.outsideSafe++
+      })
+      setPlacementWarnings((prev) =>
+        prev.outside === counts.outside && prev.outsideSafe === counts.outsideSafe ? prev : counts,
+      )
+    }
+
+    const events = ["object:added", "object:removed", "object:modified", "object:moving", "object:scaling", "object:rotating"]
+    events.forEach((event) => canvas.on(event, check))
+    check()
+    return () => events.forEach((event) => canvas.off(event, check))
+  }, [isClient, printArea, getFabricCanvas, isLoadingDesign])
+
   // Handle loading a saved design
   const handleDesignLoaded = useCallback((canvasJSON: any) => {
     if (canvasJSON && loadFromJSON) {
@@ -672,6 +713,7 @@ export function CentralCanvas() {
           hasVariations: productData.hasVariations,
           variations: productData.variations || [],
           purchaseLimit: productData.purchaseLimit, // Include purchase limit data
+          printAreas: productData.printAreas,
           // Ensure single product angle images are included
           frontImage: productData.frontImage,
           backImage: productData.backImage,
@@ -863,6 +905,21 @@ export function CentralCanvas() {
               </div>
             )}
 
+            {/* Placement warnings for the current side */}
+            {(placementWarnings.outside > 0 || placementWarnings.outsideSafe > 0) && (
+              <div
+                className="absolute top-3 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-1.5 text-xs text-amber-800 shadow-sm"
+                style={{ zIndex: 30 }}
+              >
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                <span>
+                  {placementWarnings.outside > 0
+                    ? `${placementWarnings.outside} element(s) extend outside the print area and will be cut off`
+                    : `${placementWarnings.outsideSafe} element(s) are outside the safe zone and may be trimmed`}
+                </span>
+              </div>
+            )}
+
             {/* Sub Container - Contains canvas and all design layers */}
             <div className="absolute inset-0 flex items-center justify-center p-4 lg:p-8" style={{ zIndex: 10 }}>
               <div className="w-full h-full relative max-w-xs max-h-xs">
@@ -890,6 +947,13 @@ export function CentralCanvas() {
                   />
                 </div>
 
+                {/* Print, safe and bleed zones of the current side, drawn over the canvas */}
+                {printArea && (
+                  <div className="absolute inset-0 flex items-center justify-center pointer-events-none" style={{ zIndex: 25 }}>
+                    <PrintAreaGuides area={printArea} style={{ width: DESIGN_CANVAS_SIZE, height: DESIGN_CANVAS_SIZE, flexShrink: 0 }} />
+                  </div>
+                )}
+
                 {/* We don't need to render image layers here anymore since they're handled by Fabric.js canvas */}
               </div>
             </div>
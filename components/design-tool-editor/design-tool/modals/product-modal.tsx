@@ -96,6 +96,7 @@ export function ProductModal({ isOpen, onClose, products, loading = false }: Pro
       hasVariations: product.hasVariations,
       variations: product.variations || [],
       purchaseLimit: product.purchaseLimit, // Add purchase limit data
+      printAreas: product.printAreas,
               // Include individual angle images for single products
         ...(product.hasVariations ? {} : {
           frontImage: (product as any).frontImage,
@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { useSelector } from "react-redux"
+import { useSession } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Bell } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { RootState } from "@/lib/redux/store"
+import { translations } from "@/lib/constants"
+
+interface RestockAlertFormProps {
+  productId: string
+  variationId: string
+  size: string
+}
+
+// Shown under a sold-out size: signs the customer up for one email when it is back
+export function RestockAlertForm({ productId, variationId, size }: RestockAlertFormProps) {
+  const { data: session } = useSession()
+  const { toast } = useToast()
+  const { language } = useSelector((state: RootState) => state.app)
+  const t = translations[language]
+
+  const [open, setOpen] = useState(false)
+  const [email, setEmail] = useState("")
+  const [sending, setSending] = useState(false)
+  const [subscribed, setSubscribed] = useState(false)
+
+  if (subscribed) {
+    return <div className="text-xs text-green-600 text-center mt-1">{t.restockSubscribed.replace("{size}", size)}</div>
+  }
+
+  const subscribe = async () => {
+    setSending(true)
+    try {
+      const response = await fetch("/api/stock-alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ productId, variationId, size, email: email || session?.user?.email, language }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to sign up for restock alert")
+      }
+      setSubscribed(true)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign up for restock alert",
+        variant: "destructive",
+      })
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (!open) {
+    return (
+      <Button
+        variant="link"
+        size="sm"
+        className="h-auto p-0 text-xs w-full"
+        // Signed-in customers are subscribed with their account email right away
+        onClick={() => (session?.user?.email ? subscribe() : setOpen(true))}
+        disabled={sending}
+      >
+        <Bell className="mr-1 h-3 w-3" />
+        {t.notifyWhenInStock}
+      </Button>
+    )
+  }
+
+  return (
+    <div className="flex gap-1 mt-1">
+      <Input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder={t.restockEmailPlaceholder}
+        className="h-7 text-xs"
+        disabled={sending}
+      />
+      <Button size="sm" className="h-7 px-2 text-xs" onClick={subscribe} disabled={sending || !email.trim()}>
+        <Bell className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+}
@@ -13,7 +13,7 @@ import {
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Copy, Check, Instagram, Facebook, Linkedin, MessageCircle, X } from "lucide-react"
+import { Copy, Check, Instagram, Facebook, Linkedin, MessageCircle, X, Mail } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import { RootState } from "@/lib/redux/store"
 
@@ -27,9 +27,15 @@ export function ShareModal({ isOpen, onClose }: ShareModalProps) {
   const searchParams = useSearchParams()
   const { toast } = useToast()
   const [copied, setCopied] = useState(false)
+  const [recipient, setRecipient] = useState("")
+  const [emailMessage, setEmailMessage] = useState("")
+  const [sendingEmail, setSendingEmail] = useState(false)
   
   // Get design data from Redux store
   const { selectedProduct, selectedTemplate } = useSelector((state: RootState) => state.design)
+  const { language } = useSelector((state: RootState) => state.app)
+  // Only saved designs have a link that can be mailed
+  const savedDesignId = searchParams.get('designId')
   
   // Generate the current design page URL
   const generateShareUrl = () => {
@@ -78,6 +84,37 @@ export function ShareModal({ isOpen, onClose }: ShareModalProps) {
     }
   }
 
+  const handleEmailShare = async () => {
+    setSendingEmail(true)
+    try {
+      const response = await fetch(`/api/designs/${savedDesignId}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to: recipient, message: emailMessage, language }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to share design")
+      }
+      toast({
+        title: "Email Sent!",
+        description: `Design link sent to ${recipient}`,
+        variant: "default",
+        className: "bg-green-50 border-green-200 text-green-800"
+      })
+      setRecipient("")
+      setEmailMessage("")
+    } catch (error) {
+      toast({
+        title: "Failed to send",
+        description: error instanceof Error ? error.message : "Failed to share design",
+        variant: "destructive"
+      })
+    } finally {
+      setSendingEmail(false)
+    }
+  }
+
   const handleSocialShare = (platform: string) => {
     let shareUrl = ""
     
@@ -165,6 +202,39 @@ export function ShareModal({ isOpen, onClose }: ShareModalProps) {
             </div>
           </div>
 
+          {/* Email Section */}
+          {savedDesignId && (
+            <div className="space-y-3">
+              <Label className="text-sm font-medium text-gray-700">Send by email</Label>
+              <Input
+                type="email"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="friend@example.com"
+                disabled={sendingEmail}
+              />
+              <div className="flex space-x-2">
+                <Input
+                  value={emailMessage}
+                  onChange={(e) => setEmailMessage(e.target.value)}
+                  placeholder="Add a message (optional)"
+                  maxLength={1000}
+                  className="flex-1"
+                  disabled={sendingEmail}
+                />
+                <Button
+                  onClick={handleEmailShare}
+                  variant="outline"
+                  size="sm"
+                  className="px-3 hover:bg-purple-50 hover:border-purple-300 transition-all duration-200"
+                  disabled={sendingEmail || !recipient.trim()}
+                >
+                  <Mail className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Copy Link Section */}
           <div className="space-y-3">
             <Label className="text-sm font-medium text-gray-700">Or copy the link</Label>
@@ -20,6 +20,10 @@ import { RootState } from "@/lib/redux/store"
 import { SizePrice } from "@/lib/models/Product"
 import { composeProductAndDesign } from "@/lib/utils/imageCompose"
 import { calculateDesignElementCosts, formatDesignPrice } from "@/lib/utils/designPricing"
+import { RestockAlertForm } from "./restock-alert-form"
+import { Checkbox } from "@/components/ui/checkbox"
+import { printAreaFor } from "@/lib/utils/printArea"
+import { hasBlockingIssues, preflightCanvas, type PreflightIssue } from "@/lib/utils/preflight"
 
 interface SizeQuantityModalProps {
   open: boolean
@@ -44,6 +48,9 @@ export function SizeQuantityModal({ open, onOpenChange, onAddToCart }: SizeQuant
   const [availableSizes, setAvailableSizes] = useState<SizePrice[]>([])
   const [designCosts, setDesignCosts] = useState<any>(null)
   const [quantityError, setQuantityError] = useState<string>("")
+  // Print-quality issues across every designed side; warnings must be acknowledged, errors block
+  const [preflightIssues, setPreflightIssues] = useState<PreflightIssue[]>([])
+  const [preflightAcknowledged, setPreflightAcknowledged] = useState(false)
   
   // Get current variation based on selected color
   const getCurrentVariation = () => {
@@ -440,6 +447,134 @@ export function SizeQuantityModal({ open, onOpenChange, onAddToCart }: SizeQuant
     }
   }
 
+  // Get all designed angles for the current variation from the design persistence system
+  const getAllDesignedAngles = () => {
+    if (!selectedProduct) return []
+    
+    // Get the current variation ID
+    let currentVariationId: string
+    if ((selectedProduct as any).hasVariations && (selectedProduct as any).variations) {
+      const variation = (selectedProduct as any).variations.find((v: any) => v.color.hex_code === productColor)
+      currentVariationId = variation?.id || null
+    } else {
+      // For single products, create virtual variation ID
+      currentVariationId = `single_${selectedProduct.id}_${viewMode}`
+    }
+    
+    if (!currentVariationId) return []
+    
+    // Get available view modes
+    const availableViewModes: string[] = []
+    if ((selectedProduct as any).hasVariations && (selectedProduct as any).variations) {
+      const firstVariation = (selectedProduct as any).variations[0]
+      if (firstVariation?.images) {
+        firstVariation.images
+          .filter((img: any) => img.angle && img.url && img.url.trim() !== '')
+          .forEach((img: any) => availableViewModes.push(img.angle))
+      }
+    } else {
+      const angleFields = ['front', 'back', 'left', 'right', 'material']
+      angleFields.forEach(angle => {
+        const imageField = `${angle}Image`
+        if ((selectedProduct as any)[imageField] && (selectedProduct as any)[imageField].trim() !== '') {
+          availableViewModes.push(angle)
+        }
+      })
+    }
+    
+    // Check which angles have designs by looking at the design persistence system
+    const designedAngles: Array<{ angle: string; hasDesign: boolean; designData?: any }> = []
+    
+    availableViewModes.forEach((angle: string) => {
+      // Check if this angle has a design by looking at the actual design persistence system
+      // We need to check if there's a saved design for this specific angle
+      let hasDesign = false
+      let designData = null
+      
+      if (angle === viewMode) {
+        // Current view always has design if we're in the design tool
+        hasDesign = true
+        // For current view, get the canvas data from the current fabric canvas
+        const fabricCanvas = (window as any).fabricCanvas
+        if (fabricCanvas) {
+          const currentCanvasJSON = fabricCanvas.toJSON(['isTemplate','minFontSize','maxFontSize','_originalFontSize','_bendAmount'])
+          designData = { 
+            viewMode: angle, 
+            productColor,
+            canvasJSON: currentCanvasJSON,
+            lastModified: Date.now()
+          }
+        } else {
+          designData = { viewMode: angle, productColor }
+        }
+      } else {
+        // For other angles, check if they have designs in the persistence system
+        // We'll check the localStorage for saved designs
+        try {
+          const storageKey = `variationDesigns`
+          const storedDesigns = localStorage.getItem(storageKey)
+          if (storedDesigns) {
+            const designs = JSON.parse(storedDesigns)
+            // Check if there's a design for this specific angle
+            const angleDesign = designs.find((d: any) => {
+              if ((selectedProduct as any).hasVariations && (selectedProduct as any).variations) {
+                // For variation products, check variation ID and angle
+                const variation = (selectedProduct as any).variations.find((v: any) => v.color.hex_code === productColor)
+                return d.variationId === variation?.id && d.viewMode === angle
+              } else {
+                // For single products, check virtual variation ID and angle
+                const virtualVariationId = `single_${selectedProduct.id}_${angle}`
+                return d.variationId === virtualVariationId
+              }
+            })
+            
+            if (angleDesign) {
+              hasDesign = true
+              designData = { 
+                viewMode: angle, 
+                productColor,
+                canvasJSON: angleDesign.canvasJSON,
+                lastModified: angleDesign.lastModified
+              }
+            }
+          }
+        } catch (error) {
+          console.warn('Error checking design persistence for angle:', angle, error)
+        }
+      }
+      
+      designedAngles.push({
+        angle: angle,
+        hasDesign,
+        designData
+      })
+    })
+    
+    console.log('🔄 [SizeQuantityModal] All designed angles for variation:', {
+      variationId: currentVariationId,
+      availableViewModes,
+      designedAngles: designedAngles.map(d => ({ 
+        angle: d.angle, 
+        hasDesign: d.hasDesign,
+        hasCanvasData: !!d.designData?.canvasJSON,
+        canvasDataSize: d.designData?.canvasJSON ? JSON.stringify(d.designData.canvasJSON).length : 0
+      }))
+    })
+    
+    return designedAngles
+  }
+
+  useEffect(() => {
+    if (!open || !selectedProduct) return
+    const issues = getAllDesignedAngles()
+      .filter((entry) => entry.hasDesign && entry.designData?.canvasJSON)
+      .flatMap((entry) => preflightCanvas(entry.designData.canvasJSON, printAreaFor(selectedProduct as any, entry.angle), entry.angle))
+    setPreflightIssues(issues)
+    setPreflightAcknowledged(false)
+  }, [open, selectedProduct, productColor, viewMode])
+
+  const preflightBlocked = hasBlockingIssues(preflightIssues) || (preflightIssues.length > 0 && !preflightAcknowledged)
+
   // Handle add to cart
   const handleAddToCart = async () => {
     // Filter out sizes with quantity 0
@@ -455,122 +590,8 @@ export function SizeQuantityModal({ open, onOpenChange, onAddToCart }: SizeQuant
     if (!currentVariation) {
       return
     }
-    
-    // Get all designed angles for the current variation from the design persistence system
-    const getAllDesignedAngles = () => {
-      if (!selectedProduct) return []
-      
-      // Get the current variation ID
-      let currentVariationId: string
-      if ((selectedProduct as any).hasVariations && (selectedProduct as any).variations) {
-        const variation = (selectedProduct as any).variations.find((v: any) => v.color.hex_code === productColor)
-        currentVariationId = variation?.id || null
-      } else {
-        // For single products, create virtual variation ID
-        currentVariationId = `single_${selectedProduct.id}_${viewMode}`
-      }
-      
-      if (!currentVariationId) return []
-      
-      // Get available view modes
-      const availableViewModes: string[] = []
-      if ((selectedProduct as any).hasVariations && (selectedProduct as any).variations) {
-        const firstVariation = (selectedProduct as any).variations[0]
-        if (firstVariation?.images) {
-          firstVariation.images
-            .filter((img: any) => img.angle && img.url && img.url.trim() !== '')
-            .forEach((img: any) => availableViewModes.push(img.angle))
-        }
-      } else {
-        const angleFields = ['front', 'back', 'left', 'right', 'material']
-        angleFields.forEach(angle => {
-          const imageField = `${angle}Image`
-          if ((selectedProduct as any)[imageField] && (selectedProduct as any)[imageField].trim() !== '') {
-            availableViewModes.push(angle)
-          }
-        })
-      }
-      
-      // Check which angles have designs by looking at the design persistence system
-      const designedAngles: Array<{ angle: string; hasDesign: boolean; designData?: any }> = []
-      
-      availableViewModes.forEach((angle: string) => {
-        // Check if this angle has a design by looking at the actual design persistence system
-        // We need to check if there's a saved design for this specific angle
-        let hasDesign = false
-        let designData = null
-        
-        if (angle === viewMode) {
-          // Current view always has design if we're in the design tool
-          hasDesign = true
-          // For current view, get the canvas data from the current fabric canvas
-          const fabricCanvas = (window as any).fabricCanvas
-          if (fabricCanvas) {
-            const currentCanvasJSON = fabricCanvas.toJSON(['isTemplate','minFontSize','maxFontSize','_originalFontSize','_bendAmount'])
-            designData = { 
-              viewMode: angle, 
-              productColor,
-              canvasJSON: currentCanvasJSON,
-              lastModified: Date.now()
-            }
-          } else {
-            designData = { viewMode: angle, productColor }
-          }
-        } else {
-          // For other angles, check if they have designs in the persistence system
-          // We'll check the localStorage for saved designs
-          try {
-            const storageKey = `variationDesigns`
-            const storedDesigns = localStorage.getItem(storageKey)
-            if (storedDesigns) {
-              const designs = JSON.parse(storedDesigns)
-              // Check if there's a design for this specific angle
-              const angleDesign = designs.find((d: any) => {
-                if ((selectedProduct as any).hasVariations && (selectedProduct as any).variations) {
-                  // For variation products, check variation ID and angle
-                  const variation = (selectedProduct as any).variations.find((v: any) => v.color.hex_code === productColor)
-                  return d.variationId === variation?.id && d.viewMode === angle
-                } else {
-                  // For single products, check virtual variation ID and angle
-                  const virtualVariationId = `single_${selectedProduct.id}_${angle}`
-                  return d.variationId === virtualVariationId
-                }
-              })
-              
-              if (angleDesign) {
-                hasDesign = true
-                designData = { 
-                  viewMode: angle, 
-                  productColor,
-                  canvasJSON: angleDesign.canvasJSON,
-                  lastModified: angleDesign.lastModified
-                }
-              }
-            }
-          } catch (error) {
-            console.warn('Error checking design persistence for angle:', angle, error)
-          }
-        }
-        
-        designedAngles.push({
-          angle: angle,
-          hasDesign,
-          designData
-        })
-      })
-      
-      console.log('🔄 [SizeQuantityModal] All designed angles for variation:', {
-        variationId: currentVariationId,
-        availableViewModes,
-        designedAngles: designedAngles.map(d => ({ 
-          angle: d.angle, 
-          hasDesign: d.hasDesign,
-          hasCanvasData: !!d.designData?.canvasJSON,
-          canvasDataSize: d.designData?.canvasJSON ? JSON.stringify(d.designData.canvasJSON).length : 0
-        }))
-      })
-      
-      return designedAngles
+    if (preflightBlocked) {
+      return
     }
     
     const allDesignedAngles = getAllDesignedAngles()
@@ -737,6 +758,8 @@ export function SizeQuantityModal({ open, onOpenChange, onAddToCart }: SizeQuant
   }
   
   const purchaseLimits = getPurchaseLimits()
+  // Only real variations keep stock, so only they offer restock alerts
+  const restockVariationId = (selectedProduct as any)?.hasVariations ? getCurrentVariation()?.id : undefined
   
   return (
  
@@ -852,6 +875,13 @@ export function SizeQuantityModal({ open, onOpenChange, onAddToCart }: SizeQuant
                       {isOutOfStock && (
                         <div className="text-xs text-red-500 text-center mt-1">Out of stock</div>
                       )}
+                      {isOutOfStock && restockVariationId && (
+                        <RestockAlertForm
+                          productId={(selectedProduct as any).id}
+                          variationId={restockVariationId}
+                          size={sizeItem.size}
+                        />
+                      )}
                       {!canIncrease && sizeItem.quantity > 0 && (
                         <div className="text-xs text-orange-500 text-center mt-1">Limit reached</div>
                       )}
@@ -893,6 +923,35 @@ export function SizeQuantityModal({ open, onOpenChange, onAddToCart }: SizeQuant
           </div>
         </div>
         
+        {preflightIssues.length > 0 && (
+          <Alert variant={hasBlockingIssues(preflightIssues) ? "destructive" : "default"} className={hasBlockingIssues(preflightIssues) ? "" : "border-amber-200 bg-amber-50"}>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="space-y-2">
+              <p className="font-medium">
+                {hasBlockingIssues(preflightIssues)
+                  ? "Your design cannot be printed as it is. Fix these issues in the editor:"
+                  : "Your design may not print as expected:"}
+              </p>
+              <ul className="list-disc pl-4 text-xs space-y-0.5">
+                {preflightIssues.map((issue, index) => (
+                  <li key={index}>
+                    <span className="capitalize">{issue.angle}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {!hasBlockingIssues(preflightIssues) && (
+                <label className="flex items-center gap-2 text-xs font-medium cursor-pointer">
+                  <Checkbox
+                    checked={preflightAcknowledged}
+                    onCheckedChange={(checked) => setPreflightAcknowledged(checked === true)}
+                  />
+                  I understand and want to order this design anyway
+                </label>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+        
         <DialogFooter className="flex sm:justify-between gap-2">
           <DialogClose asChild>
             <Button variant="outline" className="flex-1">Cancel</Button>
@@ -900,7 +959,7 @@ export function SizeQuantityModal({ open, onOpenChange, onAddToCart }: SizeQuant
           <Button 
             onClick={handleAddToCart} 
             className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
-            disabled={calculateTotalQuantity() === 0 || !!quantityError}
+            disabled={calculateTotalQuantity() === 0 || !!quantityError || preflightBlocked}
           >
             <ShoppingCart className="mr-2 h-4 w-4" />
             Add to Cart
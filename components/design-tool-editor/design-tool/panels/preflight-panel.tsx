@@ -0,0 +1,77 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useSelector } from "react-redux"
+import { RootState } from "@/lib/redux/store"
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react"
+import { printAreaFor } from "@/lib/utils/printArea"
+import { preflightCanvas, type PreflightIssue } from "@/lib/utils/preflight"
+
+/**
+ * Print-quality issues of the side being edited, rechecked whenever the canvas changes.
+ * Clicking an issue selects the object it is about.
+ */
+export function PreflightPanel() {
+  const fabricCanvas = useSelector((s: RootState) => (s.canvas as any).fabricCanvas)
+  const { selectedProduct, viewMode } = useSelector((state: RootState) => state.design)
+  const printArea = useMemo(() => printAreaFor(selectedProduct as any, viewMode), [selectedProduct, viewMode])
+  const [issues, setIssues] = useState<PreflightIssue[]>([])
+
+  useEffect(() => {
+    if (!fabricCanvas || !printArea) {
+      setIssues([])
+      return
+    }
+
+    const check = () => setIssues(preflightCanvas(fabricCanvas.toJSON(), printArea, viewMode))
+    // Checks serialise the canvas, so they run when an edit ends rather than on every mouse move
+    const events = ["object:added", "object:removed", "object:modified", "text:changed"]
+    events.forEach((event) => fabricCanvas.on(event, check))
+    check()
+    return () => events.forEach((event) => fabricCanvas.off(event, check))
+  }, [fabricCanvas, printArea, viewMode])
+
+  if (!printArea) return null
+
+  const selectObject = (issue: PreflightIssue) => {
+    const target = fabricCanvas?.getObjects()[issue.objectIndex]
+    if (!target) return
+    fabricCanvas.setActiveObject(target)
+    fabricCanvas.requestRenderAll()
+  }
+
+  return (
+    <div className="p-4 border-t border-gray-200 space-y-2">
+      <h3 className="font-medium text-sm">Print check</h3>
+      {issues.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Ready to print at {printArea.widthMm} x {printArea.heightMm} mm
+          </span>
+        </div>
+      ) : (
+        <ul className="space-y-1.5">
+          {issues.map((issue, index) => (
+            <li key={`${issue.code}-${issue.objectIndex}-${index}`}>
+              <button
+                type="button"
+                onClick={() => selectObject(issue)}
+                className={`w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left text-xs ${
+                  issue.severity === "error" ? "bg-red-50 text-red-800" : "bg-amber-50 text-amber-800"
+                }`}
+              >
+                {issue.severity === "error" ? (
+                  <XCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                ) : (
+                  <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                )}
+                <span>{issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
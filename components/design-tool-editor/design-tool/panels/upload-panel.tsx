@@ -1,20 +1,44 @@
 "use client"
 
-import { useRef, useState } from "react"
+import { useMemo, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { Upload, ImageIcon, FileText, Loader2 } from "lucide-react"
+import { Upload, ImageIcon, FileText, Loader2, AlertTriangle, PenTool } from "lucide-react"
 import { useFabricCanvas } from "@/hooks/useFabricCanvas"
 import { useDispatch, useSelector } from "react-redux"
 import { RootState } from "@/lib/redux/store"
 import { addImageLayer } from "@/lib/redux/designToolSlices/designSlice"
 import { ImagePropertiesPanel } from "./image-properties"
+import { printAreaFor } from "@/lib/utils/printArea"
+import { maxPrintSizeMm } from "@/lib/utils/preflight"
+import {
+  VECTOR_IMPORT_ACCEPT,
+  VectorImportError,
+  importKindOf,
+  importPdfFirstPage,
+  svgToFabric,
+  type ImportKind,
+} from "@/lib/utils/vectorImport"
+import { translations } from "@/lib/constants"
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024
+// Vector artwork is converted in the browser rather than uploaded, so larger files are fine
+const MAX_VECTOR_SIZE = 20 * 1024 * 1024
 
 export function UploadPanel() {
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const { addImage } = useFabricCanvas("design-canvas")
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const { addImage, addObject } = useFabricCanvas("design-canvas")
   const { fabricCanvas, selectedObject } = useSelector((state: RootState) => state.canvas as any)
+  const { selectedProduct, viewMode } = useSelector((state: RootState) => state.design)
+  const printArea = useMemo(() => printAreaFor(selectedProduct as any, viewMode), [selectedProduct, viewMode])
   const [isUploading, setIsUploading] = useState(false)
+  // How large the last upload prints sharply, compared with the print area
+  const [printSize, setPrintSize] = useState<{ name: string; width: number; height: number } | null>(null)
+  // Set when imported artwork could not be kept as vectors
+  const [importNote, setImportNote] = useState<string | null>(null)
+  const { language } = useSelector((state: RootState) => state.app)
+  const t = translations[language]
   const dispatch = useDispatch()
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -22,9 +46,7 @@ export function UploadPanel() {
     if (file) {
       await handleDroppedFile(file)
       // Clear the file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ''
-      }
+      event.target.value = ''
     }
   }
 
@@ -44,15 +66,63 @@ export function UploadPanel() {
     const files = e.dataTransfer.files
     if (files.length > 0) {
       const file = files[0]
-      if (file.type.startsWith('image/')) {
+      if (file.type.startsWith('image/') || importKindOf(file)) {
         // Handle the dropped file directly
         handleDroppedFile(file)
       } else {
-        alert('Please drop an image file')
+        alert('Please drop an image or a PDF, AI or SVG file')
       }
     }
   }
 
+  // Store the image on the server so designs, carts and orders reference it by URL
+  const uploadImage = async (file: Blob, name: string) => {
+    const form = new FormData()
+    form.append('file', file, name)
+    const response = await fetch('/api/assets', { method: 'POST', body: form })
+    const data = await response.json()
+    if (!response.ok) {
+      alert(data.error || 'Error uploading file. Please try again.')
+      return
+    }
+
+    const imageUrl: string = data.url
+    // Add the image directly to the Fabric canvas
+    addImage(fabricCanvas, imageUrl, {
+      isTemplate: false, // Flag that it's an uploaded image, not a template
+    })
+
+    // Still keep track in Redux state for persistence
+    dispatch(addImageLayer({
+      id: `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      src: imageUrl,
+      type: "upload",
+      name,
+    }))
+
+    const probe = new window.Image()
+    probe.onload = () => setPrintSize({ name, ...maxPrintSizeMm(probe.naturalWidth, probe.naturalHeight) })
+    probe.src = imageUrl
+  }
+
+  // SVGs and vector PDF pages become editable groups, which print sharply at any size
+  const importVectorArtwork = async (file: File, kind: ImportKind) => {
+    if (kind === "svg") {
+      addObject(fabricCanvas, await svgToFabric(await file.text()))
+      setPrintSize(null)
+      return
+    }
+
+    const page = await importPdfFirstPage(await file.arrayBuffer())
+    if (page.kind === "vector") {
+      addObject(fabricCanvas, await svgToFabric(page.svg))
+      setPrintSize(null)
+    } else {
+      await uploadImage(page.png, `${file.name.replace(/\.[^.]+$/, "")}.png`)
+      setImportNote(`${file.name} was imported as an image. ${page.reason}`)
+    }
+  }
+
   const handleDroppedFile = async (file: File) => {
     if (!fabricCanvas) {
       console.warn("Fabric canvas not yet initialized. Cannot upload image.")
@@ -60,50 +130,32 @@ export function UploadPanel() {
     }
 
     // Validate file type
-    if (!file.type.startsWith('image/')) {
-      alert('Please select an image file (JPG, PNG, SVG, etc.)')
+    const importKind = importKindOf(file)
+    if (!importKind && !file.type.startsWith('image/')) {
+      alert('Please select an image (JPG, PNG, GIF, WebP) or vector artwork (SVG, PDF, AI)')
       return
     }
 
-    // Validate file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      alert('File size must be less than 5MB')
+    // Validate file size
+    const maxSize = importKind ? MAX_VECTOR_SIZE : MAX_IMAGE_SIZE
+    if (file.size > maxSize) {
+      alert(`File size must be less than ${maxSize / 1024 / 1024}MB`)
       return
     }
 
     setIsUploading(true)
+    setImportNote(null)
 
     try {
-      const reader = new FileReader()
-      
-      reader.onload = (e) => {
-        const imageUrl = e.target?.result as string
-        if (imageUrl && fabricCanvas) {
-          // Add the image directly to the Fabric canvas
-          addImage(fabricCanvas, imageUrl, {
-            isTemplate: false, // Flag that it's an uploaded image, not a template
-          })
-          
-          // Still keep track in Redux state for persistence
-          dispatch(addImageLayer({
-            id: `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            src: imageUrl,
-            type: "upload",
-            name: file.name,
-          }))
-        }
-        setIsUploading(false)
-      }
-
-      reader.onerror = () => {
-        alert('Error reading file. Please try again.')
-        setIsUploading(false)
+      if (importKind) {
+        await importVectorArtwork(file, importKind)
+      } else {
+        await uploadImage(file, file.name)
       }
-
-      reader.readAsDataURL(file)
     } catch (error) {
       console.error('Error uploading file:', error)
-      alert('Error uploading file. Please try again.')
+      alert(error instanceof VectorImportError ? error.message : 'Error uploading file. Please try again.')
+    } finally {
       setIsUploading(false)
     }
   }
@@ -119,29 +171,47 @@ export function UploadPanel() {
           {isUploading ? (
             <>
               <Loader2 className="w-12 h-12 text-blue-600 animate-spin mb-4" />
-              <p className="text-sm text-gray-600 text-center mb-4">Uploading image...</p>
+              <p className="text-sm text-gray-600 text-center mb-4">Processing file...</p>
             </>
           ) : (
             <>
               <Upload className="w-12 h-12 text-gray-400 mb-4" />
               <p className="text-sm text-gray-600 text-center mb-4">
-                Drag and drop your image here or click to select
+                Drag and drop your image or artwork here or click to select
               </p>
               <input
                 ref={fileInputRef}
                 type="file"
                 className="hidden"
-                accept="image/*"
+                accept={`image/*,${VECTOR_IMPORT_ACCEPT}`}
+                onChange={handleFileUpload}
+              />
+              <input
+                ref={importInputRef}
+                type="file"
+                className="hidden"
+                accept={VECTOR_IMPORT_ACCEPT}
                 onChange={handleFileUpload}
               />
-              <Button 
-                variant="outline" 
-                className="rounded-xl bg-transparent" 
-                onClick={handleUploadClick}
-                disabled={!fabricCanvas}
-              >
-                Choose Image
-              </Button>
+              <div className="flex flex-col gap-2 w-full">
+                <Button 
+                  variant="outline" 
+                  className="rounded-xl bg-transparent" 
+                  onClick={handleUploadClick}
+                  disabled={!fabricCanvas}
+                >
+                  Choose Image
+                </Button>
+                <Button
+                  variant="outline"
+                  className="rounded-xl bg-transparent"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={!fabricCanvas}
+                >
+                  <PenTool className="w-4 h-4 mr-2" />
+                  {t.importDesign}
+                </Button>
+              </div>
             </>
           )}
         </CardContent>
@@ -152,15 +222,43 @@ export function UploadPanel() {
         <div className="space-y-2">
           <div className="flex items-center space-x-2 text-sm text-gray-600">
             <ImageIcon className="w-4 h-4" />
-            <span>Images: JPG, PNG, SVG, GIF, WebP</span>
+            <span>Images: JPG, PNG, GIF, WebP</span>
+          </div>
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <PenTool className="w-4 h-4" />
+            <span>Vector artwork: SVG, PDF, AI (PDF compatible)</span>
           </div>
           <div className="flex items-center space-x-2 text-sm text-gray-600">
             <FileText className="w-4 h-4" />
-            <span>Maximum file size: 5MB</span>
+            <span>Maximum file size: 5MB, 20MB for vector artwork</span>
           </div>
         </div>
       </div>
 
+      {printSize && (() => {
+        const tooSmall = printArea && (printSize.width < printArea.widthMm || printSize.height < printArea.heightMm)
+        return (
+          <div className={`rounded-xl p-3 text-sm border ${tooSmall ? "bg-amber-50 border-amber-200 text-amber-800" : "bg-gray-50 border-gray-200 text-gray-700"}`}>
+            <div className="flex items-start gap-2">
+              {tooSmall && <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+              <p>
+                {printSize.name} prints sharply up to {printSize.width} x {printSize.height} mm
+                {tooSmall && ` and will look blurry if stretched to fill the ${printArea.widthMm} x ${printArea.heightMm} mm print area`}.
+              </p>
+            </div>
+          </div>
+        )
+      })()}
+
+      {importNote && (
+        <div className="rounded-xl p-3 text-sm border bg-amber-50 border-amber-200 text-amber-800">
+          <div className="flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <p>{importNote}</p>
+          </div>
+        </div>
+      )}
+
       {!fabricCanvas && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
           <p className="text-sm text-yellow-800">
@@ -12,6 +12,7 @@ import { TextPanel } from "./panels/text-panel"
 import { TemplatePanel } from "./panels/template-panel"
 import { UploadPanel } from "./panels/upload-panel"
 import { DesignManagementPanel } from "./panels/design-management-panel"
+import { PreflightPanel } from "./panels/preflight-panel"
 import { Button } from "@/components/ui/button"
 import { Save, Loader2, Shirt } from "lucide-react"
 import { RootState } from "@/lib/redux/store"
@@ -333,6 +334,7 @@ export function RightPanel({ isMobile = false }: { isMobile?: boolean }) {
         </div>
         <div className="flex-1 overflow-y-auto min-h-0 scrollbar-thin">
           {renderPanel()}
+          {selectedProduct && <PreflightPanel />}
         </div>
       </div>
     )
@@ -364,6 +366,7 @@ export function RightPanel({ isMobile = false }: { isMobile?: boolean }) {
       <div className="flex-1 overflow-y-auto min-h-0 scrollbar-thin">
         <div className="h-full">
           {renderPanel()}
+          {selectedProduct && <PreflightPanel />}
         </div>
       </div>
       
@@ -26,6 +26,8 @@ interface StripePaymentModalProps {
   onPaymentSuccess: (paymentIntentId: string) => void
   onPaymentError: (error: string) => void
   orderData: any
+  // Reused across retries so the server returns the same payment instead of creating another
+  idempotencyKey?: string
 }
 
 function PaymentForm({
@@ -189,6 +191,7 @@ export default function StripePaymentModal({
   onPaymentSuccess,
   onPaymentError,
   orderData,
+  idempotencyKey,
 }: StripePaymentModalProps) {
   const [clientSecret, setClientSecret] = useState("")
   const [isLoading, setIsLoading] = useState(false)
@@ -213,12 +216,13 @@ export default function StripePaymentModal({
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
         },
+        // The server prices the order itself; the amount shown here is only for display
         body: JSON.stringify({
-          amount: amount,
+          order: orderData,
           currency,
           metadata: {
-            orderId: orderData?.orderId || "no-order-id",
             customerEmail: orderData?.customerEmail || "no-email",
             customerName: orderData?.customerName || "no-name",
           },
@@ -0,0 +1,180 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Separator } from "@/components/ui/separator"
+import { Loader2, Smartphone } from "lucide-react"
+import { useAppSelector } from "@/lib/redux/hooks"
+import { translations } from "@/lib/constants"
+
+// How often the payment status is checked while the customer approves in the app
+const POLL_INTERVAL_MS = 2000
+
+interface SwishPaymentModalProps {
+  isOpen: boolean
+  onClose: () => void
+  amount: number
+  currency: string
+  onPaymentSuccess: (orderId: string) => void
+  onPaymentError: (error: string) => void
+  orderData: any
+  // Reused across retries so the server returns the same payment instead of creating another
+  idempotencyKey?: string
+}
+
+export default function SwishPaymentModal({
+  isOpen,
+  onClose,
+  amount,
+  currency,
+  onPaymentSuccess,
+  onPaymentError,
+  orderData,
+  idempotencyKey,
+}: SwishPaymentModalProps) {
+  const { language } = useAppSelector((state) => state.app)
+  const t = translations[language]
+  const [orderId, setOrderId] = useState<string>()
+  const [confirmationToken, setConfirmationToken] = useState<string>()
+  const [appUrl, setAppUrl] = useState<string>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [message, setMessage] = useState("")
+
+  useEffect(() => {
+    if (isOpen && amount > 0) {
+      createPayment()
+    }
+    if (!isOpen) {
+      setOrderId(undefined)
+      setAppUrl(undefined)
+      setMessage("")
+    }
+  }, [isOpen, amount])
+
+  // Swish settles the payment in the app, so keep asking the server until it is paid or declined
+  useEffect(() => {
+    if (!isOpen || !orderId) return
+
+    let stopped = false
+    const poll = async () => {
+      try {
+        const response = await fetch("/api/payment/confirm", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ orderId, token: confirmationToken }),
+        })
+        const data = await response.json()
+        if (stopped) return
+
+        if (response.ok && data.status === "paid") {
+          stopped = true
+          onPaymentSuccess(orderId)
+        } else if (response.ok && (data.status === "failed" || data.status === "canceled")) {
+          stopped = true
+          setMessage(data.error || t.swishPaymentFailed)
+          onPaymentError(data.error || t.swishPaymentFailed)
+        }
+      } catch (error) {
+        console.error("Error checking Swish payment:", error)
+      }
+    }
+
+    const interval = setInterval(() => {
+      if (stopped) {
+        clearInterval(interval)
+      } else {
+        poll()
+      }
+    }, POLL_INTERVAL_MS)
+    return () => {
+      stopped = true
+      clearInterval(interval)
+    }
+  }, [isOpen, orderId, confirmationToken])
+
+  const createPayment = async () => {
+    setIsLoading(true)
+    setMessage("")
+    try {
+      const response = await fetch("/api/payment/create-payment-intent", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+        },
+        // The server prices the order itself; the amount shown here is only for display
+        body: JSON.stringify({ order: orderData, currency }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start Swish payment")
+      }
+
+      setOrderId(data.orderId)
+      setConfirmationToken(data.confirmationToken)
+      setAppUrl(data.appUrl)
+    } catch (error) {
+      console.error("Error creating Swish payment:", error)
+      const errorMessage = error instanceof Error ? error.message : "Payment setup failed"
+      setMessage(errorMessage)
+      onPaymentError(errorMessage)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-slate-900 dark:text-white">
+            {t.payWithSwish}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex flex-col items-center text-center space-y-3 p-4 bg-slate-50 dark:bg-slate-800 rounded-lg">
+            <Smartphone className="h-10 w-10 text-slate-600 dark:text-slate-400" />
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin text-sky-600" />
+            ) : (
+              !message && (
+                <>
+                  <p className="text-sm text-slate-700 dark:text-slate-300">{t.swishWaiting}</p>
+                  <Loader2 className="h-5 w-5 animate-spin text-sky-600" />
+                </>
+              )
+            )}
+          </div>
+
+          {message && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-700 dark:text-red-400">{message}</p>
+            </div>
+          )}
+
+          <Separator />
+          <div className="flex items-center justify-between">
+            <span className="text-lg font-semibold text-slate-900 dark:text-white">{t.total}:</span>
+            <span className="text-xl font-bold text-slate-900 dark:text-white">
+              {amount.toFixed(2)} {currency.toUpperCase()}
+            </span>
+          </div>
+
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              {t.cancel}
+            </Button>
+            {appUrl && !message && (
+              <Button asChild className="flex-1 bg-sky-600 hover:bg-sky-700">
+                <a href={appUrl}>{t.openSwish}</a>
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
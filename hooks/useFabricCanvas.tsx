@@ -967,10 +967,36 @@ export const useFabricCanvas = (canvasId: string) => {
     [dispatch, saveState],
   );
 
+  // Add an already built object, such as imported vector artwork, sized and placed like an uploaded image
+  const addObject = useCallback(
+    (canvasInstance: fabric.Canvas, object: fabric.FabricObject) => {
+      const maxDimension = 250;
+      const largest = Math.max(object.width * (object.scaleX || 1), object.height * (object.scaleY || 1));
+      if (largest > maxDimension) {
+        object.scale(((object.scaleX || 1) * maxDimension) / largest);
+      }
+      object.set({ left: 150, top: 150, originX: "center", originY: "center" });
+      object.setCoords();
+
+      canvasInstance.add(object);
+      canvasInstance.setActiveObject(object);
+      canvasInstance.requestRenderAll();
+
+      dispatch({
+        type: 'canvas/setSelectedObject',
+        payload: object
+      });
+
+      setTimeout(() => saveState(canvasInstance), 50);
+    },
+    [dispatch, saveState],
+  );
+
   return {
     canvasRef,
     addText,
     addImage,
+    addObject,
     deleteSelected,
     duplicateSelected,
     updateTextProperties,
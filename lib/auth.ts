@@ -2,7 +2,8 @@ import NextAuth from "next-auth"
 import CredentialsProvider from "next-auth/providers/credentials"
 import { MongoDBAdapter } from "@auth/mongodb-adapter"
 import clientPromise from "@/lib/mongodb"
-import { UserService } from "@/lib/services/userService"
+import { UserService, AccountLockedError } from "@/lib/services/userService"
+import { LoginThrottleService, LoginRateLimitError, clientIpFrom } from "@/lib/services/loginThrottleService"
 
 export const authOptions = {
   adapter: process.env.MONGODB_URI ? MongoDBAdapter(clientPromise) : undefined,
@@ -13,19 +14,16 @@ export const authOptions = {
         email: { label: "Email", type: "text" },
         password: { label: "Password", type: "password" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
 
         try {
-          const user = await UserService.findUserByEmail(credentials.email)
+          await LoginThrottleService.registerAttempt({ ip: clientIpFrom(req?.headers), email: credentials.email })
+          const user = await UserService.verifyCredentials(credentials.email, credentials.password)
 
-          if (user && user.password === credentials.password) {
-            // In a real application, you would hash passwords and compare them securely.
-            // For example: const isValid = await bcrypt.compare(credentials.password, user.password);
-            // If (user && isValid) { ... }
-            const { password, ...userWithoutPassword } = user
+          if (user) {
             return {
               id: user._id ? user._id.toString() : "",
               email: user.email,
@@ -41,6 +39,10 @@ export const authOptions = {
           }
           return null
         } catch (error) {
+          // Thrown errors reach signIn() as `error`, so the login form can tell lockouts apart
+          if (error instanceof LoginRateLimitError || error instanceof AccountLockedError) {
+            throw new Error(error.code)
+          }
           console.error("Auth error:", error)
           return null
         }
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const { getServerSession } = vi.hoisted(() => ({ getServerSession: vi.fn() }))
+vi.mock("next-auth/next", () => ({ getServerSession }))
+vi.mock("@/lib/auth", () => ({ authOptions: {} }))
+
+import {
+  AuthorizationError,
+  assertOwnerOr,
+  can,
+  getActor,
+  ownsCustomerRecord,
+  permissionsOf,
+  requireActor,
+  requirePermission,
+  type Actor,
+  type Permission,
+} from "@/lib/authorization"
+
+const ALL_PERMISSIONS: Permission[] = [
+  "users:manage",
+  "catalog:manage",
+  "marketing:manage",
+  "settings:manage",
+  "orders:view",
+  "orders:fulfil",
+  "inventory:manage",
+]
+
+const actor = (role: Actor["role"], customerNumber?: string): Actor => ({ id: `${role}-1`, role, customerNumber })
+
+describe("permission matrix", () => {
+  it("gives customers no permissions beyond their own records", () => {
+    expect(permissionsOf("user")).toEqual([])
+    for (const permission of ALL_PERMISSIONS) {
+      expect(can(actor("user"), permission)).toBe(false)
+    }
+  })
+
+  it("limits operations to orders and inventory", () => {
+    expect([...permissionsOf("operations")].sort()).toEqual(["inventory:manage", "orders:fulfil", "orders:view"])
+    expect(can(actor("operations"), "users:manage")).toBe(false)
+    expect(can(actor("operations"), "catalog:manage")).toBe(false)
+  })
+
+  it("gives admins every permission", () => {
+    for (const permission of ALL_PERMISSIONS) {
+      expect(can(actor("admin"), permission)).toBe(true)
+    }
+  })
+
+  it("gives guests nothing", () => {
+    for (const permission of ALL_PERMISSIONS) {
+      expect(can(null, permission)).toBe(false)
+    }
+  })
+})
+
+describe("ownership", () => {
+  it("matches orders and invoices by customer number", () => {
+    expect(ownsCustomerRecord(actor("user", "C-1"), "C-1")).toBe(true)
+    expect(ownsCustomerRecord(actor("user", "C-1"), "C-2")).toBe(false)
+  })
+
+  it("never lets guests own guest orders", () => {
+    expect(ownsCustomerRecord(null, "Guest")).toBe(false)
+    expect(ownsCustomerRecord(actor("user"), undefined)).toBe(false)
+  })
+
+  it("lets owners through and requires the permission from anyone else", () => {
+    expect(() => assertOwnerOr(actor("user"), true, "orders:view")).not.toThrow()
+    expect(() => assertOwnerOr(actor("user"), false, "orders:view")).toThrow(AuthorizationError)
+    expect(() => assertOwnerOr(actor("operations"), false, "orders:view")).not.toThrow()
+    expect(() => assertOwnerOr(actor("operations"), false, "users:manage")).toThrow(AuthorizationError)
+  })
+})
+
+describe("session guards", () => {
+  beforeEach(() => getServerSession.mockReset())
+
+  it("reads the actor from the session and downgrades unknown roles", async () => {
+    getServerSession.mockResolvedValue({ user: { id: "u1", role: "superuser", customerNumber: "C-1" } })
+    expect(await getActor()).toMatchObject({ id: "u1", role: "user", customerNumber: "C-1" })
+  })
+
+  it("answers 401 without a session", async () => {
+    getServerSession.mockResolvedValue(null)
+    await expect(requireActor()).rejects.toMatchObject({ status: 401 })
+  })
+
+  it("answers 403 when the role lacks the permission", async () => {
+    getServerSession.mockResolvedValue({ user: { id: "u1", role: "operations" } })
+    await expect(requirePermission("catalog:manage")).rejects.toMatchObject({ status: 403 })
+    await expect(requirePermission("orders:fulfil")).resolves.toMatchObject({ role: "operations" })
+  })
+})
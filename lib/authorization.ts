@@ -0,0 +1,111 @@
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import type { UserDocument } from "@/lib/models/User"
+
+export type Role = UserDocument["role"]
+
+/**
+ * Actions beyond a customer's own resources. Every signed-in user can manage their own
+ * orders, designs, cart and profile; these grant access to everyone else's or to the shop.
+ */
+export type Permission =
+  | "users:manage" // list, edit and delete accounts, including roles
+  | "catalog:manage" // products, categories, templates and design products
+  | "marketing:manage" // coupons, promotions and gift cards
+  | "settings:manage" // tax and shipping configuration
+  | "orders:view" // every customer's orders, invoices and designs
+  | "orders:fulfil" // status changes, refunds and invoice corrections
+  | "inventory:manage" // stock levels, adjustments and the movement log
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  operations: ["orders:view", "orders:fulfil", "inventory:manage"],
+  admin: [
+    "users:manage",
+    "catalog:manage",
+    "marketing:manage",
+    "settings:manage",
+    "orders:view",
+    "orders:fulfil",
+    "inventory:manage",
+  ],
+}
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[]
+
+// The signed-in user as seen by route handlers
+export interface Actor {
+  id: string
+  role: Role
+  email?: string
+  customerNumber?: string
+  name?: string
+}
+
+export class AuthorizationError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403 = 403,
+  ) {
+    super(message)
+    this.name = "AuthorizationError"
+  }
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role)
+}
+
+export function permissionsOf(role: Role): readonly Permission[] {
+  return ROLE_PERMISSIONS[role] ?? []
+}
+
+export function can(actor: Actor | null, permission: Permission): boolean {
+  return !!actor && permissionsOf(actor.role).includes(permission)
+}
+
+// The current session's user, or null for guests. Unknown roles get no extra permissions.
+export async function getActor(): Promise<Actor | null> {
+  const session: any = await getServerSession(authOptions as any)
+  const user = session?.user
+  if (!user?.id) return null
+
+  return {
+    id: user.id,
+    role: isRole(user.role) ? user.role : "user",
+    email: user.email || undefined,
+    customerNumber: user.customerNumber || undefined,
+    name: user.fullName || user.name || undefined,
+  }
+}
+
+export async function requireActor(message = "Sign in to continue"): Promise<Actor> {
+  const actor = await getActor()
+  if (!actor) {
+    throw new AuthorizationError(message, 401)
+  }
+  return actor
+}
+
+export async function requirePermission(permission: Permission): Promise<Actor> {
+  const actor = await requireActor()
+  if (!can(actor, permission)) {
+    throw new AuthorizationError("You do not have permission to do this")
+  }
+  return actor
+}
+
+/**
+ * Owners always pass; anyone else needs `permission`. Callers that must not reveal whether
+ * a resource exists should answer 404 themselves instead of calling this.
+ */
+export function assertOwnerOr(actor: Actor, isOwner: boolean, permission: Permission): void {
+  if (!isOwner && !can(actor, permission)) {
+    throw new AuthorizationError("You do not have permission to do this")
+  }
+}
+
+// Orders, invoices and store credit belong to a customer number; guests have none
+export function ownsCustomerRecord(actor: Actor | null, customer?: string): boolean {
+  return !!actor?.customerNumber && !!customer && customer === actor.customerNumber
+}
@@ -15,7 +15,7 @@ export const translations = {
     checkout: "Checkout",
     logout: "Logout",
     allCategories: "All Categories",
-    vat: "VAT (25%)",
+    vat: "VAT",
     shipping: "Shipping",
     total: "Total",
     price: "Price",
@@ -29,6 +29,7 @@ export const translations = {
     email: "Email",
     password: "Password",
     confirmPassword: "Confirm Password",
+    passwordsDoNotMatch: "Passwords do not match.",
     customerNumber: "Customer Number",
     alreadyHaveAccount: "Already have an account?",
     dontHaveAccount: "Don't have an account?",
@@ -42,6 +43,43 @@ export const translations = {
     creatingAccount: "Creating account...",
     welcomeBack: "Welcome back!",
     loggedInSuccessfully: "You have been successfully logged in.",
+    forgotPassword: "Forgot password?",
+    forgotPasswordIntro: "Enter your email and we will send you a link to choose a new password.",
+    sendResetLink: "Send reset link",
+    sendingResetLink: "Sending...",
+    resetLinkSent: "If an account exists for {email}, a reset link is on its way. The link is valid for one hour.",
+    resetPassword: "Choose a new password",
+    newPassword: "New password",
+    currentPassword: "Current password",
+    changePassword: "Change password",
+    changingPassword: "Saving...",
+    passwordChanged: "Your password has been changed.",
+    passwordResetDone: "Your password has been reset. You can now log in.",
+    invalidResetLink: "This reset link is invalid or has expired. Please request a new one.",
+    backToLogin: "Back to login",
+    emailPasswordResetSubject: "Reset your password",
+    emailPasswordResetIntro: "We received a request to reset the password for your account. The link is valid for one hour.",
+    emailPasswordResetAction: "Choose a new password",
+    emailPasswordResetIgnore: "If you did not ask for this, you can ignore this email; your password stays the same.",
+    accountLocked: "Too many failed logins. The account is locked for 15 minutes; you can reset your password in the meantime.",
+    tooManyLoginAttempts: "Too many login attempts. Please wait a few minutes and try again.",
+    verifyEmailTitle: "Verify your email",
+    verifyingEmail: "Verifying your email...",
+    emailVerified: "Your email address is verified. Thank you!",
+    invalidVerificationLink: "This verification link is invalid or has expired. Log in to request a new one.",
+    verifyEmailNotice: "Please verify your email address. We sent a link to {email}; you need to use it before placing an order.",
+    resendVerification: "Send a new link",
+    verificationSent: "A new verification link is on its way.",
+    emailVerifySubject: "Verify your email address",
+    emailVerifyIntro: "Thanks for creating an account. Please confirm your email address; the link is valid for 24 hours.",
+    emailVerifyAction: "Verify email address",
+    lockedAccounts: "Locked accounts",
+    accountStatus: "Status",
+    statusLockedUntil: "Locked until {time}",
+    statusUnverified: "Unverified",
+    statusActive: "Active",
+    unlockAccount: "Unlock",
+    accountUnlocked: "Account unlocked",
 
     // Dashboards
     clientDashboard: "Client Dashboard",
@@ -209,11 +247,25 @@ export const translations = {
     shippingOptions: "Shipping Options",
     standardShipping: "Standard (5-7 days)",
     expressShipping: "Express (2-3 days)",
+    deliveryEstimate: "{min}-{max} business days",
+    freeShipping: "Free",
+    noShippingMethods: "Enter your country and postal code to see shipping options.",
+    vatNumber: "VAT Number (optional)",
+    vatNumberHint: "Businesses in another EU country can enter their VAT number to be invoiced without VAT.",
+    reverseChargeNote: "Reverse charge: VAT to be accounted for by the recipient.",
+    taxIncluded: "incl.",
     paymentMethod: "Payment Method",
     payWithSwish: "Pay with Swish",
     payWithCard: "Pay with Card",
     payWithKlarna: "Pay with Klarna",
     payNow: "Pay Now",
+    giftCard: "Gift Card",
+    giftCardPlaceholder: "Enter gift card code",
+    giftCardHint: "Gift cards can be combined with any payment method; the rest is charged as usual.",
+    useStoreCredit: "Use my store credit ({amount} SEK)",
+    storeCredit: "Store credit",
+    amountToPay: "Amount to pay",
+    placeOrder: "Place Order",
     orderConfirmation: "Order Confirmation",
     thankYouForOrder: "Thank you for your order!",
     orderSummaryEmail: "A summary of your order and a PDF proof (simulated) has been sent to your email.",
@@ -221,6 +273,35 @@ export const translations = {
     addedToCart: "Added to cart",
     itemAddedToCart: "{productName} has been added to your cart.",
     outOfStock: "Out of Stock",
+    notifyWhenInStock: "Notify me",
+    restockEmailPlaceholder: "Your email",
+    restockSubscribed: "We'll email you when {size} is back in stock.",
+    restockEmailSubject: "{productName} is back in stock",
+    restockEmailBody: "Good news! {productName} ({variant}) is back in stock. Order before it sells out again: {url}",
+    restockEmailUnsubscribe: "You asked to be told once. To cancel, open {url}",
+    emailGreeting: "Hi {name},",
+    emailSignature: "Best regards,\nPrintWrap Pro",
+    emailOrderPlacedSubject: "Order confirmation {orderId}",
+    emailOrderPlacedIntro: "We have received your order {orderId} and will start on it right away.",
+    emailOrderStatusSubject: "Order {orderId}: {status}",
+    emailOrderStatusIntro: "The status of your order {orderId} is now: {status}.",
+    emailOrderShippedSubject: "Order {orderId} has shipped",
+    emailOrderShippedIntro: "Good news! Your order {orderId} is on its way.",
+    emailDiscount: "Discount",
+    emailTrackingNumber: "Tracking number ({carrier}): {number}",
+    emailTrackShipment: "Track your shipment",
+    emailViewOrders: "View your orders",
+    emailDesignSharedSubject: "{name} shared a design with you",
+    emailDesignSharedIntro: "{name} shared the design \"{designName}\" with you.",
+    emailOpenDesign: "Open the design",
+    statusQueued: "Queued",
+    statusPrinting: "Printing",
+    statusInProduction: "In production",
+    statusShipped: "Shipped",
+    statusCompleted: "Completed",
+    statusOnHold: "On hold",
+    statusCancelled: "Cancelled",
+    statusReturned: "Returned",
     searchProducts: "Search products...",
     filterByCategory: "Filter by category",
     noProductsFound: "No products found matching your criteria.",
@@ -259,18 +340,37 @@ export const translations = {
     allOrdersProcessed: "All orders have been processed.",
     updateStatus: "Update Status",
     exportPrintFile: "Export Print File",
+    payment: "Payment",
+    paymentFilterPaid: "Paid orders",
+    paymentFilterUnpaid: "Unpaid orders",
+    paymentFilterAll: "All orders",
+    noPrintFiles: "Order {orderId} has no designs that can be printed yet.",
+    printFilesSkipped: "{count} designed side(s) skipped: {reasons}",
+    orderSheet: "Order Sheet (PDF)",
     orderId: "Order ID",
     customer: "Customer",
     date: "Date",
     status: "Status",
     total: "Total",
     items: "Items",
+    invoices: "Invoices",
+    invoice: "Invoice",
+    creditNote: "Credit note",
+    invoicePending: "Issued when paid",
     loadingProducts: "Loading products...",
     yourCartIsEmpty: "Your cart is currently empty.",
     browseProducts: "Browse Products",
-    mockCardPayment: "Mock card payment form here...",
-    mockSwishInstructions: "Mock Swish instructions here...",
-    mockKlarnaOptions: "Mock Klarna options here...",
+    cardPaymentInstructions: "Pay securely with debit or credit card. Card details are entered in the next step.",
+    swishInstructions: "Approve the payment in the Swish app. We send the request to the phone number above.",
+    klarnaInstructions: "Pay later or in installments with Klarna. You will be sent to Klarna to complete the purchase.",
+    noPaymentMethods: "Online payment is currently unavailable. Please try again later.",
+    openSwish: "Open Swish",
+    swishWaiting: "Waiting for you to approve the payment in Swish...",
+    swishPaymentFailed: "The Swish payment was not completed.",
+    redirectingToKlarna: "Redirecting to Klarna...",
+    confirmingPayment: "Confirming your payment...",
+    paymentNotCompleted: "Your payment was not completed. Your cart has been kept so you can try again.",
+    returnToCheckout: "Return to checkout",
 
     // General UI
     loading: "Loading...",
@@ -308,7 +408,7 @@ export const translations = {
     checkout: "Kassa",
     logout: "Logga Ut",
     allCategories: "Alla Kategorier",
-    vat: "Moms (25%)",
+    vat: "Moms",
     shipping: "Frakt",
     total: "Totalt",
     price: "Pris",
@@ -322,6 +422,7 @@ export const translations = {
     email: "E-post",
     password: "Lösenord",
     confirmPassword: "Bekräfta Lösenord",
+    passwordsDoNotMatch: "Lösenorden matchar inte.",
     customerNumber: "Kundnummer",
     alreadyHaveAccount: "Har du redan ett konto?",
     dontHaveAccount: "Har du inget konto?",
@@ -335,6 +436,43 @@ export const translations = {
     creatingAccount: "Skapar konto...",
     welcomeBack: "Välkommen tillbaka!",
     loggedInSuccessfully: "Du har loggats in framgångsrikt.",
+    forgotPassword: "Glömt lösenordet?",
+    forgotPasswordIntro: "Ange din e-post så skickar vi en länk där du kan välja ett nytt lösenord.",
+    sendResetLink: "Skicka länk",
+    sendingResetLink: "Skickar...",
+    resetLinkSent: "Om det finns ett konto för {email} är en länk på väg. Länken gäller i en timme.",
+    resetPassword: "Välj ett nytt lösenord",
+    newPassword: "Nytt lösenord",
+    currentPassword: "Nuvarande lösenord",
+    changePassword: "Byt lösenord",
+    changingPassword: "Sparar...",
+    passwordChanged: "Ditt lösenord har ändrats.",
+    passwordResetDone: "Ditt lösenord har återställts. Du kan nu logga in.",
+    invalidResetLink: "Länken är ogiltig eller har gått ut. Begär en ny.",
+    backToLogin: "Tillbaka till inloggningen",
+    emailPasswordResetSubject: "Återställ ditt lösenord",
+    emailPasswordResetIntro: "Vi har fått en begäran om att återställa lösenordet för ditt konto. Länken gäller i en timme.",
+    emailPasswordResetAction: "Välj ett nytt lösenord",
+    emailPasswordResetIgnore: "Om du inte har begärt detta kan du ignorera mejlet; ditt lösenord förblir detsamma.",
+    accountLocked: "För många misslyckade inloggningar. Kontot är låst i 15 minuter; du kan återställa ditt lösenord under tiden.",
+    tooManyLoginAttempts: "För många inloggningsförsök. Vänta några minuter och försök igen.",
+    verifyEmailTitle: "Verifiera din e-post",
+    verifyingEmail: "Verifierar din e-post...",
+    emailVerified: "Din e-postadress är verifierad. Tack!",
+    invalidVerificationLink: "Verifieringslänken är ogiltig eller har gått ut. Logga in för att begära en ny.",
+    verifyEmailNotice: "Verifiera din e-postadress. Vi har skickat en länk till {email}; du behöver använda den innan du lägger en beställning.",
+    resendVerification: "Skicka en ny länk",
+    verificationSent: "En ny verifieringslänk är på väg.",
+    emailVerifySubject: "Verifiera din e-postadress",
+    emailVerifyIntro: "Tack för att du skapade ett konto. Bekräfta din e-postadress; länken gäller i 24 timmar.",
+    emailVerifyAction: "Verifiera e-postadress",
+    lockedAccounts: "Låsta konton",
+    accountStatus: "Status",
+    statusLockedUntil: "Låst till {time}",
+    statusUnverified: "Ej verifierad",
+    statusActive: "Aktiv",
+    unlockAccount: "Lås upp",
+    accountUnlocked: "Kontot är upplåst",
 
     // Dashboards
     clientDashboard: "Kundpanel",
@@ -502,11 +640,25 @@ export const translations = {
     shippingOptions: "Fraktalternativ",
     standardShipping: "Standard (5-7 dagar)",
     expressShipping: "Express (2-3 dagar)",
+    deliveryEstimate: "{min}-{max} arbetsdagar",
+    freeShipping: "Gratis",
+    noShippingMethods: "Ange land och postnummer för att se fraktalternativ.",
+    vatNumber: "Momsregistreringsnummer (valfritt)",
+    vatNumberHint: "Företag i ett annat EU-land kan ange sitt momsregistreringsnummer för att faktureras utan moms.",
+    reverseChargeNote: "Omvänd skattskyldighet: mottagaren redovisar momsen.",
+    taxIncluded: "ingår",
     paymentMethod: "Betalningsmetod",
     payWithSwish: "Betala med Swish",
     payWithCard: "Betala med Kort",
     payWithKlarna: "Betala med Klarna",
     payNow: "Betala Nu",
+    giftCard: "Presentkort",
+    giftCardPlaceholder: "Ange presentkortskod",
+    giftCardHint: "Presentkort kan kombineras med alla betalningsmetoder; resten debiteras som vanligt.",
+    useStoreCredit: "Använd mitt tillgodohavande ({amount} kr)",
+    storeCredit: "Tillgodohavande",
+    amountToPay: "Att betala",
+    placeOrder: "Lägg Beställning",
     orderConfirmation: "Orderbekräftelse",
     thankYouForOrder: "Tack för din beställning!",
     orderSummaryEmail:
@@ -515,6 +667,35 @@ export const translations = {
     addedToCart: "Lades till i varukorgen",
     itemAddedToCart: "{productName} har lagts till i din varukorg.",
     outOfStock: "Slut i lager",
+    notifyWhenInStock: "Meddela mig",
+    restockEmailPlaceholder: "Din e-post",
+    restockSubscribed: "Vi mejlar dig när {size} finns i lager igen.",
+    restockEmailSubject: "{productName} finns i lager igen",
+    restockEmailBody: "Goda nyheter! {productName} ({variant}) finns i lager igen. Beställ innan den tar slut: {url}",
+    restockEmailUnsubscribe: "Du bad om ett meddelande. Vill du avbryta, öppna {url}",
+    emailGreeting: "Hej {name},",
+    emailSignature: "Med vänliga hälsningar,\nPrintWrap Pro",
+    emailOrderPlacedSubject: "Orderbekräftelse {orderId}",
+    emailOrderPlacedIntro: "Vi har tagit emot din order {orderId} och börjar med den direkt.",
+    emailOrderStatusSubject: "Order {orderId}: {status}",
+    emailOrderStatusIntro: "Statusen för din order {orderId} är nu: {status}.",
+    emailOrderShippedSubject: "Order {orderId} har skickats",
+    emailOrderShippedIntro: "Goda nyheter! Din order {orderId} är på väg.",
+    emailDiscount: "Rabatt",
+    emailTrackingNumber: "Spårningsnummer ({carrier}): {number}",
+    emailTrackShipment: "Spåra din försändelse",
+    emailViewOrders: "Visa dina ordrar",
+    emailDesignSharedSubject: "{name} har delat en design med dig",
+    emailDesignSharedIntro: "{name} har delat designen \"{designName}\" med dig.",
+    emailOpenDesign: "Öppna designen",
+    statusQueued: "I kö",
+    statusPrinting: "Trycks",
+    statusInProduction: "I produktion",
+    statusShipped: "Skickad",
+    statusCompleted: "Slutförd",
+    statusOnHold: "Pausad",
+    statusCancelled: "Avbruten",
+    statusReturned: "Returnerad",
     searchProducts: "Sök produkter...",
     filterByCategory: "Filtrera efter kategori",
     noProductsFound: "Inga produkter hittades som matchar dina kriterier.",
@@ -553,18 +734,37 @@ export const translations = {
     allOrdersProcessed: "Alla ordrar har behandlats.",
     updateStatus: "Uppdatera Status",
     exportPrintFile: "Exportera Utskriftsfil",
+    payment: "Betalning",
+    paymentFilterPaid: "Betalda ordrar",
+    paymentFilterUnpaid: "Obetalda ordrar",
+    paymentFilterAll: "Alla ordrar",
+    noPrintFiles: "Order {orderId} har inga design som kan skrivas ut ännu.",
+    printFilesSkipped: "{count} designad(e) sida/sidor hoppades över: {reasons}",
+    orderSheet: "Ordersedel (PDF)",
     orderId: "Order-ID",
     customer: "Kund",
     date: "Datum",
     status: "Status",
     total: "Totalt",
     items: "Artiklar",
+    invoices: "Fakturor",
+    invoice: "Faktura",
+    creditNote: "Kreditnota",
+    invoicePending: "Utfärdas vid betalning",
     loadingProducts: "Laddar produkter...",
     yourCartIsEmpty: "Din varukorg är tom.",
     browseProducts: "Bläddra Produkter",
-    mockCardPayment: "Simulerad kortbetalningsformulär här...",
-    mockSwishInstructions: "Simulerade Swish-instruktioner här...",
-    mockKlarnaOptions: "Simulerade Klarna-alternativ här...",
+    cardPaymentInstructions: "Betala säkert med betal- eller kreditkort. Kortuppgifterna anges i nästa steg.",
+    swishInstructions: "Godkänn betalningen i Swish-appen. Vi skickar förfrågan till telefonnumret ovan.",
+    klarnaInstructions: "Betala senare eller dela upp betalningen med Klarna. Du skickas vidare till Klarna för att slutföra köpet.",
+    noPaymentMethods: "Onlinebetalning är inte tillgänglig just nu. Försök igen senare.",
+    openSwish: "Öppna Swish",
+    swishWaiting: "Väntar på att du godkänner betalningen i Swish...",
+    swishPaymentFailed: "Swish-betalningen genomfördes inte.",
+    redirectingToKlarna: "Skickar dig vidare till Klarna...",
+    confirmingPayment: "Bekräftar din betalning...",
+    paymentNotCompleted: "Betalningen genomfördes inte. Din varukorg finns kvar så att du kan försöka igen.",
+    returnToCheckout: "Tillbaka till kassan",
 
     // General UI
     loading: "Laddar...",
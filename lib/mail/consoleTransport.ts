@@ -0,0 +1,19 @@
+import { type MailTransport, recipientsOf } from "@/lib/mail/mailer"
+
+// Development transport: prints each message instead of sending it
+export const consoleTransport: MailTransport = {
+  name: "console",
+
+  async send(message) {
+    console.info(
+      [
+        "📧 Mail (not sent)",
+        `From: ${message.from}`,
+        `To: ${recipientsOf(message).join(", ")}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+      ].join("\n"),
+    )
+  },
+}
@@ -0,0 +1,42 @@
+import { mkdir, writeFile } from "fs/promises"
+import path from "path"
+import { randomUUID } from "crypto"
+import { type MailTransport, recipientsOf } from "@/lib/mail/mailer"
+
+// Development transport: writes each message as an .eml file that mail clients can open
+export const fileTransport: MailTransport = {
+  name: "file",
+
+  async send(message) {
+    const directory = path.resolve(process.env.MAIL_OUTBOX_DIR || ".mail-outbox")
+    await mkdir(directory, { recursive: true })
+
+    const boundary = `mail-${randomUUID()}`
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${recipientsOf(message).join(", ")}`,
+      ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "MIME-Version: 1.0",
+    ]
+    const body = message.html
+      ? [
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          "",
+          `--${boundary}`,
+          "Content-Type: text/plain; charset=utf-8",
+          "",
+          message.text,
+          `--${boundary}`,
+          "Content-Type: text/html; charset=utf-8",
+          "",
+          message.html,
+          `--${boundary}--`,
+        ]
+      : ["Content-Type: text/plain; charset=utf-8", "", message.text]
+
+    const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`)
+    await writeFile(file, [...headers, ...body].join("\r\n"))
+  },
+}
@@ -0,0 +1,21 @@
+import type { MailMessage, MailTransport } from "@/lib/mail/mailer"
+import { consoleTransport } from "@/lib/mail/consoleTransport"
+import { fileTransport } from "@/lib/mail/fileTransport"
+import { memoryTransport } from "@/lib/mail/memoryTransport"
+import { smtpTransport } from "@/lib/mail/smtpTransport"
+
+export * from "@/lib/mail/mailer"
+export { getSentMail, clearSentMail } from "@/lib/mail/memoryTransport"
+
+const TRANSPORTS: MailTransport[] = [smtpTransport, consoleTransport, fileTransport, memoryTransport]
+
+// Chosen with MAIL_TRANSPORT; without it mail goes out over SMTP when configured and is printed otherwise
+export function getMailTransport(): MailTransport {
+  const configured = TRANSPORTS.find((transport) => transport.name === process.env.MAIL_TRANSPORT)
+  if (configured) return configured
+  return process.env.SMTP_HOST ? smtpTransport : consoleTransport
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: message.from || process.env.MAIL_FROM || "PrintWrap Pro <no-reply@localhost>" })
+}
@@ -0,0 +1,23 @@
+export interface MailMessage {
+  to: string | string[]
+  subject: string
+  text: string
+  html?: string
+  from?: string // Defaults to MAIL_FROM
+  replyTo?: string
+}
+
+// Where outgoing mail ends up; development transports write it locally instead of sending it
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+export class MailError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MailError"
+  }
+}
+
+export const recipientsOf = (message: MailMessage) => (Array.isArray(message.to) ? message.to : [message.to])
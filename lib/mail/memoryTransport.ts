@@ -0,0 +1,20 @@
+import type { MailMessage, MailTransport } from "@/lib/mail/mailer"
+
+const outbox: Array<MailMessage & { from: string }> = []
+
+// Test transport: keeps sent messages in memory so tests can assert on them
+export const memoryTransport: MailTransport = {
+  name: "memory",
+
+  async send(message) {
+    outbox.push(message)
+  },
+}
+
+export function getSentMail(): ReadonlyArray<MailMessage & { from: string }> {
+  return outbox
+}
+
+export function clearSentMail(): void {
+  outbox.length = 0
+}
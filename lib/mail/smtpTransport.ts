@@ -0,0 +1,41 @@
+import nodemailer, { type Transporter } from "nodemailer"
+import { type MailTransport, MailError } from "@/lib/mail/mailer"
+
+let transporter: Transporter | null = null
+
+// Created on first use so builds and development without SMTP settings never connect
+function getTransporter(): Transporter {
+  if (!process.env.SMTP_HOST) {
+    throw new MailError("SMTP is not configured")
+  }
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT) || 587
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    })
+  }
+  return transporter
+}
+
+export const smtpTransport: MailTransport = {
+  name: "smtp",
+
+  async send(message) {
+    try {
+      await getTransporter().sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      })
+    } catch (error) {
+      if (error instanceof MailError) throw error
+      throw new MailError(`SMTP delivery failed: ${error instanceof Error ? error.message : error}`)
+    }
+  },
+}
@@ -0,0 +1,144 @@
+import { translations } from "@/lib/constants"
+import type { Order } from "@/lib/models/Order"
+import type { OrderStatus } from "@/lib/utils/orderStatus"
+import type { Language } from "@/types"
+
+type TranslationKey = keyof (typeof translations)["en"]
+
+// Subject and bodies of a message; the recipient is added by the caller
+export interface MailContent {
+  subject: string
+  text: string
+  html: string
+}
+
+// A block of the message body: a paragraph, a table of label/value rows or a link button
+type Block = string | { rows: Array<[string, string]> } | { label: string; url: string }
+
+const STATUS_KEYS: Record<OrderStatus, TranslationKey> = {
+  Queued: "statusQueued",
+  Printing: "statusPrinting",
+  "In Production": "statusInProduction",
+  Shipped: "statusShipped",
+  Completed: "statusCompleted",
+  "On Hold": "statusOnHold",
+  Cancelled: "statusCancelled",
+  Returned: "statusReturned",
+}
+
+export const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match))
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const formatAmount = (amount: number) => `${amount.toFixed(2)} SEK`
+
+// Greeting, blocks and signature, rendered once as plain text and once as simple inline-styled HTML
+function compose(language: Language, subject: string, name: string | undefined, blocks: Block[]): MailContent {
+  const t = translations[language]
+  const all: Block[] = [...(name ? [fillTemplate(t.emailGreeting, { name })] : []), ...blocks, t.emailSignature]
+
+  const text = all
+    .map((block) => {
+      if (typeof block === "string") return block
+      if ("rows" in block) return block.rows.map(([label, value]) => `${label}: ${value}`).join("\n")
+      return `${block.label}: ${block.url}`
+    })
+    .join("\n\n")
+
+  const html = all
+    .map((block) => {
+      if (typeof block === "string") return `<p>${escapeHtml(block).replace(/\n/g, "<br>")}</p>`
+      if ("rows" in block) {
+        const rows = block.rows
+          .map(
+            ([label, value]) =>
+              `<tr><td style="padding:4px 12px 4px 0">${escapeHtml(label)}</td><td style="padding:4px 0;text-align:right">${escapeHtml(value)}</td></tr>`,
+          )
+          .join("")
+        return `<table style="border-collapse:collapse">${rows}</table>`
+      }
+      return `<p><a href="${escapeHtml(block.url)}" style="display:inline-block;padding:10px 18px;background:#634c9e;color:#fff;text-decoration:none;border-radius:6px">${escapeHtml(block.label)}</a></p>`
+    })
+    .join("\n")
+
+  return {
+    subject,
+    text,
+    html: `<!doctype html><html lang="${language}"><body style="font-family:Arial,sans-serif;color:#1e293b;line-height:1.5">${html}</body></html>`,
+  }
+}
+
+export const statusLabel = (status: OrderStatus, language: Language) => translations[language][STATUS_KEYS[status]]
+
+export function orderPlacedMail(order: Order, language: Language, ordersUrl: string): MailContent {
+  const t = translations[language]
+  const rows: Array<[string, string]> = order.items.map((item) => [`${item.quantity} × ${item.name}`, formatAmount(item.price * item.quantity)])
+  if (order.discountAmount) rows.push([t.emailDiscount, formatAmount(-order.discountAmount)])
+  if (order.shippingCost !== undefined) rows.push([t.shipping, formatAmount(order.shippingCost)])
+  if (order.vatAmount !== undefined) rows.push([t.vat, formatAmount(order.vatAmount)])
+  rows.push([t.total, formatAmount(order.total)])
+
+  return compose(language, fillTemplate(t.emailOrderPlacedSubject, { orderId: order.id }), order.customerName, [
+    fillTemplate(t.emailOrderPlacedIntro, { orderId: order.id }),
+    { rows },
+    { label: t.emailViewOrders, url: ordersUrl },
+  ])
+}
+
+export function orderStatusMail(order: Order, language: Language, ordersUrl: string): MailContent {
+  const t = translations[language]
+  const status = statusLabel(order.status, language)
+  return compose(language, fillTemplate(t.emailOrderStatusSubject, { orderId: order.id, status }), order.customerName, [
+    fillTemplate(t.emailOrderStatusIntro, { orderId: order.id, status }),
+    { label: t.emailViewOrders, url: ordersUrl },
+  ])
+}
+
+export function orderShippedMail(order: Order, language: Language, ordersUrl: string): MailContent {
+  const t = translations[language]
+  const tracking = order.tracking
+  return compose(language, fillTemplate(t.emailOrderShippedSubject, { orderId: order.id }), order.customerName, [
+    fillTemplate(t.emailOrderShippedIntro, { orderId: order.id }),
+    ...(tracking ? [fillTemplate(t.emailTrackingNumber, { carrier: tracking.carrier, number: tracking.number })] : []),
+    tracking?.url ? { label: t.emailTrackShipment, url: tracking.url } : { label: t.emailViewOrders, url: ordersUrl },
+  ])
+}
+
+export function designSharedMail(
+  { senderName, designName, message, url }: { senderName: string; designName: string; message?: string; url: string },
+  language: Language,
+): MailContent {
+  const t = translations[language]
+  return compose(language, fillTemplate(t.emailDesignSharedSubject, { name: senderName }), undefined, [
+    fillTemplate(t.emailDesignSharedIntro, { name: senderName, designName }),
+    ...(message ? [message] : []),
+    { label: t.emailOpenDesign, url },
+  ])
+}
+
+export function passwordResetMail({ name, url }: { name?: string; url: string }, language: Language): MailContent {
+  const t = translations[language]
+  return compose(language, t.emailPasswordResetSubject, name, [
+    t.emailPasswordResetIntro,
+    { label: t.emailPasswordResetAction, url },
+    t.emailPasswordResetIgnore,
+  ])
+}
+
+export function emailVerificationMail({ name, url }: { name?: string; url: string }, language: Language): MailContent {
+  const t = translations[language]
+  return compose(language, t.emailVerifySubject, name, [t.emailVerifyIntro, { label: t.emailVerifyAction, url }])
+}
+
+export function restockMail(
+  { productName, variant, productUrl, unsubscribeUrl }: { productName: string; variant: string; productUrl: string; unsubscribeUrl: string },
+  language: Language,
+): MailContent {
+  const t = translations[language]
+  return compose(language, fillTemplate(t.restockEmailSubject, { productName }), undefined, [
+    fillTemplate(t.restockEmailBody, { productName, variant, url: productUrl }),
+    fillTemplate(t.restockEmailUnsubscribe, { url: unsubscribeUrl }),
+  ])
+}
@@ -1,4 +1,5 @@
 import type { ObjectId } from "mongodb"
+import type { PromotionStacking } from "@/lib/models/Promotion"
 
 export interface CouponDocument {
   _id?: ObjectId
@@ -14,6 +15,12 @@ export interface CouponDocument {
   validUntil: Date
   applicableProducts?: string[] // Product IDs that this coupon applies to
   applicableCategories?: string[] // Category IDs that this coupon applies to
+  priority?: number // Position among promotions, higher runs first (0 when unset)
+  stacking?: PromotionStacking // Whether the code combines with other discounts ("stackable" when unset)
+  maxUsesPerCustomer?: number // Redemptions allowed per customer number (or guest email)
+  firstOrderOnly?: boolean // Only customers without an earlier order can redeem
+  allowedCustomers?: string[] // Customer numbers the coupon is restricted to
+  singleUseCodesOnly?: boolean // Set once codes are generated: only those codes redeem, not `code` itself
   createdAt: Date
   updatedAt: Date
 }
@@ -32,6 +39,12 @@ export interface Coupon {
   validUntil: Date
   applicableProducts?: string[]
   applicableCategories?: string[]
+  priority?: number
+  stacking?: PromotionStacking
+  maxUsesPerCustomer?: number
+  firstOrderOnly?: boolean
+  allowedCustomers?: string[]
+  singleUseCodesOnly?: boolean
   createdAt?: Date
   updatedAt?: Date
 }
@@ -48,6 +61,12 @@ export interface CreateCouponData {
   validUntil: Date
   applicableProducts?: string[]
   applicableCategories?: string[]
+  priority?: number
+  stacking?: PromotionStacking
+  maxUsesPerCustomer?: number
+  firstOrderOnly?: boolean
+  allowedCustomers?: string[]
+  singleUseCodesOnly?: boolean
 }
 
 export interface UpdateCouponData {
@@ -63,6 +82,12 @@ export interface UpdateCouponData {
   validUntil?: Date
   applicableProducts?: string[]
   applicableCategories?: string[]
+  priority?: number
+  stacking?: PromotionStacking
+  maxUsesPerCustomer?: number
+  firstOrderOnly?: boolean
+  allowedCustomers?: string[]
+  singleUseCodesOnly?: boolean
 }
 
 export interface CouponValidationResult {
@@ -71,3 +96,42 @@ export interface CouponValidationResult {
   discountAmount?: number
   coupon?: Coupon
 }
+
+// Who is redeeming a coupon: signed-in customers by number, guests by email
+export interface CouponCustomer {
+  customerNumber?: string
+  email?: string
+}
+
+// One generated single-use code belonging to a coupon campaign
+export interface CouponCodeDocument {
+  _id?: ObjectId
+  code: string
+  couponId: string
+  batchId: string
+  redeemedAt?: Date
+  orderId?: string
+  customer?: string
+  createdAt: Date
+}
+
+// Reserved when checkout starts, committed once the order is paid, released on failure or timeout
+export type CouponRedemptionStatus = "reserved" | "committed" | "released"
+
+// A coupon used on an order. Unique indexes on (couponId, orderId) and
+// (couponId, customerKey, customerUse) make redemption and per-customer limits atomic.
+export interface CouponRedemptionDocument {
+  _id?: ObjectId
+  couponId: string
+  code: string
+  orderId: string
+  customer: string // Customer number, or "Guest"
+  customerKey?: string // Customer number or normalized guest email the per-customer limit counts against
+  customerUse?: number // Per-customer slot (1..maxUsesPerCustomer), cleared on release so the slot can be reused
+  amount: number
+  status: CouponRedemptionStatus
+  expiresAt?: Date // When an unpaid reservation is released
+  committedAt?: Date
+  releasedAt?: Date
+  createdAt: Date
+}
@@ -0,0 +1,88 @@
+import type { ObjectId } from "mongodb"
+
+// Store credit is a gift card bound to one customer, issued instead of a refund to the original payment
+export type GiftCardKind = "gift_card" | "store_credit"
+
+export type GiftCardStatus = "active" | "disabled"
+
+export interface GiftCardDocument {
+  _id?: ObjectId
+  code: string
+  kind: GiftCardKind
+  currency: "SEK"
+  initialBalance: number // For store credit, everything credited so far
+  balance: number
+  status: GiftCardStatus
+  expiresAt?: Date
+  customer?: string // Owner's customer number; store credit can only be used by its owner
+  recipientName?: string
+  recipientEmail?: string
+  note?: string
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface GiftCard {
+  id: string
+  code: string
+  kind: GiftCardKind
+  currency: "SEK"
+  initialBalance: number
+  balance: number
+  status: GiftCardStatus
+  expiresAt?: Date
+  customer?: string
+  recipientName?: string
+  recipientEmail?: string
+  note?: string
+  createdBy?: string
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export interface CreateGiftCardData {
+  kind?: GiftCardKind
+  amount: number
+  expiresAt?: Date
+  customer?: string
+  recipientName?: string
+  recipientEmail?: string
+  note?: string
+}
+
+/**
+ * Ledger entry types. Amounts are signed: issue, release, refund and positive adjustments
+ * add to the balance, redeem and negative adjustments take from it.
+ */
+export type GiftCardTransactionType = "issue" | "redeem" | "release" | "refund" | "adjust"
+
+// A redeem is held while the order's payment is pending, captured once paid, released otherwise
+export type GiftCardHoldStatus = "held" | "captured" | "released"
+
+export interface GiftCardTransactionDocument {
+  _id?: ObjectId
+  giftCardId: string
+  type: GiftCardTransactionType
+  amount: number
+  balanceAfter: number
+  orderId?: string
+  holdStatus?: GiftCardHoldStatus // Redeem entries only
+  expiresAt?: Date // When a held redeem is released if the order is still unpaid
+  note?: string
+  createdBy?: string
+  createdAt: Date
+}
+
+export interface GiftCardTransaction {
+  id: string
+  giftCardId: string
+  type: GiftCardTransactionType
+  amount: number
+  balanceAfter: number
+  orderId?: string
+  holdStatus?: GiftCardHoldStatus
+  note?: string
+  createdBy?: string
+  createdAt: Date
+}
@@ -0,0 +1,67 @@
+import type { ObjectId } from "mongodb"
+
+// Used for products without their own low-stock threshold
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5
+
+/**
+ * A unit of stock: one variation of a product, or one size of it when the variation keeps
+ * stock per size. Products without variations are not stock-tracked.
+ */
+export interface StockUnit {
+  productId: string
+  variationId: string
+  size?: string
+}
+
+// Reserved at checkout, committed once paid, released if the payment fails or is abandoned
+export type InventoryReservationStatus = "reserved" | "committed" | "released"
+
+export interface InventoryReservationDocument extends StockUnit {
+  _id?: ObjectId
+  orderId: string
+  lineIndex: number // Position of the order line the stock is for
+  quantity: number
+  returnedQuantity?: number // Put back on stock by refunds or cancellation after payment
+  status: InventoryReservationStatus
+  expiresAt?: Date
+  createdAt: Date
+  committedAt?: Date
+  releasedAt?: Date
+}
+
+/**
+ * Stock movement types. Quantities are signed changes to the stock on hand: reservations
+ * take stock, releases, returns and positive adjustments put it back.
+ */
+export type StockMovementType = "reserve" | "release" | "return" | "adjust"
+
+export interface StockMovementDocument extends StockUnit {
+  _id?: ObjectId
+  productName?: string
+  type: StockMovementType
+  quantity: number
+  stockAfter?: number
+  orderId?: string
+  note?: string
+  createdBy?: string
+  createdAt: Date
+}
+
+export interface StockMovement extends StockUnit {
+  id: string
+  productName?: string
+  type: StockMovementType
+  quantity: number
+  stockAfter?: number
+  orderId?: string
+  note?: string
+  createdBy?: string
+  createdAt: Date
+}
+
+export interface LowStockItem extends StockUnit {
+  productName: string
+  colorName?: string
+  stockQuantity: number
+  threshold: number
+}
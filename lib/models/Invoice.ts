@@ -0,0 +1,70 @@
+import type { ObjectId } from "mongodb"
+import type { TaxClass } from "@/lib/models/Tax"
+
+export type InvoiceType = "invoice" | "credit_note"
+
+export interface InvoiceParty {
+  name: string
+  organisationNumber?: string
+  vatId?: string
+  address?: string
+  city?: string
+  postalCode?: string
+  country?: string
+  email?: string
+  phone?: string
+}
+
+export interface InvoiceLine {
+  description: string
+  quantity: number
+  unitPrice: number // Net per unit, after discounts
+  taxClass?: TaxClass
+  taxRate: number
+  netAmount: number
+  taxAmount: number
+  grossAmount: number
+  orderItemIndex?: number // Order line this bills; unset for shipping
+}
+
+export interface InvoiceTaxSummary {
+  rate: number
+  label: string
+  netAmount: number
+  taxAmount: number
+}
+
+// Amounts on credit notes are negative
+export interface InvoiceDocument {
+  _id?: ObjectId
+  invoiceNumber: string
+  type: InvoiceType
+  sourceKey: string // Unique per order invoice or refund, so an invoice is never issued twice
+  orderId: string
+  refundId?: string
+  creditedInvoiceNumber?: string
+  replacesInvoiceNumber?: string // Set on invoices issued to correct an earlier, credited one
+  customer: string // customerNumber
+  seller: InvoiceParty
+  buyer: InvoiceParty
+  lines: InvoiceLine[]
+  taxSummary: InvoiceTaxSummary[]
+  netTotal: number
+  taxTotal: number
+  total: number
+  currency: "SEK"
+  reverseCharge: boolean
+  pricesIncludeTax: boolean
+  paymentMethod: string
+  paymentTerms: string
+  issueDate: Date
+  dueDate: Date
+  paidAt?: Date
+  issuedBy?: string // Staff member who issued a correction; unset for invoices issued automatically
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Invoice extends Omit<InvoiceDocument, "_id" | "sourceKey"> {
+  id: string
+}
@@ -1,4 +1,56 @@
 import type { ObjectId } from "mongodb"
+import type { OrderStatus, OrderStatusChange } from "@/lib/utils/orderStatus"
+import type { TaxBreakdown, TaxClass } from "@/lib/models/Tax"
+import type { AppliedDiscount } from "@/lib/models/Promotion"
+import type { Language } from "@/types"
+
+export type PaymentStatus = "pending" | "paid" | "failed" | "canceled" | "refunded" | "partially_refunded"
+
+// One way an order was paid: gift cards and store credit first, the payment provider for the rest
+export interface OrderTender {
+  method: "gift_card" | "store_credit" | "card" | "swish" | "klarna"
+  amount: number
+  giftCardId?: string
+  code?: string // Masked gift card code, e.g. "•••• 7KQ2"
+}
+
+// A refund whose amount is held while its money moves, so concurrent refunds cannot both pay it out
+export interface PendingRefund {
+  id: string
+  amount: number
+  createdAt: Date
+}
+
+// Shipment details entered when an order is marked as shipped
+export interface OrderTracking {
+  carrier: string
+  number: string
+  url?: string
+}
+
+export interface OrderRefund {
+  id: string
+  type: "full" | "items" | "shipping"
+  amount: number
+  items?: Array<{ index: number; quantity: number; amount: number }>
+  reason?: string
+  providerRefundId?: string
+  // Where the money went back to; the payment provider alone when unset
+  tenders?: OrderTender[]
+  // The payments the refund is counted against; store credit refunds are paid out elsewhere
+  chargedTo?: OrderTender[]
+  createdBy?: string
+  createdAt: Date
+}
+
+export interface OrderShippingMethod {
+  id: string
+  name: string
+  carrier?: string
+  price: number
+  minDeliveryDays: number
+  maxDeliveryDays: number
+}
 
 export interface OrderDocument {
   _id?: ObjectId
@@ -6,7 +58,9 @@ export interface OrderDocument {
   customer: string // customerNumber
   date: string
   total: number
-  status: "Queued" | "Printing" | "In Production" | "Shipped" | "Completed"
+  status: OrderStatus
+  statusHistory?: OrderStatusChange[]
+  tracking?: OrderTracking
   items: Array<{
     name: string
     quantity: number
@@ -18,10 +72,43 @@ export interface OrderDocument {
     designContext?: any
     designCanvasJSON?: any
     productId?: string
+    taxClass?: TaxClass
+    discountAmount?: number // This line's share of the order's discounts
   }>
-  shippingOption: "standard" | "express"
+  shippingOption: string // Id of the selected shipping method
   paymentMethod: "card" | "swish" | "klarna"
   paymentIntentId?: string
+  // Deduplication of repeated create requests (server-side only)
+  idempotencyKey?: string
+  requestHash?: string
+  // Payment state reported by the payment provider, independent of the production status
+  paymentStatus?: PaymentStatus
+  paidAt?: Date
+  paymentError?: string
+  // Set when the invoice could not be issued at payment; PaymentService.retryPendingInvoices issues it later
+  invoicePending?: boolean
+  // How the total was paid, when gift cards or store credit were used
+  tenders?: OrderTender[]
+  // Refunds issued against the payment, newest last
+  refunds?: OrderRefund[]
+  refundedAmount?: number
+  pendingRefund?: PendingRefund
+  // Claimed by a cancellation while it undoes the payment (server-side only)
+  cancellingAt?: Date
+  // Server-computed price breakdown (see PricingService)
+  subtotal?: number
+  discountAmount?: number
+  vatAmount?: number
+  taxBreakdown?: TaxBreakdown
+  shippingCost?: number
+  shippingMethod?: OrderShippingMethod
+  appliedCoupon?: {
+    code: string
+    discountAmount: number
+    discountType: "percentage" | "fixed"
+  } | null
+  // Every promotion and coupon that reduced the order, in the order they were applied
+  discounts?: AppliedDiscount[]
   // Customer information
   customerName?: string
   customerEmail?: string
@@ -30,6 +117,8 @@ export interface OrderDocument {
   customerCity?: string
   customerPostalCode?: string
   customerCountry?: string
+  customerVatNumber?: string
+  language?: Language // Language the order was placed in; emails about it use the same
   createdAt: Date
   updatedAt: Date
 }
@@ -39,7 +128,9 @@ export interface Order {
   customer: string
   date: string
   total: number
-  status: "Queued" | "Printing" | "In Production" | "Shipped" | "Completed"
+  status: OrderStatus
+  statusHistory?: OrderStatusChange[]
+  tracking?: OrderTracking
   items: Array<{
     name: string
     quantity: number
@@ -47,10 +138,42 @@ export interface Order {
     size?: string
     designPreview?: string
     designId?: string
+    selectedSizes?: any
+    designContext?: any
+    designCanvasJSON?: any
+    productId?: string
+    taxClass?: TaxClass
+    discountAmount?: number // This line's share of the order's discounts
   }>
-  shippingOption: "standard" | "express"
+  shippingOption: string // Id of the selected shipping method
   paymentMethod: "card" | "swish" | "klarna"
   paymentIntentId?: string
+  // Payment state reported by the payment provider, independent of the production status
+  paymentStatus?: PaymentStatus
+  paidAt?: Date
+  paymentError?: string
+  // Set when the invoice could not be issued at payment; PaymentService.retryPendingInvoices issues it later
+  invoicePending?: boolean
+  // How the total was paid, when gift cards or store credit were used
+  tenders?: OrderTender[]
+  // Refunds issued against the payment, newest last
+  refunds?: OrderRefund[]
+  refundedAmount?: number
+  pendingRefund?: PendingRefund
+  // Server-computed price breakdown (see PricingService)
+  subtotal?: number
+  discountAmount?: number
+  vatAmount?: number
+  taxBreakdown?: TaxBreakdown
+  shippingCost?: number
+  shippingMethod?: OrderShippingMethod
+  appliedCoupon?: {
+    code: string
+    discountAmount: number
+    discountType: "percentage" | "fixed"
+  } | null
+  // Every promotion and coupon that reduced the order, in the order they were applied
+  discounts?: AppliedDiscount[]
   // Customer information
   customerName?: string
   customerEmail?: string
@@ -59,6 +182,8 @@ export interface Order {
   customerCity?: string
   customerPostalCode?: string
   customerCountry?: string
+  customerVatNumber?: string
+  language?: Language // Language the order was placed in; emails about it use the same
   createdAt?: Date
   updatedAt?: Date
 }
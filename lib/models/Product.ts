@@ -1,4 +1,5 @@
 import type { ObjectId } from "mongodb"
+import type { TaxClass } from "@/lib/models/Tax"
 
 export interface VariationImage {
   id: string;
@@ -32,6 +33,20 @@ export interface Variation {
   images: VariationImage[];
 }
 
+// Printable region for one product angle; the design canvas is mapped onto it for production files
+export interface PrintArea {
+  angle: string; // "front", "back", "left" or "right"
+  widthMm: number; // Size of the printable rectangle
+  heightMm: number;
+  // Part of the design canvas that is printed, in canvas pixels; a centred fit when unset (see lib/utils/printArea)
+  canvasRect?: { left: number; top: number; width: number; height: number };
+  // Printable shape inside the rectangle, in mm from its top-left corner; the whole rectangle when unset
+  polygon?: Array<{ x: number; y: number }>;
+  safeMarginMm?: number; // Important content stays this far inside the edge; defaults to DEFAULT_SAFE_MARGIN_MM
+  dpi?: number; // Defaults to DEFAULT_PRINT_DPI
+  bleedMm?: number; // Printed beyond the edge and trimmed off; defaults to DEFAULT_BLEED_MM
+}
+
 export interface ProductDocument {
   _id?: ObjectId;
   name: string;
@@ -68,6 +83,10 @@ export interface ProductDocument {
     maxQuantityPerOrder: number; // Maximum quantity per order
     message?: string; // Custom message to show when limit is exceeded
   };
+  weight?: number; // Shipping weight per unit in grams
+  taxClass?: TaxClass; // Defaults to "standard"
+  lowStockThreshold?: number; // Stock at or below this is reported as low, see DEFAULT_LOW_STOCK_THRESHOLD
+  printAreas?: PrintArea[]; // One per printable angle
 }
 
 export interface Product {
@@ -106,4 +125,8 @@ export interface Product {
     maxQuantityPerOrder: number; // Maximum quantity per order
     message?: string; // Custom message to show when limit is exceeded
   };
+  weight?: number; // Shipping weight per unit in grams
+  taxClass?: TaxClass; // Defaults to "standard"
+  lowStockThreshold?: number; // Stock at or below this is reported as low, see DEFAULT_LOW_STOCK_THRESHOLD
+  printAreas?: PrintArea[]; // One per printable angle
 }
@@ -0,0 +1,71 @@
+import type { ObjectId } from "mongodb"
+
+export type PromotionType = "percentage" | "fixed" | "buy_x_get_y" | "tiered_quantity" | "free_shipping"
+
+// "exclusive" rules only apply when no higher-priority rule has, and stop any later ones
+export type PromotionStacking = "stackable" | "exclusive"
+
+export const PROMOTION_TYPES: Array<{ value: PromotionType; label: string }> = [
+  { value: "percentage", label: "Percentage off" },
+  { value: "fixed", label: "Fixed amount off" },
+  { value: "buy_x_get_y", label: "Buy X get Y" },
+  { value: "tiered_quantity", label: "Quantity tiers" },
+  { value: "free_shipping", label: "Free shipping" },
+]
+
+export interface PromotionTier {
+  minQuantity: number // Eligible units needed to reach the tier
+  percentOff: number
+}
+
+// What a rule gives and which cart lines it looks at; shared by promotions and coupon codes
+export interface PromotionRule {
+  type: PromotionType
+  discountValue?: number // Percent for "percentage", SEK for "fixed"
+  buyQuantity?: number // buy_x_get_y: units to pay for...
+  getQuantity?: number // ...and units discounted on top, always the cheapest eligible ones
+  getPercentOff?: number // Discount on the "get" units, 100 when omitted
+  tiers?: PromotionTier[] // tiered_quantity: the highest tier reached applies
+  shippingMethodIds?: string[] // free_shipping: limit to these methods, any method when empty
+  minimumOrderAmount?: number // Cart subtotal before discounts
+  applicableProducts?: string[] // Empty means every product
+  applicableCategories?: string[]
+  priority: number // Higher runs first
+  stacking: PromotionStacking
+}
+
+// Automatic promotions apply without a code whenever their conditions are met
+export interface PromotionDocument extends PromotionRule {
+  _id?: ObjectId
+  name: string // Shown to customers next to the discount
+  description?: string
+  isActive: boolean
+  validFrom?: Date
+  validUntil?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Promotion extends PromotionRule {
+  id: string
+  name: string
+  description?: string
+  isActive: boolean
+  validFrom?: Date
+  validUntil?: Date
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export type CreatePromotionData = Omit<Promotion, "id" | "createdAt" | "updatedAt">
+
+// A discount granted to an order, with the rule that produced it
+export interface AppliedDiscount {
+  source: "promotion" | "coupon"
+  id: string
+  name: string
+  code?: string
+  type: PromotionType
+  amount: number // SEK taken off, shipping included for free_shipping
+  lineDiscounts?: Array<{ index: number; amount: number }>
+}
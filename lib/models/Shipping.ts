@@ -0,0 +1,69 @@
+import type { ObjectId } from "mongodb"
+
+// How a method's price is looked up in its rate table
+export type ShippingPricingBasis = "flat" | "weight" | "items"
+
+export interface ShippingRateTier {
+  upTo: number // Inclusive upper bound in grams (weight) or units (items)
+  price: number
+}
+
+export interface ShippingMethod {
+  id: string
+  name: string
+  carrier?: string
+  pricingBasis: ShippingPricingBasis
+  price: number // Flat price, and the fallback when no rate tiers are set
+  rates?: ShippingRateTier[] // Sorted by upTo; parcels above the last tier cannot use the method
+  freeShippingThreshold?: number // Order value (after discounts, before VAT) that ships free
+  minDeliveryDays: number
+  maxDeliveryDays: number
+  isActive: boolean
+}
+
+export interface ShippingZoneDocument {
+  _id?: ObjectId
+  name: string
+  countries: string[] // ISO 3166-1 alpha-2 codes, "*" matches any country
+  postalCodePrefixes?: string[] // Narrows the zone within its countries
+  methods: ShippingMethod[]
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ShippingZone {
+  id: string
+  name: string
+  countries: string[]
+  postalCodePrefixes?: string[]
+  methods: ShippingMethod[]
+  isActive: boolean
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export type CreateShippingZoneData = Omit<ShippingZone, "id" | "createdAt" | "updatedAt">
+
+export interface ShippingDestination {
+  country?: string
+  postalCode?: string
+}
+
+export interface ShippingParcel {
+  weight: number // grams
+  itemCount: number
+  orderValue: number
+}
+
+// A method priced for a specific cart and destination
+export interface ShippingRateQuote {
+  methodId: string
+  zoneId: string
+  name: string
+  carrier?: string
+  price: number
+  isFree: boolean
+  minDeliveryDays: number
+  maxDeliveryDays: number
+}
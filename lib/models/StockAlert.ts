@@ -0,0 +1,30 @@
+import type { ObjectId } from "mongodb"
+import type { StockUnit } from "@/lib/models/Inventory"
+import type { Language } from "@/types"
+
+// Pending until the unit is back in stock and the customer has been mailed once
+export type RestockSubscriptionStatus = "pending" | "notified" | "unsubscribed"
+
+/**
+ * A customer waiting for a product to come back in stock. Without a size the
+ * subscription covers the whole variation.
+ */
+export interface RestockSubscriptionDocument extends StockUnit {
+  _id?: ObjectId
+  email: string
+  variantName?: string // Colour and size as shown in the email
+  customer?: string // Customer number when signed in
+  language?: Language
+  token: string // Secret for the unsubscribe link
+  status: RestockSubscriptionStatus
+  createdAt: Date
+  notifiedAt?: Date
+}
+
+export interface RestockSubscription extends StockUnit {
+  id: string
+  email: string
+  status: RestockSubscriptionStatus
+  createdAt: Date
+  notifiedAt?: Date
+}
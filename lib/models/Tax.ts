@@ -0,0 +1,65 @@
+import type { ObjectId } from "mongodb"
+
+export type TaxClass = "standard" | "reduced" | "super_reduced" | "zero"
+
+export const TAX_CLASSES: Array<{ value: TaxClass; label: string }> = [
+  { value: "standard", label: "Standard rate" },
+  { value: "reduced", label: "Reduced rate" },
+  { value: "super_reduced", label: "Super-reduced rate" },
+  { value: "zero", label: "Zero rate" },
+]
+
+export interface TaxRuleDocument {
+  _id?: ObjectId
+  country: string // ISO 3166-1 alpha-2 code, "*" for every country without its own rule
+  taxClass: TaxClass
+  rate: number // Fraction, e.g. 0.25 for 25%
+  label?: string // Shown on receipts, e.g. "Moms"
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface TaxRule {
+  id: string
+  country: string
+  taxClass: TaxClass
+  rate: number
+  label?: string
+  isActive: boolean
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+export type CreateTaxRuleData = Omit<TaxRule, "id" | "createdAt" | "updatedAt">
+
+export interface TaxSettings {
+  // Whether catalog prices are entered with tax included (B2C) or excluded (B2B)
+  pricesIncludeTax: boolean
+  // Tax class applied to shipping charges; null leaves shipping untaxed
+  shippingTaxClass: TaxClass | null
+  // Country the shop is registered in, used to decide when reverse charge applies
+  originCountry: string
+  updatedAt?: Date
+}
+
+export interface TaxBreakdownLine {
+  taxClass: TaxClass
+  rate: number
+  label: string
+  netAmount: number // Taxable amount excluding tax
+  taxAmount: number
+}
+
+// Stored on each order so invoices can be reproduced even if rules change later
+export interface TaxBreakdown {
+  country: string
+  pricesIncludeTax: boolean
+  reverseCharge: boolean
+  vatNumber?: string
+  lines: TaxBreakdownLine[]
+  netTotal: number
+  taxTotal: number
+  shippingTax: number // Tax added on top of the shipping charge (0 when prices include tax)
+  shippingTaxClass?: TaxClass // Set when shipping is part of a taxed line
+}
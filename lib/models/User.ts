@@ -3,7 +3,7 @@ import type { ObjectId } from "mongodb"
 export interface UserDocument {
   _id?: ObjectId
   email: string
-  password: string // In a real app, this should be hashed
+  password: string // scrypt hash, see lib/utils/password; plaintext for accounts not logged into since hashing was added
   role: "user" | "admin" | "operations"
   customerNumber: string
   fullName?: string
@@ -12,6 +12,10 @@ export interface UserDocument {
   city?: string
   postalCode?: string
   country?: string
+  emailVerifiedAt?: Date | null // null until the verification link is used; accounts from before verification have none and count as verified
+  failedLoginCount?: number // consecutive wrong passwords, reset by a successful login
+  lastFailedLoginAt?: Date
+  lockedUntil?: Date
   createdAt: Date
   updatedAt: Date
 }
@@ -27,6 +31,9 @@ export interface User {
   city?: string
   postalCode?: string
   country?: string
+  emailVerified?: boolean
+  failedLoginCount?: number
+  lockedUntil?: Date
   createdAt?: Date
   updatedAt?: Date
 }
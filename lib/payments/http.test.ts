@@ -0,0 +1,21 @@
+import http from "http"
+import type { AddressInfo } from "net"
+import { describe, expect, it } from "vitest"
+import { requestJson } from "@/lib/payments/http"
+import { PaymentProviderError } from "@/lib/payments/paymentProvider"
+
+// A port that was just free, so nothing answers on it
+async function closedPort(): Promise<number> {
+  const server = http.createServer()
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address() as AddressInfo
+  await new Promise((resolve) => server.close(resolve))
+  return port
+}
+
+describe("requestJson", () => {
+  it("reports an unreachable provider as a PaymentProviderError", async () => {
+    const port = await closedPort()
+    await expect(requestJson(`http://127.0.0.1:${port}/api`)).rejects.toBeInstanceOf(PaymentProviderError)
+  })
+})
@@ -0,0 +1,82 @@
+import fs from "fs"
+import http from "http"
+import https from "https"
+import { PaymentProviderError } from "@/lib/payments/paymentProvider"
+
+export interface HttpResponse {
+  status: number
+  headers: http.IncomingHttpHeaders
+  body: any
+}
+
+export interface ClientCertificate {
+  certPath?: string
+  keyPath?: string
+  caPath?: string
+  passphrase?: string
+}
+
+/**
+ * Minimal JSON client on Node's http/https modules. Unlike fetch it can present a
+ * client certificate, which Swish requires; plain http is used for local mock servers.
+ * Connection failures and timeouts reject with a PaymentProviderError.
+ */
+export function requestJson(
+  url: string,
+  {
+    method = "GET",
+    headers = {},
+    body,
+    certificate,
+  }: { method?: string; headers?: Record<string, string>; body?: unknown; certificate?: ClientCertificate } = {},
+): Promise<HttpResponse> {
+  const target = new URL(url)
+  const payload = body === undefined ? undefined : JSON.stringify(body)
+  const transport = target.protocol === "https:" ? https : http
+
+  const tls =
+    target.protocol === "https:" && certificate?.certPath
+      ? {
+          cert: fs.readFileSync(certificate.certPath),
+          key: certificate.keyPath ? fs.readFileSync(certificate.keyPath) : undefined,
+          ca: certificate.caPath ? fs.readFileSync(certificate.caPath) : undefined,
+          passphrase: certificate.passphrase,
+        }
+      : {}
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => reject(new PaymentProviderError(`Request to ${target.host} failed: ${error.message}`))
+    const request = transport.request(
+      target,
+      {
+        method,
+        headers: {
+          Accept: "application/json",
+          ...(payload ? { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload) } : {}),
+          ...headers,
+        },
+        timeout: 15000,
+        ...tls,
+      },
+      (response) => {
+        let raw = ""
+        response.setEncoding("utf8")
+        response.on("error", fail)
+        response.on("data", (chunk) => (raw += chunk))
+        response.on("end", () => {
+          let parsed: any = raw
+          try {
+            parsed = raw ? JSON.parse(raw) : null
+          } catch {
+            // Leave non-JSON bodies (e.g. error pages) as text
+          }
+          resolve({ status: response.statusCode || 0, headers: response.headers, body: parsed })
+        })
+      },
+    )
+    request.on("timeout", () => request.destroy(new Error(`Request to ${target.host} timed out`)))
+    request.on("error", fail)
+    if (payload) request.write(payload)
+    request.end()
+  })
+}
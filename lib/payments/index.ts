@@ -0,0 +1,22 @@
+import type { PaymentMethod, PaymentProvider } from "@/lib/payments/paymentProvider"
+import { stripeProvider } from "@/lib/payments/stripeProvider"
+import { swishProvider } from "@/lib/payments/swishProvider"
+import { klarnaProvider } from "@/lib/payments/klarnaProvider"
+
+export * from "@/lib/payments/paymentProvider"
+
+// In the order checkout lists them
+const PROVIDERS: PaymentProvider[] = [stripeProvider, swishProvider, klarnaProvider]
+
+// Orders created before other methods existed have no payment method and were paid by card
+export function getPaymentProvider(paymentMethod?: string): PaymentProvider {
+  return PROVIDERS.find((provider) => provider.method === paymentMethod) || stripeProvider
+}
+
+export function getProviderByName(name: string): PaymentProvider | undefined {
+  return PROVIDERS.find((provider) => provider.name === name)
+}
+
+export function getEnabledPaymentMethods(): PaymentMethod[] {
+  return PROVIDERS.filter((provider) => provider.isEnabled()).map((provider) => provider.method)
+}
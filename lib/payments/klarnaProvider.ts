@@ -0,0 +1,261 @@
+import { normalizeCountryCode } from "@/lib/utils/countries"
+import {
+  type PaymentProvider,
+  type ProviderPayment,
+  PaymentProviderError,
+  PaymentWebhookError,
+  webhookUrlFor,
+} from "@/lib/payments/paymentProvider"
+
+// Klarna Payments with the Hosted Payment Page; use https://api.playground.klarna.com for testing
+// or scripts/payment-mock-server.js locally
+const DEFAULT_API_URL = "https://api.klarna.com"
+
+// Until the customer authorizes, the reference is the payment session; afterwards the Klarna order id
+const SESSION_PREFIX = "session:"
+
+interface KlarnaOrder {
+  order_id: string
+  status: "AUTHORIZED" | "PART_CAPTURED" | "CAPTURED" | "CANCELLED" | "EXPIRED" | "CLOSED"
+  fraud_status?: "ACCEPTED" | "PENDING" | "REJECTED"
+}
+
+const apiUrl = () => (process.env.KLARNA_API_URL || DEFAULT_API_URL).replace(/\/$/, "")
+const toMinor = (amount: number) => Math.round(amount * 100)
+const REQUEST_TIMEOUT_MS = 15000
+
+async function klarnaRequest(
+  path: string,
+  method = "GET",
+  body?: unknown,
+  headers: Record<string, string> = {},
+): Promise<{ status: number; headers: Headers; body: any }> {
+  const credentials = Buffer.from(`${process.env.KLARNA_USERNAME}:${process.env.KLARNA_PASSWORD}`).toString("base64")
+  let response: Response
+  let text: string
+  try {
+    response = await fetch(`${apiUrl()}${path}`, {
+      method,
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    text = await response.text()
+  } catch (error) {
+    // Unreachable or too slow: report it as a provider failure rather than a server error
+    throw new PaymentProviderError(`Klarna request failed: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  let parsed: any = text
+  try {
+    parsed = text ? JSON.parse(text) : null
+  } catch {
+    // Leave non-JSON bodies as text
+  }
+  return { status: response.status, headers: response.headers, body: parsed }
+}
+
+function errorMessage(body: any, fallback: string): string {
+  return body?.error_messages?.join(", ") || fallback
+}
+
+function toProviderPayment(order: KlarnaOrder): ProviderPayment {
+  if (order.fraud_status === "REJECTED") {
+    return { reference: order.order_id, status: "failed", error: "Klarna rejected the purchase" }
+  }
+  switch (order.status) {
+    case "CAPTURED":
+    case "PART_CAPTURED":
+    case "CLOSED":
+      return { reference: order.order_id, status: "paid" }
+    case "CANCELLED":
+    case "EXPIRED":
+      return { reference: order.order_id, status: "canceled" }
+    default:
+      return { reference: order.order_id, status: "pending" }
+  }
+}
+
+async function getOrder(orderId: string): Promise<KlarnaOrder> {
+  const response = await klarnaRequest(`/ordermanagement/v1/orders/${orderId}`)
+  if (response.status !== 200) {
+    throw new PaymentProviderError(`Klarna order ${orderId} could not be retrieved (${response.status})`)
+  }
+  return response.body
+}
+
+function withReturnParams(url: string, params: string): string {
+  return `${url}${url.includes("?") ? "&" : "?"}${params}`
+}
+
+export const klarnaProvider: PaymentProvider = {
+  name: "klarna",
+  method: "klarna",
+
+  isEnabled() {
+    return !!process.env.KLARNA_USERNAME && !!process.env.KLARNA_PASSWORD
+  },
+
+  async createPayment(input) {
+    const orderLines = input.lines.map((line) => ({
+      type: line.amount < 0 ? "discount" : "physical",
+      reference: input.orderId,
+      name: line.name,
+      quantity: 1,
+      unit_price: toMinor(line.amount),
+      tax_rate: Math.round(line.taxRate * 10000),
+      total_amount: toMinor(line.amount),
+      total_tax_amount: toMinor(line.taxAmount),
+    }))
+
+    const session = await klarnaRequest("/payments/v1/sessions", "POST", {
+      purchase_country: normalizeCountryCode(input.customer.country),
+      purchase_currency: input.currency.toUpperCase(),
+      locale: "sv-SE",
+      order_amount: toMinor(input.amount),
+      order_tax_amount: orderLines.reduce((sum, line) => sum + line.total_tax_amount, 0),
+      order_lines: orderLines,
+      merchant_reference1: input.orderId,
+      billing_address: input.customer.email ? { email: input.customer.email } : undefined,
+    })
+    if (session.status !== 200) {
+      console.error("Klarna session error:", session.status, session.body)
+      throw new PaymentProviderError(errorMessage(session.body, "Klarna payment could not be started"))
+    }
+
+    // The hosted page sends the customer back with the authorization token in the URL
+    const hpp = await klarnaRequest("/hpp/v1/sessions", "POST", {
+      payment_session_url: `${apiUrl()}/payments/v1/sessions/${session.body.session_id}`,
+      merchant_urls: {
+        success: withReturnParams(input.returnUrl, "authorization_token={{authorization_token}}"),
+        cancel: withReturnParams(input.returnUrl, "payment=canceled"),
+        back: withReturnParams(input.returnUrl, "payment=canceled"),
+        failure: withReturnParams(input.returnUrl, "payment=failed"),
+        error: withReturnParams(input.returnUrl, "payment=failed"),
+      },
+    })
+    if (hpp.status !== 201 && hpp.status !== 200) {
+      console.error("Klarna hosted payment page error:", hpp.status, hpp.body)
+      throw new PaymentProviderError(errorMessage(hpp.body, "Klarna payment could not be started"))
+    }
+
+    return {
+      reference: `${SESSION_PREFIX}${session.body.session_id}`,
+      status: "pending",
+      redirectUrl: hpp.body.redirect_url,
+    }
+  },
+
+  /**
+   * Turn an authorized session into a Klarna order (captured automatically), or read the
+   * state of an existing order.
+   */
+  async confirmPayment(reference, params = {}) {
+    if (!reference.startsWith(SESSION_PREFIX)) {
+      return toProviderPayment(await getOrder(reference))
+    }
+    if (!params.authorizationToken) {
+      return { reference, status: "pending" }
+    }
+
+    // Klarna requires the order to repeat the session's amounts and lines
+    const sessionId = reference.slice(SESSION_PREFIX.length)
+    const session = await klarnaRequest(`/payments/v1/sessions/${sessionId}`)
+    if (session.status !== 200) {
+      throw new PaymentProviderError(`Klarna session ${sessionId} could not be retrieved (${session.status})`)
+    }
+
+    const secret = process.env.KLARNA_PUSH_SECRET
+    const pushUrl = `${webhookUrlFor("klarna")}?order_id={order.id}${secret ? `&secret=${encodeURIComponent(secret)}` : ""}`
+    const order = await klarnaRequest(`/payments/v1/authorizations/${params.authorizationToken}/order`, "POST", {
+      purchase_country: session.body.purchase_country,
+      purchase_currency: session.body.purchase_currency,
+      locale: session.body.locale,
+      order_amount: session.body.order_amount,
+      order_tax_amount: session.body.order_tax_amount,
+      order_lines: session.body.order_lines,
+      merchant_reference1: session.body.merchant_reference1,
+      merchant_urls: { push: pushUrl },
+      auto_capture: true,
+    })
+    if (order.status !== 200) {
+      console.error("Klarna order error:", order.status, order.body)
+      return { reference, status: "failed", error: errorMessage(order.body, "Klarna could not complete the purchase") }
+    }
+
+    return toProviderPayment({
+      order_id: order.body.order_id,
+      status: order.body.fraud_status === "ACCEPTED" ? "CAPTURED" : "AUTHORIZED",
+      fraud_status: order.body.fraud_status,
+    })
+  },
+
+  /**
+   * Sessions the customer never authorized have nothing to cancel at Klarna; cancelled orders
+   * are not confirmed any more. Authorized orders awaiting fraud review are cancelled.
+   */
+  async cancelPayment(reference) {
+    if (reference.startsWith(SESSION_PREFIX)) {
+      return { reference, status: "canceled" }
+    }
+
+    const order = await getOrder(reference)
+    if (order.status !== "AUTHORIZED") {
+      return toProviderPayment(order)
+    }
+    const response = await klarnaRequest(`/ordermanagement/v1/orders/${reference}/cancel`, "POST")
+    if (response.status !== 204) {
+      console.error("Klarna cancel error:", response.status, response.body)
+      throw new PaymentProviderError(errorMessage(response.body, "Klarna order could not be cancelled"))
+    }
+    return { reference, status: "canceled" }
+  },
+
+  async refund(orderId, amount, { reason, idempotencyKey }) {
+    if (orderId.startsWith(SESSION_PREFIX)) {
+      throw new PaymentProviderError("Klarna payment was never completed")
+    }
+
+    const response = await klarnaRequest(
+      `/ordermanagement/v1/orders/${orderId}/refunds`,
+      "POST",
+      { refunded_amount: toMinor(amount), description: reason },
+      { "Klarna-Idempotency-Key": idempotencyKey },
+    )
+    if (response.status !== 201) {
+      console.error("Klarna refund error:", response.status, response.body)
+      throw new PaymentProviderError(errorMessage(response.body, "Refund failed"))
+    }
+    return { id: response.headers.get("Refund-Id") || `klarna_refund_${Date.now()}`, amount, status: "succeeded" }
+  },
+
+  // Push notifications only name the order; its state is read back from Klarna
+  async verifyWebhook({ payload, searchParams }) {
+    const secret = process.env.KLARNA_PUSH_SECRET
+    if (secret && searchParams.get("secret") !== secret) {
+      throw new PaymentWebhookError("Invalid push secret")
+    }
+
+    let orderId = searchParams.get("order_id")
+    if (!orderId && payload) {
+      try {
+        orderId = JSON.parse(payload)?.order_id
+      } catch {
+        throw new PaymentWebhookError("Malformed Klarna notification")
+      }
+    }
+    if (!orderId) return null
+
+    const payment = toProviderPayment(await getOrder(orderId))
+    return {
+      id: `klarna_${orderId}_${payment.status}`,
+      reference: payment.reference,
+      status: payment.status,
+      occurredAt: new Date(),
+      error: payment.error,
+    }
+  },
+}
@@ -0,0 +1,112 @@
+import type { PaymentStatus } from "@/lib/models/Order"
+
+export type PaymentMethod = "card" | "swish" | "klarna"
+
+// Payment states a provider reports for a charge; refund states come from refunds and webhooks
+export type ProviderPaymentStatus = Extract<PaymentStatus, "pending" | "paid" | "failed" | "canceled">
+
+// A summary line of what is paid for, one per tax rate; providers that itemise (Klarna) need them
+export interface PaymentLine {
+  name: string
+  amount: number // Including tax
+  taxAmount: number
+  taxRate: number // Fraction, e.g. 0.25
+}
+
+export interface CreatePaymentInput {
+  orderId: string
+  amount: number
+  lines: PaymentLine[]
+  currency: string
+  customer: {
+    name?: string
+    email?: string
+    phone?: string
+    country?: string
+  }
+  returnUrl: string // Absolute URL the customer is sent back to after a redirect
+  metadata?: Record<string, string>
+  idempotencyKey?: string
+}
+
+export interface ProviderPayment {
+  reference: string // Stored as the order's paymentIntentId; may change when a payment is confirmed
+  status: ProviderPaymentStatus
+  clientSecret?: string // Stripe Elements
+  redirectUrl?: string // Hosted payment page (Klarna)
+  appUrl?: string // App switch link (Swish on mobile)
+  error?: string
+  // What the provider collected, for providers that report it; checked against the order before settling
+  amount?: number
+  currency?: string
+}
+
+export interface RefundOptions {
+  reason?: string
+  // Requests with the same key refund at most once, so a retried refund cannot pay out twice
+  idempotencyKey: string
+}
+
+export interface ProviderRefund {
+  id: string
+  amount: number
+  status: string
+}
+
+export interface WebhookRequest {
+  payload: string // Raw body, needed for signature checks
+  headers: Headers
+  searchParams: URLSearchParams
+}
+
+// A payment state change reported by a provider webhook
+export interface PaymentEvent {
+  id: string
+  reference: string
+  status: PaymentStatus
+  occurredAt: Date
+  error?: string
+  amount?: number // Collected amount and currency of a paid event, as in ProviderPayment
+  currency?: string
+}
+
+/**
+ * Operations the order flow needs from a payment provider.
+ * Amounts are in major currency units (SEK); providers convert as needed.
+ */
+export interface PaymentProvider {
+  name: string
+  method: PaymentMethod
+  isEnabled(): boolean
+  createPayment(input: CreatePaymentInput): Promise<ProviderPayment>
+  // Fetch the current state, completing the payment when the customer's approval is passed in
+  confirmPayment(reference: string, params?: Record<string, string>): Promise<ProviderPayment>
+  refund(paymentReference: string, amount: number, options: RefundOptions): Promise<ProviderRefund>
+  // Stop a payment the customer has not completed; returns its state, which is "paid" if it was too late
+  cancelPayment(reference: string): Promise<ProviderPayment>
+  // Returns null for events that do not concern a payment; throws PaymentWebhookError when not authentic
+  verifyWebhook(request: WebhookRequest): Promise<PaymentEvent | null>
+}
+
+// Public base URL of the shop, used for provider callbacks
+export function appBaseUrl(): string {
+  return (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/$/, "")
+}
+
+export function webhookUrlFor(providerName: string): string {
+  return `${appBaseUrl()}/api/payment/webhook/${providerName}`
+}
+
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PaymentProviderError"
+  }
+}
+
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PaymentWebhookError"
+  }
+}
@@ -0,0 +1,167 @@
+import type Stripe from "stripe"
+import { stripe, constructWebhookEvent } from "@/lib/stripe"
+import {
+  type PaymentEvent,
+  type PaymentProvider,
+  type ProviderPayment,
+  type ProviderPaymentStatus,
+  type ProviderRefund,
+  type RefundOptions,
+  PaymentProviderError,
+  PaymentWebhookError,
+} from "@/lib/payments/paymentProvider"
+
+function requireStripe(): Stripe {
+  if (!stripe) {
+    throw new PaymentProviderError("Payment service not configured")
+  }
+  return stripe
+}
+
+function toProviderPayment(paymentIntent: Stripe.PaymentIntent): ProviderPayment {
+  let status: ProviderPaymentStatus = "pending"
+  if (paymentIntent.status === "succeeded") status = "paid"
+  else if (paymentIntent.status === "canceled") status = "canceled"
+  else if (paymentIntent.status === "requires_payment_method" && paymentIntent.last_payment_error) status = "failed"
+
+  return {
+    reference: paymentIntent.id,
+    status,
+    clientSecret: paymentIntent.client_secret || undefined,
+    error: paymentIntent.last_payment_error?.message,
+    ...(status === "paid" ? collected(paymentIntent) : {}),
+  }
+}
+
+function collected(paymentIntent: Stripe.PaymentIntent): { amount: number; currency: string } {
+  return { amount: paymentIntent.amount_received / 100, currency: paymentIntent.currency.toUpperCase() }
+}
+
+export const stripeProvider: PaymentProvider = {
+  name: "stripe",
+  method: "card",
+
+  isEnabled() {
+    return !!stripe && !!process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
+  },
+
+  async createPayment(input) {
+    const client = requireStripe()
+    try {
+      const paymentIntent = await client.paymentIntents.create(
+        {
+          amount: Math.round(input.amount * 100), // Convert to öre
+          currency: input.currency.toLowerCase(),
+          automatic_payment_methods: {
+            enabled: true,
+          },
+          metadata: {
+            ...input.metadata,
+            orderId: input.orderId,
+            integration_check: "accept_a_payment",
+            quotedTotal: input.amount.toFixed(2),
+          },
+        },
+        input.idempotencyKey ? { idempotencyKey: input.idempotencyKey } : undefined,
+      )
+      return toProviderPayment(paymentIntent)
+    } catch (error) {
+      console.error("Stripe payment intent error:", error)
+      throw new PaymentProviderError(error instanceof Error ? error.message : "Failed to create payment intent")
+    }
+  },
+
+  // The browser confirms card payments with Stripe Elements; this only reads the result
+  async confirmPayment(paymentIntentId) {
+    const client = requireStripe()
+    try {
+      return toProviderPayment(await client.paymentIntents.retrieve(paymentIntentId))
+    } catch (error) {
+      console.error("Stripe payment intent lookup error:", error)
+      throw new PaymentProviderError(error instanceof Error ? error.message : "Failed to look up payment")
+    }
+  },
+
+  async cancelPayment(paymentIntentId) {
+    const client = requireStripe()
+    try {
+      const paymentIntent = await client.paymentIntents.retrieve(paymentIntentId)
+      if (paymentIntent.status === "succeeded" || paymentIntent.status === "canceled") {
+        return toProviderPayment(paymentIntent)
+      }
+      return toProviderPayment(await client.paymentIntents.cancel(paymentIntentId))
+    } catch (error) {
+      console.error("Stripe payment intent cancel error:", error)
+      throw new PaymentProviderError(error instanceof Error ? error.message : "Failed to cancel payment")
+    }
+  },
+
+  async refund(paymentIntentId: string, amount: number, { reason, idempotencyKey }: RefundOptions): Promise<ProviderRefund> {
+    const client = requireStripe()
+
+    try {
+      const refund = await client.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: Math.round(amount * 100), // Convert to öre
+          metadata: reason ? { reason } : undefined,
+        },
+        { idempotencyKey },
+      )
+
+      return {
+        id: refund.id,
+        amount: refund.amount / 100,
+        status: refund.status || "pending",
+      }
+    } catch (error) {
+      console.error("Stripe refund error:", error)
+      throw new PaymentProviderError(error instanceof Error ? error.message : "Refund failed")
+    }
+  },
+
+  async verifyWebhook({ payload, headers }): Promise<PaymentEvent | null> {
+    const signature = headers.get("stripe-signature")
+    if (!signature) {
+      throw new PaymentWebhookError("Missing stripe-signature header")
+    }
+
+    let event: Stripe.Event
+    try {
+      // Signature verification needs the exact raw body
+      event = constructWebhookEvent(payload, signature)
+    } catch (error) {
+      console.error("Stripe webhook signature verification failed:", error)
+      throw new PaymentWebhookError("Invalid signature")
+    }
+
+    const occurredAt = new Date(event.created * 1000)
+    switch (event.type) {
+      case "payment_intent.succeeded": {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent
+        return { id: event.id, reference: paymentIntent.id, status: "paid", occurredAt, ...collected(paymentIntent) }
+      }
+      case "payment_intent.payment_failed": {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent
+        return {
+          id: event.id,
+          reference: paymentIntent.id,
+          status: "failed",
+          occurredAt,
+          error: paymentIntent.last_payment_error?.message || "Payment failed",
+        }
+      }
+      case "payment_intent.canceled":
+        return { id: event.id, reference: (event.data.object as Stripe.PaymentIntent).id, status: "canceled", occurredAt }
+      case "charge.refunded": {
+        const charge = event.data.object as Stripe.Charge
+        const paymentIntentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id
+        if (!paymentIntentId) return null
+        const fullyRefunded = charge.amount_refunded >= charge.amount
+        return { id: event.id, reference: paymentIntentId, status: fullyRefunded ? "refunded" : "partially_refunded", occurredAt }
+      }
+      default:
+        return null
+    }
+  },
+}
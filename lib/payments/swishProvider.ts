@@ -0,0 +1,205 @@
+import crypto from "crypto"
+import { requestJson, type ClientCertificate } from "@/lib/payments/http"
+import {
+  type PaymentProvider,
+  type ProviderPaymentStatus,
+  PaymentProviderError,
+  PaymentWebhookError,
+  webhookUrlFor,
+} from "@/lib/payments/paymentProvider"
+
+// Swish Commerce API; point SWISH_API_URL at the test environment or scripts/payment-mock-server.js locally
+const DEFAULT_API_URL = "https://cpc.getswish.net/swish-cpcapi"
+
+interface SwishPaymentRequest {
+  id: string
+  paymentReference?: string
+  status: "CREATED" | "PAID" | "DECLINED" | "ERROR" | "CANCELLED"
+  amount: number
+  errorMessage?: string
+}
+
+const apiUrl = () => (process.env.SWISH_API_URL || DEFAULT_API_URL).replace(/\/$/, "")
+
+const certificate = (): ClientCertificate => ({
+  certPath: process.env.SWISH_CERT_PATH,
+  keyPath: process.env.SWISH_KEY_PATH,
+  caPath: process.env.SWISH_CA_PATH,
+  passphrase: process.env.SWISH_CERT_PASSPHRASE,
+})
+
+// Swish instruction ids are 32 upper-case hex characters
+const instructionId = () => crypto.randomUUID().replace(/-/g, "").toUpperCase()
+
+/** Swedish mobile number in Swish format (46701234567), or undefined when it is not one. */
+export function toSwishAlias(phone?: string): string | undefined {
+  const digits = (phone || "").replace(/\D/g, "")
+  const alias = digits.startsWith("0") ? `46${digits.slice(1)}` : digits
+  return /^467\d{8}$/.test(alias) ? alias : undefined
+}
+
+function toStatus(status: SwishPaymentRequest["status"]): ProviderPaymentStatus {
+  switch (status) {
+    case "PAID":
+      return "paid"
+    case "DECLINED":
+    case "ERROR":
+      return "failed"
+    case "CANCELLED":
+      return "canceled"
+    default:
+      return "pending"
+  }
+}
+
+async function getPaymentRequest(id: string): Promise<SwishPaymentRequest> {
+  const response = await requestJson(`${apiUrl()}/api/v1/paymentrequests/${id}`, { certificate: certificate() })
+  if (response.status !== 200) {
+    throw new PaymentProviderError(`Swish payment ${id} could not be retrieved (${response.status})`)
+  }
+  return response.body
+}
+
+// Callback URLs carry a shared secret when one is configured
+function callbackUrl(): string {
+  const secret = process.env.SWISH_CALLBACK_SECRET
+  const url = webhookUrlFor("swish")
+  return secret ? `${url}?secret=${encodeURIComponent(secret)}` : url
+}
+
+function errorMessage(body: any, fallback: string): string {
+  return Array.isArray(body) && body[0]?.errorMessage ? body[0].errorMessage : fallback
+}
+
+export const swishProvider: PaymentProvider = {
+  name: "swish",
+  method: "swish",
+
+  isEnabled() {
+    return !!process.env.SWISH_PAYEE_ALIAS
+  },
+
+  /**
+   * With a Swedish mobile number the customer gets a push in the Swish app (e-commerce);
+   * without one the response carries a token for switching to the app (m-commerce).
+   */
+  async createPayment(input) {
+    if (input.currency.toUpperCase() !== "SEK") {
+      throw new PaymentProviderError("Swish only supports payments in SEK")
+    }
+
+    const id = instructionId()
+    const payerAlias = toSwishAlias(input.customer.phone)
+    const response = await requestJson(`${apiUrl()}/api/v2/paymentrequests/${id}`, {
+      method: "PUT",
+      certificate: certificate(),
+      body: {
+        payeePaymentReference: input.orderId.replace(/[^A-Za-z0-9]/g, "").slice(0, 35),
+        callbackUrl: callbackUrl(),
+        payerAlias,
+        payeeAlias: process.env.SWISH_PAYEE_ALIAS,
+        amount: input.amount.toFixed(2),
+        currency: "SEK",
+        message: `Order ${input.orderId}`.slice(0, 50),
+      },
+    })
+
+    if (response.status !== 201) {
+      console.error("Swish payment request error:", response.status, response.body)
+      throw new PaymentProviderError(errorMessage(response.body, "Swish payment could not be started"))
+    }
+
+    const token = response.headers["paymentrequesttoken"] as string | undefined
+    return {
+      reference: id,
+      status: "pending",
+      appUrl: token
+        ? `swish://paymentrequest?token=${token}&callbackurl=${encodeURIComponent(input.returnUrl)}`
+        : undefined,
+    }
+  },
+
+  // Swish settles the payment in the app; confirming means reading its status
+  async confirmPayment(id) {
+    const payment = await getPaymentRequest(id)
+    return { reference: payment.id, status: toStatus(payment.status), error: payment.errorMessage }
+  },
+
+  // Only payment requests still waiting for the customer can be cancelled
+  async cancelPayment(id) {
+    const payment = await getPaymentRequest(id)
+    if (payment.status !== "CREATED") {
+      return { reference: payment.id, status: toStatus(payment.status), error: payment.errorMessage }
+    }
+
+    const response = await requestJson(`${apiUrl()}/api/v1/paymentrequests/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json-patch+json" },
+      certificate: certificate(),
+      body: [{ op: "replace", path: "/status", value: "cancelled" }],
+    })
+    if (response.status !== 200) {
+      console.error("Swish cancel error:", response.status, response.body)
+      throw new PaymentProviderError(errorMessage(response.body, "Swish payment could not be cancelled"))
+    }
+    return { reference: id, status: "canceled" }
+  },
+
+  async refund(id, amount, { reason, idempotencyKey }) {
+    // Refunds reference the bank-side payment reference, not the request id
+    const payment = await getPaymentRequest(id)
+    if (payment.status !== "PAID" || !payment.paymentReference) {
+      throw new PaymentProviderError("Only paid Swish payments can be refunded")
+    }
+
+    // Swish refunds are PUT under an id the caller chooses, so the same key always names the same refund
+    const refundId = crypto.createHash("sha256").update(idempotencyKey).digest("hex").slice(0, 32).toUpperCase()
+    const response = await requestJson(`${apiUrl()}/api/v2/refunds/${refundId}`, {
+      method: "PUT",
+      certificate: certificate(),
+      body: {
+        originalPaymentReference: payment.paymentReference,
+        callbackUrl: callbackUrl(),
+        payerAlias: process.env.SWISH_PAYEE_ALIAS,
+        amount: amount.toFixed(2),
+        currency: "SEK",
+        message: (reason || "Refund").slice(0, 50),
+      },
+    })
+
+    if (response.status !== 201) {
+      console.error("Swish refund error:", response.status, response.body)
+      throw new PaymentProviderError(errorMessage(response.body, "Refund failed"))
+    }
+    return { id: refundId, amount, status: "pending" }
+  },
+
+  /**
+   * Swish callbacks are not signed (production relies on mutual TLS), so the body is only
+   * used to find the payment; its status is read back from the Swish API.
+   */
+  async verifyWebhook({ payload, searchParams }) {
+    const secret = process.env.SWISH_CALLBACK_SECRET
+    if (secret && searchParams.get("secret") !== secret) {
+      throw new PaymentWebhookError("Invalid callback secret")
+    }
+
+    let callback: any
+    try {
+      callback = JSON.parse(payload)
+    } catch {
+      throw new PaymentWebhookError("Malformed Swish callback")
+    }
+    // Refund callbacks carry the original payment's reference; refunds are recorded when issued
+    if (!callback?.id || callback.originalPaymentReference) return null
+
+    const payment = await getPaymentRequest(callback.id)
+    return {
+      id: `swish_${payment.id}_${payment.status}`,
+      reference: payment.id,
+      status: toStatus(payment.status),
+      occurredAt: new Date(),
+      error: payment.errorMessage,
+    }
+  },
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { PaymentWebhookError, type PaymentProvider } from "@/lib/payments"
+import { PaymentService } from "@/lib/services/paymentService"
+
+// Shared by the provider webhook routes: verify the notification, then settle the order it names
+export async function handlePaymentWebhook(provider: PaymentProvider, request: NextRequest) {
+  // Signature verification needs the exact raw body
+  const payload = await request.text()
+
+  try {
+    const event = await provider.verifyWebhook({
+      payload,
+      headers: request.headers,
+      searchParams: request.nextUrl.searchParams,
+    })
+    if (!event) {
+      return NextResponse.json({ received: true })
+    }
+
+    const order = await PaymentService.applyPaymentEvent(event)
+    if (!order) {
+      console.log(`ℹ️ [Webhook] ${provider.name} ${event.status} (${event.id}) did not change any order`)
+    }
+
+    // Webhooks run outside the customer's request, so they also pick up invoices that failed earlier
+    try {
+      await PaymentService.retryPendingInvoices()
+    } catch (error) {
+      console.error("Failed to retry pending invoices:", error)
+    }
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    if (error instanceof PaymentWebhookError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error(`${provider.name} webhook handling error:`, error)
+    // A 500 makes the provider retry the delivery later
+    return NextResponse.json({ error: "Failed to process webhook" }, { status: 500 })
+  }
+}
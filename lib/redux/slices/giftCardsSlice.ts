@@ -0,0 +1,123 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit"
+import type { CreateGiftCardData, GiftCard, GiftCardStatus, GiftCardTransaction } from "@/lib/models/GiftCard"
+
+interface GiftCardsState {
+  giftCards: GiftCard[]
+  // Ledger of the card opened in the dashboard
+  transactions: GiftCardTransaction[]
+  loading: boolean
+  error: string | null
+}
+
+const initialState: GiftCardsState = {
+  giftCards: [],
+  transactions: [],
+  loading: false,
+  error: null,
+}
+
+const replaceCard = (state: GiftCardsState, giftCard: GiftCard) => {
+  const index = state.giftCards.findIndex((g) => g.id === giftCard.id)
+  if (index !== -1) state.giftCards[index] = giftCard
+}
+
+export const fetchGiftCards = createAsyncThunk("giftCards/fetchGiftCards", async () => {
+  const response = await fetch("/api/gift-cards")
+  if (!response.ok) {
+    throw new Error("Failed to fetch gift cards")
+  }
+  return response.json()
+})
+
+export const issueGiftCard = createAsyncThunk("giftCards/issueGiftCard", async (giftCardData: CreateGiftCardData) => {
+  const response = await fetch("/api/gift-cards", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(giftCardData),
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to issue gift card")
+  }
+  return response.json()
+})
+
+export const fetchGiftCardTransactions = createAsyncThunk("giftCards/fetchTransactions", async (id: string) => {
+  const response = await fetch(`/api/gift-cards/${id}`)
+  if (!response.ok) {
+    throw new Error("Failed to fetch gift card transactions")
+  }
+  const { transactions, ...giftCard } = await response.json()
+  return { giftCard: giftCard as GiftCard, transactions: transactions as GiftCardTransaction[] }
+})
+
+export const setGiftCardStatus = createAsyncThunk(
+  "giftCards/setStatus",
+  async ({ id, status }: { id: string; status: GiftCardStatus }) => {
+    const response = await fetch(`/api/gift-cards/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status }),
+    })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to update gift card")
+    }
+    return response.json()
+  },
+)
+
+export const adjustGiftCardBalance = createAsyncThunk(
+  "giftCards/adjustBalance",
+  async ({ id, adjustment, note }: { id: string; adjustment: number; note: string }) => {
+    const response = await fetch(`/api/gift-cards/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ adjustment, note }),
+    })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to adjust gift card balance")
+    }
+    return response.json()
+  },
+)
+
+const giftCardsSlice = createSlice({
+  name: "giftCards",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchGiftCards.pending, (state) => {
+        state.loading = true
+        state.error = null
+      })
+      .addCase(fetchGiftCards.fulfilled, (state, action) => {
+        state.loading = false
+        state.giftCards = action.payload
+      })
+      .addCase(fetchGiftCards.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || "Failed to fetch gift cards"
+      })
+      .addCase(issueGiftCard.fulfilled, (state, action) => {
+        state.giftCards.unshift(action.payload)
+      })
+      .addCase(fetchGiftCardTransactions.pending, (state) => {
+        state.transactions = []
+      })
+      .addCase(fetchGiftCardTransactions.fulfilled, (state, action) => {
+        replaceCard(state, action.payload.giftCard)
+        state.transactions = action.payload.transactions
+      })
+      .addCase(setGiftCardStatus.fulfilled, (state, action) => {
+        replaceCard(state, action.payload)
+      })
+      .addCase(adjustGiftCardBalance.fulfilled, (state, action) => {
+        replaceCard(state, action.payload)
+      })
+  },
+})
+
+export default giftCardsSlice.reducer
@@ -0,0 +1,81 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit"
+import type { LowStockItem, StockMovement, StockUnit } from "@/lib/models/Inventory"
+
+interface InventoryState {
+  lowStock: LowStockItem[]
+  movements: StockMovement[]
+  loading: boolean
+  error: string | null
+}
+
+const initialState: InventoryState = {
+  lowStock: [],
+  movements: [],
+  loading: false,
+  error: null,
+}
+
+export const fetchLowStock = createAsyncThunk("inventory/fetchLowStock", async () => {
+  const response = await fetch("/api/inventory/low-stock")
+  if (!response.ok) {
+    throw new Error("Failed to fetch low stock")
+  }
+  return response.json()
+})
+
+export const fetchStockMovements = createAsyncThunk("inventory/fetchMovements", async (productId?: string) => {
+  const query = productId ? `?productId=${encodeURIComponent(productId)}` : ""
+  const response = await fetch(`/api/inventory/movements${query}`)
+  if (!response.ok) {
+    throw new Error("Failed to fetch stock movements")
+  }
+  return response.json()
+})
+
+export const adjustStock = createAsyncThunk(
+  "inventory/adjustStock",
+  async (adjustment: StockUnit & { quantity: number; note: string }, { dispatch }) => {
+    const response = await fetch("/api/inventory/adjust", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(adjustment),
+    })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to adjust stock")
+    }
+    // The adjustment shows up in both lists, so reload them
+    dispatch(fetchLowStock())
+    dispatch(fetchStockMovements())
+    return response.json()
+  },
+)
+
+const inventorySlice = createSlice({
+  name: "inventory",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchLowStock.pending, (state) => {
+        state.loading = true
+        state.error = null
+      })
+      .addCase(fetchLowStock.fulfilled, (state, action) => {
+        state.loading = false
+        state.lowStock = action.payload
+      })
+      .addCase(fetchLowStock.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || "Failed to fetch low stock"
+      })
+      .addCase(fetchStockMovements.fulfilled, (state, action) => {
+        state.movements = action.payload
+      })
+      .addCase(fetchStockMovements.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to fetch stock movements"
+      })
+  },
+})
+
+export default inventorySlice.reducer
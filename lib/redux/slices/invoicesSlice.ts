@@ -0,0 +1,85 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit"
+import type { Invoice } from "@/lib/models/Invoice"
+
+interface InvoicesState {
+  items: Invoice[]
+  loading: boolean
+  error: string | null
+}
+
+const initialState: InvoicesState = {
+  items: [],
+  loading: false,
+  error: null,
+}
+
+// Without an orderId this loads the signed-in customer's own invoices
+export const fetchInvoices = createAsyncThunk("invoices/fetchInvoices", async (orderId?: string) => {
+  const response = await fetch(orderId ? `/api/invoices?orderId=${encodeURIComponent(orderId)}` : "/api/invoices")
+  if (!response.ok) {
+    throw new Error("Failed to fetch invoices")
+  }
+  return response.json()
+})
+
+export const issueOrderInvoices = createAsyncThunk("invoices/issueForOrder", async (orderId: string) => {
+  const response = await fetch("/api/invoices", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orderId }),
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to issue invoices")
+  }
+  return response.json()
+})
+
+// Returns every invoice of the order, including the credit note and the replacement
+export const correctInvoice = createAsyncThunk("invoices/correct", async (id: string) => {
+  const response = await fetch(`/api/invoices/${id}/correct`, { method: "POST" })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to correct invoice")
+  }
+  return response.json()
+})
+
+// Replace the cached invoices of the orders in `invoices`, keeping everything else
+const mergeInvoices = (state: InvoicesState, invoices: Invoice[], orderId?: string) => {
+  const orderIds = new Set(orderId ? [orderId] : invoices.map((invoice) => invoice.orderId))
+  state.items = [...state.items.filter((invoice) => !orderIds.has(invoice.orderId)), ...invoices]
+}
+
+const invoicesSlice = createSlice({
+  name: "invoices",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchInvoices.pending, (state) => {
+        state.loading = true
+        state.error = null
+      })
+      .addCase(fetchInvoices.fulfilled, (state, action) => {
+        state.loading = false
+        if (action.meta.arg) {
+          mergeInvoices(state, action.payload, action.meta.arg)
+        } else {
+          state.items = action.payload
+        }
+      })
+      .addCase(fetchInvoices.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || "Failed to fetch invoices"
+      })
+      .addCase(issueOrderInvoices.fulfilled, (state, action) => {
+        mergeInvoices(state, action.payload, action.meta.arg)
+      })
+      .addCase(correctInvoice.fulfilled, (state, action) => {
+        mergeInvoices(state, action.payload)
+      })
+  },
+})
+
+export default invoicesSlice.reducer
@@ -1,5 +1,5 @@
 import { createSlice, createAsyncThunk } from "@reduxjs/toolkit"
-import type { Order } from "@/types"
+import type { Order, OrderTracking } from "@/types"
 
 interface OrdersState {
   items: Order[]
@@ -21,31 +21,57 @@ export const fetchOrders = createAsyncThunk("orders/fetchOrders", async () => {
   return response.json()
 })
 
-export const createOrder = createAsyncThunk(
-  "orders/createOrder",
-  async (orderData: Omit<Order, "id" | "date" | "createdAt" | "updatedAt">) => {
-    const response = await fetch("/api/orders", {
-      method: "POST",
+export const updateOrderStatus = createAsyncThunk(
+  "orders/updateStatus",
+  async ({
+    id,
+    status,
+    note,
+    tracking,
+  }: {
+    id: string
+    status: Order["status"]
+    note?: string
+    tracking?: OrderTracking
+  }) => {
+    const response = await fetch(`/api/orders/${id}`, {
+      method: "PATCH",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(orderData),
+      body: JSON.stringify({ status, note, tracking }),
     })
     if (!response.ok) {
-      throw new Error("Failed to create order")
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to update order status")
     }
     return response.json()
   },
 )
 
-export const updateOrderStatus = createAsyncThunk(
-  "orders/updateStatus",
-  async ({ id, status }: { id: string; status: Order["status"] }) => {
-    const response = await fetch(`/api/orders/${id}`, {
-      method: "PATCH",
+export const refundOrder = createAsyncThunk(
+  "orders/refund",
+  async ({
+    id,
+    type,
+    items,
+    reason,
+    destination,
+    restock,
+  }: {
+    id: string
+    type: "full" | "items" | "shipping"
+    items?: Array<{ index: number; quantity: number }>
+    reason?: string
+    destination?: "original" | "store_credit"
+    restock?: boolean
+  }) => {
+    const response = await fetch(`/api/orders/${id}/refunds`, {
+      method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ status }),
+      body: JSON.stringify({ type, items, reason, destination, restock }),
     })
     if (!response.ok) {
-      throw new Error("Failed to update order status")
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to refund order")
     }
     return response.json()
   },
@@ -68,15 +94,18 @@ const ordersSlice = createSlice({
         state.loading = false
         state.error = action.error.message || "Failed to fetch orders"
       })
-      .addCase(createOrder.fulfilled, (state, action) => {
-        state.items.unshift(action.payload) // Add new order to the beginning
-      })
       .addCase(updateOrderStatus.fulfilled, (state, action) => {
         const index = state.items.findIndex((item) => item.id === action.payload.id)
         if (index !== -1) {
           state.items[index] = action.payload
         }
       })
+      .addCase(refundOrder.fulfilled, (state, action) => {
+        const index = state.items.findIndex((item) => item.id === action.payload.id)
+        if (index !== -1) {
+          state.items[index] = action.payload
+        }
+      })
   },
 })
 
@@ -0,0 +1,99 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit"
+import type { CreatePromotionData, Promotion } from "@/lib/models/Promotion"
+
+interface PromotionsState {
+  promotions: Promotion[]
+  loading: boolean
+  error: string | null
+}
+
+const initialState: PromotionsState = {
+  promotions: [],
+  loading: false,
+  error: null,
+}
+
+export const fetchPromotions = createAsyncThunk("promotions/fetchPromotions", async () => {
+  const response = await fetch("/api/promotions")
+  if (!response.ok) {
+    throw new Error("Failed to fetch promotions")
+  }
+  return response.json()
+})
+
+export const createPromotion = createAsyncThunk("promotions/createPromotion", async (promotionData: CreatePromotionData) => {
+  const response = await fetch("/api/promotions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(promotionData),
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to create promotion")
+  }
+  return response.json()
+})
+
+export const updatePromotion = createAsyncThunk(
+  "promotions/updatePromotion",
+  async ({ id, ...promotionData }: Partial<CreatePromotionData> & { id: string }) => {
+    const response = await fetch(`/api/promotions/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(promotionData),
+    })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to update promotion")
+    }
+    return response.json()
+  },
+)
+
+export const deletePromotion = createAsyncThunk("promotions/deletePromotion", async (id: string) => {
+  const response = await fetch(`/api/promotions/${id}`, { method: "DELETE" })
+  if (!response.ok) {
+    throw new Error("Failed to delete promotion")
+  }
+  return id
+})
+
+// Kept in the order the engine evaluates them: highest priority first
+const byPriority = (a: Promotion, b: Promotion) => b.priority - a.priority
+
+const promotionsSlice = createSlice({
+  name: "promotions",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchPromotions.pending, (state) => {
+        state.loading = true
+        state.error = null
+      })
+      .addCase(fetchPromotions.fulfilled, (state, action) => {
+        state.loading = false
+        state.promotions = action.payload
+      })
+      .addCase(fetchPromotions.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || "Failed to fetch promotions"
+      })
+      .addCase(createPromotion.fulfilled, (state, action) => {
+        state.promotions.push(action.payload)
+        state.promotions.sort(byPriority)
+      })
+      .addCase(updatePromotion.fulfilled, (state, action) => {
+        const index = state.promotions.findIndex((promotion) => promotion.id === action.payload.id)
+        if (index !== -1) {
+          state.promotions[index] = action.payload
+        }
+        state.promotions.sort(byPriority)
+      })
+      .addCase(deletePromotion.fulfilled, (state, action) => {
+        state.promotions = state.promotions.filter((promotion) => promotion.id !== action.payload)
+      })
+  },
+})
+
+export default promotionsSlice.reducer
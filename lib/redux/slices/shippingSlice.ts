@@ -0,0 +1,94 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit"
+import type { CreateShippingZoneData, ShippingZone } from "@/lib/models/Shipping"
+
+interface ShippingState {
+  zones: ShippingZone[]
+  loading: boolean
+  error: string | null
+}
+
+const initialState: ShippingState = {
+  zones: [],
+  loading: false,
+  error: null,
+}
+
+export const fetchShippingZones = createAsyncThunk("shipping/fetchZones", async () => {
+  const response = await fetch("/api/shipping/zones")
+  if (!response.ok) {
+    throw new Error("Failed to fetch shipping zones")
+  }
+  return response.json()
+})
+
+export const createShippingZone = createAsyncThunk("shipping/createZone", async (zoneData: CreateShippingZoneData) => {
+  const response = await fetch("/api/shipping/zones", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(zoneData),
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to create shipping zone")
+  }
+  return response.json()
+})
+
+export const updateShippingZone = createAsyncThunk(
+  "shipping/updateZone",
+  async ({ id, ...zoneData }: Partial<CreateShippingZoneData> & { id: string }) => {
+    const response = await fetch(`/api/shipping/zones/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(zoneData),
+    })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to update shipping zone")
+    }
+    return response.json()
+  },
+)
+
+export const deleteShippingZone = createAsyncThunk("shipping/deleteZone", async (id: string) => {
+  const response = await fetch(`/api/shipping/zones/${id}`, { method: "DELETE" })
+  if (!response.ok) {
+    throw new Error("Failed to delete shipping zone")
+  }
+  return id
+})
+
+const shippingSlice = createSlice({
+  name: "shipping",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchShippingZones.pending, (state) => {
+        state.loading = true
+        state.error = null
+      })
+      .addCase(fetchShippingZones.fulfilled, (state, action) => {
+        state.loading = false
+        state.zones = action.payload
+      })
+      .addCase(fetchShippingZones.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || "Failed to fetch shipping zones"
+      })
+      .addCase(createShippingZone.fulfilled, (state, action) => {
+        state.zones.push(action.payload)
+      })
+      .addCase(updateShippingZone.fulfilled, (state, action) => {
+        const index = state.zones.findIndex((zone) => zone.id === action.payload.id)
+        if (index !== -1) {
+          state.zones[index] = action.payload
+        }
+      })
+      .addCase(deleteShippingZone.fulfilled, (state, action) => {
+        state.zones = state.zones.filter((zone) => zone.id !== action.payload)
+      })
+  },
+})
+
+export default shippingSlice.reducer
@@ -0,0 +1,123 @@
+import { createSlice, createAsyncThunk } from "@reduxjs/toolkit"
+import type { CreateTaxRuleData, TaxRule, TaxSettings } from "@/lib/models/Tax"
+
+interface TaxState {
+  rules: TaxRule[]
+  settings: TaxSettings | null
+  loading: boolean
+  error: string | null
+}
+
+const initialState: TaxState = {
+  rules: [],
+  settings: null,
+  loading: false,
+  error: null,
+}
+
+export const fetchTaxRules = createAsyncThunk("tax/fetchRules", async () => {
+  const response = await fetch("/api/tax/rules")
+  if (!response.ok) {
+    throw new Error("Failed to fetch tax rules")
+  }
+  return response.json()
+})
+
+export const createTaxRule = createAsyncThunk("tax/createRule", async (ruleData: CreateTaxRuleData) => {
+  const response = await fetch("/api/tax/rules", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(ruleData),
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to create tax rule")
+  }
+  return response.json()
+})
+
+export const updateTaxRule = createAsyncThunk(
+  "tax/updateRule",
+  async ({ id, ...ruleData }: Partial<CreateTaxRuleData> & { id: string }) => {
+    const response = await fetch(`/api/tax/rules/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(ruleData),
+    })
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || "Failed to update tax rule")
+    }
+    return response.json()
+  },
+)
+
+export const deleteTaxRule = createAsyncThunk("tax/deleteRule", async (id: string) => {
+  const response = await fetch(`/api/tax/rules/${id}`, { method: "DELETE" })
+  if (!response.ok) {
+    throw new Error("Failed to delete tax rule")
+  }
+  return id
+})
+
+export const fetchTaxSettings = createAsyncThunk("tax/fetchSettings", async () => {
+  const response = await fetch("/api/tax/settings")
+  if (!response.ok) {
+    throw new Error("Failed to fetch tax settings")
+  }
+  return response.json()
+})
+
+export const updateTaxSettings = createAsyncThunk("tax/updateSettings", async (settings: Partial<TaxSettings>) => {
+  const response = await fetch("/api/tax/settings", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || "Failed to update tax settings")
+  }
+  return response.json()
+})
+
+const taxSlice = createSlice({
+  name: "tax",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchTaxRules.pending, (state) => {
+        state.loading = true
+        state.error = null
+      })
+      .addCase(fetchTaxRules.fulfilled, (state, action) => {
+        state.loading = false
+        state.rules = action.payload
+      })
+      .addCase(fetchTaxRules.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || "Failed to fetch tax rules"
+      })
+      .addCase(createTaxRule.fulfilled, (state, action) => {
+        state.rules.push(action.payload)
+      })
+      .addCase(updateTaxRule.fulfilled, (state, action) => {
+        const index = state.rules.findIndex((rule) => rule.id === action.payload.id)
+        if (index !== -1) {
+          state.rules[index] = action.payload
+        }
+      })
+      .addCase(deleteTaxRule.fulfilled, (state, action) => {
+        state.rules = state.rules.filter((rule) => rule.id !== action.payload)
+      })
+      .addCase(fetchTaxSettings.fulfilled, (state, action) => {
+        state.settings = action.payload
+      })
+      .addCase(updateTaxSettings.fulfilled, (state, action) => {
+        state.settings = action.payload
+      })
+  },
+})
+
+export default taxSlice.reducer
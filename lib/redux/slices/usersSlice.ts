@@ -33,6 +33,14 @@ export const updateUser = createAsyncThunk("users/updateUser", async (user: User
   return response.json()
 })
 
+export const unlockUser = createAsyncThunk("users/unlockUser", async (id: string) => {
+  const response = await fetch(`/api/users/${id}/unlock`, { method: "POST" })
+  if (!response.ok) {
+    throw new Error("Failed to unlock user")
+  }
+  return response.json()
+})
+
 export const deleteUser = createAsyncThunk("users/deleteUser", async (id: string) => {
   const response = await fetch(`/api/users/${id}`, {
     method: "DELETE",
@@ -80,6 +88,15 @@ const usersSlice = createSlice({
         state.loading = false
         state.error = action.error.message || "Failed to update user"
       })
+      .addCase(unlockUser.fulfilled, (state, action) => {
+        const index = state.items.findIndex((item) => item.id === action.payload.id)
+        if (index !== -1) {
+          state.items[index] = action.payload
+        }
+      })
+      .addCase(unlockUser.rejected, (state, action) => {
+        state.error = action.error.message || "Failed to unlock user"
+      })
       .addCase(deleteUser.pending, (state) => {
         state.loading = true
         state.error = null
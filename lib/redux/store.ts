@@ -9,6 +9,12 @@ import designsSlice from "./slices/designsSlice" // New
 import templatesSlice from "./slices/templatesSlice" // New
 import couponsSlice from "./slices/couponsSlice" // New
 import categoriesSlice from "./slices/categoriesSlice" // New
+import shippingSlice from "./slices/shippingSlice"
+import taxSlice from "./slices/taxSlice"
+import invoicesSlice from "./slices/invoicesSlice"
+import promotionsSlice from "./slices/promotionsSlice"
+import giftCardsSlice from "./slices/giftCardsSlice"
+import inventorySlice from "./slices/inventorySlice"
 
 import designReducer from "@/lib/redux/designToolSlices/designSlice"
 import productsReducer from "@/lib/redux/designToolSlices/productsSlice"
@@ -27,6 +33,12 @@ export const store = configureStore({
     templatesManagement: templatesSlice, // Added
     coupons: couponsSlice, // Added
     categories: categoriesSlice, // Added
+    shipping: shippingSlice,
+    tax: taxSlice,
+    invoices: invoicesSlice,
+    promotions: promotionsSlice,
+    giftCards: giftCardsSlice,
+    inventory: inventorySlice,
     // favorites removed
 
     design: designReducer,
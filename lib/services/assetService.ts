@@ -0,0 +1,122 @@
+import { createHash } from "crypto"
+import { getAssetStorage } from "@/lib/storage"
+
+// Uploads are capped at 5MB in the design tool; composite previews can be somewhat larger
+export const MAX_ASSET_BYTES = 10 * 1024 * 1024
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+}
+const CONTENT_TYPES = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type]))
+
+const ASSET_ID = /^[a-f0-9]{64}\.(png|jpg|gif|webp|svg)$/
+const DATA_URL = /data:image\/[\w.+-]+;base64,[A-Za-z0-9+/]+=*/g
+
+export class AssetError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "AssetError"
+  }
+}
+
+export interface StoredAsset {
+  id: string
+  url: string
+  contentType: string
+  size: number
+}
+
+// The type is taken from the file's own bytes, never from what the client claims
+function sniffContentType(body: Buffer): string | null {
+  if (body.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) return "image/png"
+  if (body.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return "image/jpeg"
+  if (body.subarray(0, 4).toString("latin1") === "GIF8") return "image/gif"
+  if (body.subarray(0, 4).toString("latin1") === "RIFF" && body.subarray(8, 12).toString("latin1") === "WEBP") return "image/webp"
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(body.subarray(0, 4096).toString("utf8").replace(/^\uFEFF/, ""))) {
+    return "image/svg+xml"
+  }
+  return null
+}
+
+export const assetUrl = (id: string) => `/api/assets/${id}`
+
+export class AssetService {
+  /**
+   * Store an image under the SHA-256 of its content. Storing the same bytes again returns the
+   * existing asset, so callers never need to check first.
+   */
+  static async store(body: Buffer): Promise<StoredAsset> {
+    if (body.length === 0) {
+      throw new AssetError("File is empty")
+    }
+    if (body.length > MAX_ASSET_BYTES) {
+      throw new AssetError(`File is larger than ${MAX_ASSET_BYTES / 1024 / 1024}MB`, 413)
+    }
+    const contentType = sniffContentType(body)
+    if (!contentType) {
+      throw new AssetError("Only PNG, JPEG, GIF, WebP and SVG images can be uploaded", 415)
+    }
+
+    const id = `${createHash("sha256").update(body).digest("hex")}.${EXTENSIONS[contentType]}`
+    const storage = getAssetStorage()
+    if (!(await storage.exists(id))) {
+      await storage.put(id, body, contentType)
+    }
+    return { id, url: assetUrl(id), contentType, size: body.length }
+  }
+
+  static async get(id: string): Promise<{ body: Buffer; contentType: string } | null> {
+    if (!ASSET_ID.test(id)) return null
+    const body = await getAssetStorage().get(id)
+    return body ? { body, contentType: CONTENT_TYPES[id.split(".")[1]] } : null
+  }
+
+  /**
+   * Replace every base64 image data URL inside `value` with the URL of a stored asset. Works on
+   * nested objects and on strings holding serialised JSON, such as stringified canvas JSON.
+   * Data URLs that cannot be stored are left in place rather than failing the save.
+   */
+  static async externalizeDataUrls<T>(value: T): Promise<T> {
+    const urls = new Map<string, string>()
+
+    const storeOnce = async (dataUrl: string) => {
+      if (!urls.has(dataUrl)) {
+        try {
+          const asset = await this.store(Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64"))
+          urls.set(dataUrl, asset.url)
+        } catch (error) {
+          console.warn("Keeping embedded image that could not be stored:", error instanceof Error ? error.message : error)
+          urls.set(dataUrl, dataUrl)
+        }
+      }
+      return urls.get(dataUrl)!
+    }
+
+    const walk = async (node: any): Promise<any> => {
+      if (typeof node === "string") {
+        const matches = node.match(DATA_URL)
+        if (!matches) return node
+        for (const match of matches) await storeOnce(match)
+        return node.replace(DATA_URL, (match) => urls.get(match)!)
+      }
+      if (Array.isArray(node)) {
+        const items = []
+        for (const item of node) items.push(await walk(item))
+        return items
+      }
+      // Leave ObjectIds, Dates and other class instances alone
+      if (node && typeof node === "object" && Object.getPrototypeOf(node) === Object.prototype) {
+        const copy: Record<string, any> = {}
+        for (const [key, child] of Object.entries(node)) copy[key] = await walk(child)
+        return copy
+      }
+      return node
+    }
+
+    return walk(value)
+  }
+}
@@ -1,5 +1,6 @@
 import { getDatabase } from "@/lib/mongodb"
 import type { CartDocument, UserCart } from "@/lib/models/Cart"
+import { AssetService } from "@/lib/services/assetService"
 
 export class CartService {
   private static async getCollection() {
@@ -18,6 +19,8 @@ export class CartService {
   static async upsertCart(userId: string, items: UserCart["items"]): Promise<UserCart> {
     const collection = await this.getCollection()
     const now = new Date()
+    // Design previews arrive as data URLs; keep the images out of the cart document
+    items = await AssetService.externalizeDataUrls(items)
     const result = await collection.findOneAndUpdate(
       { userId },
       {
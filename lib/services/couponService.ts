@@ -1,9 +1,31 @@
+import { randomBytes, randomUUID } from "crypto"
 import { ObjectId } from "mongodb"
 import { getDatabase } from "@/lib/mongodb"
+import { OrderService } from "@/lib/services/orderService"
 import type { Coupon, CreateCouponData, UpdateCouponData, CouponValidationResult } from "@/types"
-import type { CouponDocument } from "@/lib/models/Coupon"
+import type {
+  CouponCodeDocument,
+  CouponCustomer,
+  CouponDocument,
+  CouponRedemptionDocument,
+} from "@/lib/models/Coupon"
 
 const COLLECTION_NAME = "coupons"
+const CODES_COLLECTION_NAME = "coupon_codes"
+const REDEMPTIONS_COLLECTION_NAME = "coupon_redemptions"
+
+// Largest number of single-use codes generated in one batch
+export const MAX_CODE_BATCH_SIZE = 10000
+
+// How long a checkout holds a coupon use before an unpaid reservation is given back
+export const COUPON_RESERVATION_TTL_MS = 30 * 60 * 1000
+
+export class CouponRedemptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CouponRedemptionError"
+  }
+}
 
 // Convert MongoDB document to Coupon object
 function convertCouponDocumentToCoupon(doc: CouponDocument): Coupon {
@@ -21,6 +43,12 @@ function convertCouponDocumentToCoupon(doc: CouponDocument): Coupon {
     validUntil: doc.validUntil,
     applicableProducts: doc.applicableProducts,
     applicableCategories: doc.applicableCategories,
+    priority: doc.priority,
+    stacking: doc.stacking,
+    maxUsesPerCustomer: doc.maxUsesPerCustomer,
+    firstOrderOnly: doc.firstOrderOnly,
+    allowedCustomers: doc.allowedCustomers,
+    singleUseCodesOnly: doc.singleUseCodesOnly,
     createdAt: doc.createdAt,
     updatedAt: doc.updatedAt,
   }
@@ -124,6 +152,8 @@ export async function deleteCoupon(id: string): Promise<boolean> {
 
   try {
     const result = await collection.deleteOne({ _id: new ObjectId(id) })
+    // Unused generated codes go with the coupon; redeemed ones stay as order history
+    await db.collection<CouponCodeDocument>(CODES_COLLECTION_NAME).deleteMany({ couponId: id, redeemedAt: { $exists: false } })
     return result.deletedCount === 1
   } catch (error) {
     console.error("Error deleting coupon:", error)
@@ -131,20 +161,90 @@ export async function deleteCoupon(id: string): Promise<boolean> {
   }
 }
 
+// Signed-in customers are counted by customer number, guests by email address
+export function customerKeyFor(customer?: CouponCustomer): string | undefined {
+  if (customer?.customerNumber && customer.customerNumber !== "Guest") return customer.customerNumber
+  const email = customer?.email?.trim().toLowerCase()
+  return email ? `email:${email}` : undefined
+}
+
+// Look up a coupon by its own code or by one of its generated single-use codes
+async function resolveCode(code: string): Promise<{ coupon: Coupon; singleUseCode?: CouponCodeDocument } | null> {
+  const normalized = code.trim().toUpperCase()
+  const coupon = await getCouponByCode(normalized)
+  if (coupon) {
+    return coupon.singleUseCodesOnly ? null : { coupon }
+  }
+
+  const db = await getDatabase()
+  const singleUseCode = await db.collection<CouponCodeDocument>(CODES_COLLECTION_NAME).findOne({ code: normalized })
+  if (!singleUseCode) return null
+
+  const parent = await getCouponById(singleUseCode.couponId)
+  if (!parent) return null
+
+  // The order records the code the customer entered, the limits stay on the campaign
+  return { coupon: { ...parent, code: singleUseCode.code }, singleUseCode }
+}
+
+// Customer restrictions of a coupon. Returns the reason it cannot be used, or null.
+async function checkCustomer(coupon: Coupon, customer?: CouponCustomer): Promise<string | null> {
+  if (coupon.allowedCustomers?.length) {
+    if (!customer?.customerNumber || !coupon.allowedCustomers.includes(customer.customerNumber)) {
+      return "This coupon is not available for your account"
+    }
+  }
+
+  if (!coupon.firstOrderOnly && !coupon.maxUsesPerCustomer) return null
+
+  const customerKey = customerKeyFor(customer)
+  if (!customerKey) {
+    return "Sign in or enter your email address to use this coupon"
+  }
+
+  if (coupon.firstOrderOnly && (await OrderService.hasPlacedOrder(customer!))) {
+    return "This coupon is only valid on your first order"
+  }
+
+  if (coupon.maxUsesPerCustomer) {
+    const db = await getDatabase()
+    const uses = await db
+      .collection<CouponRedemptionDocument>(REDEMPTIONS_COLLECTION_NAME)
+      .countDocuments({ couponId: coupon.id, customerKey, status: { $in: ["reserved", "committed"] } })
+    if (uses >= coupon.maxUsesPerCustomer) {
+      return coupon.maxUsesPerCustomer === 1
+        ? "You have already used this coupon"
+        : "You have reached the usage limit for this coupon"
+    }
+  }
+
+  return null
+}
+
 export async function validateCoupon(
   code: string, 
   orderTotal: number,
-  cartItems: any[] = []
+  cartItems: any[] = [],
+  customer?: CouponCustomer
 ): Promise<CouponValidationResult> {
-  const coupon = await getCouponByCode(code)
+  const resolved = await resolveCode(code)
 
-  if (!coupon) {
+  if (!resolved) {
     return {
       isValid: false,
       message: "Invalid coupon code"
     }
   }
 
+  const { coupon, singleUseCode } = resolved
+
+  if (singleUseCode?.redeemedAt) {
+    return {
+      isValid: false,
+      message: "This code has already been used"
+    }
+  }
+
   // Check if coupon is active
   if (!coupon.isActive) {
     return {
@@ -170,37 +270,57 @@ export async function validateCoupon(
     }
   }
 
+  // Abandoned checkouts give their reserved uses back before the limits are checked
+  let currentUsageCount = coupon.currentUsageCount
+  if (coupon.maxUsageCount || coupon.maxUsesPerCustomer) {
+    currentUsageCount -= await releaseExpiredCouponReservations(coupon.id)
+  }
+
   // Check usage limit
-  if (coupon.maxUsageCount && coupon.currentUsageCount >= coupon.maxUsageCount) {
+  if (coupon.maxUsageCount && currentUsageCount >= coupon.maxUsageCount) {
     return {
       isValid: false,
       message: "This coupon has reached its usage limit"
     }
   }
 
+  const customerError = await checkCustomer(coupon, customer)
+  if (customerError) {
+    return {
+      isValid: false,
+      message: customerError
+    }
+  }
+
   // Check product/category restrictions
+  let eligibleTotal = orderTotal
   if (coupon.applicableProducts?.length || coupon.applicableCategories?.length) {
-    const hasApplicableItems = cartItems.some(item => {
+    const applicableItems = cartItems.filter(item => {
       const baseProductId = item.productId || item.id
       if (coupon.applicableProducts?.includes(baseProductId)) return true
       if (coupon.applicableCategories?.includes(item.categoryId)) return true
       return false
     })
 
-    if (!hasApplicableItems) {
+    if (applicableItems.length === 0) {
       return {
         isValid: false,
         message: "This coupon is not applicable to items in your cart"
       }
     }
+
+    // Restricted coupons only discount the matching items when their prices are known
+    if (applicableItems.every(item => item.lineTotal !== undefined)) {
+      eligibleTotal = applicableItems.reduce((sum, item) => sum + item.lineTotal, 0)
+    }
   }
 
-  // Calculate discount amount
+  // Estimate of the discount on its own; the quote applies it together with any promotions
   let discountAmount = 0
   if (coupon.discountType === "percentage") {
-    discountAmount = (orderTotal * coupon.discountValue) / 100
+    discountAmount = (eligibleTotal * coupon.discountValue) / 100
   } else if (coupon.discountType === "fixed") {
-    discountAmount = Math.min(coupon.discountValue, orderTotal)
+    discountAmount = Math.min(coupon.discountValue, eligibleTotal)
   }
 
   return {
@@ -211,15 +331,278 @@ export async function validateCoupon(
   }
 }
 
-export async function incrementCouponUsage(id: string): Promise<void> {
+/**
+ * Reserve a use of a coupon for an order that is about to be paid. The per-customer
+ * limit, the global usage limit and single-use codes are each claimed atomically; when
+ * one of them fails the earlier claims are undone and CouponRedemptionError is thrown.
+ * Reserving for the same order twice is a no-op. The reservation holds until the order
+ * is paid (commitCouponReservation), fails (releaseCouponReservation) or it expires.
+ */
+export async function reserveCoupon({
+  couponId,
+  code,
+  orderId,
+  customer,
+  amount,
+}: {
+  couponId: string
+  code: string
+  orderId: string
+  customer?: CouponCustomer
+  amount: number
+}): Promise<void> {
+  const coupon = await getCouponById(couponId)
+  if (!coupon) {
+    throw new CouponRedemptionError("Invalid coupon code")
+  }
+
+  await releaseExpiredCouponReservations(couponId)
+
+  const customerError = await checkCustomer(coupon, customer)
+  if (customerError) {
+    throw new CouponRedemptionError(customerError)
+  }
+
   const db = await getDatabase()
-  const collection = db.collection<CouponDocument>(COLLECTION_NAME)
+  const coupons = db.collection<CouponDocument>(COLLECTION_NAME)
+  const codes = db.collection<CouponCodeDocument>(CODES_COLLECTION_NAME)
+  const redemptions = db.collection<CouponRedemptionDocument>(REDEMPTIONS_COLLECTION_NAME)
+  const customerKey = customerKeyFor(customer)
+  const normalizedCode = code.toUpperCase()
+
+  // The unique (couponId, customerKey, customerUse) index lets only one of two concurrent orders take a slot
+  let customerUse: number | undefined
+  if (coupon.maxUsesPerCustomer && customerKey) {
+    const taken = await redemptions.distinct("customerUse", { couponId, customerKey })
+    customerUse = Array.from({ length: coupon.maxUsesPerCustomer }, (_, i) => i + 1).find((slot) => !taken.includes(slot))
+    if (!customerUse) {
+      throw new CouponRedemptionError("You have already used this coupon")
+    }
+  }
 
-  await collection.updateOne(
-    { _id: new ObjectId(id) },
-    { 
-      $inc: { currentUsageCount: 1 },
-      $set: { updatedAt: new Date() }
+  const now = new Date()
+  const redemption: CouponRedemptionDocument = {
+    couponId,
+    code: normalizedCode,
+    orderId,
+    customer: customer?.customerNumber || "Guest",
+    ...(customerKey ? { customerKey } : {}),
+    ...(customerUse ? { customerUse } : {}),
+    amount,
+    status: "reserved",
+    expiresAt: new Date(now.getTime() + COUPON_RESERVATION_TTL_MS),
+    createdAt: now,
+  }
+  try {
+    await redemptions.insertOne(redemption)
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      if (error.keyPattern?.orderId) return
+      throw new CouponRedemptionError("You have already used this coupon")
+    }
+    throw error
+  }
+
+  const usage = await coupons.updateOne(
+    {
+      _id: new ObjectId(couponId),
+      $or: [{ maxUsageCount: { $in: [null, 0] } }, { $expr: { $lt: ["$currentUsageCount", "$maxUsageCount"] } }],
+    } as any,
+    { $inc: { currentUsageCount: 1 }, $set: { updatedAt: now } },
+  )
+  if (usage.matchedCount === 0) {
+    await redemptions.deleteOne({ _id: redemption._id })
+    throw new CouponRedemptionError("This coupon has reached its usage limit")
+  }
+
+  if (normalizedCode !== coupon.code) {
+    const claimed = await codes.updateOne(
+      { code: normalizedCode, couponId, redeemedAt: { $exists: false } },
+      { $set: { redeemedAt: now, orderId, customer: redemption.customer } },
+    )
+    if (claimed.matchedCount === 0) {
+      await coupons.updateOne({ _id: new ObjectId(couponId) }, { $inc: { currentUsageCount: -1 } })
+      await redemptions.deleteOne({ _id: redemption._id })
+      throw new CouponRedemptionError("This code has already been used")
     }
+  }
+}
+
+/**
+ * Make an order's coupon use final once it is paid. A reservation that already expired
+ * or was released is taken again: the customer has paid the discounted price, so the
+ * use is recorded even if that puts the coupon over its limit.
+ */
+export async function commitCouponReservation(orderId: string): Promise<void> {
+  const db = await getDatabase()
+  const redemptions = db.collection<CouponRedemptionDocument>(REDEMPTIONS_COLLECTION_NAME)
+  const now = new Date()
+
+  const committed = await redemptions.updateMany(
+    { orderId, status: "reserved" },
+    { $set: { status: "committed", committedAt: now }, $unset: { expiresAt: "" } },
+  )
+  if (committed.matchedCount > 0) return
+
+  const released = await redemptions.findOneAndUpdate(
+    { orderId, status: "released" },
+    { $set: { status: "committed", committedAt: now }, $unset: { releasedAt: "" } },
   )
+  if (!released) return
+
+  const coupon = await db
+    .collection<CouponDocument>(COLLECTION_NAME)
+    .findOneAndUpdate(
+      { _id: new ObjectId(released.couponId) },
+      { $inc: { currentUsageCount: 1 }, $set: { updatedAt: now } },
+      { returnDocument: "after" },
+    )
+
+  let codeReused = false
+  if (coupon && released.code !== coupon.code) {
+    const reclaimed = await db
+      .collection<CouponCodeDocument>(CODES_COLLECTION_NAME)
+      .updateOne(
+        { code: released.code, couponId: released.couponId, redeemedAt: { $exists: false } },
+        { $set: { redeemedAt: now, orderId, customer: released.customer } },
+      )
+    codeReused = reclaimed.matchedCount === 0
+  }
+
+  if (codeReused || (coupon?.maxUsageCount && coupon.currentUsageCount > coupon.maxUsageCount)) {
+    console.warn(`Coupon ${released.code} was paid on order ${orderId} after its reservation expired and is now over its limit`)
+  }
+}
+
+/**
+ * Give back the coupon uses reserved for an order whose payment failed, was canceled or
+ * never created. Committed uses are kept. Returns how many reservations were released.
+ */
+export async function releaseCouponReservation(orderId: string): Promise<number> {
+  const db = await getDatabase()
+  const redemptions = db.collection<CouponRedemptionDocument>(REDEMPTIONS_COLLECTION_NAME)
+
+  let released = 0
+  for (const redemption of await redemptions.find({ orderId, status: "reserved" }).toArray()) {
+    if (await releaseReservation(redemption)) released++
+  }
+  return released
+}
+
+// Release reservations whose checkout was abandoned, for one coupon or all of them
+export async function releaseExpiredCouponReservations(couponId?: string): Promise<number> {
+  const db = await getDatabase()
+  const redemptions = db.collection<CouponRedemptionDocument>(REDEMPTIONS_COLLECTION_NAME)
+
+  const expired = await redemptions
+    .find({ ...(couponId ? { couponId } : {}), status: "reserved", expiresAt: { $lt: new Date() } })
+    .toArray()
+  let released = 0
+  for (const redemption of expired) {
+    if (await releaseReservation(redemption)) released++
+  }
+  return released
+}
+
+// Matching on the reserved status makes sure a reservation is given back once, and never after a commit
+async function releaseReservation(redemption: CouponRedemptionDocument): Promise<boolean> {
+  const db = await getDatabase()
+  const now = new Date()
+
+  const released = await db
+    .collection<CouponRedemptionDocument>(REDEMPTIONS_COLLECTION_NAME)
+    .updateOne(
+      { _id: redemption._id, status: "reserved" },
+      { $set: { status: "released", releasedAt: now }, $unset: { customerUse: "", expiresAt: "" } },
+    )
+  if (released.modifiedCount === 0) return false
+
+  await db
+    .collection<CouponDocument>(COLLECTION_NAME)
+    .updateOne(
+      { _id: new ObjectId(redemption.couponId), currentUsageCount: { $gt: 0 } },
+      { $inc: { currentUsageCount: -1 }, $set: { updatedAt: now } },
+    )
+  await db
+    .collection<CouponCodeDocument>(CODES_COLLECTION_NAME)
+    .updateOne(
+      { code: redemption.code, orderId: redemption.orderId },
+      { $unset: { redeemedAt: "", orderId: "", customer: "" } },
+    )
+  return true
+}
+
+// Unambiguous characters only: no 0/O or 1/I
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+function randomCode(prefix?: string): string {
+  const chars = Array.from(randomBytes(8), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("")
+  const body = `${chars.slice(0, 4)}-${chars.slice(4)}`
+  return prefix ? `${prefix}-${body}` : body
+}
+
+/**
+ * Create `count` unique single-use codes for a coupon campaign. From then on only the
+ * generated codes redeem the coupon, each at most once.
+ */
+export async function generateCouponCodes(
+  couponId: string,
+  count: number,
+  prefix?: string
+): Promise<{ batchId: string; codes: string[] }> {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_CODE_BATCH_SIZE) {
+    throw new Error(`Number of codes must be between 1 and ${MAX_CODE_BATCH_SIZE}`)
+  }
+  const normalizedPrefix = prefix?.trim().toUpperCase() || undefined
+  if (normalizedPrefix && !/^[A-Z0-9]{1,8}$/.test(normalizedPrefix)) {
+    throw new Error("Prefix can only contain up to 8 letters and numbers")
+  }
+
+  const coupon = await getCouponById(couponId)
+  if (!coupon) {
+    throw new Error("Coupon not found")
+  }
+
+  const db = await getDatabase()
+  const codes = db.collection<CouponCodeDocument>(CODES_COLLECTION_NAME)
+  const batchId = randomUUID()
+  const created: string[] = []
+
+  // Collisions are rare; drawing again for the ones taken keeps the batch at the requested size
+  for (let attempt = 0; created.length < count && attempt < 5; attempt++) {
+    const candidates = new Set<string>()
+    while (candidates.size < count - created.length) candidates.add(randomCode(normalizedPrefix))
+
+    const list = [...candidates]
+    const [takenCodes, takenCoupons] = await Promise.all([
+      codes.find({ code: { $in: list } }, { projection: { code: 1 } }).toArray(),
+      db.collection<CouponDocument>(COLLECTION_NAME).find({ code: { $in: list } }, { projection: { code: 1 } }).toArray(),
+    ])
+    const taken = new Set([...takenCodes, ...takenCoupons].map((doc) => doc.code))
+    const fresh = list.filter((code) => !taken.has(code))
+    if (fresh.length === 0) continue
+
+    const now = new Date()
+    await codes.insertMany(fresh.map((code) => ({ code, couponId, batchId, createdAt: now })))
+    created.push(...fresh)
+  }
+
+  if (created.length < count) {
+    throw new Error("Could not generate enough unique codes, try a different prefix")
+  }
+
+  await db
+    .collection<CouponDocument>(COLLECTION_NAME)
+    .updateOne({ _id: new ObjectId(couponId) }, { $set: { singleUseCodesOnly: true, updatedAt: new Date() } })
+
+  return { batchId, codes: created }
+}
+
+export async function getCouponCodes(couponId: string, batchId?: string): Promise<CouponCodeDocument[]> {
+  const db = await getDatabase()
+  return db
+    .collection<CouponCodeDocument>(CODES_COLLECTION_NAME)
+    .find({ couponId, ...(batchId ? { batchId } : {}) })
+    .sort({ createdAt: 1, code: 1 })
+    .toArray()
 }
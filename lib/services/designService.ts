@@ -1,6 +1,7 @@
 import { getDatabase } from "@/lib/mongodb"
 import type { DesignDocument, Design } from "@/lib/models/Design"
 import { ObjectId } from "mongodb"
+import { AssetService } from "@/lib/services/assetService"
 
 export class DesignService {
   private static async getCollection() {
@@ -10,6 +11,8 @@ export class DesignService {
 
   static async createDesign(designData: Omit<DesignDocument, "_id" | "createdAt" | "updatedAt">): Promise<Design> {
     const collection = await this.getCollection()
+    // Previews and embedded uploads are stored as assets and referenced by URL
+    designData = await AssetService.externalizeDataUrls(designData)
 
     const newDesign: DesignDocument = {
       ...designData,
@@ -66,6 +69,7 @@ export class DesignService {
     designData: Partial<Omit<DesignDocument, "createdAt">>,
   ): Promise<Design | null> {
     const collection = await this.getCollection()
+    designData = await AssetService.externalizeDataUrls(designData)
 
     const result = await collection.findOneAndUpdate(
       { _id: new ObjectId(id) },
@@ -0,0 +1,120 @@
+import { getDatabase } from "@/lib/mongodb"
+import { sendMail } from "@/lib/mail"
+import {
+  type MailContent,
+  designSharedMail,
+  emailVerificationMail,
+  orderPlacedMail,
+  orderShippedMail,
+  orderStatusMail,
+  passwordResetMail,
+} from "@/lib/mail/templates"
+import { appBaseUrl } from "@/lib/payments/paymentProvider"
+import type { Order } from "@/lib/models/Order"
+import type { Design } from "@/lib/models/Design"
+import type { UserDocument } from "@/lib/models/User"
+import type { Language } from "@/types"
+
+// One entry per transactional email, keyed by the event it was sent for
+interface MailLogDocument {
+  key: string
+  to: string
+  subject: string
+  createdAt: Date
+}
+
+const languageOf = (value?: string): Language => (value === "sv" ? "sv" : "en")
+
+export class EmailService {
+  private static async getLogCollection() {
+    const db = await getDatabase()
+    return db.collection<MailLogDocument>("mail_log")
+  }
+
+  /**
+   * Send a message at most once per key. Payment webhooks and retried requests can
+   * report the same event more than once; the unique key makes the repeats no-ops.
+   * Delivery failures are logged, and the key is freed so a later repeat can retry.
+   */
+  private static async sendOnce(key: string, to: string | undefined, content: MailContent): Promise<boolean> {
+    if (!to) return false
+
+    const log = await this.getLogCollection()
+    try {
+      await log.insertOne({ key, to, subject: content.subject, createdAt: new Date() })
+    } catch (error: any) {
+      if (error?.code === 11000) return false
+      throw error
+    }
+
+    try {
+      await sendMail({ to, ...content })
+      return true
+    } catch (error) {
+      console.error(`Failed to send "${key}" email to ${to}:`, error)
+      await log.deleteOne({ key })
+      return false
+    }
+  }
+
+  private static ordersUrl(): string {
+    return `${appBaseUrl()}/dashboard`
+  }
+
+  static async sendOrderPlaced(order: Order): Promise<boolean> {
+    const content = orderPlacedMail(order, languageOf(order.language), this.ordersUrl())
+    return this.sendOnce(`order-placed:${order.id}`, order.customerEmail, content)
+  }
+
+  // Shipping gets its own message with the tracking details; other statuses a short notice
+  static async sendOrderStatusChanged(order: Order): Promise<boolean> {
+    const language = languageOf(order.language)
+    const content =
+      order.status === "Shipped"
+        ? orderShippedMail(order, language, this.ordersUrl())
+        : orderStatusMail(order, language, this.ordersUrl())
+    return this.sendOnce(`order-status:${order.id}:${order.status}`, order.customerEmail, content)
+  }
+
+  // Sent directly; the link is only valid for an hour, so a failure should reach the user
+  static async sendPasswordReset(user: UserDocument, token: string, language?: string): Promise<void> {
+    const url = `${appBaseUrl()}/reset-password?token=${encodeURIComponent(token)}`
+    await sendMail({ to: user.email, ...passwordResetMail({ name: user.fullName, url }, languageOf(language)) })
+  }
+
+  // Sent on signup and again on request, so it is not deduplicated either
+  static async sendEmailVerification(
+    user: Pick<UserDocument, "email" | "fullName">,
+    token: string,
+    language?: string,
+  ): Promise<void> {
+    const url = `${appBaseUrl()}/verify-email?token=${encodeURIComponent(token)}`
+    await sendMail({ to: user.email, ...emailVerificationMail({ name: user.fullName, url }, languageOf(language)) })
+  }
+
+  // Not deduplicated: sharing the same design twice is a deliberate second message
+  static async sendDesignShared({
+    design,
+    to,
+    senderName,
+    message,
+    language,
+  }: {
+    design: Design
+    to: string
+    senderName: string
+    message?: string
+    language?: string
+  }): Promise<void> {
+    const content = designSharedMail(
+      {
+        senderName,
+        designName: design.name,
+        message: message?.trim() || undefined,
+        url: `${appBaseUrl()}/design-tool?designId=${design.id}`,
+      },
+      languageOf(language),
+    )
+    await sendMail({ to, ...content })
+  }
+}
@@ -0,0 +1,519 @@
+import { randomBytes } from "crypto"
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import { roundCurrency } from "@/lib/services/pricingService"
+import type {
+  CreateGiftCardData,
+  GiftCard,
+  GiftCardDocument,
+  GiftCardKind,
+  GiftCardStatus,
+  GiftCardTransaction,
+  GiftCardTransactionDocument,
+  GiftCardTransactionType,
+} from "@/lib/models/GiftCard"
+import type { OrderTender } from "@/lib/models/Order"
+
+// How long a checkout holds gift card balance before an unpaid order gives it back
+export const GIFT_CARD_HOLD_TTL_MS = 30 * 60 * 1000
+
+// Largest value a single gift card can be issued or topped up with
+export const MAX_GIFT_CARD_AMOUNT = 50000
+
+export class GiftCardError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "GiftCardError"
+  }
+}
+
+// Unambiguous characters only: no 0/O or 1/I
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+const CODE_PREFIXES: Record<GiftCardKind, string> = { gift_card: "GC", store_credit: "SC" }
+
+export interface GiftCardBalance {
+  code: string // Masked
+  kind: GiftCardKind
+  balance: number
+  currency: "SEK"
+  expiresAt?: Date
+}
+
+export class GiftCardService {
+  private static async getCollection() {
+    const db = await getDatabase()
+    return db.collection<GiftCardDocument>("gift_cards")
+  }
+
+  private static async getTransactionCollection() {
+    const db = await getDatabase()
+    return db.collection<GiftCardTransactionDocument>("gift_card_transactions")
+  }
+
+  private static toGiftCard(doc: GiftCardDocument): GiftCard {
+    return {
+      id: doc._id!.toString(),
+      code: doc.code,
+      kind: doc.kind,
+      currency: doc.currency,
+      initialBalance: doc.initialBalance,
+      balance: doc.balance,
+      status: doc.status,
+      expiresAt: doc.expiresAt,
+      customer: doc.customer,
+      recipientName: doc.recipientName,
+      recipientEmail: doc.recipientEmail,
+      note: doc.note,
+      createdBy: doc.createdBy,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    }
+  }
+
+  private static toTransaction(doc: GiftCardTransactionDocument): GiftCardTransaction {
+    return {
+      id: doc._id!.toString(),
+      giftCardId: doc.giftCardId,
+      type: doc.type,
+      amount: doc.amount,
+      balanceAfter: doc.balanceAfter,
+      orderId: doc.orderId,
+      holdStatus: doc.holdStatus,
+      note: doc.note,
+      createdBy: doc.createdBy,
+      createdAt: doc.createdAt,
+    }
+  }
+
+  static normalizeCode(code: string): string {
+    return code.replace(/\s+/g, "").toUpperCase()
+  }
+
+  // Shown to customers and on orders; the full code is a bearer credential
+  static maskCode(code: string): string {
+    return `•••• ${code.slice(-4)}`
+  }
+
+  private static randomCode(kind: GiftCardKind): string {
+    const chars = Array.from(randomBytes(12), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("")
+    return `${CODE_PREFIXES[kind]}-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8)}`
+  }
+
+  private static validateAmount(amount: number) {
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0 || amount > MAX_GIFT_CARD_AMOUNT) {
+      throw new GiftCardError(`Amount must be between 0 and ${MAX_GIFT_CARD_AMOUNT} SEK`)
+    }
+  }
+
+  private static async record(entry: Omit<GiftCardTransactionDocument, "_id" | "createdAt">) {
+    const transactions = await this.getTransactionCollection()
+    const doc: GiftCardTransactionDocument = { ...entry, createdAt: new Date() }
+    await transactions.insertOne(doc)
+    return doc
+  }
+
+  // Why a card cannot pay for an order right now, or null when it can
+  static usabilityError(card: GiftCardDocument | GiftCard, customer?: string): string | null {
+    const label = card.kind === "store_credit" ? "This store credit" : "This gift card"
+    if (card.status !== "active") return `${label} is not active`
+    if (card.expiresAt && new Date(card.expiresAt) <= new Date()) return `${label} has expired`
+    if (card.kind === "store_credit" && card.customer !== customer) return "Store credit can only be used by its owner"
+    if (card.balance <= 0) return `${label} has no balance left`
+    return null
+  }
+
+  static async issueGiftCard(data: CreateGiftCardData, createdBy?: string): Promise<GiftCard> {
+    const amount = roundCurrency(data.amount)
+    this.validateAmount(amount)
+    const kind = data.kind || "gift_card"
+    if (kind === "store_credit" && !data.customer) {
+      throw new GiftCardError("Store credit must belong to a customer")
+    }
+    if (data.expiresAt && new Date(data.expiresAt) <= new Date()) {
+      throw new GiftCardError("Expiry date must be in the future")
+    }
+
+    const collection = await this.getCollection()
+    const now = new Date()
+
+    // A collision is practically impossible, but the unique index would reject it; draw again
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const doc: GiftCardDocument = {
+        code: this.randomCode(kind),
+        kind,
+        currency: "SEK",
+        initialBalance: amount,
+        balance: amount,
+        status: "active",
+        ...(data.expiresAt ? { expiresAt: new Date(data.expiresAt) } : {}),
+        ...(data.customer ? { customer: data.customer } : {}),
+        ...(data.recipientName ? { recipientName: data.recipientName } : {}),
+        ...(data.recipientEmail ? { recipientEmail: data.recipientEmail } : {}),
+        ...(data.note ? { note: data.note } : {}),
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      }
+      try {
+        const result = await collection.insertOne(doc)
+        const giftCardId = result.insertedId.toString()
+        await this.record({ giftCardId, type: "issue", amount, balanceAfter: amount, note: data.note, createdBy })
+        return this.toGiftCard({ ...doc, _id: result.insertedId })
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error
+      }
+    }
+    throw new GiftCardError("Could not generate a unique gift card code", 500)
+  }
+
+  static async getGiftCards(kind?: GiftCardKind): Promise<GiftCard[]> {
+    const collection = await this.getCollection()
+    const cards = await collection
+      .find(kind ? { kind } : {})
+      .sort({ createdAt: -1 })
+      .toArray()
+    return cards.map((card) => this.toGiftCard(card))
+  }
+
+  static async getGiftCardById(id: string): Promise<GiftCard | null> {
+    if (!ObjectId.isValid(id)) return null
+    const collection = await this.getCollection()
+    const card = await collection.findOne({ _id: new ObjectId(id) })
+    return card ? this.toGiftCard(card) : null
+  }
+
+  static async getGiftCardByCode(code: string): Promise<GiftCard | null> {
+    const collection = await this.getCollection()
+    const card = await collection.findOne({ code: this.normalizeCode(code) })
+    return card ? this.toGiftCard(card) : null
+  }
+
+  static async getStoreCredit(customer: string): Promise<GiftCard | null> {
+    const collection = await this.getCollection()
+    const card = await collection.findOne({ kind: "store_credit", customer })
+    return card ? this.toGiftCard(card) : null
+  }
+
+  static async getTransactions(giftCardId: string): Promise<GiftCardTransaction[]> {
+    const transactions = await this.getTransactionCollection()
+    const entries = await transactions.find({ giftCardId }).sort({ createdAt: -1 }).toArray()
+    return entries.map((entry) => this.toTransaction(entry))
+  }
+
+  /**
+   * Balance of a code as the customer may use it. Throws GiftCardError when the code
+   * does not exist or cannot be used for payment.
+   */
+  static async checkBalance(code: string, customer?: string): Promise<GiftCardBalance> {
+    const card = await this.getGiftCardByCode(code)
+    if (!card) {
+      throw new GiftCardError("Gift card not found", 404)
+    }
+    await this.releaseExpiredHolds(card.id)
+    const current = (await this.getGiftCardById(card.id)) ?? card
+
+    const error = this.usabilityError(current, customer)
+    if (error) {
+      throw new GiftCardError(error)
+    }
+    return {
+      code: this.maskCode(current.code),
+      kind: current.kind,
+      balance: current.balance,
+      currency: current.currency,
+      expiresAt: current.expiresAt,
+    }
+  }
+
+  static async setStatus(id: string, status: GiftCardStatus): Promise<GiftCard | null> {
+    if (!ObjectId.isValid(id)) return null
+    const collection = await this.getCollection()
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: { status, updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+    return result ? this.toGiftCard(result) : null
+  }
+
+  /**
+   * Manual correction by an admin. A negative amount cannot take the balance below zero.
+   */
+  static async adjustBalance(id: string, amount: number, note: string, createdBy?: string): Promise<GiftCard> {
+    const rounded = roundCurrency(amount)
+    if (!rounded || Math.abs(rounded) > MAX_GIFT_CARD_AMOUNT) {
+      throw new GiftCardError("Adjustment must be a non-zero amount")
+    }
+    if (!note?.trim()) {
+      throw new GiftCardError("Explain the adjustment in a note")
+    }
+    if (!ObjectId.isValid(id)) {
+      throw new GiftCardError("Gift card not found", 404)
+    }
+
+    const collection = await this.getCollection()
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id), ...(rounded < 0 ? { balance: { $gte: -rounded } } : {}) },
+      { $inc: { balance: rounded }, $set: { updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+    if (!result) {
+      const exists = await this.getGiftCardById(id)
+      throw exists ? new GiftCardError("Adjustment would take the balance below zero") : new GiftCardError("Gift card not found", 404)
+    }
+
+    await this.record({ giftCardId: id, type: "adjust", amount: rounded, balanceAfter: result.balance, note: note.trim(), createdBy })
+    return this.toGiftCard(result)
+  }
+
+  // Add to a card's balance and record why
+  private static async credit(
+    giftCardId: string,
+    amount: number,
+    entry: { type: GiftCardTransactionType; orderId?: string; note?: string; createdBy?: string },
+  ): Promise<GiftCardDocument | null> {
+    const collection = await this.getCollection()
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(giftCardId) },
+      { $inc: { balance: amount }, $set: { updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+    if (!result) return null
+
+    await this.record({ giftCardId, amount, balanceAfter: result.balance, ...entry })
+    return result
+  }
+
+  /**
+   * Hold gift card and store credit balance against an order, up to `amount`. Gift cards
+   * are drawn in the order they were entered and store credit last, since only gift cards
+   * expire. Returns one tender per card used; the caller charges the rest elsewhere.
+   * Held balance is captured once the order is paid, or released if it never is.
+   */
+  static async holdForOrder({
+    orderId,
+    amount,
+    codes = [],
+    useStoreCredit = false,
+    customer,
+  }: {
+    orderId: string
+    amount: number
+    codes?: string[]
+    useStoreCredit?: boolean
+    customer?: string
+  }): Promise<OrderTender[]> {
+    const collection = await this.getCollection()
+    const transactions = await this.getTransactionCollection()
+
+    const cardIds: ObjectId[] = []
+    for (const code of [...new Set(codes.map((c) => this.normalizeCode(c)).filter(Boolean))]) {
+      const card = await collection.findOne({ code })
+      if (!card) {
+        throw new GiftCardError(`Gift card ${this.maskCode(code)} was not found`)
+      }
+      cardIds.push(card._id!)
+    }
+    if (useStoreCredit) {
+      if (!customer) {
+        throw new GiftCardError("Sign in to use your store credit")
+      }
+      const credit = await collection.findOne({ kind: "store_credit", customer })
+      if (credit && !cardIds.some((id) => id.equals(credit._id!))) cardIds.push(credit._id!)
+    }
+
+    const tenders: OrderTender[] = []
+    let remaining = roundCurrency(amount)
+    try {
+      for (const cardId of cardIds) {
+        if (remaining <= 0) break
+        await this.releaseExpiredHolds(cardId.toString())
+
+        const card = await collection.findOne({ _id: cardId })
+        if (!card) continue
+        const error = this.usabilityError(card, customer)
+        if (error) {
+          // Store credit that has run out is simply skipped; a gift card the customer entered is an error
+          if (card.kind === "store_credit" && useStoreCredit && card.balance <= 0) continue
+          throw new GiftCardError(`${error} (${this.maskCode(card.code)})`)
+        }
+
+        const take = roundCurrency(Math.min(card.balance, remaining))
+        const now = new Date()
+        // Matching on the balance keeps two checkouts from spending the same money
+        const debited = await collection.findOneAndUpdate(
+          { _id: cardId, status: "active", balance: { $gte: take } },
+          { $inc: { balance: -take }, $set: { updatedAt: now } },
+          { returnDocument: "after" },
+        )
+        if (!debited) {
+          throw new GiftCardError(`The balance of ${this.maskCode(card.code)} changed, please try again`, 409)
+        }
+
+        await transactions.insertOne({
+          giftCardId: cardId.toString(),
+          type: "redeem",
+          amount: -take,
+          balanceAfter: debited.balance,
+          orderId,
+          holdStatus: "held",
+          expiresAt: new Date(now.getTime() + GIFT_CARD_HOLD_TTL_MS),
+          createdAt: now,
+        })
+        tenders.push({ method: card.kind, amount: take, giftCardId: cardId.toString(), code: this.maskCode(card.code) })
+        remaining = roundCurrency(remaining - take)
+      }
+    } catch (error) {
+      await this.releaseOrder(orderId)
+      throw error
+    }
+
+    return tenders
+  }
+
+  /**
+   * Make an order's held balance final once it is paid. A hold that already expired or
+   * was released is taken again: the order has been paid for, so the card is debited even
+   * if that leaves a negative balance to follow up on.
+   */
+  static async captureOrder(orderId: string): Promise<void> {
+    const collection = await this.getCollection()
+    const transactions = await this.getTransactionCollection()
+
+    const captured = await transactions.updateMany(
+      { orderId, type: "redeem", holdStatus: "held" },
+      { $set: { holdStatus: "captured" }, $unset: { expiresAt: "" } },
+    )
+    if (captured.matchedCount > 0) return
+
+    for (const hold of await transactions.find({ orderId, type: "redeem", holdStatus: "released" }).toArray()) {
+      const retaken = await transactions.updateOne({ _id: hold._id, holdStatus: "released" }, { $set: { holdStatus: "captured" } })
+      if (retaken.modifiedCount === 0) continue
+
+      const card = await collection.findOneAndUpdate(
+        { _id: new ObjectId(hold.giftCardId) },
+        { $inc: { balance: hold.amount }, $set: { updatedAt: new Date() } },
+        { returnDocument: "after" },
+      )
+      if (!card) continue
+      await this.record({
+        giftCardId: hold.giftCardId,
+        type: "redeem",
+        amount: hold.amount,
+        balanceAfter: card.balance,
+        orderId,
+        note: "Paid after the hold was released",
+      })
+      if (card.balance < 0) {
+        console.warn(`Gift card ${this.maskCode(card.code)} was paid on order ${orderId} after its hold expired and is now negative`)
+      }
+    }
+  }
+
+  /**
+   * Give back the balance held for an order whose payment failed, was canceled or never
+   * created. Captured redemptions are kept. Returns how many holds were released.
+   */
+  static async releaseOrder(orderId: string): Promise<number> {
+    const transactions = await this.getTransactionCollection()
+    let released = 0
+    for (const hold of await transactions.find({ orderId, type: "redeem", holdStatus: "held" }).toArray()) {
+      if (await this.releaseHold(hold)) released++
+    }
+    return released
+  }
+
+  // Release holds whose checkout was abandoned, for one card or all of them
+  static async releaseExpiredHolds(giftCardId?: string): Promise<number> {
+    const transactions = await this.getTransactionCollection()
+    const expired = await transactions
+      .find({ ...(giftCardId ? { giftCardId } : {}), type: "redeem", holdStatus: "held", expiresAt: { $lt: new Date() } })
+      .toArray()
+    let released = 0
+    for (const hold of expired) {
+      if (await this.releaseHold(hold)) released++
+    }
+    return released
+  }
+
+  // Matching on the held status makes sure a hold is given back once, and never after a capture
+  private static async releaseHold(hold: GiftCardTransactionDocument): Promise<boolean> {
+    const transactions = await this.getTransactionCollection()
+    const released = await transactions.updateOne(
+      { _id: hold._id, holdStatus: "held" },
+      { $set: { holdStatus: "released" }, $unset: { expiresAt: "" } },
+    )
+    if (released.modifiedCount === 0) return false
+
+    await this.credit(hold.giftCardId, -hold.amount, { type: "release", orderId: hold.orderId })
+    return true
+  }
+
+  // Return part of a refund to a gift card or store credit the order was paid with
+  static async refundToCard(
+    giftCardId: string,
+    amount: number,
+    { orderId, note, createdBy }: { orderId: string; note?: string; createdBy?: string },
+  ): Promise<void> {
+    const card = await this.credit(giftCardId, roundCurrency(amount), { type: "refund", orderId, note, createdBy })
+    if (!card) {
+      throw new GiftCardError("The gift card this order was paid with no longer exists", 404)
+    }
+  }
+
+  /**
+   * Credit a customer's store credit, creating it on first use. Each customer has one
+   * store credit balance that refunds keep topping up.
+   */
+  static async issueStoreCredit(
+    customer: string,
+    amount: number,
+    { orderId, note, createdBy }: { orderId?: string; note?: string; createdBy?: string } = {},
+  ): Promise<GiftCard> {
+    const rounded = roundCurrency(amount)
+    this.validateAmount(rounded)
+
+    const collection = await this.getCollection()
+    const now = new Date()
+    let card: GiftCardDocument | null = null
+    // The unique index on store credit per customer turns a concurrent first issue into a retry
+    for (let attempt = 0; !card && attempt < 3; attempt++) {
+      try {
+        card = await collection.findOneAndUpdate(
+          { kind: "store_credit", customer },
+          {
+            $inc: { balance: rounded, initialBalance: rounded },
+            $set: { updatedAt: now },
+            $setOnInsert: {
+              code: this.randomCode("store_credit"),
+              kind: "store_credit",
+              currency: "SEK",
+              status: "active",
+              customer,
+              createdBy,
+              createdAt: now,
+            },
+          },
+          { upsert: true, returnDocument: "after" },
+        )
+      } catch (error: any) {
+        if (error?.code !== 11000) throw error
+      }
+    }
+    if (!card) {
+      throw new GiftCardError("Could not issue store credit", 500)
+    }
+
+    await this.record({
+      giftCardId: card._id!.toString(),
+      type: "issue",
+      amount: rounded,
+      balanceAfter: card.balance,
+      orderId,
+      note,
+      createdBy,
+    })
+    return this.toGiftCard(card)
+  }
+}
@@ -0,0 +1,451 @@
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import type { Product, ProductDocument, Variation } from "@/lib/models/Product"
+import {
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  type InventoryReservationDocument,
+  type LowStockItem,
+  type StockMovement,
+  type StockMovementDocument,
+  type StockUnit,
+} from "@/lib/models/Inventory"
+import { StockAlertService } from "@/lib/services/stockAlertService"
+
+// How long a checkout holds stock before an unpaid reservation is given back
+export const INVENTORY_RESERVATION_TTL_MS = 30 * 60 * 1000
+
+export class InventoryError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message)
+    this.name = "InventoryError"
+  }
+}
+
+// The parts of a priced order line that decide which stock it takes
+export interface StockLine {
+  productId: string
+  variationId?: string
+  name: string
+  quantity: number
+  selectedSizes?: Array<{ size: string; quantity: number }>
+}
+
+const hasSizeStock = (variation: Variation, size: string) =>
+  variation.sizePrices?.some((sp) => sp.size === size && typeof sp.stockQuantity === "number") ?? false
+
+// Stock of a unit as stored on the product, or undefined when the unit is not tracked
+function stockOf(product: ProductDocument | Product, unit: StockUnit): number | undefined {
+  const variation = product.variations?.find((v) => v.id === unit.variationId)
+  if (!variation) return undefined
+  if (unit.size) return variation.sizePrices?.find((sp) => sp.size === unit.size)?.stockQuantity
+  return typeof variation.stockQuantity === "number" ? variation.stockQuantity : undefined
+}
+
+const describeUnit = (name: string, unit: StockUnit) => (unit.size ? `${name} (${unit.size})` : name)
+
+export class InventoryService {
+  private static async getProductCollection() {
+    const db = await getDatabase()
+    return db.collection<ProductDocument>("products")
+  }
+
+  private static async getReservationCollection() {
+    const db = await getDatabase()
+    return db.collection<InventoryReservationDocument>("inventory_reservations")
+  }
+
+  private static async getMovementCollection() {
+    const db = await getDatabase()
+    return db.collection<StockMovementDocument>("stock_movements")
+  }
+
+  private static toMovement(doc: StockMovementDocument): StockMovement {
+    return {
+      id: doc._id!.toString(),
+      productId: doc.productId,
+      variationId: doc.variationId,
+      size: doc.size,
+      productName: doc.productName,
+      type: doc.type,
+      quantity: doc.quantity,
+      stockAfter: doc.stockAfter,
+      orderId: doc.orderId,
+      note: doc.note,
+      createdBy: doc.createdBy,
+      createdAt: doc.createdAt,
+    }
+  }
+
+  /**
+   * Split order lines into the stock units they take. Sizes are tracked on their own when
+   * the variation keeps stock per size, otherwise the variation's stock covers every size.
+   */
+  static async stockUnitsFor(
+    lines: StockLine[],
+  ): Promise<Array<StockUnit & { lineIndex: number; quantity: number; name: string }>> {
+    const products = await this.getProductCollection()
+    const ids = [...new Set(lines.map((line) => line.productId))].filter((id) => ObjectId.isValid(id))
+    const found = await products.find({ _id: { $in: ids.map((id) => new ObjectId(id)) } }).toArray()
+    const byId = new Map(found.map((product) => [product._id!.toString(), product]))
+
+    const units: Array<StockUnit & { lineIndex: number; quantity: number; name: string }> = []
+    lines.forEach((line, lineIndex) => {
+      const variation = byId.get(line.productId)?.variations?.find((v) => v.id === line.variationId)
+      if (!variation) return
+
+      const sizes = (line.selectedSizes || []).filter((s) => s.quantity > 0)
+      const unitBase = { productId: line.productId, variationId: variation.id, lineIndex, name: line.name }
+      if (sizes.length > 0 && sizes.every((s) => hasSizeStock(variation, s.size))) {
+        for (const s of sizes) units.push({ ...unitBase, size: s.size, quantity: s.quantity })
+      } else if (typeof variation.stockQuantity === "number") {
+        units.push({ ...unitBase, quantity: line.quantity })
+      }
+    })
+    return units
+  }
+
+  /**
+   * Take stock off a unit, failing instead of going below zero. Matching on the available
+   * quantity in the same update keeps concurrent checkouts from overselling.
+   */
+  private static async takeStock(unit: StockUnit, quantity: number): Promise<ProductDocument | null> {
+    const filter = unit.size
+      ? {
+          _id: new ObjectId(unit.productId),
+          variations: {
+            $elemMatch: { id: unit.variationId, sizePrices: { $elemMatch: { size: unit.size, stockQuantity: { $gte: quantity } } } },
+          },
+        }
+      : { _id: new ObjectId(unit.productId), variations: { $elemMatch: { id: unit.variationId, stockQuantity: { $gte: quantity } } } }
+
+    return this.changeStock(filter, unit, -quantity)
+  }
+
+  // Add (or, with a negative quantity, remove) stock without a floor
+  private static async putStock(unit: StockUnit, quantity: number): Promise<ProductDocument | null> {
+    return this.changeStock({ _id: new ObjectId(unit.productId) }, unit, quantity)
+  }
+
+  private static async changeStock(filter: Record<string, any>, unit: StockUnit, quantity: number) {
+    const products = await this.getProductCollection()
+    const path = unit.size ? "variations.$[v].sizePrices.$[s].stockQuantity" : "variations.$[v].stockQuantity"
+    return products.findOneAndUpdate(
+      filter,
+      { $inc: { [path]: quantity }, $set: { updatedAt: new Date() } } as any,
+      {
+        arrayFilters: unit.size ? [{ "v.id": unit.variationId }, { "s.size": unit.size }] : [{ "v.id": unit.variationId }],
+        returnDocument: "after",
+      },
+    )
+  }
+
+  // Log a stock change and let the alerts know; `product` is the product after the change
+  private static async recordMovement(
+    entry: Omit<StockMovementDocument, "_id" | "createdAt">,
+    product: Pick<Product, "lowStockThreshold"> | null,
+  ) {
+    const movements = await this.getMovementCollection()
+    await movements.insertOne({ ...entry, createdAt: new Date() })
+    await StockAlertService.stockChanged(entry, product?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD)
+  }
+
+  /**
+   * Reserve the stock an order needs before it is paid. Fails with InventoryError, holding
+   * nothing, when any unit does not have enough left.
+   */
+  static async reserveForOrder(orderId: string, lines: StockLine[]): Promise<void> {
+    await this.releaseExpiredReservations()
+
+    const products = await this.getProductCollection()
+    const reservations = await this.getReservationCollection()
+    const units = await this.stockUnitsFor(lines)
+    const now = new Date()
+
+    try {
+      for (const unit of units) {
+        const { lineIndex, quantity, name, ...key } = unit
+        const product = await this.takeStock(key, quantity)
+        if (!product) {
+          const current = await products.findOne({ _id: new ObjectId(key.productId) })
+          const left = Math.max(0, (current && stockOf(current, key)) || 0)
+          throw new InventoryError(
+            left > 0 ? `Only ${left} left of ${describeUnit(name, key)}` : `${describeUnit(name, key)} is out of stock`,
+          )
+        }
+
+        await reservations.insertOne({
+          ...key,
+          orderId,
+          lineIndex,
+          quantity,
+          status: "reserved",
+          expiresAt: new Date(now.getTime() + INVENTORY_RESERVATION_TTL_MS),
+          createdAt: now,
+        })
+        await this.recordMovement(
+          {
+            ...key,
+            productName: product.name,
+            type: "reserve",
+            quantity: -quantity,
+            stockAfter: stockOf(product, key),
+            orderId,
+          },
+          product,
+        )
+      }
+    } catch (error) {
+      await this.releaseOrder(orderId)
+      throw error
+    }
+  }
+
+  /**
+   * Make an order's reserved stock final once it is paid. A reservation that already
+   * expired is taken again: the goods are sold, so stock is taken even if that makes it
+   * negative.
+   */
+  static async commitOrder(orderId: string): Promise<void> {
+    const reservations = await this.getReservationCollection()
+    const now = new Date()
+
+    const committed = await reservations.updateMany(
+      { orderId, status: "reserved" },
+      { $set: { status: "committed", committedAt: now }, $unset: { expiresAt: "" } },
+    )
+    if (committed.matchedCount > 0) return
+
+    for (const reservation of await reservations.find({ orderId, status: "released" }).toArray()) {
+      const retaken = await reservations.updateOne(
+        { _id: reservation._id, status: "released" },
+        { $set: { status: "committed", committedAt: now }, $unset: { releasedAt: "" } },
+      )
+      if (retaken.modifiedCount === 0) continue
+
+      const unit: StockUnit = { productId: reservation.productId, variationId: reservation.variationId, size: reservation.size }
+      const product = await this.putStock(unit, -reservation.quantity)
+      const stockAfter = product ? stockOf(product, unit) : undefined
+      await this.recordMovement(
+        {
+          ...unit,
+          productName: product?.name,
+          type: "reserve",
+          quantity: -reservation.quantity,
+          stockAfter,
+          orderId,
+          note: "Paid after the reservation expired",
+        },
+        product,
+      )
+      if (stockAfter !== undefined && stockAfter < 0) {
+        console.warn(`Order ${orderId} was paid after its stock reservation expired; ${product?.name} is now oversold`)
+      }
+    }
+  }
+
+  /**
+   * Give back the stock reserved for an order whose payment failed, was canceled or never
+   * created. Committed stock is kept. Returns how many reservations were released.
+   */
+  static async releaseOrder(orderId: string): Promise<number> {
+    const reservations = await this.getReservationCollection()
+    let released = 0
+    for (const reservation of await reservations.find({ orderId, status: "reserved" }).toArray()) {
+      if (await this.releaseReservation(reservation)) released++
+    }
+    return released
+  }
+
+  // Release reservations whose checkout was abandoned
+  static async releaseExpiredReservations(): Promise<number> {
+    const reservations = await this.getReservationCollection()
+    const expired = await reservations.find({ status: "reserved", expiresAt: { $lt: new Date() } }).toArray()
+    let released = 0
+    for (const reservation of expired) {
+      if (await this.releaseReservation(reservation)) released++
+    }
+    return released
+  }
+
+  // Matching on the reserved status makes sure stock is given back once, and never after a commit
+  private static async releaseReservation(reservation: InventoryReservationDocument): Promise<boolean> {
+    const reservations = await this.getReservationCollection()
+    const released = await reservations.updateOne(
+      { _id: reservation._id, status: "reserved" },
+      { $set: { status: "released", releasedAt: new Date() }, $unset: { expiresAt: "" } },
+    )
+    if (released.modifiedCount === 0) return false
+
+    const unit: StockUnit = { productId: reservation.productId, variationId: reservation.variationId, size: reservation.size }
+    const product = await this.putStock(unit, reservation.quantity)
+    await this.recordMovement(
+      {
+        ...unit,
+        productName: product?.name,
+        type: "release",
+        quantity: reservation.quantity,
+        stockAfter: product ? stockOf(product, unit) : undefined,
+        orderId: reservation.orderId,
+      },
+      product,
+    )
+    return true
+  }
+
+  /**
+   * Put an order's goods back on stock after a refund or cancellation. Without `items`
+   * everything not yet returned goes back; with items, the given quantity of each order
+   * line, spread over the line's sizes in order. Unpaid reservations are simply released.
+   */
+  static async restockOrder(
+    orderId: string,
+    items?: Array<{ index: number; quantity: number }>,
+    { note, createdBy }: { note?: string; createdBy?: string } = {},
+  ): Promise<void> {
+    await this.releaseOrder(orderId)
+
+    const reservations = await this.getReservationCollection()
+    const committed = await reservations.find({ orderId, status: "committed" }).sort({ lineIndex: 1, _id: 1 }).toArray()
+
+    // Quantity still to return per order line; every line in full when no items are given
+    const wanted = new Map<number, number>()
+    for (const item of items || []) wanted.set(item.index, (wanted.get(item.index) || 0) + item.quantity)
+
+    for (const reservation of committed) {
+      const remaining = items ? wanted.get(reservation.lineIndex) || 0 : Infinity
+      const take = Math.min(remaining, reservation.quantity - (reservation.returnedQuantity || 0))
+      if (take <= 0) continue
+
+      // Guarded on the returned total so two refunds can never return more than was sold
+      const returned = await reservations.updateOne(
+        {
+          _id: reservation._id,
+          $expr: { $lte: [{ $add: [{ $ifNull: ["$returnedQuantity", 0] }, take] }, "$quantity"] },
+        },
+        { $inc: { returnedQuantity: take } },
+      )
+      if (returned.modifiedCount === 0) continue
+      wanted.set(reservation.lineIndex, remaining - take)
+
+      const unit: StockUnit = { productId: reservation.productId, variationId: reservation.variationId, size: reservation.size }
+      const product = await this.putStock(unit, take)
+      await this.recordMovement(
+        {
+          ...unit,
+          productName: product?.name,
+          type: "return",
+          quantity: take,
+          stockAfter: product ? stockOf(product, unit) : undefined,
+          orderId,
+          note,
+          createdBy,
+        },
+        product,
+      )
+    }
+  }
+
+  /**
+   * Manual stock correction (delivery, stocktake, damage). A negative quantity cannot take
+   * the stock below zero.
+   */
+  static async adjustStock(unit: StockUnit, quantity: number, note: string, createdBy?: string): Promise<number> {
+    if (!Number.isInteger(quantity) || quantity === 0) {
+      throw new InventoryError("Adjustment must be a whole, non-zero quantity", 400)
+    }
+    if (!note?.trim()) {
+      throw new InventoryError("Explain the adjustment in a note", 400)
+    }
+    if (!ObjectId.isValid(unit.productId)) {
+      throw new InventoryError("Product not found", 404)
+    }
+
+    const products = await this.getProductCollection()
+    const current = await products.findOne({ _id: new ObjectId(unit.productId) })
+    if (!current || stockOf(current, unit) === undefined) {
+      throw new InventoryError("This product variation is not stock-tracked", 404)
+    }
+
+    const product = quantity < 0 ? await this.takeStock(unit, -quantity) : await this.putStock(unit, quantity)
+    if (!product) {
+      throw new InventoryError("Adjustment would take the stock below zero", 400)
+    }
+
+    const stockAfter = stockOf(product, unit)!
+    await this.recordMovement(
+      { ...unit, productName: product.name, type: "adjust", quantity, stockAfter, note: note.trim(), createdBy },
+      product,
+    )
+    return stockAfter
+  }
+
+  // Log stock quantities changed by editing a product, so the movement log stays complete
+  static async recordProductEdits(before: Product, after: Product, createdBy?: string): Promise<void> {
+    for (const variation of after.variations || []) {
+      const units: StockUnit[] = [
+        { productId: after.id, variationId: variation.id },
+        ...(variation.sizePrices || []).map((sp) => ({ productId: after.id, variationId: variation.id, size: sp.size })),
+      ]
+      for (const unit of units) {
+        const previous = stockOf(before, unit) ?? 0
+        const current = stockOf(after, unit)
+        if (current === undefined || current === previous) continue
+        await this.recordMovement(
+          {
+            ...unit,
+            productName: after.name,
+            type: "adjust",
+            quantity: current - previous,
+            stockAfter: current,
+            note: "Edited on the product",
+            createdBy,
+          },
+          after,
+        )
+      }
+    }
+  }
+
+  static async getMovements({ productId, limit = 200 }: { productId?: string; limit?: number } = {}): Promise<StockMovement[]> {
+    const movements = await this.getMovementCollection()
+    const docs = await movements
+      .find(productId ? { productId } : {})
+      .sort({ createdAt: -1 })
+      .limit(Math.min(Math.max(1, limit), 1000))
+      .toArray()
+    return docs.map((doc) => this.toMovement(doc))
+  }
+
+  // Every stock-tracked unit at or below its product's low-stock threshold, lowest first
+  static async getLowStock(): Promise<LowStockItem[]> {
+    await this.releaseExpiredReservations()
+
+    const products = await this.getProductCollection()
+    const tracked = await products
+      .find({ hasVariations: true }, { projection: { name: 1, variations: 1, lowStockThreshold: 1 } })
+      .toArray()
+
+    const items: LowStockItem[] = []
+    for (const product of tracked) {
+      const threshold = product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD
+      for (const variation of product.variations || []) {
+        const base = {
+          productId: product._id!.toString(),
+          productName: product.name,
+          variationId: variation.id,
+          colorName: variation.color?.name,
+          threshold,
+        }
+        const sizes = (variation.sizePrices || []).filter((sp) => typeof sp.stockQuantity === "number")
+        if (sizes.length > 0) {
+          for (const sp of sizes) {
+            if (sp.stockQuantity <= threshold) items.push({ ...base, size: sp.size, stockQuantity: sp.stockQuantity })
+          }
+        } else if (typeof variation.stockQuantity === "number" && variation.stockQuantity <= threshold) {
+          items.push({ ...base, stockQuantity: variation.stockQuantity })
+        }
+      }
+    }
+    return items.sort((a, b) => a.stockQuantity - b.stockQuantity)
+  }
+}
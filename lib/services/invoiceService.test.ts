@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { ObjectId } from "mongodb"
+
+const { invoices, counters } = vi.hoisted(() => ({
+  invoices: { findOne: vi.fn(), insertOne: vi.fn(), findOneAndUpdate: vi.fn() },
+  counters: { findOneAndUpdate: vi.fn() },
+}))
+
+vi.mock("@/lib/mongodb", () => ({
+  getDatabase: async () => ({ collection: (name: string) => (name === "counters" ? counters : invoices) }),
+}))
+
+import { InvoiceService } from "@/lib/services/invoiceService"
+import type { Order } from "@/lib/models/Order"
+
+const order = {
+  id: "PW-2026-000001-1",
+  customer: "C-1",
+  total: 125,
+  items: [{ name: "Shirt", quantity: 1, price: 125 }],
+  paymentMethod: "card",
+  paymentStatus: "paid",
+  paidAt: new Date("2026-03-01"),
+} as unknown as Order
+
+const duplicateKey = Object.assign(new Error("E11000 duplicate key"), { code: 11000 })
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  invoices.findOne.mockResolvedValue(null)
+  invoices.insertOne.mockResolvedValue({ insertedId: new ObjectId() })
+  invoices.findOneAndUpdate.mockImplementation(async (_filter: unknown, update: any) => ({ _id: new ObjectId(), ...update.$set }))
+  counters.findOneAndUpdate.mockResolvedValue({ _id: "invoice-2026", seq: 7 })
+})
+
+describe("InvoiceService.issueInvoice", () => {
+  it("numbers the invoice after claiming its source key", async () => {
+    const invoice = await InvoiceService.issueInvoice(order)
+
+    expect(invoices.insertOne).toHaveBeenCalledWith(expect.objectContaining({ sourceKey: `invoice:${order.id}`, claimedAt: expect.any(Date) }))
+    expect(invoices.insertOne.mock.calls[0][0].invoiceNumber).toBeUndefined()
+    expect(counters.findOneAndUpdate).toHaveBeenCalledTimes(1)
+    expect(invoice.invoiceNumber).toMatch(/^INV-2026-0+7$/)
+  })
+
+  it("takes no number when another request claimed the invoice first", async () => {
+    invoices.insertOne.mockRejectedValue(duplicateKey)
+    invoices.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce({ _id: new ObjectId(), invoiceNumber: "INV-2026-000006" })
+
+    const invoice = await InvoiceService.issueInvoice(order)
+
+    expect(invoice.invoiceNumber).toBe("INV-2026-000006")
+    expect(counters.findOneAndUpdate).not.toHaveBeenCalled()
+  })
+})
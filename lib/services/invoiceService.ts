@@ -0,0 +1,465 @@
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import { PricingService, roundCurrency } from "@/lib/services/pricingService"
+import type { TaxClass } from "@/lib/models/Tax"
+import type { Order, OrderRefund } from "@/lib/models/Order"
+import type {
+  Invoice,
+  InvoiceDocument,
+  InvoiceLine,
+  InvoiceParty,
+  InvoiceTaxSummary,
+  InvoiceType,
+} from "@/lib/models/Invoice"
+
+const SEQUENCE_DIGITS = 6
+
+// A sourceKey claimed for numbering; the number is set once the claim is won
+type InvoiceClaim = Omit<InvoiceDocument, "invoiceNumber"> & { invoiceNumber?: string; claimedAt?: Date }
+
+// Claims still unnumbered after this are from an issuer that died, and are taken over
+const CLAIM_TIMEOUT_MS = 60_000
+// How long a request that lost the claim waits for the winner to number it
+const CLAIM_POLL_ATTEMPTS = 10
+const CLAIM_POLL_MS = 200
+
+// Only numbered documents are issued; claims still being numbered are not shown or counted
+const ISSUED = { invoiceNumber: { $exists: true } }
+
+const INVOICE_NUMBER_PREFIXES: Record<InvoiceType, string> = {
+  invoice: "INV",
+  credit_note: "CN",
+}
+
+// Seller details printed on every invoice, configured per deployment
+export function getSellerDetails(): InvoiceParty {
+  return {
+    name: process.env.SELLER_NAME || "PrintWrap Pro AB",
+    organisationNumber: process.env.SELLER_ORGANISATION_NUMBER,
+    vatId: process.env.SELLER_VAT_ID,
+    address: process.env.SELLER_ADDRESS,
+    city: process.env.SELLER_CITY,
+    postalCode: process.env.SELLER_POSTAL_CODE,
+    country: process.env.SELLER_COUNTRY || "Sweden",
+    email: process.env.SELLER_EMAIL,
+    phone: process.env.SELLER_PHONE,
+  }
+}
+
+function paymentTermsDays(): number {
+  const days = Number(process.env.INVOICE_PAYMENT_TERMS_DAYS)
+  return Number.isFinite(days) && days >= 0 ? days : 30
+}
+
+export function formatInvoiceNumber(type: InvoiceType, year: number, sequence: number): string {
+  return `${INVOICE_NUMBER_PREFIXES[type]}-${year}-${String(sequence).padStart(SEQUENCE_DIGITS, "0")}`
+}
+
+export class InvoiceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "InvoiceError"
+  }
+}
+
+type InvoiceContent = Pick<
+  InvoiceDocument,
+  "lines" | "taxSummary" | "netTotal" | "taxTotal" | "total" | "reverseCharge" | "pricesIncludeTax"
+>
+
+function taxLabel(taxClass: TaxClass | undefined, order: Order): string {
+  const line = order.taxBreakdown?.lines.find((l) => l.taxClass === (taxClass || "standard"))
+  return line?.label || "VAT"
+}
+
+function summarize(lines: InvoiceLine[], labelFor: (line: InvoiceLine) => string): InvoiceTaxSummary[] {
+  const byRate = new Map<number, InvoiceTaxSummary>()
+  for (const line of lines) {
+    const summary = byRate.get(line.taxRate) ?? { rate: line.taxRate, label: labelFor(line), netAmount: 0, taxAmount: 0 }
+    summary.netAmount = roundCurrency(summary.netAmount + line.netAmount)
+    summary.taxAmount = roundCurrency(summary.taxAmount + line.taxAmount)
+    byRate.set(line.taxRate, summary)
+  }
+  return [...byRate.values()].sort((a, b) => b.rate - a.rate)
+}
+
+// Put the rounding residual on the largest line so the lines add up to what was actually charged
+function balanceLines(lines: InvoiceLine[], total: number): InvoiceLine[] {
+  const residual = roundCurrency(total - lines.reduce((sum, line) => sum + line.grossAmount, 0))
+  if (residual === 0 || lines.length === 0) return lines
+
+  const largest = lines.reduce((max, line) => (Math.abs(line.grossAmount) > Math.abs(max.grossAmount) ? line : max))
+  return lines.map((line) =>
+    line === largest
+      ? {
+          ...line,
+          taxAmount: roundCurrency(line.taxAmount + (line.taxRate > 0 ? residual : 0)),
+          netAmount: roundCurrency(line.netAmount + (line.taxRate > 0 ? 0 : residual)),
+          grossAmount: roundCurrency(line.grossAmount + residual),
+        }
+      : line,
+  )
+}
+
+function withTotals(lines: InvoiceLine[], order: Order, total: number): InvoiceContent {
+  const balanced = balanceLines(lines, total)
+  return {
+    lines: balanced,
+    taxSummary: summarize(balanced, (line) => taxLabel(line.taxClass, order)),
+    netTotal: roundCurrency(balanced.reduce((sum, line) => sum + line.netAmount, 0)),
+    taxTotal: roundCurrency(balanced.reduce((sum, line) => sum + line.taxAmount, 0)),
+    total: roundCurrency(total),
+    reverseCharge: !!order.taxBreakdown?.reverseCharge,
+    pricesIncludeTax: !!order.taxBreakdown?.pricesIncludeTax,
+  }
+}
+
+export class InvoiceService {
+  private static async getCollection() {
+    const db = await getDatabase()
+    return db.collection<InvoiceDocument>("invoices")
+  }
+
+  private static toInvoice(doc: InvoiceDocument): Invoice {
+    const { _id, sourceKey, ...invoice } = doc
+    return { id: _id!.toString(), ...invoice }
+  }
+
+  static buyerFor(order: Order): InvoiceParty {
+    return {
+      name: order.customerName || order.customer,
+      vatId: order.taxBreakdown?.vatNumber || order.customerVatNumber,
+      address: order.customerAddress,
+      city: order.customerCity,
+      postalCode: order.customerPostalCode,
+      country: order.customerCountry,
+      email: order.customerEmail,
+      phone: order.customerPhone,
+    }
+  }
+
+  /**
+   * Invoice lines for an order, split into net amount and tax per line.
+   * Each tax class's net share comes from the stored tax breakdown, so the
+   * lines follow the rules and tax mode that applied when the order was placed.
+   */
+  static buildOrderLines(order: Order): InvoiceLine[] {
+    const subtotal = order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+    const discountRatio = subtotal > 0 ? Math.min(1, (order.discountAmount || 0) / subtotal) : 0
+    const shippingCost = order.shippingCost ?? 0
+    const breakdown = order.taxBreakdown
+
+    // Orders from before tax rules had tax added on top of the discounted subtotal and untaxed shipping
+    const legacyRate =
+      order.vatAmount !== undefined && subtotal * (1 - discountRatio) > 0
+        ? order.vatAmount / (subtotal * (1 - discountRatio))
+        : 0
+
+    const grossByClass = new Map<TaxClass, number>()
+    order.items.forEach((item, index) => {
+      const taxClass = item.taxClass || "standard"
+      grossByClass.set(taxClass, (grossByClass.get(taxClass) || 0) + PricingService.discountedItemTotal(order, index))
+    })
+    if (breakdown?.shippingTaxClass) {
+      const taxClass = breakdown.shippingTaxClass
+      grossByClass.set(taxClass, (grossByClass.get(taxClass) || 0) + shippingCost)
+    }
+
+    const taxFor = (taxClass: TaxClass): { rate: number; netRatio: number } => {
+      if (!breakdown) return { rate: Math.round(legacyRate * 10000) / 10000, netRatio: 1 }
+      const line = breakdown.lines.find((l) => l.taxClass === taxClass)
+      const amount = grossByClass.get(taxClass) || 0
+      return { rate: line?.rate ?? 0, netRatio: line && amount > 0 ? line.netAmount / amount : 1 }
+    }
+
+    const toLine = (description: string, quantity: number, amount: number, taxClass: TaxClass | undefined, taxed: boolean) => {
+      const { rate, netRatio } = taxed ? taxFor(taxClass || "standard") : { rate: 0, netRatio: 1 }
+      const netAmount = roundCurrency(amount * netRatio)
+      const taxAmount = roundCurrency(netAmount * rate)
+      return {
+        description,
+        quantity,
+        unitPrice: roundCurrency(netAmount / quantity),
+        taxClass,
+        taxRate: rate,
+        netAmount,
+        taxAmount,
+        grossAmount: roundCurrency(netAmount + taxAmount),
+      }
+    }
+
+    const lines: InvoiceLine[] = order.items.map((item, index) => ({
+      ...toLine(
+        item.size ? `${item.name} (${item.size})` : item.name,
+        item.quantity,
+        PricingService.discountedItemTotal(order, index),
+        item.taxClass || "standard",
+        true,
+      ),
+      orderItemIndex: index,
+    }))
+
+    if (shippingCost > 0) {
+      const taxClass = breakdown?.shippingTaxClass
+      lines.push(toLine(`Shipping: ${order.shippingMethod?.name || order.shippingOption}`, 1, shippingCost, taxClass, !!taxClass))
+    }
+
+    return lines
+  }
+
+  // Credit lines for a refund, derived from the lines of the invoice being credited
+  static buildCreditLines(invoice: Invoice, refund: OrderRefund): InvoiceLine[] {
+    const credit = (line: InvoiceLine, grossAmount: number, quantity: number): InvoiceLine => {
+      const netAmount = roundCurrency(grossAmount / (1 + line.taxRate))
+      return {
+        ...line,
+        quantity,
+        unitPrice: -roundCurrency(netAmount / quantity),
+        netAmount: -netAmount,
+        taxAmount: -roundCurrency(grossAmount - netAmount),
+        grossAmount: -roundCurrency(grossAmount),
+      }
+    }
+
+    switch (refund.type) {
+      case "items":
+        return (refund.items || []).flatMap((item) => {
+          const line = invoice.lines.find((l) => l.orderItemIndex === item.index)
+          return line ? [credit(line, item.amount, item.quantity)] : []
+        })
+      case "shipping": {
+        const line = invoice.lines.find((l) => l.orderItemIndex === undefined)
+        return line ? [credit(line, refund.amount, 1)] : []
+      }
+      default: {
+        // Full refunds credit whatever is left, spread over the invoice lines
+        const ratio = invoice.total > 0 ? refund.amount / invoice.total : 0
+        return invoice.lines.map((line) => credit(line, line.grossAmount * ratio, line.quantity))
+      }
+    }
+  }
+
+  /**
+   * Insert an invoice under the next number of its series. The number comes from an atomic
+   * counter, so this works on a standalone MongoDB without transactions. A number is only lost
+   * when the insert fails after it was allocated, e.g. two requests issuing the same invoice at
+   * once; that is logged so the gap in the series can be explained.
+   */
+  /**
+   * Store a document under the next number of its series. The unique sourceKey is claimed before a
+   * number is taken, so when two requests issue the same document only the winner uses up a number.
+   * A claim left unnumbered by a crash is taken over once it is older than CLAIM_TIMEOUT_MS.
+   */
+  private static async insertNumbered(doc: Omit<InvoiceDocument, "invoiceNumber">): Promise<Invoice> {
+    const db = await getDatabase()
+    const claims = db.collection<InvoiceClaim>("invoices")
+
+    let claim: InvoiceClaim | null = null
+    try {
+      const claimed = { ...doc, claimedAt: new Date() }
+      claim = { ...claimed, _id: (await claims.insertOne(claimed)).insertedId }
+    } catch (error: any) {
+      if (error?.code !== 11000) throw error
+    }
+
+    if (!claim) {
+      for (let attempt = 0; attempt < CLAIM_POLL_ATTEMPTS; attempt++) {
+        const existing = await (await this.getCollection()).findOne({ sourceKey: doc.sourceKey, ...ISSUED })
+        if (existing) return this.toInvoice(existing)
+        claim = await claims.findOneAndUpdate(
+          { sourceKey: doc.sourceKey, invoiceNumber: { $exists: false }, claimedAt: { $lt: new Date(Date.now() - CLAIM_TIMEOUT_MS) } },
+          { $set: { ...doc, claimedAt: new Date() } },
+          { returnDocument: "after" },
+        )
+        if (claim) break
+        await new Promise((resolve) => setTimeout(resolve, CLAIM_POLL_MS))
+      }
+      if (!claim) {
+        throw new InvoiceError("The invoice is being issued by another request; try again shortly", 409)
+      }
+    }
+
+    const year = doc.issueDate.getFullYear()
+    const counter = await db
+      .collection<{ _id: string; seq: number; updatedAt: Date }>("counters")
+      .findOneAndUpdate(
+        { _id: `${doc.type}-${year}` },
+        { $inc: { seq: 1 }, $set: { updatedAt: new Date() } },
+        { upsert: true, returnDocument: "after" },
+      )
+    if (!counter) {
+      throw new InvoiceError("Failed to allocate invoice number", 500)
+    }
+
+    const invoiceNumber = formatInvoiceNumber(doc.type, year, counter.seq)
+    const issued = await (await this.getCollection()).findOneAndUpdate(
+      { _id: claim._id, invoiceNumber: { $exists: false } },
+      { $set: { invoiceNumber }, $unset: { claimedAt: "" } },
+      { returnDocument: "after" },
+    )
+    if (!issued) {
+      console.error(`Invoice number ${invoiceNumber} was allocated but not used for ${doc.sourceKey}`)
+      throw new InvoiceError("Failed to issue invoice", 500)
+    }
+    return this.toInvoice(issued)
+  }
+
+  // An invoice billing the order as it is now, issued today unless the order was paid earlier
+  private static orderInvoice(order: Order, sourceKey: string, issueDate: Date): Omit<InvoiceDocument, "invoiceNumber"> {
+    const now = new Date()
+    const days = paymentTermsDays()
+    return {
+      type: "invoice",
+      sourceKey,
+      orderId: order.id,
+      customer: order.customer,
+      seller: getSellerDetails(),
+      buyer: this.buyerFor(order),
+      ...withTotals(this.buildOrderLines(order), order, order.total),
+      currency: "SEK",
+      paymentMethod: order.paymentMethod,
+      paymentTerms: order.paidAt ? "Paid in full at checkout" : `Net ${days} days`,
+      issueDate,
+      dueDate: new Date(issueDate.getTime() + days * 24 * 60 * 60 * 1000),
+      paidAt: order.paidAt,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  /** Issue the invoice for a paid order. Safe to call repeatedly; returns the existing invoice. */
+  static async issueInvoice(order: Order): Promise<Invoice> {
+    const collection = await this.getCollection()
+    const sourceKey = `invoice:${order.id}`
+    const existing = await collection.findOne({ sourceKey, ...ISSUED })
+    if (existing) return this.toInvoice(existing)
+
+    return this.insertNumbered(this.orderInvoice(order, sourceKey, order.paidAt ? new Date(order.paidAt) : new Date()))
+  }
+
+  // The invoice refunds are credited against: the latest one, after any corrections
+  private static async currentInvoice(order: Order): Promise<Invoice> {
+    const collection = await this.getCollection()
+    const latest = await collection.findOne({ orderId: order.id, type: "invoice", ...ISSUED }, { sort: { createdAt: -1 } })
+    return latest ? this.toInvoice(latest) : this.issueInvoice(order)
+  }
+
+  /** Issue a credit note against the order's invoice for a recorded refund. */
+  static async issueCreditNote(order: Order, refund: OrderRefund): Promise<Invoice> {
+    const collection = await this.getCollection()
+    const sourceKey = `credit_note:${refund.id}`
+    const existing = await collection.findOne({ sourceKey, ...ISSUED })
+    if (existing) return this.toInvoice(existing)
+
+    const invoice = await this.currentInvoice(order)
+    const now = new Date()
+
+    return this.insertNumbered({
+      type: "credit_note",
+      sourceKey,
+      orderId: order.id,
+      refundId: refund.id,
+      creditedInvoiceNumber: invoice.invoiceNumber,
+      customer: order.customer,
+      seller: invoice.seller,
+      buyer: invoice.buyer,
+      ...withTotals(this.buildCreditLines(invoice, refund), order, -refund.amount),
+      currency: "SEK",
+      paymentMethod: order.paymentMethod,
+      paymentTerms: "Refunded to the original payment method",
+      issueDate: now,
+      dueDate: now,
+      createdAt: now,
+      updatedAt: now,
+    })
+  }
+
+  // Issue whatever is missing for an order: its invoice and a credit note per refund
+  static async issueForOrder(order: Order): Promise<Invoice[]> {
+    if (!order.paidAt && order.paymentStatus !== "paid") {
+      throw new InvoiceError("Invoices are issued once the order has been paid", 409)
+    }
+    await this.issueInvoice(order)
+    for (const refund of order.refunds || []) {
+      await this.issueCreditNote(order, refund)
+    }
+    return this.getInvoicesByOrderId(order.id)
+  }
+
+  /**
+   * Correct the order's current invoice. Issued invoices never change: it is credited in full
+   * and a new invoice is issued from the current order and seller details.
+   * Returns every invoice of the order.
+   */
+  static async correctInvoice(id: string, order: Order, correctedBy: string): Promise<Invoice[]> {
+    const original = await this.getInvoiceById(id)
+    if (!original) {
+      throw new InvoiceError("Invoice not found", 404)
+    }
+    if (original.type !== "invoice") {
+      throw new InvoiceError("Credit notes cannot be corrected; refund the order instead", 409)
+    }
+    if ((await this.currentInvoice(order)).id !== original.id) {
+      throw new InvoiceError(`${original.invoiceNumber} has already been replaced; correct the latest invoice instead`, 409)
+    }
+
+    const now = new Date()
+    const negate = <T extends { netAmount: number; taxAmount: number }>(entry: T) => ({
+      ...entry,
+      netAmount: -entry.netAmount,
+      taxAmount: -entry.taxAmount,
+    })
+
+    // Keys derived from the original make a retried correction return what the first attempt issued
+    await this.insertNumbered({
+      type: "credit_note",
+      sourceKey: `correction:${original.id}`,
+      orderId: order.id,
+      creditedInvoiceNumber: original.invoiceNumber,
+      customer: original.customer,
+      seller: original.seller,
+      buyer: original.buyer,
+      lines: original.lines.map((line) => ({ ...negate(line), unitPrice: -line.unitPrice, grossAmount: -line.grossAmount })),
+      taxSummary: original.taxSummary.map(negate),
+      netTotal: -original.netTotal,
+      taxTotal: -original.taxTotal,
+      total: -original.total,
+      currency: original.currency,
+      reverseCharge: original.reverseCharge,
+      pricesIncludeTax: original.pricesIncludeTax,
+      paymentMethod: original.paymentMethod,
+      paymentTerms: "Cancels the credited invoice, which is replaced by a corrected one",
+      issueDate: now,
+      dueDate: now,
+      issuedBy: correctedBy,
+      createdAt: now,
+      updatedAt: now,
+    })
+    await this.insertNumbered({
+      ...this.orderInvoice(order, `invoice:${order.id}:replaces:${original.invoiceNumber}`, now),
+      replacesInvoiceNumber: original.invoiceNumber,
+      issuedBy: correctedBy,
+    })
+
+    return this.getInvoicesByOrderId(order.id)
+  }
+
+  static async getInvoiceById(id: string): Promise<Invoice | null> {
+    if (!ObjectId.isValid(id)) return null
+    const collection = await this.getCollection()
+    const invoice = await collection.findOne({ _id: new ObjectId(id), ...ISSUED })
+    return invoice ? this.toInvoice(invoice) : null
+  }
+
+  static async getInvoicesByOrderId(orderId: string): Promise<Invoice[]> {
+    const collection = await this.getCollection()
+    const invoices = await collection.find({ orderId, ...ISSUED }).sort({ createdAt: 1 }).toArray()
+    return invoices.map((invoice) => this.toInvoice(invoice))
+  }
+
+  static async getInvoicesByCustomer(customer: string): Promise<Invoice[]> {
+    const collection = await this.getCollection()
+    const invoices = await collection.find({ customer, ...ISSUED }).sort({ createdAt: -1 }).toArray()
+    return invoices.map((invoice) => this.toInvoice(invoice))
+  }
+}
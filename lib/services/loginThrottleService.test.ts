@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+vi.mock("@/lib/mongodb", () => ({ getDatabase: vi.fn() }))
+
+import { clientIpFrom } from "@/lib/services/loginThrottleService"
+
+describe("clientIpFrom", () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS
+  })
+
+  it("ignores addresses the client put in front of the proxy's entry", () => {
+    expect(clientIpFrom({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" })).toBe("203.0.113.7")
+    expect(clientIpFrom(new Headers({ "x-forwarded-for": "1.1.1.1,2.2.2.2, 203.0.113.7" }))).toBe("203.0.113.7")
+  })
+
+  it("counts the configured number of proxies from the right", () => {
+    process.env.TRUSTED_PROXY_HOPS = "2"
+    expect(clientIpFrom({ "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2" })).toBe("203.0.113.7")
+    expect(clientIpFrom({ "x-forwarded-for": "203.0.113.7" })).toBe("203.0.113.7")
+  })
+
+  it("falls back to X-Real-IP and then to a shared bucket", () => {
+    expect(clientIpFrom({ "x-real-ip": "203.0.113.9" })).toBe("203.0.113.9")
+    expect(clientIpFrom(null)).toBe("unknown")
+  })
+})
@@ -0,0 +1,96 @@
+import { getDatabase } from "@/lib/mongodb"
+
+// Login attempts allowed per window, from one IP address and against one account
+export const LOGIN_WINDOW_MS = 15 * 60 * 1000
+export const MAX_LOGIN_ATTEMPTS_PER_IP = 30
+export const MAX_LOGIN_ATTEMPTS_PER_ACCOUNT = 10
+
+interface LoginAttemptDocument {
+  key: string // "ip:<address>", "account:<email>" or another action's key, e.g. "share:<userId>"
+  count: number
+  windowStart: Date
+  expiresAt: Date // removed by the TTL index once the window is over
+}
+
+export class LoginRateLimitError extends Error {
+  readonly code = "TooManyAttempts"
+
+  constructor(public retryAfter: Date) {
+    super("Too many login attempts, please try again later")
+    this.name = "LoginRateLimitError"
+  }
+}
+
+// Proxies in front of the app that append to X-Forwarded-For, e.g. 2 for a CDN in front of a load balancer
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS)
+  return Number.isInteger(hops) && hops >= 1 ? hops : 1
+}
+
+/**
+ * The caller's address as reported by the proxies in front of the app. Clients can send any
+ * X-Forwarded-For they like and each proxy appends to it, so only the entry added by the
+ * outermost trusted proxy, counted from the right, is used.
+ */
+export function clientIpFrom(headers?: Record<string, any> | Headers | null): string {
+  const get = (name: string): string | undefined =>
+    headers instanceof Headers ? headers.get(name) ?? undefined : headers?.[name]
+  const forwarded = (get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  const ip = forwarded[Math.max(0, forwarded.length - trustedProxyHops())]
+  return ip || get("x-real-ip") || "unknown"
+}
+
+export class LoginThrottleService {
+  private static async getCollection() {
+    const db = await getDatabase()
+    return db.collection<LoginAttemptDocument>("login_attempts")
+  }
+
+  /**
+   * Count one attempt against `key` in its current fixed window and return the counter.
+   * The window restarts on the first attempt after it ends, in the same update. Other
+   * abuse-prone actions use it with their own key prefix and window.
+   */
+  static async hit(key: string, windowMs = LOGIN_WINDOW_MS): Promise<LoginAttemptDocument> {
+    const collection = await this.getCollection()
+    const now = new Date()
+    const windowOpen = { $gt: [{ $ifNull: ["$windowStart", new Date(0)] }, new Date(now.getTime() - windowMs)] }
+
+    const result = await collection.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            count: { $cond: [windowOpen, { $add: ["$count", 1] }, 1] },
+            windowStart: { $cond: [windowOpen, "$windowStart", now] },
+          },
+        },
+        { $set: { expiresAt: { $add: ["$windowStart", windowMs] } } },
+      ],
+      { upsert: true, returnDocument: "after" },
+    )
+    return result!
+  }
+
+  /**
+   * Record a login attempt from `ip` for `email`, throwing LoginRateLimitError once either
+   * has used up its attempts for the window. Unknown emails are counted too, so probing
+   * for accounts is throttled the same way.
+   */
+  static async registerAttempt({ ip, email }: { ip: string; email: string }): Promise<void> {
+    const checks = [
+      { key: `ip:${ip}`, limit: MAX_LOGIN_ATTEMPTS_PER_IP },
+      { key: `account:${email.trim().toLowerCase()}`, limit: MAX_LOGIN_ATTEMPTS_PER_ACCOUNT },
+    ]
+
+    for (const { key, limit } of checks) {
+      const attempt = await this.hit(key)
+      if (attempt.count > limit) {
+        throw new LoginRateLimitError(attempt.expiresAt)
+      }
+    }
+  }
+}
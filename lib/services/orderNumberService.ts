@@ -0,0 +1,76 @@
+import { getDatabase } from "@/lib/mongodb"
+
+interface CounterDocument {
+  _id: string
+  seq: number
+  updatedAt: Date
+}
+
+export const ORDER_NUMBER_PREFIX = "PW"
+const SEQUENCE_DIGITS = 6
+
+// Matches numbers issued by this service, e.g. PW-2026-000123-7
+const ORDER_NUMBER_PATTERN = /^PW-(\d{4})-(\d{6,})-(\d)$/
+// Orders placed before this service keep their ORD-123456 ids
+const LEGACY_ORDER_NUMBER_PATTERN = /^ORD-\d{6}$/
+
+/**
+ * Luhn (mod 10) check digit, the same scheme used for Swedish OCR references,
+ * so mistyped order numbers are caught before a lookup.
+ */
+export function luhnCheckDigit(digits: string): number {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 0) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+export function formatOrderNumber(year: number, sequence: number): string {
+  const paddedSequence = String(sequence).padStart(SEQUENCE_DIGITS, "0")
+  return `${ORDER_NUMBER_PREFIX}-${year}-${paddedSequence}-${luhnCheckDigit(`${year}${paddedSequence}`)}`
+}
+
+// Only validates the current format; legacy ORD-xxxxxx numbers are left untouched
+export function isValidOrderNumber(orderNumber: string): boolean {
+  const match = ORDER_NUMBER_PATTERN.exec(orderNumber)
+  if (!match) return false
+  const [, year, sequence, checkDigit] = match
+  return luhnCheckDigit(`${year}${sequence}`) === Number(checkDigit)
+}
+
+/** Whether an order number taken from a request can exist, so typos are answered without a lookup. */
+export function isOrderNumber(orderNumber: unknown): orderNumber is string {
+  if (typeof orderNumber !== "string") return false
+  return isValidOrderNumber(orderNumber) || LEGACY_ORDER_NUMBER_PATTERN.test(orderNumber)
+}
+
+export class OrderNumberService {
+  private static async getCollection() {
+    const db = await getDatabase()
+    return db.collection<CounterDocument>("counters")
+  }
+
+  // Atomically reserve the next sequence for the year; the counter restarts each January
+  static async nextOrderNumber(date: Date = new Date()): Promise<string> {
+    const collection = await this.getCollection()
+    const year = date.getFullYear()
+
+    const counter = await collection.findOneAndUpdate(
+      { _id: `order-${year}` },
+      { $inc: { seq: 1 }, $set: { updatedAt: new Date() } },
+      { upsert: true, returnDocument: "after" },
+    )
+
+    if (!counter) {
+      throw new Error("Failed to allocate order number")
+    }
+
+    return formatOrderNumber(year, counter.seq)
+  }
+}
@@ -1,5 +1,41 @@
+import { createHash } from "crypto"
 import { getDatabase } from "@/lib/mongodb"
-import type { OrderDocument, Order } from "@/lib/models/Order"
+import type { OrderDocument, Order, OrderRefund, OrderTracking, PaymentStatus, PendingRefund } from "@/lib/models/Order"
+import { OrderNumberService } from "@/lib/services/orderNumberService"
+import { AssetService } from "@/lib/services/assetService"
+import {
+  canTransition,
+  isPaidForProduction,
+  OrderNotPaidError,
+  OrderStatusTransitionError,
+  ORDER_STATUSES,
+  PAID_ORDER_STATUSES,
+  PRODUCIBLE_PAYMENT_STATUSES,
+  type OrderStatus,
+} from "@/lib/utils/orderStatus"
+
+// A cancellation claim this old belongs to a request that died while undoing the payment
+const CANCELLATION_TIMEOUT_MS = 15 * 60 * 1000
+
+export class IdempotencyConflictError extends Error {
+  constructor(public orderId: string) {
+    super(`A different order (${orderId}) was already created for this request`)
+    this.name = "IdempotencyConflictError"
+  }
+}
+
+// Sort object keys so the same payload always serializes the same way
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`
+  }
+  return JSON.stringify(value ?? null)
+}
 
 export class OrderService {
   private static async getCollection() {
@@ -7,53 +43,42 @@ export class OrderService {
     return db.collection<OrderDocument>("orders")
   }
 
-  static async createOrder(orderData: Omit<OrderDocument, "_id" | "createdAt" | "updatedAt">): Promise<Order> {
-    const collection = await this.getCollection()
-
-    const newOrder: OrderDocument = {
-      ...orderData,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
-
-    const result = await collection.insertOne(newOrder)
-
-      return {
-        id: newOrder.orderId, // Use the generated orderId as the public ID
-        customer: newOrder.customer,
-        date: newOrder.date,
-        total: newOrder.total,
-        status: newOrder.status,
-        items: newOrder.items,
-        shippingOption: newOrder.shippingOption,
-        paymentMethod: newOrder.paymentMethod,
-        paymentIntentId: newOrder.paymentIntentId,
-        customerName: newOrder.customerName,
-        customerEmail: newOrder.customerEmail,
-        customerPhone: newOrder.customerPhone,
-        customerAddress: newOrder.customerAddress,
-        customerCity: newOrder.customerCity,
-        customerPostalCode: newOrder.customerPostalCode,
-        customerCountry: newOrder.customerCountry,
-        createdAt: newOrder.createdAt,
-        updatedAt: newOrder.updatedAt,
-      }
+  // Matches orders that no running cancellation has claimed
+  private static unclaimed() {
+    const staleBefore = new Date(Date.now() - CANCELLATION_TIMEOUT_MS)
+    return { $or: [{ cancellingAt: { $exists: false } }, { cancellingAt: { $lt: staleBefore } }] }
   }
 
-  static async getAllOrders(): Promise<Order[]> {
-    const collection = await this.getCollection()
-    const orders = await collection.find({}).sort({ createdAt: -1 }).toArray()
-
-    return orders.map((order) => ({
-      id: order.orderId,
+  // Map a stored order document to the public Order shape
+  private static toOrder(order: OrderDocument): Order {
+    return {
+      id: order.orderId, // Use the generated orderId as the public ID
       customer: order.customer,
       date: order.date,
       total: order.total,
       status: order.status,
+      statusHistory: order.statusHistory,
+      tracking: order.tracking,
       items: order.items,
       shippingOption: order.shippingOption,
       paymentMethod: order.paymentMethod,
       paymentIntentId: order.paymentIntentId,
+      paymentStatus: order.paymentStatus,
+      paidAt: order.paidAt,
+      paymentError: order.paymentError,
+      invoicePending: order.invoicePending,
+      tenders: order.tenders,
+      refunds: order.refunds,
+      refundedAmount: order.refundedAmount,
+      pendingRefund: order.pendingRefund,
+      subtotal: order.subtotal,
+      discountAmount: order.discountAmount,
+      vatAmount: order.vatAmount,
+      taxBreakdown: order.taxBreakdown,
+      shippingCost: order.shippingCost,
+      shippingMethod: order.shippingMethod,
+      appliedCoupon: order.appliedCoupon,
+      discounts: order.discounts,
       customerName: order.customerName,
       customerEmail: order.customerEmail,
       customerPhone: order.customerPhone,
@@ -61,9 +86,168 @@ export class OrderService {
       customerCity: order.customerCity,
       customerPostalCode: order.customerPostalCode,
       customerCountry: order.customerCountry,
+      customerVatNumber: order.customerVatNumber,
+      language: order.language,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
+    }
+  }
+
+  static async generateOrderId(): Promise<string> {
+    return OrderNumberService.nextOrderNumber()
+  }
+
+  /**
+   * The parts of an order a customer may set when placing it. Status, payment, refund and
+   * tracking fields are owned by the server and are never taken from the request body.
+   */
+  static customerInput(orderData: any): Pick<
+    OrderDocument,
+    | "items"
+    | "paymentMethod"
+    | "customerName"
+    | "customerEmail"
+    | "customerPhone"
+    | "customerAddress"
+    | "customerCity"
+    | "customerPostalCode"
+    | "customerCountry"
+    | "customerVatNumber"
+    | "language"
+  > {
+    const text = (value: unknown) => (typeof value === "string" ? value : undefined)
+    return {
+      items: (Array.isArray(orderData?.items) ? orderData.items : []).map((item: any) => ({
+        name: item?.name,
+        quantity: item?.quantity,
+        price: item?.price,
+        size: item?.size,
+        designPreview: item?.designPreview,
+        designId: item?.designId,
+        selectedSizes: item?.selectedSizes,
+        designContext: item?.designContext,
+        designCanvasJSON: item?.designCanvasJSON,
+        productId: item?.productId || item?.id,
+      })),
+      paymentMethod: ["card", "swish", "klarna"].includes(orderData?.paymentMethod) ? orderData.paymentMethod : "card",
+      customerName: text(orderData?.customerName),
+      customerEmail: text(orderData?.customerEmail),
+      customerPhone: text(orderData?.customerPhone),
+      customerAddress: text(orderData?.customerAddress),
+      customerCity: text(orderData?.customerCity),
+      customerPostalCode: text(orderData?.customerPostalCode),
+      customerCountry: text(orderData?.customerCountry),
+      customerVatNumber: text(orderData?.customerVatNumber),
+      language: orderData?.language === "sv" || orderData?.language === "en" ? orderData.language : undefined,
+    }
+  }
+
+  /**
+   * Hash of the parts of an order request that define the purchase. Payment
+   * references and status are left out so a retry that adds the payment intent
+   * still counts as the same request.
+   */
+  static fingerprintRequest(orderData: any): string {
+    const items = (orderData?.items || []).map((item: any) => ({
+      productId: item.productId || item.id,
+      quantity: item.quantity,
+      designId: item.designId,
+      sizes: (item.selectedSizes || []).map((s: any) => ({ size: s.size, quantity: s.quantity })),
     }))
+
+    const fingerprint = {
+      customer: orderData?.customer,
+      items,
+      shippingOption: orderData?.shippingMethodId || orderData?.shippingOption,
+      paymentMethod: orderData?.paymentMethod,
+      couponCode: orderData?.appliedCoupon?.code,
+      giftCardCodes: orderData?.giftCardCodes,
+      useStoreCredit: orderData?.useStoreCredit,
+      customerEmail: orderData?.customerEmail,
+      customerAddress: orderData?.customerAddress,
+      customerPostalCode: orderData?.customerPostalCode,
+      customerCountry: orderData?.customerCountry,
+      customerVatNumber: orderData?.customerVatNumber,
+    }
+
+    return createHash("sha256").update(stableStringify(fingerprint)).digest("hex")
+  }
+
+  /**
+   * Look up an order already created for the same idempotency key or payment intent.
+   * Returns it when the request matches, throws IdempotencyConflictError when the
+   * key was reused for a different payload, and returns null for a new request.
+   */
+  static async findReplay({
+    idempotencyKey,
+    paymentIntentId,
+    requestHash,
+  }: {
+    idempotencyKey?: string
+    paymentIntentId?: string
+    requestHash: string
+  }): Promise<Order | null> {
+    const conditions: Record<string, string>[] = []
+    if (idempotencyKey) conditions.push({ idempotencyKey })
+    if (paymentIntentId) conditions.push({ paymentIntentId })
+    if (conditions.length === 0) return null
+
+    const collection = await this.getCollection()
+    const existing = await collection.findOne({ $or: conditions })
+    if (!existing) return null
+
+    // Orders created before fingerprinting cannot be compared, so treat them as a match
+    if (existing.requestHash && existing.requestHash !== requestHash) {
+      throw new IdempotencyConflictError(existing.orderId)
+    }
+
+    return this.toOrder(existing)
+  }
+
+  static async createOrder(orderData: Omit<OrderDocument, "_id" | "createdAt" | "updatedAt">): Promise<Order> {
+    const collection = await this.getCollection()
+
+    const now = new Date()
+    const newOrder: OrderDocument = {
+      ...orderData,
+      // Design previews and canvases come from the cart with images embedded as data URLs
+      items: await AssetService.externalizeDataUrls(orderData.items),
+      statusHistory: [{ from: null, to: orderData.status, changedBy: "system", changedAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    try {
+      await collection.insertOne(newOrder)
+    } catch (error: any) {
+      // Lost a race against an identical request: the unique indexes on
+      // idempotencyKey/paymentIntentId rejected the insert, so return the winner
+      if (error?.code === 11000 && orderData.requestHash && (orderData.idempotencyKey || orderData.paymentIntentId)) {
+        const replay = await this.findReplay({
+          idempotencyKey: orderData.idempotencyKey,
+          paymentIntentId: orderData.paymentIntentId,
+          requestHash: orderData.requestHash,
+        })
+        if (replay) return replay
+      }
+      throw error
+    }
+
+    return this.toOrder(newOrder)
+  }
+
+  static async getAllOrders(): Promise<Order[]> {
+    const collection = await this.getCollection()
+    const orders = await collection.find({}).sort({ createdAt: -1 }).toArray()
+
+    return orders.map((order) => this.toOrder(order))
+  }
+
+  static async getOrdersByCustomer(customer: string): Promise<Order[]> {
+    const collection = await this.getCollection()
+    const orders = await collection.find({ customer }).sort({ createdAt: -1 }).toArray()
+
+    return orders.map((order) => this.toOrder(order))
   }
 
   static async getOrderById(orderId: string): Promise<Order | null> {
@@ -72,64 +256,256 @@ export class OrderService {
 
     if (!order) return null
 
-    return {
-      id: order.orderId,
-      customer: order.customer,
-      date: order.date,
-      total: order.total,
-      status: order.status,
-      items: order.items,
-      shippingOption: order.shippingOption,
-      paymentMethod: order.paymentMethod,
-      paymentIntentId: order.paymentIntentId,
-      customerName: order.customerName,
-      customerEmail: order.customerEmail,
-      customerPhone: order.customerPhone,
-      customerAddress: order.customerAddress,
-      customerCity: order.customerCity,
-      customerPostalCode: order.customerPostalCode,
-      customerCountry: order.customerCountry,
-      createdAt: order.createdAt,
-      updatedAt: order.updatedAt,
+    return this.toOrder(order)
+  }
+
+  static async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | null> {
+    const collection = await this.getCollection()
+    const order = await collection.findOne({ paymentIntentId })
+
+    if (!order) return null
+
+    return this.toOrder(order)
+  }
+
+  // Whether the customer (by number or, for guests, email) has a paid order; unpaid checkouts do not count
+  static async hasPlacedOrder({ customerNumber, email }: { customerNumber?: string; email?: string }): Promise<boolean> {
+    const conditions: Record<string, string>[] = []
+    if (customerNumber && customerNumber !== "Guest") conditions.push({ customer: customerNumber })
+    if (email) conditions.push({ customerEmail: email.trim() })
+    if (conditions.length === 0) return false
+
+    // Orders from before payment tracking have no paymentStatus and count as placed
+    const filter: Record<string, any> = {
+      $or: conditions,
+      paymentStatus: { $in: ["paid", "partially_refunded", "refunded", null] },
     }
+
+    const collection = await this.getCollection()
+    const order = await collection.findOne(filter, { projection: { _id: 1 } })
+    return order !== null
   }
 
-  static async updateOrderStatus(orderId: string, status: OrderDocument["status"]): Promise<Order | null> {
+  /**
+   * Record a payment state change reported by the provider.
+   * Stripe may deliver events out of order, so the update only applies while the
+   * order is in one of `fromStatuses` (any state when omitted).
+   */
+  static async updatePaymentStatus(
+    paymentIntentId: string,
+    paymentStatus: PaymentStatus,
+    fields: Partial<Pick<OrderDocument, "paidAt" | "paymentError">> = {},
+    fromStatuses?: Array<PaymentStatus | undefined>,
+  ): Promise<Order | null> {
     const collection = await this.getCollection()
 
+    const filter: Record<string, any> = { paymentIntentId }
+    if (fromStatuses) {
+      filter.paymentStatus = { $in: fromStatuses.map((s) => s ?? null) }
+    }
+
     const result = await collection.findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          ...fields,
+          paymentStatus,
+          updatedAt: new Date(),
+        },
+      },
+      { returnDocument: "after" },
+    )
+
+    if (!result) return null
+
+    return this.toOrder(result)
+  }
+
+  static async setInvoicePending(orderId: string, invoicePending: boolean): Promise<void> {
+    const collection = await this.getCollection()
+    await collection.updateOne(
       { orderId },
+      invoicePending ? { $set: { invoicePending, updatedAt: new Date() } } : { $unset: { invoicePending: "" }, $set: { updatedAt: new Date() } },
+    )
+  }
+
+  static async getOrdersWithPendingInvoice(limit = 50): Promise<Order[]> {
+    const collection = await this.getCollection()
+    const orders = await collection.find({ invoicePending: true }).sort({ paidAt: 1 }).limit(limit).toArray()
+    return orders.map((order) => this.toOrder(order))
+  }
+
+  // Some providers replace the payment reference once the customer has approved (e.g. Klarna session -> order)
+  static async updatePaymentReference(orderId: string, fromReference: string, toReference: string): Promise<Order | null> {
+    const collection = await this.getCollection()
+
+    const result = await collection.findOneAndUpdate(
+      { orderId, paymentIntentId: fromReference },
+      { $set: { paymentIntentId: toReference, updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+
+    if (!result) return null
+
+    return this.toOrder(result)
+  }
+
+  /**
+   * Hold a refund's amount before any money moves. Only one refund can be pending per order,
+   * and only while nothing was refunded since the caller read `refundedAmount`, so the amount it
+   * calculated is still available. A reservation made before `staleBefore` belongs to a refund
+   * that never finished and is taken over. Returns null when another refund got there first.
+   */
+  static async reserveRefund(
+    orderId: string,
+    pendingRefund: PendingRefund,
+    {
+      refundedAmount,
+      paymentStatuses,
+      staleBefore,
+    }: { refundedAmount: number; paymentStatuses: PaymentStatus[]; staleBefore: Date },
+  ): Promise<Order | null> {
+    const collection = await this.getCollection()
+
+    const result = await collection.findOneAndUpdate(
+      {
+        orderId,
+        $or: [{ pendingRefund: { $exists: false } }, { "pendingRefund.createdAt": { $lt: staleBefore } }],
+        paymentStatus: { $in: paymentStatuses },
+        $expr: { $eq: [{ $ifNull: ["$refundedAmount", 0] }, refundedAmount] },
+      },
+      { $set: { pendingRefund, updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+
+    if (!result) return null
+
+    return this.toOrder(result)
+  }
+
+  // Drop a reservation whose refund moved no money
+  static async releaseRefund(orderId: string, refundId: string): Promise<void> {
+    const collection = await this.getCollection()
+    await collection.updateOne(
+      { orderId, "pendingRefund.id": refundId },
+      { $unset: { pendingRefund: "" }, $set: { updatedAt: new Date() } },
+    )
+  }
+
+  // Append a refund, clear its reservation and derive the payment status from the new refunded total in one atomic update
+  static async recordRefund(orderId: string, refund: OrderRefund): Promise<Order | null> {
+    const collection = await this.getCollection()
+
+    const result = await collection.findOneAndUpdate(
+      { orderId },
+      [
+        {
+          $set: {
+            refunds: { $concatArrays: [{ $ifNull: ["$refunds", []] }, [{ $literal: refund }]] },
+            refundedAmount: { $round: [{ $add: [{ $ifNull: ["$refundedAmount", 0] }, refund.amount] }, 2] },
+            pendingRefund: "$$REMOVE",
+            updatedAt: new Date(),
+          },
+        },
+        {
+          $set: {
+            paymentStatus: {
+              $cond: [{ $gte: ["$refundedAmount", "$total"] }, "refunded", "partially_refunded"],
+            },
+          },
+        },
+      ],
+      { returnDocument: "after" },
+    )
+
+    if (!result) return null
+
+    return this.toOrder(result)
+  }
+
+  /**
+   * Move an order to a new production status, recording who made the change and, for
+   * shipments, the tracking details. Throws OrderStatusTransitionError for transitions
+   * the workflow does not allow.
+   * Returns null if the order does not exist or was changed concurrently.
+   */
+  static async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    { changedBy, note, tracking }: { changedBy: string; note?: string; tracking?: OrderTracking },
+  ): Promise<Order | null> {
+    const collection = await this.getCollection()
+
+    const current = await collection.findOne({ orderId }, { projection: { status: 1, paymentStatus: 1 } })
+    if (!current) return null
+
+    if (!canTransition(current.status, status)) {
+      throw new OrderStatusTransitionError(current.status, status)
+    }
+    const needsPayment = PAID_ORDER_STATUSES.includes(status)
+    if (needsPayment && !isPaidForProduction(current.paymentStatus)) {
+      throw new OrderNotPaidError(status)
+    }
+    const cancelling = status === "Cancelled"
+
+    // Matching on the previous status (and payment) keeps two concurrent updates from both applying.
+    // Cancelling needs the claim taken by claimCancellation; any other change waits until it is gone
+    const result = await collection.findOneAndUpdate(
+      {
+        orderId,
+        status: current.status,
+        ...(needsPayment ? { paymentStatus: { $in: PRODUCIBLE_PAYMENT_STATUSES } } : {}),
+        ...(cancelling ? { cancellingAt: { $exists: true } } : this.unclaimed()),
+      },
       {
         $set: {
           status,
+          ...(tracking ? { tracking } : {}),
           updatedAt: new Date(),
         },
+        ...(cancelling ? { $unset: { cancellingAt: "" } } : {}),
+        $push: {
+          statusHistory: {
+            from: current.status,
+            to: status,
+            changedBy,
+            changedAt: new Date(),
+            ...(note ? { note } : {}),
+          },
+        },
       },
       { returnDocument: "after" },
     )
 
     if (!result) return null
 
-    return {
-      id: result.orderId,
-      customer: result.customer,
-      date: result.date,
-      total: result.total,
-      status: result.status,
-      items: result.items,
-      shippingOption: result.shippingOption,
-      paymentMethod: result.paymentMethod,
-      paymentIntentId: result.paymentIntentId,
-      customerName: result.customerName,
-      customerEmail: result.customerEmail,
-      customerPhone: result.customerPhone,
-      customerAddress: result.customerAddress,
-      customerCity: result.customerCity,
-      customerPostalCode: result.customerPostalCode,
-      customerCountry: result.customerCountry,
-      createdAt: result.createdAt,
-      updatedAt: result.updatedAt,
-    }
+    return this.toOrder(result)
+  }
+
+  /**
+   * Claim an order for cancelling before its payment is undone. While the claim is held no other
+   * status change applies, so money only goes back for an order that then does get cancelled.
+   * Returns null when the order cannot be cancelled or another cancellation holds it.
+   */
+  static async claimCancellation(orderId: string): Promise<Order | null> {
+    const collection = await this.getCollection()
+    const cancellable = ORDER_STATUSES.filter((status) => canTransition(status, "Cancelled"))
+
+    const result = await collection.findOneAndUpdate(
+      { orderId, status: { $in: cancellable }, ...this.unclaimed() },
+      { $set: { cancellingAt: new Date(), updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+
+    if (!result) return null
+
+    return this.toOrder(result)
+  }
+
+  // Drop the claim of a cancellation whose payment could not be undone, so it can be retried
+  static async releaseCancellation(orderId: string): Promise<void> {
+    const collection = await this.getCollection()
+    await collection.updateOne({ orderId }, { $unset: { cancellingAt: "" }, $set: { updatedAt: new Date() } })
   }
 
   static async deleteOrder(orderId: string): Promise<boolean> {
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const { OrderService } = vi.hoisted(() => ({
+  OrderService: { getOrderByPaymentIntentId: vi.fn(), updatePaymentStatus: vi.fn() },
+}))
+
+vi.mock("@/lib/services/orderService", () => ({ OrderService }))
+vi.mock("@/lib/services/invoiceService", () => ({ InvoiceService: {} }))
+vi.mock("@/lib/services/couponService", () => ({ commitCouponReservation: vi.fn(), releaseCouponReservation: vi.fn() }))
+vi.mock("@/lib/services/giftCardService", () => ({ GiftCardService: {} }))
+vi.mock("@/lib/services/inventoryService", () => ({ InventoryService: {} }))
+vi.mock("@/lib/services/emailService", () => ({ EmailService: {} }))
+vi.mock("@/lib/services/refundService", () => ({ RefundService: {} }))
+vi.mock("@/lib/services/pricingService", () => ({
+  roundCurrency: (value: number) => Math.round(value * 100) / 100,
+  SHOP_CURRENCY: "SEK",
+}))
+vi.mock("@/lib/payments", () => ({ getPaymentProvider: vi.fn() }))
+
+import { PaymentService } from "@/lib/services/paymentService"
+
+const paid = (amount: number, currency: string) => ({
+  id: "evt_1",
+  reference: "pi_1",
+  status: "paid" as const,
+  occurredAt: new Date(),
+  amount,
+  currency,
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, "error").mockImplementation(() => {})
+  // 500 SEK, of which a gift card paid 200
+  OrderService.getOrderByPaymentIntentId.mockResolvedValue({
+    id: "PW-2026-000001-1",
+    total: 500,
+    paymentMethod: "card",
+    paymentStatus: "pending",
+    tenders: [
+      { method: "gift_card", amount: 200, giftCardId: "gc1" },
+      { method: "card", amount: 300 },
+    ],
+  })
+  OrderService.updatePaymentStatus.mockResolvedValue(null)
+})
+
+describe("PaymentService.applyPaymentEvent", () => {
+  it.each([
+    ["another currency", paid(300, "IDR")],
+    ["less than the provider's share", paid(3, "SEK")],
+  ])("does not settle a payment in %s", async (_, event) => {
+    await PaymentService.applyPaymentEvent(event)
+    expect(OrderService.updatePaymentStatus).toHaveBeenCalledTimes(1)
+    expect(OrderService.updatePaymentStatus).toHaveBeenCalledWith(
+      "pi_1",
+      "pending",
+      { paymentError: expect.any(String) },
+      expect.any(Array),
+    )
+  })
+
+  it("settles a payment of the provider's share in the shop's currency", async () => {
+    await PaymentService.applyPaymentEvent(paid(300, "sek"))
+    expect(OrderService.updatePaymentStatus).toHaveBeenCalledWith("pi_1", "paid", expect.anything(), expect.any(Array))
+  })
+})
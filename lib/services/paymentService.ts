@@ -0,0 +1,267 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { OrderService } from "@/lib/services/orderService"
+import { InvoiceService } from "@/lib/services/invoiceService"
+import { commitCouponReservation, releaseCouponReservation } from "@/lib/services/couponService"
+import { GiftCardService } from "@/lib/services/giftCardService"
+import { InventoryService } from "@/lib/services/inventoryService"
+import { EmailService } from "@/lib/services/emailService"
+import { RefundService } from "@/lib/services/refundService"
+import { roundCurrency, SHOP_CURRENCY } from "@/lib/services/pricingService"
+import { getPaymentProvider, type PaymentEvent, type PaymentLine, type ProviderPayment } from "@/lib/payments"
+import type { Order, PaymentStatus } from "@/lib/models/Order"
+import type { TaxBreakdown } from "@/lib/models/Tax"
+
+// A payment outcome only moves an order forward from these states, so late or repeated events are ignored
+const SETTLEABLE_STATUSES: Array<PaymentStatus | undefined> = [undefined, "pending", "failed"]
+
+export class PaymentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "PaymentError"
+  }
+}
+
+function confirmationSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is required to sign payment confirmation tokens")
+  }
+  return secret
+}
+
+export class PaymentService {
+  /**
+   * Proof that the caller started the payment for an order, handed out when it is created.
+   * Guests have no account to own the order with, so confirming a payment needs this token.
+   */
+  static confirmationToken(orderId: string): string {
+    return createHmac("sha256", confirmationSecret()).update(`confirm-payment.${orderId}`).digest("base64url")
+  }
+
+  static isConfirmationToken(orderId: string, token: unknown): boolean {
+    if (typeof token !== "string") return false
+    const expected = Buffer.from(this.confirmationToken(orderId))
+    const given = Buffer.from(token)
+    return given.length === expected.length && timingSafeEqual(given, expected)
+  }
+
+  /**
+   * Summarise an order total as one line per tax rate. Whatever the tax breakdown does
+   * not cover (untaxed shipping, rounding) goes on a final 0% line so the lines add up.
+   * Gift cards and store credit paying part of the order are deducted on a last line.
+   */
+  static paymentLines(
+    { total, taxBreakdown }: { total: number; taxBreakdown?: TaxBreakdown },
+    giftCardAmount: number = 0,
+  ): PaymentLine[] {
+    const lines: PaymentLine[] = (taxBreakdown?.lines || [])
+      .map((line) => ({
+        name: line.rate > 0 ? `${line.label} ${Math.round(line.rate * 10000) / 100}%` : line.label,
+        amount: roundCurrency(line.netAmount + line.taxAmount),
+        taxAmount: line.taxAmount,
+        taxRate: line.rate,
+      }))
+      .filter((line) => line.amount !== 0)
+
+    const remainder = roundCurrency(total - lines.reduce((sum, line) => sum + line.amount, 0))
+    if (remainder !== 0) {
+      lines.push({ name: lines.length ? "Shipping and adjustments" : "Order total", amount: remainder, taxAmount: 0, taxRate: 0 })
+    }
+    if (giftCardAmount > 0) {
+      lines.push({ name: "Gift card", amount: -roundCurrency(giftCardAmount), taxAmount: 0, taxRate: 0 })
+    }
+    return lines
+  }
+
+  /**
+   * Everything that follows a completed payment: the coupon use, gift card holds and stock
+   * reservations become final, the invoice is issued and the customer gets the order
+   * confirmation. Each step is idempotent, so repeated events are safe.
+   */
+  static async settlePaidOrder(order: Order): Promise<void> {
+    await commitCouponReservation(order.id)
+    await GiftCardService.captureOrder(order.id)
+    await InventoryService.commitOrder(order.id)
+
+    // The customer has paid, so a failed invoice must not fail the payment; it is retried later
+    try {
+      await InvoiceService.issueInvoice(order)
+      if (order.invoicePending) await OrderService.setInvoicePending(order.id, false)
+    } catch (error) {
+      console.error(`Failed to issue invoice for order ${order.id}, retrying later:`, error)
+      await OrderService.setInvoicePending(order.id, true)
+    }
+    await EmailService.sendOrderPlaced(order)
+  }
+
+  /**
+   * Issue the invoices that failed when their orders were paid. Runs after each payment
+   * webhook and when staff retry from the invoices API; returns how many were issued.
+   */
+  static async retryPendingInvoices(): Promise<number> {
+    let issued = 0
+    for (const order of await OrderService.getOrdersWithPendingInvoice()) {
+      try {
+        await InvoiceService.issueForOrder(order)
+        await OrderService.setInvoicePending(order.id, false)
+        issued++
+      } catch (error) {
+        console.error(`Retrying the invoice for order ${order.id} failed:`, error)
+      }
+    }
+    return issued
+  }
+
+  // A failed or canceled payment gives back the reserved coupon use, gift card balance and stock
+  /**
+   * Undo the payment of an order that is being cancelled. Unpaid payments are stopped at the
+   * provider and the coupon use, gift card balance and stock held for them are released; paid
+   * orders are refunded in full, with the same reservation that guards manual refunds.
+   */
+  static async cancelOrderPayment(order: Order, cancelledBy: string): Promise<void> {
+    let paymentStatus = order.paymentStatus
+    if (order.paymentIntentId && (!paymentStatus || paymentStatus === "pending")) {
+      const payment = await getPaymentProvider(order.paymentMethod).cancelPayment(order.paymentIntentId)
+      if (payment.status === "paid") {
+        // The customer paid before the cancel reached the provider, so settle the payment and refund it
+        await this.applyPaymentEvent({
+          id: `cancel_${order.id}_paid`,
+          reference: payment.reference,
+          status: "paid",
+          occurredAt: new Date(),
+          amount: payment.amount,
+          currency: payment.currency,
+        })
+        paymentStatus = "paid"
+      } else {
+        await OrderService.updatePaymentStatus(order.paymentIntentId, "canceled", {}, SETTLEABLE_STATUSES)
+        paymentStatus = "canceled"
+      }
+    }
+
+    if (paymentStatus === "paid" || paymentStatus === "partially_refunded") {
+      const current = await OrderService.getOrderById(order.id)
+      if (current && RefundService.remainingRefundable(current) > 0) {
+        await RefundService.refundOrder(order.id, { type: "full", reason: "Order cancelled", restock: false }, cancelledBy)
+      }
+    } else if (paymentStatus !== "refunded") {
+      await this.releaseUnpaidOrder(order.id)
+    }
+  }
+
+  private static async releaseUnpaidOrder(orderId: string): Promise<void> {
+    await releaseCouponReservation(orderId)
+    await GiftCardService.releaseOrder(orderId)
+    await InventoryService.releaseOrder(orderId)
+  }
+
+  /**
+   * Apply a provider-reported payment state to the order it belongs to, settling it once
+   * paid and releasing what it held once the payment failed or was canceled.
+   */
+  static async applyPaymentEvent(event: PaymentEvent): Promise<Order | null> {
+    switch (event.status) {
+      case "paid": {
+        const mismatch = await this.collectedMismatch(event)
+        if (mismatch) {
+          // Left for staff to sort out with the provider; the order is neither settled nor released
+          console.error(`Payment ${event.reference} not settled: ${mismatch}`)
+          return OrderService.updatePaymentStatus(event.reference, "pending", { paymentError: mismatch }, SETTLEABLE_STATUSES)
+        }
+        const order = await OrderService.updatePaymentStatus(
+          event.reference,
+          "paid",
+          { paidAt: event.occurredAt },
+          SETTLEABLE_STATUSES,
+        )
+        // A retried delivery finds the order already paid and settles it again
+        const paidOrder = order ?? (await OrderService.getOrderByPaymentIntentId(event.reference))
+        if (paidOrder?.paidAt) {
+          await this.settlePaidOrder(paidOrder)
+        }
+        return order
+      }
+      case "failed": {
+        const order = await OrderService.updatePaymentStatus(
+          event.reference,
+          "failed",
+          { paymentError: event.error || "Payment failed" },
+          SETTLEABLE_STATUSES,
+        )
+        if (order) await this.releaseUnpaidOrder(order.id)
+        return order
+      }
+      case "canceled": {
+        const order = await OrderService.updatePaymentStatus(event.reference, "canceled", {}, SETTLEABLE_STATUSES)
+        if (order) await this.releaseUnpaidOrder(order.id)
+        return order
+      }
+      case "refunded":
+      case "partially_refunded":
+        return OrderService.updatePaymentStatus(event.reference, event.status)
+      default:
+        return null
+    }
+  }
+
+  // Why a reported payment does not pay for its order, or null when it does or the provider reports no amount
+  private static async collectedMismatch(event: PaymentEvent): Promise<string | null> {
+    if (event.amount === undefined && event.currency === undefined) return null
+    const order = await OrderService.getOrderByPaymentIntentId(event.reference)
+    if (!order) return null
+
+    if (event.currency !== undefined && event.currency.toUpperCase() !== SHOP_CURRENCY) {
+      return `Paid in ${event.currency.toUpperCase()} instead of ${SHOP_CURRENCY}`
+    }
+    // Gift cards pay their part up front, so the provider is owed only its own tender
+    const expected = order.tenders?.find((tender) => tender.method === order.paymentMethod)?.amount ?? order.total
+    if (event.amount !== undefined && roundCurrency(event.amount) !== roundCurrency(expected)) {
+      return `Received ${event.amount.toFixed(2)} ${SHOP_CURRENCY} instead of ${expected.toFixed(2)}`
+    }
+    return null
+  }
+
+  /**
+   * Ask the provider for the current state of an order's payment, completing it with the
+   * customer's approval where the provider needs that (Klarna's authorization token).
+   * Used when the customer returns to the shop, so it does not have to wait for a webhook.
+   */
+  static async confirmOrderPayment(
+    orderId: string,
+    params: Record<string, string> = {},
+  ): Promise<{ order: Order; payment: ProviderPayment }> {
+    let order = await OrderService.getOrderById(orderId)
+    if (!order) {
+      throw new PaymentError("Order not found", 404)
+    }
+    if (!order.paymentIntentId) {
+      throw new PaymentError("Order has no payment to confirm")
+    }
+    // Klarna only takes the money when the payment is confirmed, so cancelled orders must not get there
+    if (order.status === "Cancelled" && (!order.paymentStatus || order.paymentStatus === "pending" || order.paymentStatus === "canceled")) {
+      throw new PaymentError("This order has been cancelled", 409)
+    }
+
+    const provider = getPaymentProvider(order.paymentMethod)
+    const payment = await provider.confirmPayment(order.paymentIntentId, params)
+
+    if (payment.reference !== order.paymentIntentId) {
+      order = (await OrderService.updatePaymentReference(orderId, order.paymentIntentId, payment.reference)) ?? order
+    }
+
+    if (payment.status !== "pending") {
+      const updated = await this.applyPaymentEvent({
+        id: `confirm_${orderId}_${payment.status}`,
+        reference: payment.reference,
+        status: payment.status,
+        occurredAt: new Date(),
+        error: payment.error,
+        amount: payment.amount,
+        currency: payment.currency,
+      })
+      order = updated ?? (await OrderService.getOrderById(orderId)) ?? order
+    }
+
+    return { order, payment }
+  }
+}
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const { ProductService } = vi.hoisted(() => ({
+  ProductService: { getProductById: vi.fn(), getProductByVariationId: vi.fn() },
+}))
+
+vi.mock("@/lib/mongodb", () => ({ getDatabase: vi.fn() }))
+vi.mock("@/lib/services/productService", () => ({ ProductService }))
+
+import { PricingError, PricingService } from "@/lib/services/pricingService"
+
+const shirt = { id: "p1", name: "Shirt", price: 100, categoryId: "c1" }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ProductService.getProductByVariationId.mockResolvedValue(shirt)
+})
+
+describe("PricingService.priceLine", () => {
+  it("prices whole quantities", async () => {
+    expect(await PricingService.priceLine({ productId: "p1", quantity: 3 })).toMatchObject({ quantity: 3, lineTotal: 300 })
+    expect(
+      await PricingService.priceLine({
+        productId: "p1",
+        quantity: 1,
+        selectedSizes: [
+          { size: "M", quantity: 2 },
+          { size: "L", quantity: 0 },
+        ],
+      }),
+    ).toMatchObject({ quantity: 2, lineTotal: 200 })
+  })
+
+  it.each([0, -1, 0.01, 1001, "5", NaN])("rejects a line quantity of %s", async (quantity) => {
+    await expect(PricingService.priceLine({ productId: "p1", quantity: quantity as number })).rejects.toThrow(PricingError)
+  })
+
+  it.each([0.01, -2, "5", 1001])("rejects a size quantity of %s", async (quantity) => {
+    await expect(
+      PricingService.priceLine({ productId: "p1", quantity: 1, selectedSizes: [{ size: "M", quantity: quantity as number }] }),
+    ).rejects.toThrow(PricingError)
+  })
+})
@@ -0,0 +1,360 @@
+import { ObjectId } from "mongodb"
+import { ProductService } from "@/lib/services/productService"
+import { TemplateService } from "@/lib/services/templateService"
+import { validateCoupon } from "@/lib/services/couponService"
+import { ShippingService } from "@/lib/services/shippingService"
+import { TaxService } from "@/lib/services/taxService"
+import { PromotionService, type PromotionCandidate } from "@/lib/services/promotionService"
+import { calculateDesignElementCosts } from "@/lib/utils/designPricing"
+import type { Product, Variation } from "@/lib/models/Product"
+import type { Coupon } from "@/types"
+import type { CouponCustomer } from "@/lib/models/Coupon"
+import type { ShippingDestination, ShippingRateQuote } from "@/lib/models/Shipping"
+import type { TaxBreakdown, TaxClass } from "@/lib/models/Tax"
+import type { AppliedDiscount } from "@/lib/models/Promotion"
+import type { Order } from "@/lib/models/Order"
+
+// Largest difference (in SEK) tolerated between a submitted total and the server quote
+export const PRICE_TOLERANCE = 0.01
+
+export interface QuoteLineInput {
+  productId?: string
+  id?: string
+  name?: string
+  quantity: number
+  selectedSizes?: Array<{ size: string; quantity: number }>
+  designContext?: {
+    selectedVariation?: { variationId?: string }
+    selectedTemplate?: { id?: string } | null
+  }
+}
+
+export interface QuoteInput {
+  items: QuoteLineInput[]
+  shippingMethodId?: string
+  shippingOption?: string // Legacy name for shippingMethodId
+  destination?: ShippingDestination
+  couponCode?: string
+  customer?: CouponCustomer // Checked against per-customer coupon limits
+  vatNumber?: string // Business customers in other EU countries get reverse charge
+}
+
+export interface QuotedLine {
+  productId: string
+  variationId?: string
+  categoryId: string
+  name: string
+  quantity: number
+  unitPrice: number // Average per-unit price including template cost
+  templatePrice: number
+  weight: number // Shipping weight per unit in grams
+  taxClass: TaxClass
+  selectedSizes?: Array<{ size: string; quantity: number; price: number }>
+  lineTotal: number
+  discountAmount: number // Promotions and coupon on this line
+}
+
+export interface OrderQuote {
+  lines: QuotedLine[]
+  subtotal: number
+  discountAmount: number // Discounts on the goods; free shipping shows up as a zero shippingCost
+  discounts: AppliedDiscount[] // Each rule that gave a discount, shipping included
+  coupon?: Pick<Coupon, "id" | "code" | "discountType" | "discountValue">
+  couponMessage?: string
+  vatRate: number // Single rate applied, or the effective rate when lines have different rates
+  vatAmount: number
+  taxBreakdown: TaxBreakdown
+  shippingCost: number
+  shippingMethod: ShippingRateQuote
+  shippingRates: ShippingRateQuote[] // Every method available for the destination, cheapest first
+  total: number
+  currency: typeof SHOP_CURRENCY
+}
+
+// Most units of one product a single order line can hold
+export const MAX_LINE_QUANTITY = 1000
+
+// Whole units only; fractions would be charged and reserved as such, and strings add up as text
+function isQuantity(value: unknown, min: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= MAX_LINE_QUANTITY
+}
+
+// Every price in the shop, and so every charge, is in this currency
+export const SHOP_CURRENCY = "SEK"
+
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PricingError"
+  }
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export class PricingService {
+  private static templateService = new TemplateService()
+
+  // Resolve the product a cart line refers to; the id may be a product id or a variation id
+  private static async resolveProduct(line: QuoteLineInput): Promise<{ product: Product; variation?: Variation }> {
+    const candidateId = line.productId || line.id
+    if (!candidateId) {
+      throw new PricingError("Cart item is missing a product reference")
+    }
+
+    let product: Product | null = null
+    if (ObjectId.isValid(candidateId)) {
+      product = await ProductService.getProductById(candidateId)
+    }
+    if (!product) {
+      product = await ProductService.getProductByVariationId(candidateId)
+    }
+    if (!product) {
+      throw new PricingError(`Product ${candidateId} no longer exists`)
+    }
+
+    const variationId = line.designContext?.selectedVariation?.variationId || candidateId
+    const variation = product.hasVariations
+      ? product.variations?.find((v) => v.id === variationId) ?? product.variations?.[0]
+      : undefined
+
+    return { product, variation }
+  }
+
+  private static unitPriceForSize(product: Product, variation: Variation | undefined, size?: string): number {
+    const basePrice = Number(variation?.price ?? product.price) || 0
+    if (!size || !variation?.sizePrices?.length) return basePrice
+
+    const sizePrice = variation.sizePrices.find((sp) => sp.size === size)
+    if (!sizePrice || sizePrice.useBasePrice) return basePrice
+    return Number(sizePrice.price) || basePrice
+  }
+
+  private static async templatePrice(line: QuoteLineInput): Promise<number> {
+    const templateId = line.designContext?.selectedTemplate?.id
+    if (!templateId) return 0
+
+    const template = await this.templateService.getTemplateById(templateId)
+    if (!template) return 0
+
+    return calculateDesignElementCosts(template, null).totalCost
+  }
+
+  static async priceLine(line: QuoteLineInput): Promise<QuotedLine> {
+    const { product, variation } = await this.resolveProduct(line)
+    const templatePrice = await this.templatePrice(line)
+
+    const selectedSizes = Array.isArray(line.selectedSizes) ? line.selectedSizes : []
+    if (selectedSizes.some((s) => !isQuantity(s?.quantity, 0))) {
+      throw new PricingError(`Invalid quantity for ${product.name}`)
+    }
+    const sizes = selectedSizes.filter((s) => s.quantity > 0)
+    const quantity = sizes.length > 0 ? sizes.reduce((sum, s) => sum + s.quantity, 0) : line.quantity
+    if (!isQuantity(quantity, 1)) {
+      throw new PricingError(`Invalid quantity for ${product.name}`)
+    }
+
+    const pricedSizes = sizes.map((s) => ({
+      size: s.size,
+      quantity: s.quantity,
+      price: roundCurrency(this.unitPriceForSize(product, variation, s.size) + templatePrice),
+    }))
+
+    const lineTotal =
+      pricedSizes.length > 0
+        ? pricedSizes.reduce((sum, s) => sum + s.price * s.quantity, 0)
+        : (this.unitPriceForSize(product, variation) + templatePrice) * quantity
+
+    return {
+      productId: product.id,
+      variationId: variation?.id,
+      categoryId: product.categoryId,
+      name: product.name,
+      quantity,
+      unitPrice: roundCurrency(lineTotal / quantity),
+      templatePrice,
+      weight: Number(product.weight) || 0,
+      taxClass: product.taxClass || "standard",
+      selectedSizes: pricedSizes.length > 0 ? pricedSizes : undefined,
+      lineTotal: roundCurrency(lineTotal),
+      discountAmount: 0,
+    }
+  }
+
+  static async quoteOrder(input: QuoteInput): Promise<OrderQuote> {
+    if (!Array.isArray(input.items) || input.items.length === 0) {
+      throw new PricingError("Cart is empty")
+    }
+
+    const lines = await Promise.all(input.items.map((line) => this.priceLine(line)))
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0))
+
+    const promotionLines = lines.map((line) => ({
+      productId: line.productId,
+      categoryId: line.categoryId,
+      quantity: line.quantity,
+      lineTotal: line.lineTotal,
+    }))
+    const candidates: PromotionCandidate[] = (await PromotionService.getActivePromotions()).map((promotion) =>
+      PromotionService.candidateForPromotion(promotion),
+    )
+
+    let coupon: OrderQuote["coupon"]
+    let couponMessage: string | undefined
+    if (input.couponCode) {
+      const result = await validateCoupon(input.couponCode, subtotal, promotionLines, input.customer)
+      if (result.isValid && result.coupon) {
+        candidates.push(PromotionService.candidateForCoupon(result.coupon))
+        coupon = {
+          id: result.coupon.id,
+          code: result.coupon.code,
+          discountType: result.coupon.discountType,
+          discountValue: result.coupon.discountValue,
+        }
+      } else {
+        couponMessage = result.message
+      }
+    }
+
+    const promotions = PromotionService.applyRules(promotionLines, candidates)
+    const couponRejection = promotions.rejected.find((r) => r.candidate.source === "coupon")
+    if (coupon && couponRejection) {
+      couponMessage = couponRejection.reason
+      coupon = undefined
+    }
+    lines.forEach((line, index) => {
+      line.discountAmount = promotions.lineDiscounts[index]
+    })
+    const discountAmount = roundCurrency(Math.min(subtotal, promotions.lineDiscounts.reduce((sum, amount) => sum + amount, 0)))
+
+    const subtotalAfterDiscount = Math.max(0, subtotal - discountAmount)
+
+    const shippingRates = await ShippingService.getRates(input.destination || {}, {
+      weight: lines.reduce((sum, line) => sum + line.weight * line.quantity, 0),
+      itemCount: lines.reduce((sum, line) => sum + line.quantity, 0),
+      orderValue: subtotalAfterDiscount,
+    })
+    if (shippingRates.length === 0) {
+      throw new PricingError("We do not ship this order to the selected address")
+    }
+
+    // Fall back to the cheapest method when the requested one is not offered for this address
+    const requestedMethodId = input.shippingMethodId || input.shippingOption
+    const shippingMethod = shippingRates.find((rate) => rate.methodId === requestedMethodId) ?? shippingRates[0]
+    let shippingCost = roundCurrency(shippingMethod.price)
+
+    const discounts = [...promotions.discounts]
+    const freeShipping = promotions.freeShipping
+    if (freeShipping) {
+      const methodIncluded = !freeShipping.shippingMethodIds?.length || freeShipping.shippingMethodIds.includes(shippingMethod.methodId)
+      const index = discounts.indexOf(freeShipping.discount)
+      if (methodIncluded && shippingCost > 0) {
+        discounts[index] = { ...freeShipping.discount, amount: shippingCost }
+        shippingCost = 0
+      } else {
+        // Not offered for the chosen method, or shipping is free anyway
+        discounts.splice(index, 1)
+      }
+    }
+
+    const { breakdown: taxBreakdown, total } = await TaxService.calculate({
+      // Discounts are already taken off the lines they apply to
+      lines: lines.map((line) => ({ amount: line.lineTotal - line.discountAmount, taxClass: line.taxClass })),
+      discountAmount: 0,
+      shippingAmount: shippingCost,
+      country: input.destination?.country,
+      vatNumber: input.vatNumber,
+    })
+    const rates = new Set(taxBreakdown.lines.map((line) => line.rate))
+    const vatRate =
+      rates.size === 1
+        ? [...rates][0]
+        : taxBreakdown.netTotal > 0
+          ? Math.round((taxBreakdown.taxTotal / taxBreakdown.netTotal) * 10000) / 10000
+          : 0
+
+    return {
+      lines,
+      subtotal,
+      discountAmount,
+      discounts,
+      coupon,
+      couponMessage,
+      vatRate,
+      vatAmount: taxBreakdown.taxTotal,
+      taxBreakdown,
+      shippingCost,
+      shippingMethod,
+      shippingRates,
+      total,
+      currency: SHOP_CURRENCY,
+    }
+  }
+
+  // Overwrite client-submitted line prices and totals with the quoted values
+  static applyQuote(items: any[], quote: OrderQuote) {
+    return {
+      items: (items || []).map((item: any, index: number) => {
+        const line = quote.lines[index]
+        return {
+          ...item,
+          name: line.name,
+          quantity: line.quantity,
+          price: line.unitPrice,
+          selectedSizes: line.selectedSizes ?? item.selectedSizes,
+          productId: line.productId,
+          taxClass: line.taxClass,
+          discountAmount: line.discountAmount,
+        }
+      }),
+      total: quote.total,
+      subtotal: quote.subtotal,
+      discountAmount: quote.discountAmount,
+      discounts: quote.discounts,
+      vatAmount: quote.vatAmount,
+      taxBreakdown: quote.taxBreakdown,
+      shippingCost: quote.shippingCost,
+      shippingOption: quote.shippingMethod.methodId,
+      shippingMethod: {
+        id: quote.shippingMethod.methodId,
+        name: quote.shippingMethod.name,
+        carrier: quote.shippingMethod.carrier,
+        price: quote.shippingMethod.price,
+        minDeliveryDays: quote.shippingMethod.minDeliveryDays,
+        maxDeliveryDays: quote.shippingMethod.maxDeliveryDays,
+      },
+      appliedCoupon: quote.coupon
+        ? {
+            code: quote.coupon.code,
+            discountAmount: quote.discounts.find((d) => d.source === "coupon")?.amount ?? 0,
+            discountType: quote.coupon.discountType,
+          }
+        : null,
+    }
+  }
+
+  /**
+   * What an order line cost after discounts. Lines carry their own share since promotions
+   * target specific lines; older orders spread the order discount pro rata.
+   */
+  static discountedItemTotal(order: Order, index: number): number {
+    const item = order.items[index]
+    const gross = item.price * item.quantity
+    if (item.discountAmount !== undefined) return gross - item.discountAmount
+
+    const subtotal = order.subtotal ?? order.items.reduce((sum, i) => sum + i.price * i.quantity, 0)
+    const discountRatio = subtotal > 0 ? Math.min(1, (order.discountAmount || 0) / subtotal) : 0
+    return gross * (1 - discountRatio)
+  }
+
+  // Destination used for shipping (and tax) from the customer fields on an order payload
+  static destinationFor(orderData: any): ShippingDestination {
+    return { country: orderData?.customerCountry, postalCode: orderData?.customerPostalCode }
+  }
+
+  static totalMatches(submittedTotal: unknown, quote: OrderQuote): boolean {
+    const numeric = Number(submittedTotal)
+    return !Number.isNaN(numeric) && Math.abs(numeric - quote.total) <= PRICE_TOLERANCE
+  }
+}
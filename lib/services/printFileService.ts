@@ -0,0 +1,343 @@
+import { createCanvas, type CanvasRenderingContext2D as NodeContext } from "canvas"
+import { StaticCanvas } from "fabric/node"
+import { ObjectId } from "mongodb"
+import type { Order } from "@/lib/models/Order"
+import type { PrintArea, Product } from "@/lib/models/Product"
+import { ProductService } from "@/lib/services/productService"
+import { AssetService } from "@/lib/services/assetService"
+import {
+  DEFAULT_BLEED_MM,
+  DEFAULT_PRINT_DPI,
+  DESIGN_CANVAS_SIZE,
+  canvasRectOf,
+  mmToPx,
+  printAreaFor,
+  sheetLayout,
+  type SheetLayout,
+} from "@/lib/utils/printArea"
+
+export type PrintFileFormat = "pdf" | "png"
+
+// Largest PNG sheet rendered in one go; a 600 dpi A3 sheet is about 45 million pixels
+const MAX_PRINT_PIXELS = 80_000_000
+const POINTS_PER_MM = 72 / 25.4
+
+export class PrintFileError extends Error {
+  constructor(message: string, public status: number = 422) {
+    super(message)
+    this.name = "PrintFileError"
+  }
+}
+
+// One designed angle of an order line that can be rendered for production
+export interface PrintJob {
+  itemIndex: number
+  itemName: string
+  angle: string
+  area: PrintArea
+  dpi: number
+  bleedMm: number
+}
+
+// A designed angle that cannot be rendered, and why
+export interface SkippedPrintJob {
+  itemIndex: number
+  itemName: string
+  angle: string
+  reason: string
+}
+
+export interface PrintFile {
+  filename: string
+  contentType: string
+  body: Buffer
+}
+
+type OrderItem = Order["items"][number]
+
+// The canvas of every angle the customer designed; older orders only carry the angle they ended on
+function designedAngles(item: OrderItem): Array<{ angle: string; canvasJSON: any }> {
+  const parse = (json: any) => (typeof json === "string" ? JSON.parse(json) : json)
+  const angles = (item.designContext?.allDesignedAngles || [])
+    .filter((entry: any) => entry?.angle && entry.canvasJSON)
+    .map((entry: any) => ({ angle: entry.angle as string, canvasJSON: parse(entry.canvasJSON) }))
+    .filter((entry: any) => entry.canvasJSON?.objects?.length)
+  if (angles.length > 0) return angles
+
+  if (item.designCanvasJSON) {
+    return [{ angle: item.designContext?.viewMode || "front", canvasJSON: parse(item.designCanvasJSON) }]
+  }
+  return []
+}
+
+const ASSET_PATH = /^\/api\/assets\/([^/]+)$/
+const EMBEDDED_IMAGE = /^data:image\/[\w.+-]+;base64,/
+
+/**
+ * Inline every image of a design from asset storage, so rendering never fetches a URL. Browsers
+ * save image sources as absolute URLs, so only the asset id in the path is used. Older designs
+ * may still embed data URLs; anything else is rejected.
+ */
+async function resolveSources(node: any): Promise<any> {
+  if (Array.isArray(node)) return Promise.all(node.map(resolveSources))
+  if (!node || typeof node !== "object") return node
+
+  const copy: Record<string, any> = {}
+  for (const [key, value] of Object.entries(node)) {
+    const isSource = key === "src" || (key === "source" && node.type === "pattern")
+    copy[key] = isSource && typeof value === "string" ? await inlineImage(value) : await resolveSources(value)
+  }
+  // Cached objects are drawn as bitmaps; drawing them directly keeps text and paths vector in PDFs
+  if ("type" in copy) copy.objectCaching = false
+  return copy
+}
+
+// The asset id of an /api/assets URL, relative or on any host; the host is never contacted
+function assetIdOf(src: string): string | undefined {
+  try {
+    const url = new URL(src, "http://assets.invalid")
+    if (url.protocol !== "http:" && url.protocol !== "https:") return undefined
+    return url.pathname.match(ASSET_PATH)?.[1]
+  } catch {
+    return undefined
+  }
+}
+
+async function inlineImage(src: string): Promise<string> {
+  if (EMBEDDED_IMAGE.test(src)) return src
+
+  const id = assetIdOf(src)
+  if (!id) {
+    throw new PrintFileError("The design uses an image that is not stored with the shop and cannot be printed")
+  }
+
+  const asset = await AssetService.get(id)
+  if (!asset) {
+    throw new PrintFileError("An image in the design is missing from asset storage")
+  }
+  return `data:${asset.contentType};base64,${asset.body.toString("base64")}`
+}
+
+function slugLine(order: Order, job: PrintJob): string {
+  const item = order.items[job.itemIndex]
+  const sizes = Array.isArray(item.selectedSizes) && item.selectedSizes.length > 0
+    ? item.selectedSizes.map((s: any) => `${s.size} x ${s.quantity}`).join(", ")
+    : item.size || "-"
+  return [
+    `Order ${order.id}`,
+    `Item ${job.itemIndex + 1}/${order.items.length}: ${item.name}`,
+    `${job.angle}`,
+    `${job.area.widthMm} x ${job.area.heightMm} mm + ${job.bleedMm} mm bleed @ ${job.dpi} dpi`,
+    `Qty ${item.quantity} (${sizes})`,
+  ].join("  |  ")
+}
+
+type Point = { x: number; y: number }
+
+/**
+ * Trace a polygon grown by the bleed: the polygon, a band along each edge and a disc on each
+ * corner. Every part runs the same way round, so the nonzero fill rule clips to their union.
+ */
+function tracePolygonWithBleed(ctx: NodeContext, polygon: Point[], bleed: number) {
+  const traceLoop = (corners: Point[]) => {
+    let area = 0
+    corners.forEach((a, i) => {
+      const b = corners[(i + 1) % corners.length]
+      area += a.x * b.y - b.x * a.y
+    })
+    const ordered = area < 0 ? [...corners].reverse() : corners
+    ctx.moveTo(ordered[0].x, ordered[0].y)
+    for (const corner of ordered.slice(1)) ctx.lineTo(corner.x, corner.y)
+    ctx.closePath()
+  }
+
+  traceLoop(polygon)
+  if (bleed <= 0) return
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length]
+    const length = Math.hypot(b.x - a.x, b.y - a.y)
+    if (length > 0) {
+      const nx = ((b.y - a.y) / length) * bleed
+      const ny = (-(b.x - a.x) / length) * bleed
+      traceLoop([
+        { x: a.x + nx, y: a.y + ny },
+        { x: b.x + nx, y: b.y + ny },
+        { x: b.x - nx, y: b.y - ny },
+        { x: a.x - nx, y: a.y - ny },
+      ])
+    }
+    ctx.moveTo(a.x + bleed, a.y)
+    ctx.arc(a.x, a.y, bleed, 0, 2 * Math.PI)
+  })
+}
+
+export class PrintFileService {
+  // Order lines store either the product id or, from the design tool, a variation id
+  private static async productForItem(item: OrderItem): Promise<Product | null> {
+    if (!item.productId) return null
+    if (ObjectId.isValid(item.productId)) {
+      const product = await ProductService.getProductById(item.productId)
+      if (product) return product
+    }
+    return ProductService.getProductByVariationId(item.productId)
+  }
+
+  private static jobFor(product: Product | null, item: OrderItem, itemIndex: number, angle: string): PrintJob | SkippedPrintJob {
+    const area = printAreaFor(product, angle)
+    if (!area) {
+      const reason = product ? `${product.name} has no print area for the ${angle} side` : "The product no longer exists"
+      return { itemIndex, itemName: item.name, angle, reason }
+    }
+    return {
+      itemIndex,
+      itemName: item.name,
+      angle,
+      area,
+      dpi: area.dpi ?? DEFAULT_PRINT_DPI,
+      bleedMm: area.bleedMm ?? DEFAULT_BLEED_MM,
+    }
+  }
+
+  /**
+   * Every designed angle of the order with the print area it is rendered into. Angles whose
+   * product has no print area for them are returned as skipped so operations can fix the product.
+   */
+  static async listPrintJobs(order: Order): Promise<{ jobs: PrintJob[]; skipped: SkippedPrintJob[] }> {
+    const jobs: PrintJob[] = []
+    const skipped: SkippedPrintJob[] = []
+
+    for (const [itemIndex, item] of order.items.entries()) {
+      const angles = designedAngles(item)
+      if (angles.length === 0) continue
+
+      const product = await this.productForItem(item)
+      for (const { angle } of angles) {
+        const job = this.jobFor(product, item, itemIndex, angle)
+        if ("reason" in job) skipped.push(job)
+        else jobs.push(job)
+      }
+    }
+
+    return { jobs, skipped }
+  }
+
+  /**
+   * Render one designed angle of an order line at its physical size, with bleed, crop marks
+   * and a slug line. PDFs are in points with text and shapes kept as vectors; PNGs are
+   * rasterised at the print area's DPI (or `dpi` when given) and tagged with it.
+   */
+  static async renderPrintFile(
+    order: Order,
+    itemIndex: number,
+    angle: string,
+    { format, dpi }: { format: PrintFileFormat; dpi?: number },
+  ): Promise<PrintFile> {
+    const item = order.items[itemIndex]
+    if (!item) {
+      throw new PrintFileError("Order item not found", 404)
+    }
+    const design = designedAngles(item).find((entry) => entry.angle === angle)
+    if (!design) {
+      throw new PrintFileError(`Item ${itemIndex + 1} has no design on the ${angle} side`, 404)
+    }
+
+    const job = this.jobFor(await this.productForItem(item), item, itemIndex, angle)
+    if ("reason" in job) {
+      throw new PrintFileError(job.reason)
+    }
+    if (dpi) job.dpi = dpi
+
+    const layout = sheetLayout(job.area, job.bleedMm)
+    const unitsPerMm = format === "pdf" ? POINTS_PER_MM : job.dpi / 25.4
+    const width = format === "pdf" ? layout.width * POINTS_PER_MM : mmToPx(layout.width, job.dpi)
+    const height = format === "pdf" ? layout.height * POINTS_PER_MM : mmToPx(layout.height, job.dpi)
+    if (format === "png" && width * height > MAX_PRINT_PIXELS) {
+      throw new PrintFileError(`The ${angle} print area is too large to render as PNG at ${job.dpi} dpi; export it as PDF`)
+    }
+
+    const sheet = format === "pdf" ? createCanvas(width, height, "pdf") : createCanvas(width, height)
+    const ctx = sheet.getContext("2d")
+
+    await this.drawArtwork(ctx, design.canvasJSON, job.area, layout, unitsPerMm)
+    this.drawMarks(ctx, layout, unitsPerMm, slugLine(order, job))
+
+    const basename = `${order.id}-item${itemIndex + 1}-${angle}`
+    if (format === "pdf") {
+      return {
+        filename: `${basename}.pdf`,
+        contentType: "application/pdf",
+        body: sheet.toBuffer("application/pdf", {
+          title: `${order.id} item ${itemIndex + 1} ${angle}`,
+          creator: "PrintWrap Pro System",
+        }),
+      }
+    }
+    return {
+      filename: `${basename}-${job.dpi}dpi.png`,
+      contentType: "image/png",
+      body: sheet.toBuffer("image/png", { resolution: job.dpi }),
+    }
+  }
+
+  // Map the printed part of the design canvas onto the trim box; anything beyond it fills the bleed,
+  // around the print area's polygon when it has one
+  private static async drawArtwork(ctx: NodeContext, canvasJSON: any, area: PrintArea, layout: SheetLayout, unitsPerMm: number) {
+    const fabricCanvas = new StaticCanvas(undefined, {
+      width: DESIGN_CANVAS_SIZE,
+      height: DESIGN_CANVAS_SIZE,
+      enableRetinaScaling: false,
+      skipOffscreen: false,
+    })
+
+    try {
+      await fabricCanvas.loadFromJSON({ ...(await resolveSources(canvasJSON)), background: undefined, backgroundColor: undefined })
+
+      const rect = canvasRectOf(area)
+      const scale = (layout.trim.width * unitsPerMm) / rect.width
+      fabricCanvas.viewportTransform = [
+        scale,
+        0,
+        0,
+        scale,
+        layout.trim.x * unitsPerMm - rect.left * scale,
+        layout.trim.y * unitsPerMm - rect.top * scale,
+      ]
+
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(layout.bleed.x * unitsPerMm, layout.bleed.y * unitsPerMm, layout.bleed.width * unitsPerMm, layout.bleed.height * unitsPerMm)
+      ctx.clip()
+      if (area.polygon && area.polygon.length >= 3) {
+        const outline = area.polygon.map((point) => ({
+          x: (layout.trim.x + point.x) * unitsPerMm,
+          y: (layout.trim.y + point.y) * unitsPerMm,
+        }))
+        ctx.beginPath()
+        tracePolygonWithBleed(ctx, outline, (layout.trim.x - layout.bleed.x) * unitsPerMm)
+        ctx.clip()
+      }
+      fabricCanvas.renderCanvas(ctx as unknown as CanvasRenderingContext2D, fabricCanvas.getObjects())
+      ctx.restore()
+    } finally {
+      await fabricCanvas.dispose()
+    }
+  }
+
+  private static drawMarks(ctx: NodeContext, layout: SheetLayout, unitsPerMm: number, slug: string) {
+    ctx.save()
+    ctx.strokeStyle = "#000000"
+    ctx.lineWidth = 0.1 * unitsPerMm
+    for (const [x1, y1, x2, y2] of layout.cropMarks) {
+      ctx.beginPath()
+      ctx.moveTo(x1 * unitsPerMm, y1 * unitsPerMm)
+      ctx.lineTo(x2 * unitsPerMm, y2 * unitsPerMm)
+      ctx.stroke()
+    }
+
+    ctx.fillStyle = "#000000"
+    ctx.font = `${2.5 * unitsPerMm}px Helvetica, Arial, sans-serif`
+    ctx.textBaseline = "middle"
+    ctx.fillText(slug, layout.slug.x * unitsPerMm, layout.slug.y * unitsPerMm, (layout.width - 2 * layout.slug.x) * unitsPerMm)
+    ctx.restore()
+  }
+}
@@ -115,6 +115,9 @@ export class ProductService {
       angles: productData.angles,
       colors: productData.colors,
       purchaseLimit: productData.purchaseLimit, // Add purchase limit data
+      weight: productData.weight,
+      taxClass: productData.taxClass,
+      printAreas: productData.printAreas,
       // Include individual angle images for single products
       frontImage: productData.frontImage,
       backImage: productData.backImage,
@@ -214,6 +217,10 @@ export class ProductService {
             angles: 1,
             colors: 1,
             purchaseLimit: 1,
+            weight: 1,
+            taxClass: 1,
+            lowStockThreshold: 1,
+            printAreas: 1,
             frontImage: 1,
             backImage: 1,
             leftImage: 1,
@@ -302,6 +309,10 @@ export class ProductService {
       angles: product.angles,
       colors: product.colors,
       purchaseLimit: product.purchaseLimit, // Add purchase limit data
+      weight: product.weight,
+      taxClass: product.taxClass,
+      lowStockThreshold: product.lowStockThreshold,
+      printAreas: product.printAreas,
       // Include individual angle images for single products
       frontImage: product.frontImage,
       backImage: product.backImage,
@@ -361,6 +372,10 @@ export class ProductService {
       angles: product.angles,
       colors: product.colors,
       purchaseLimit: product.purchaseLimit, // Add purchase limit data
+      weight: product.weight,
+      taxClass: product.taxClass,
+      lowStockThreshold: product.lowStockThreshold,
+      printAreas: product.printAreas,
       // Include individual angle images for single products
       frontImage: product.frontImage,
       backImage: product.backImage,
@@ -375,6 +390,16 @@ export class ProductService {
     }
   }
 
+  // Cart items created from the design tool carry the variation id in place of the product id
+  static async getProductByVariationId(variationId: string): Promise<Product | null> {
+    const collection = await this.getCollection()
+    const product = await collection.findOne({ "variations.id": variationId })
+
+    if (!product) return null
+
+    return this.getProductById(product._id!.toString())
+  }
+
   static async updateProduct(
     id: string,
     productData: Partial<Omit<ProductDocument, "createdAt" | "_id">>,
@@ -414,6 +439,10 @@ export class ProductService {
       angles: result.angles,
       colors: result.colors,
       purchaseLimit: result.purchaseLimit, // Add purchase limit data
+      weight: result.weight,
+      taxClass: result.taxClass,
+      lowStockThreshold: result.lowStockThreshold,
+      printAreas: result.printAreas,
       // Include individual angle images for single products
       frontImage: result.frontImage,
       backImage: result.backImage,
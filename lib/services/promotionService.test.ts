@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest"
+
+vi.mock("@/lib/mongodb", () => ({ getDatabase: vi.fn() }))
+
+import { PromotionService, type PromotionCandidate } from "@/lib/services/promotionService"
+
+// Buy 2, get 1 free
+const threeForTwo: PromotionCandidate = {
+  source: "promotion",
+  id: "promo1",
+  name: "3 for 2",
+  rule: { type: "buy_x_get_y", buyQuantity: 2, getQuantity: 1, priority: 0, stacking: "stackable" },
+}
+
+describe("buy X get Y", () => {
+  it("discounts the cheapest units across lines", () => {
+    const outcome = PromotionService.applyRules(
+      [
+        { productId: "p1", categoryId: "c1", quantity: 4, lineTotal: 400 },
+        { productId: "p2", categoryId: "c1", quantity: 2, lineTotal: 100 },
+      ],
+      [threeForTwo],
+    )
+    // Six units make two free units, both from the 50 SEK line
+    expect(outcome.lineDiscounts).toEqual([0, 100])
+  })
+
+  it("spills over to the next cheapest line", () => {
+    const outcome = PromotionService.applyRules(
+      [
+        { productId: "p1", categoryId: "c1", quantity: 8, lineTotal: 800 },
+        { productId: "p2", categoryId: "c1", quantity: 1, lineTotal: 50 },
+      ],
+      [threeForTwo],
+    )
+    expect(outcome.lineDiscounts).toEqual([200, 50])
+  })
+
+  it("handles huge quantities without listing every unit", () => {
+    const outcome = PromotionService.applyRules(
+      [{ productId: "p1", categoryId: "c1", quantity: 3e9, lineTotal: 3e11 }],
+      [threeForTwo],
+    )
+    expect(outcome.lineDiscounts).toEqual([1e11])
+  })
+})
@@ -0,0 +1,310 @@
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import type { Coupon } from "@/types"
+import {
+  PROMOTION_TYPES,
+  type AppliedDiscount,
+  type CreatePromotionData,
+  type Promotion,
+  type PromotionDocument,
+  type PromotionRule,
+} from "@/lib/models/Promotion"
+
+// The parts of a priced cart line the rules look at
+export interface PromotionLine {
+  productId: string
+  categoryId: string
+  quantity: number
+  lineTotal: number
+}
+
+// A rule competing for the cart: an automatic promotion or the entered coupon code
+export interface PromotionCandidate {
+  source: AppliedDiscount["source"]
+  id: string
+  name: string
+  code?: string
+  rule: PromotionRule
+}
+
+export interface PromotionOutcome {
+  discounts: AppliedDiscount[]
+  lineDiscounts: number[] // Total discount per cart line, in cart order
+  freeShipping?: { discount: AppliedDiscount; shippingMethodIds?: string[] }
+  rejected: Array<{ candidate: PromotionCandidate; reason: string }>
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Split an amount over lines in proportion to their weights, with the rounding residual on the last line
+function spread(amount: number, indexes: number[], weights: number[]): Map<number, number> {
+  const result = new Map<number, number>()
+  const totalWeight = indexes.reduce((sum, index) => sum + weights[index], 0)
+  if (amount <= 0 || totalWeight <= 0) return result
+
+  let allocated = 0
+  indexes.forEach((index, position) => {
+    const share = position === indexes.length - 1 ? round(amount - allocated) : round((amount * weights[index]) / totalWeight)
+    allocated = round(allocated + share)
+    result.set(index, share)
+  })
+  return result
+}
+
+function percentOf(indexes: number[], remaining: number[], percent: number): Map<number, number> {
+  return new Map(indexes.map((index) => [index, round((remaining[index] * Math.min(100, percent)) / 100)]))
+}
+
+function matchesLine(rule: PromotionRule, line: PromotionLine): boolean {
+  const products = rule.applicableProducts || []
+  const categories = rule.applicableCategories || []
+  if (products.length === 0 && categories.length === 0) return true
+  return products.includes(line.productId) || categories.includes(line.categoryId)
+}
+
+/** Discount per eligible line for one rule, given what earlier rules left of each line. */
+function discountsFor(rule: PromotionRule, lines: PromotionLine[], eligible: number[], remaining: number[]): Map<number, number> {
+  switch (rule.type) {
+    case "percentage":
+      return percentOf(eligible, remaining, rule.discountValue || 0)
+
+    case "fixed": {
+      const available = eligible.reduce((sum, index) => sum + remaining[index], 0)
+      return spread(Math.min(rule.discountValue || 0, available), eligible, remaining)
+    }
+
+    case "buy_x_get_y": {
+      const buy = rule.buyQuantity || 0
+      const get = rule.getQuantity || 0
+      if (buy <= 0 || get <= 0) return new Map()
+
+      // Every full group of buy + get units makes the cheapest `get` units of the cart discounted,
+      // taken line by line from the cheapest unit price up
+      const priced = eligible
+        .filter((index) => lines[index].quantity > 0)
+        .map((index) => ({ index, quantity: lines[index].quantity, price: remaining[index] / lines[index].quantity }))
+        .sort((a, b) => a.price - b.price)
+      const unitCount = priced.reduce((sum, line) => sum + line.quantity, 0)
+      let discountedUnits = Math.floor(unitCount / (buy + get)) * get
+      const percent = rule.getPercentOff ?? 100
+
+      const result = new Map<number, number>()
+      for (const line of priced) {
+        if (discountedUnits <= 0) break
+        const units = Math.min(line.quantity, discountedUnits)
+        result.set(line.index, round((units * line.price * percent) / 100))
+        discountedUnits -= units
+      }
+      return result
+    }
+
+    case "tiered_quantity": {
+      const quantity = eligible.reduce((sum, index) => sum + lines[index].quantity, 0)
+      const tier = [...(rule.tiers || [])]
+        .sort((a, b) => b.minQuantity - a.minQuantity)
+        .find((t) => quantity >= t.minQuantity)
+      return tier ? percentOf(eligible, remaining, tier.percentOff) : new Map()
+    }
+
+    default:
+      return new Map()
+  }
+}
+
+export class PromotionService {
+  private static async getCollection() {
+    const db = await getDatabase()
+    return db.collection<PromotionDocument>("promotions")
+  }
+
+  private static toPromotion(doc: PromotionDocument): Promotion {
+    const { _id, ...promotion } = doc
+    return { id: _id!.toString(), ...promotion }
+  }
+
+  static async getAllPromotions(): Promise<Promotion[]> {
+    const collection = await this.getCollection()
+    const promotions = await collection.find({}).sort({ priority: -1, createdAt: 1 }).toArray()
+    return promotions.map((promotion) => this.toPromotion(promotion))
+  }
+
+  // Promotions switched on and within their validity window
+  static async getActivePromotions(now = new Date()): Promise<Promotion[]> {
+    const collection = await this.getCollection()
+    const promotions = await collection
+      .find({
+        isActive: true,
+        $and: [
+          { $or: [{ validFrom: { $exists: false } }, { validFrom: null }, { validFrom: { $lte: now } }] },
+          { $or: [{ validUntil: { $exists: false } }, { validUntil: null }, { validUntil: { $gte: now } }] },
+        ],
+      } as any)
+      .sort({ priority: -1, createdAt: 1 })
+      .toArray()
+    return promotions.map((promotion) => this.toPromotion(promotion))
+  }
+
+  static async createPromotion(data: CreatePromotionData): Promise<Promotion> {
+    const collection = await this.getCollection()
+    const now = new Date()
+    const doc: PromotionDocument = { ...data, createdAt: now, updatedAt: now }
+    const result = await collection.insertOne(doc)
+    return this.toPromotion({ ...doc, _id: result.insertedId })
+  }
+
+  static async updatePromotion(id: string, data: Partial<CreatePromotionData>): Promise<Promotion | null> {
+    if (!ObjectId.isValid(id)) return null
+    const collection = await this.getCollection()
+    const { id: _ignored, createdAt, updatedAt, ...fields } = data as Partial<Promotion>
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: { ...fields, updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+    return result ? this.toPromotion(result) : null
+  }
+
+  static async deletePromotion(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false
+    const collection = await this.getCollection()
+    const result = await collection.deleteOne({ _id: new ObjectId(id) })
+    return result.deletedCount === 1
+  }
+
+  // Returns an error message for rule settings that cannot produce a sensible discount
+  static validateRule(rule: Partial<PromotionRule>): string | null {
+    if (!PROMOTION_TYPES.some((t) => t.value === rule.type)) {
+      return `Unknown promotion type: ${rule.type}`
+    }
+    if (rule.stacking && rule.stacking !== "stackable" && rule.stacking !== "exclusive") {
+      return `Unknown stacking rule: ${rule.stacking}`
+    }
+    switch (rule.type) {
+      case "percentage":
+        if (!rule.discountValue || rule.discountValue <= 0 || rule.discountValue > 100) {
+          return "Percentage must be between 0 and 100"
+        }
+        break
+      case "fixed":
+        if (!rule.discountValue || rule.discountValue <= 0) return "Fixed amount must be positive"
+        break
+      case "buy_x_get_y":
+        if (!rule.buyQuantity || rule.buyQuantity < 1 || !rule.getQuantity || rule.getQuantity < 1) {
+          return "Buy and get quantities must be at least 1"
+        }
+        if (rule.getPercentOff !== undefined && (rule.getPercentOff <= 0 || rule.getPercentOff > 100)) {
+          return "Discount on the free units must be between 0 and 100%"
+        }
+        break
+      case "tiered_quantity":
+        if (!rule.tiers?.length) return "Add at least one quantity tier"
+        if (rule.tiers.some((t) => t.minQuantity < 1 || t.percentOff <= 0 || t.percentOff > 100)) {
+          return "Tiers need a quantity of at least 1 and a discount between 0 and 100%"
+        }
+        break
+    }
+    return null
+  }
+
+  static candidateForPromotion(promotion: Promotion): PromotionCandidate {
+    return { source: "promotion", id: promotion.id, name: promotion.name, rule: promotion }
+  }
+
+  // Coupon codes take part in the same stacking as promotions, after them unless given a priority
+  static candidateForCoupon(coupon: Coupon): PromotionCandidate {
+    return {
+      source: "coupon",
+      id: coupon.id,
+      name: coupon.description || `Coupon ${coupon.code}`,
+      code: coupon.code,
+      rule: {
+        type: coupon.discountType,
+        discountValue: coupon.discountValue,
+        minimumOrderAmount: coupon.minimumOrderAmount,
+        applicableProducts: coupon.applicableProducts,
+        applicableCategories: coupon.applicableCategories,
+        priority: coupon.priority ?? 0,
+        stacking: coupon.stacking ?? "stackable",
+      },
+    }
+  }
+
+  /**
+   * Run the candidates against the cart in priority order (ties keep their given order).
+   * Each rule discounts only its eligible lines and sees what earlier rules left of them.
+   * An exclusive rule applies only when nothing has yet, and nothing applies after it.
+   */
+  static applyRules(lines: PromotionLine[], candidates: PromotionCandidate[]): PromotionOutcome {
+    const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0)
+    const remaining = lines.map((line) => line.lineTotal)
+    const outcome: PromotionOutcome = { discounts: [], lineDiscounts: lines.map(() => 0), rejected: [] }
+    let exclusive: PromotionCandidate | undefined
+
+    const ordered = candidates
+      .map((candidate, order) => ({ candidate, order }))
+      .sort((a, b) => b.candidate.rule.priority - a.candidate.rule.priority || a.order - b.order)
+      .map(({ candidate }) => candidate)
+
+    for (const candidate of ordered) {
+      const { rule } = candidate
+      const reject = (reason: string) => outcome.rejected.push({ candidate, reason })
+
+      if (rule.minimumOrderAmount && subtotal < rule.minimumOrderAmount) {
+        reject(`Minimum order amount of ${rule.minimumOrderAmount} SEK required`)
+        continue
+      }
+      const eligible = lines.map((line, index) => (matchesLine(rule, line) ? index : -1)).filter((index) => index >= 0)
+      if (eligible.length === 0) {
+        reject("Not applicable to items in your cart")
+        continue
+      }
+      if (exclusive) {
+        reject(`Cannot be combined with ${exclusive.name}`)
+        continue
+      }
+      if (rule.stacking === "exclusive" && outcome.discounts.length > 0) {
+        reject(`Cannot be combined with ${outcome.discounts[0].name}`)
+        continue
+      }
+
+      const discount: AppliedDiscount = {
+        source: candidate.source,
+        id: candidate.id,
+        name: candidate.name,
+        code: candidate.code,
+        type: rule.type,
+        amount: 0,
+      }
+
+      if (rule.type === "free_shipping") {
+        if (outcome.freeShipping) {
+          reject("Shipping is already free")
+          continue
+        }
+        // The amount is known once shipping has been priced
+        outcome.freeShipping = { discount, shippingMethodIds: rule.shippingMethodIds }
+      } else {
+        const lineDiscounts = [...discountsFor(rule, lines, eligible, remaining)]
+          .map(([index, amount]) => ({ index, amount: round(Math.min(amount, remaining[index])) }))
+          .filter((line) => line.amount > 0)
+        if (lineDiscounts.length === 0) {
+          reject("Conditions for this offer are not met yet")
+          continue
+        }
+        for (const line of lineDiscounts) {
+          remaining[line.index] = round(remaining[line.index] - line.amount)
+          outcome.lineDiscounts[line.index] = round(outcome.lineDiscounts[line.index] + line.amount)
+        }
+        discount.lineDiscounts = lineDiscounts
+        discount.amount = round(lineDiscounts.reduce((sum, line) => sum + line.amount, 0))
+      }
+
+      outcome.discounts.push(discount)
+      if (rule.stacking === "exclusive") exclusive = candidate
+    }
+
+    return outcome
+  }
+}
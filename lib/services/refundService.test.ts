@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+const { OrderService, GiftCardService, InvoiceService, InventoryService, provider } = vi.hoisted(() => ({
+  OrderService: { getOrderById: vi.fn(), reserveRefund: vi.fn(), releaseRefund: vi.fn(), recordRefund: vi.fn() },
+  GiftCardService: { issueStoreCredit: vi.fn(), refundToCard: vi.fn(), maskCode: (code: string) => `•••• ${code.slice(-4)}` },
+  InvoiceService: { issueCreditNote: vi.fn() },
+  InventoryService: { restockOrder: vi.fn() },
+  provider: { refund: vi.fn() },
+}))
+
+vi.mock("@/lib/services/orderService", () => ({ OrderService }))
+vi.mock("@/lib/services/giftCardService", () => ({ GiftCardService }))
+vi.mock("@/lib/services/invoiceService", () => ({ InvoiceService }))
+vi.mock("@/lib/services/inventoryService", () => ({ InventoryService }))
+vi.mock("@/lib/services/pricingService", () => ({
+  PricingService: { discountedItemTotal: vi.fn() },
+  roundCurrency: (value: number) => Math.round(value * 100) / 100,
+}))
+vi.mock("@/lib/services/taxService", () => ({ DEFAULT_TAX_RULES: [{ rate: 0.25 }] }))
+vi.mock("@/lib/payments", () => ({ getPaymentProvider: () => provider }))
+
+import { RefundError, RefundService } from "@/lib/services/refundService"
+import type { Order } from "@/lib/models/Order"
+
+// 500 SEK paid with a 200 SEK gift card and 300 SEK by card
+const order = (overrides: Partial<Order> = {}): Order =>
+  ({
+    id: "PW-2026-000001-5",
+    customer: "C-1",
+    total: 500,
+    status: "Queued",
+    items: [{ name: "Shirt", quantity: 2, price: 250 }],
+    paymentMethod: "card",
+    paymentIntentId: "pi_1",
+    paymentStatus: "paid",
+    tenders: [
+      { method: "gift_card", amount: 200, giftCardId: "gc1" },
+      { method: "card", amount: 300 },
+    ],
+    ...overrides,
+  }) as Order
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  OrderService.reserveRefund.mockImplementation(async (orderId: string) => ({ id: orderId }))
+  OrderService.recordRefund.mockImplementation(async (orderId: string, refund: any) => ({ id: orderId, refunds: [refund] }))
+  provider.refund.mockResolvedValue({ id: "re_1", amount: 300, status: "succeeded" })
+  GiftCardService.issueStoreCredit.mockResolvedValue({ id: "sc1", code: "STORE-ABCD" })
+  GiftCardService.refundToCard.mockResolvedValue(undefined)
+})
+
+describe("RefundService.refundOrder", () => {
+  it("moves no money when another refund holds the order", async () => {
+    OrderService.getOrderById.mockResolvedValue(order())
+    OrderService.reserveRefund.mockResolvedValue(null)
+
+    await expect(RefundService.refundOrder("PW-2026-000001-5", { type: "full" })).rejects.toMatchObject({ status: 409 })
+    expect(provider.refund).not.toHaveBeenCalled()
+    expect(GiftCardService.refundToCard).not.toHaveBeenCalled()
+  })
+
+  it("reserves against the refunded amount it calculated from", async () => {
+    OrderService.getOrderById.mockResolvedValue(order({ refundedAmount: 100, paymentStatus: "partially_refunded" }))
+    await RefundService.refundOrder("PW-2026-000001-5", { type: "full", restock: false })
+
+    expect(OrderService.reserveRefund).toHaveBeenCalledWith(
+      "PW-2026-000001-5",
+      expect.objectContaining({ amount: 400 }),
+      expect.objectContaining({ refundedAmount: 100 }),
+    )
+  })
+
+  it("refunds the provider with the refund's id as idempotency key", async () => {
+    OrderService.getOrderById.mockResolvedValue(order())
+    await RefundService.refundOrder("PW-2026-000001-5", { type: "full", reason: "Misprint", restock: false })
+
+    const refund = OrderService.recordRefund.mock.calls[0][1]
+    expect(provider.refund).toHaveBeenCalledWith("pi_1", 300, { reason: "Misprint", idempotencyKey: refund.id })
+    expect(GiftCardService.refundToCard).toHaveBeenCalledWith("gc1", 200, expect.anything())
+    expect(refund.amount).toBe(500)
+  })
+
+  it("releases the reservation when nothing was paid out", async () => {
+    OrderService.getOrderById.mockResolvedValue(order())
+    provider.refund.mockRejectedValue(new Error("card_declined"))
+
+    await expect(RefundService.refundOrder("PW-2026-000001-5", { type: "full" })).rejects.toThrow("card_declined")
+    expect(OrderService.releaseRefund).toHaveBeenCalled()
+    expect(OrderService.recordRefund).not.toHaveBeenCalled()
+  })
+
+  it("records the part that was paid out when a later tender fails", async () => {
+    OrderService.getOrderById.mockResolvedValue(order())
+    GiftCardService.refundToCard.mockRejectedValue(new Error("Gift card not found"))
+
+    await expect(RefundService.refundOrder("PW-2026-000001-5", { type: "full" })).rejects.toMatchObject({ status: 502 })
+    expect(OrderService.releaseRefund).not.toHaveBeenCalled()
+    expect(OrderService.recordRefund.mock.calls[0][1]).toMatchObject({ amount: 300 })
+  })
+
+  it("takes over a reservation left by a refund that never finished", async () => {
+    const createdAt = new Date(Date.now() - 60 * 60 * 1000)
+    OrderService.getOrderById.mockResolvedValue(order({ pendingRefund: { id: "refund_stale", amount: 500, createdAt } }))
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    await RefundService.refundOrder("PW-2026-000001-5", { type: "full", restock: false })
+
+    const [, pendingRefund, { staleBefore }] = OrderService.reserveRefund.mock.calls[0]
+    expect(pendingRefund.id).toBe("refund_stale")
+    expect(staleBefore.getTime()).toBeGreaterThan(createdAt.getTime())
+    expect(provider.refund).toHaveBeenCalledWith("pi_1", 300, expect.objectContaining({ idempotencyKey: "refund_stale" }))
+  })
+
+  it("keeps a fresh reservation's id to itself", async () => {
+    OrderService.getOrderById.mockResolvedValue(order({ pendingRefund: { id: "refund_live", amount: 500, createdAt: new Date() } }))
+    await RefundService.refundOrder("PW-2026-000001-5", { type: "full", restock: false })
+
+    expect(OrderService.reserveRefund.mock.calls[0][1].id).not.toBe("refund_live")
+  })
+})
+
+describe("RefundService.calculateRefund", () => {
+  it.each([1.5, -1, NaN, "1"])("rejects an item quantity of %s", (quantity) => {
+    expect(() =>
+      RefundService.calculateRefund(order(), { type: "items", items: [{ index: 0, quantity: quantity as number }] }),
+    ).toThrow(RefundError)
+  })
+})
+
+describe("store credit refunds", () => {
+  it("count against the order's payments", async () => {
+    const refunded = order({
+      refundedAmount: 300,
+      paymentStatus: "partially_refunded",
+      refunds: [
+        {
+          id: "refund_1",
+          type: "items",
+          amount: 300,
+          tenders: [{ method: "store_credit", amount: 300, giftCardId: "sc1" }],
+          chargedTo: [{ method: "card", amount: 300 }],
+          createdAt: new Date(),
+        },
+      ],
+    })
+
+    // Only the gift card's 200 SEK is left to refund to the original payments
+    expect(RefundService.splitAcrossTenders(refunded, 200)).toEqual([{ method: "gift_card", amount: 200, giftCardId: "gc1" }])
+    expect(() => RefundService.splitAcrossTenders(refunded, 250)).toThrow(RefundError)
+  })
+
+  it("are recorded with the payments they were charged to", async () => {
+    OrderService.getOrderById.mockResolvedValue(order())
+    await RefundService.refundOrder("PW-2026-000001-5", { type: "full", destination: "store_credit", restock: false })
+
+    expect(GiftCardService.issueStoreCredit).toHaveBeenCalledWith("C-1", 500, expect.anything())
+    expect(provider.refund).not.toHaveBeenCalled()
+    expect(OrderService.recordRefund.mock.calls[0][1].chargedTo).toEqual([
+      { method: "card", amount: 300 },
+      { method: "gift_card", amount: 200, giftCardId: "gc1" },
+    ])
+  })
+})
@@ -0,0 +1,312 @@
+import { randomUUID } from "crypto"
+import { OrderService } from "@/lib/services/orderService"
+import { PricingService, roundCurrency } from "@/lib/services/pricingService"
+import { DEFAULT_TAX_RULES } from "@/lib/services/taxService"
+import { InvoiceService } from "@/lib/services/invoiceService"
+import { GiftCardService } from "@/lib/services/giftCardService"
+import { InventoryService } from "@/lib/services/inventoryService"
+import { getPaymentProvider } from "@/lib/payments"
+import type { Order, OrderRefund, OrderTender, PaymentStatus } from "@/lib/models/Order"
+
+export interface RefundRequest {
+  type: OrderRefund["type"]
+  items?: Array<{ index: number; quantity: number }>
+  reason?: string
+  // Back the way the order was paid (default), or as store credit on the customer's account
+  destination?: "original" | "store_credit"
+  // Put refunded items back on stock (default); off for goods that cannot be resold, e.g. misprints
+  restock?: boolean
+}
+
+export class RefundError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "RefundError"
+  }
+}
+
+const REFUNDABLE_STATUSES: PaymentStatus[] = ["paid", "partially_refunded"]
+// A reservation this old belongs to a refund whose process died before recording it
+const PENDING_REFUND_TIMEOUT_MS = 15 * 60 * 1000
+
+export class RefundService {
+  // Quantity already refunded for each order line
+  static refundedQuantities(order: Order): Map<number, number> {
+    const quantities = new Map<number, number>()
+    for (const refund of order.refunds || []) {
+      for (const item of refund.items || []) {
+        quantities.set(item.index, (quantities.get(item.index) || 0) + item.quantity)
+      }
+    }
+    return quantities
+  }
+
+  // How the order was paid; orders from before gift cards were paid by their payment method alone
+  static paidTenders(order: Order): OrderTender[] {
+    return order.tenders?.length ? order.tenders : [{ method: order.paymentMethod, amount: order.total }]
+  }
+
+  // Amount already refunded against each tender, keyed by gift card id or payment method
+  static refundedByTender(order: Order): Map<string, number> {
+    const refunded = new Map<string, number>()
+    for (const refund of order.refunds || []) {
+      for (const tender of refund.chargedTo || refund.tenders || [{ method: order.paymentMethod, amount: refund.amount }]) {
+        const key = tender.giftCardId || tender.method
+        refunded.set(key, roundCurrency((refunded.get(key) || 0) + tender.amount))
+      }
+    }
+    return refunded
+  }
+
+  static remainingRefundable(order: Order): number {
+    return roundCurrency(Math.max(0, order.total - (order.refundedAmount || 0)))
+  }
+
+  // Shipping as charged to the customer, including any tax added on top of it
+  static shippingCharged(order: Order): number {
+    return (order.shippingCost ?? 0) + (order.taxBreakdown?.shippingTax ?? 0)
+  }
+
+  // Gross (discounted, tax-inclusive) amount paid per unit of an order line
+  static grossUnitPrice(order: Order, index: number): number {
+    const item = order.items[index]
+    const subtotal = order.subtotal ?? order.items.reduce((sum, i) => sum + i.price * i.quantity, 0)
+    if (subtotal <= 0) return 0
+
+    // With a stored tax breakdown the goods share of the total already reflects
+    // tax mode and reverse charge; discounts may differ per line
+    if (order.taxBreakdown) {
+      const discountedSubtotal = subtotal - (order.discountAmount || 0)
+      if (discountedSubtotal <= 0) return 0
+      const goodsFactor = (order.total - this.shippingCharged(order)) / discountedSubtotal
+      return (PricingService.discountedItemTotal(order, index) / item.quantity) * goodsFactor
+    }
+
+    // Orders from before tax rules: tax was added on top of the discounted subtotal
+    const discount = order.discountAmount || 0
+    const discountRatio = discount / subtotal
+    const taxable = subtotal - discount
+    const vatRatio = order.vatAmount !== undefined && taxable > 0 ? order.vatAmount / taxable : DEFAULT_TAX_RULES[0].rate
+    return item.price * (1 - discountRatio) * (1 + vatRatio)
+  }
+
+  static calculateRefund(order: Order, request: RefundRequest): Pick<OrderRefund, "amount" | "items"> {
+    const remaining = this.remainingRefundable(order)
+    if (remaining <= 0) {
+      throw new RefundError("Order has already been fully refunded")
+    }
+
+    switch (request.type) {
+      case "full":
+        return { amount: remaining }
+
+      case "shipping": {
+        const shippingRefunded = (order.refunds || []).some((r) => r.type === "shipping")
+        if (shippingRefunded) {
+          throw new RefundError("Shipping has already been refunded")
+        }
+        const shippingCost = this.shippingCharged(order)
+        if (shippingCost <= 0) {
+          throw new RefundError("Order has no shipping charge to refund")
+        }
+        return { amount: roundCurrency(Math.min(shippingCost, remaining)) }
+      }
+
+      case "items": {
+        if ((request.items || []).some((i) => !Number.isInteger(i.index) || !Number.isInteger(i.quantity) || i.quantity < 0)) {
+          throw new RefundError("Item quantities must be whole numbers")
+        }
+        const requested = (request.items || []).filter((i) => i.quantity > 0)
+        if (requested.length === 0) {
+          throw new RefundError("Select at least one item to refund")
+        }
+
+        const alreadyRefunded = this.refundedQuantities(order)
+        const items = requested.map(({ index, quantity }) => {
+          const item = order.items[index]
+          if (!item) {
+            throw new RefundError(`Order has no item at position ${index + 1}`)
+          }
+          const refundable = item.quantity - (alreadyRefunded.get(index) || 0)
+          if (quantity > refundable) {
+            throw new RefundError(`Only ${refundable} of "${item.name}" can still be refunded`)
+          }
+          return { index, quantity, amount: roundCurrency(this.grossUnitPrice(order, index) * quantity) }
+        })
+
+        const amount = items.reduce((sum, i) => sum + i.amount, 0)
+        return { amount: roundCurrency(Math.min(amount, remaining)), items }
+      }
+
+      default:
+        throw new RefundError("Unknown refund type")
+    }
+  }
+
+  /**
+   * Refund an order. The amount is reserved on the order before any money moves, so two
+   * refunds started at once cannot both pay out what is left; the second gets a 409.
+   */
+  static async refundOrder(orderId: string, request: RefundRequest, createdBy?: string): Promise<Order> {
+    const order = await OrderService.getOrderById(orderId)
+    if (!order) {
+      throw new RefundError("Order not found", 404)
+    }
+    if (!REFUNDABLE_STATUSES.includes(order.paymentStatus as PaymentStatus)) {
+      throw new RefundError("Only paid orders can be refunded")
+    }
+    if (request.destination === "store_credit" && (!order.customer || order.customer === "Guest")) {
+      throw new RefundError("Guest orders can only be refunded to the original payment")
+    }
+
+    const { amount, items } = this.calculateRefund(order, request)
+    // Store credit is capped by the payments too, so it cannot exceed what the order was paid with
+    const chargedTo = this.splitAcrossTenders(order, amount)
+
+    // Taking over a stale reservation reuses its id, so the provider recognises a payout that
+    // already went through by its idempotency key instead of paying it out twice
+    const staleBefore = new Date(Date.now() - PENDING_REFUND_TIMEOUT_MS)
+    const stale = order.pendingRefund && new Date(order.pendingRefund.createdAt) < staleBefore ? order.pendingRefund : undefined
+    const refundId = stale?.id ?? `refund_${randomUUID()}`
+    const reserved = await OrderService.reserveRefund(
+      orderId,
+      { id: refundId, amount, createdAt: new Date() },
+      { refundedAmount: order.refundedAmount || 0, paymentStatuses: REFUNDABLE_STATUSES, staleBefore },
+    )
+    if (!reserved) {
+      throw new RefundError("Another refund of this order is in progress or has just been made; reload and try again", 409)
+    }
+    if (stale) {
+      // Gift card and store credit payouts carry no idempotency key, so staff should check them
+      console.warn(`Took over stale refund ${stale.id} of order ${orderId} reserved at ${new Date(stale.createdAt).toISOString()}`)
+    }
+
+    let payout: { tenders: OrderTender[]; providerRefundId?: string; error?: unknown }
+    if (request.destination === "store_credit") {
+      try {
+        const credit = await GiftCardService.issueStoreCredit(order.customer, amount, {
+          orderId,
+          note: request.reason,
+          createdBy,
+        })
+        payout = { tenders: [{ method: "store_credit", amount, giftCardId: credit.id, code: GiftCardService.maskCode(credit.code) }] }
+      } catch (error) {
+        payout = { tenders: [], error }
+      }
+    } else {
+      payout = await this.refundToTenders(order, chargedTo, refundId, request.reason, createdBy)
+    }
+
+    if (payout.tenders.length === 0) {
+      await OrderService.releaseRefund(orderId, refundId)
+      throw payout.error
+    }
+
+    // When a later tender failed, record what did move so it is never paid out again
+    const paidOut = roundCurrency(payout.tenders.reduce((sum, tender) => sum + tender.amount, 0))
+    const complete = paidOut === amount
+    const { tenders, providerRefundId } = payout
+
+    const refund: OrderRefund = {
+      id: refundId,
+      // A partial payout is credited pro rata rather than against the requested items
+      type: complete ? request.type : "full",
+      amount: paidOut,
+      items: complete ? items : undefined,
+      reason: request.reason,
+      providerRefundId,
+      tenders,
+      chargedTo: request.destination === "store_credit" ? chargedTo : tenders,
+      createdBy,
+      createdAt: new Date(),
+    }
+
+    const updated = await OrderService.recordRefund(orderId, refund)
+    if (!updated) {
+      throw new RefundError("Order not found", 404)
+    }
+
+    // The money has already moved, so a failed credit note must not fail the refund;
+    // admins can issue it later from the order's invoices
+    try {
+      await InvoiceService.issueCreditNote(updated, refund)
+    } catch (error) {
+      console.error(`Failed to issue credit note for refund ${refund.id}:`, error)
+    }
+
+    if (!complete) {
+      const message = payout.error instanceof Error ? payout.error.message : "Refund failed"
+      throw new RefundError(`Only ${paidOut.toFixed(2)} of ${amount.toFixed(2)} SEK was refunded: ${message}`, 502)
+    }
+
+    if (request.restock !== false && request.type !== "shipping") {
+      try {
+        await InventoryService.restockOrder(orderId, request.type === "items" ? items : undefined, {
+          note: `Refund ${refund.id}`,
+          createdBy,
+        })
+      } catch (error) {
+        console.error(`Failed to restock items of refund ${refund.id}:`, error)
+      }
+    }
+    return updated
+  }
+
+  /**
+   * Split a refund over the payments of the order, the payment provider first and then the
+   * gift cards and store credit, each up to what it paid less what was already refunded against it.
+   */
+  static splitAcrossTenders(order: Order, amount: number): OrderTender[] {
+    const refunded = this.refundedByTender(order)
+    const paid = this.paidTenders(order)
+    const ordered = [...paid.filter((tender) => !tender.giftCardId), ...paid.filter((tender) => tender.giftCardId)]
+
+    const tenders: OrderTender[] = []
+    let remaining = amount
+    for (const tender of ordered) {
+      if (remaining <= 0) break
+      const available = roundCurrency(tender.amount - (refunded.get(tender.giftCardId || tender.method) || 0))
+      const take = roundCurrency(Math.min(available, remaining))
+      if (take <= 0) continue
+      tenders.push({ ...tender, amount: take })
+      remaining = roundCurrency(remaining - take)
+    }
+    if (remaining > 0) {
+      throw new RefundError("Refund is larger than what is left on the order's payments")
+    }
+    return tenders
+  }
+
+  /**
+   * Send a refund back the way the order was paid. Stops at the first tender that fails and
+   * returns the ones already refunded together with the error.
+   */
+  private static async refundToTenders(
+    order: Order,
+    split: OrderTender[],
+    refundId: string,
+    reason?: string,
+    createdBy?: string,
+  ): Promise<{ tenders: OrderTender[]; providerRefundId?: string; error?: unknown }> {
+    const tenders: OrderTender[] = []
+    let providerRefundId: string | undefined
+    try {
+      for (const tender of split) {
+        if (tender.giftCardId) {
+          await GiftCardService.refundToCard(tender.giftCardId, tender.amount, { orderId: order.id, note: reason, createdBy })
+        } else {
+          if (!order.paymentIntentId) {
+            throw new RefundError("Order has no payment to refund")
+          }
+          const provider = getPaymentProvider(order.paymentMethod)
+          const providerRefund = await provider.refund(order.paymentIntentId, tender.amount, { reason, idempotencyKey: refundId })
+          providerRefundId = providerRefund.id
+        }
+        tenders.push(tender)
+      }
+    } catch (error) {
+      return { tenders, providerRefundId, error }
+    }
+    return { tenders, providerRefundId }
+  }
+}
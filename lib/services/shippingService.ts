@@ -0,0 +1,186 @@
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import { normalizeCountryCode, normalizePostalCode } from "@/lib/utils/countries"
+import type {
+  CreateShippingZoneData,
+  ShippingDestination,
+  ShippingMethod,
+  ShippingParcel,
+  ShippingRateQuote,
+  ShippingZone,
+  ShippingZoneDocument,
+} from "@/lib/models/Shipping"
+
+// Used until an admin configures zones, matching the rates checkout always had
+export const DEFAULT_SHIPPING_ZONE: ShippingZone = {
+  id: "default",
+  name: "Default",
+  countries: ["*"],
+  isActive: true,
+  methods: [
+    { id: "standard", name: "Standard Shipping", pricingBasis: "flat", price: 79, minDeliveryDays: 3, maxDeliveryDays: 5, isActive: true },
+    { id: "express", name: "Express Shipping", pricingBasis: "flat", price: 149, minDeliveryDays: 1, maxDeliveryDays: 2, isActive: true },
+  ],
+}
+
+/** Returns a message describing the first problem with the zone, or null when it is valid. */
+export function validateShippingZone(data: Partial<CreateShippingZoneData>): string | null {
+  if (!data.name?.trim()) return "Zone name is required"
+  if (!Array.isArray(data.countries) || data.countries.length === 0) return "At least one country is required"
+  if (!Array.isArray(data.methods) || data.methods.length === 0) return "At least one shipping method is required"
+
+  for (const method of data.methods) {
+    if (!method.name?.trim()) return "Every shipping method needs a name"
+    if (!["flat", "weight", "items"].includes(method.pricingBasis)) return `Unknown pricing basis for ${method.name}`
+    if (!(Number(method.price) >= 0)) return `Price for ${method.name} must be zero or more`
+    if (method.minDeliveryDays > method.maxDeliveryDays) return `Delivery estimate for ${method.name} is reversed`
+    if (method.pricingBasis !== "flat" && !method.rates?.length) return `${method.name} needs at least one rate tier`
+    if (method.rates?.some((tier) => !(tier.upTo > 0) || !(tier.price >= 0))) return `Rate tiers for ${method.name} are invalid`
+  }
+  return null
+}
+
+export class ShippingService {
+  private static async getCollection() {
+    const db = await getDatabase()
+    return db.collection<ShippingZoneDocument>("shippingZones")
+  }
+
+  private static toZone(doc: ShippingZoneDocument): ShippingZone {
+    return {
+      id: doc._id!.toString(),
+      name: doc.name,
+      countries: doc.countries,
+      postalCodePrefixes: doc.postalCodePrefixes,
+      methods: doc.methods,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    }
+  }
+
+  // Normalize admin input: upper-case codes, ids for new methods, tiers sorted by bound
+  private static normalizeZone(data: Partial<CreateShippingZoneData>): Partial<CreateShippingZoneData> {
+    return {
+      ...data,
+      countries: data.countries?.map((c) => (c === "*" ? c : normalizeCountryCode(c))),
+      postalCodePrefixes: data.postalCodePrefixes?.map(normalizePostalCode).filter(Boolean),
+      methods: data.methods?.map((method) => ({
+        ...method,
+        id: method.id || new ObjectId().toString(),
+        price: Number(method.price) || 0,
+        rates: method.rates?.map((t) => ({ upTo: Number(t.upTo), price: Number(t.price) })).sort((a, b) => a.upTo - b.upTo),
+      })),
+    }
+  }
+
+  static async getAllZones(): Promise<ShippingZone[]> {
+    const collection = await this.getCollection()
+    const zones = await collection.find({}).sort({ name: 1 }).toArray()
+    return zones.map((zone) => this.toZone(zone))
+  }
+
+  static async getZoneById(id: string): Promise<ShippingZone | null> {
+    if (!ObjectId.isValid(id)) return null
+    const collection = await this.getCollection()
+    const zone = await collection.findOne({ _id: new ObjectId(id) })
+    return zone ? this.toZone(zone) : null
+  }
+
+  static async createZone(data: CreateShippingZoneData): Promise<ShippingZone> {
+    const collection = await this.getCollection()
+    const now = new Date()
+    const doc = { ...(this.normalizeZone(data) as CreateShippingZoneData), createdAt: now, updatedAt: now }
+    const result = await collection.insertOne(doc)
+    return this.toZone({ ...doc, _id: result.insertedId })
+  }
+
+  static async updateZone(id: string, data: Partial<CreateShippingZoneData>): Promise<ShippingZone | null> {
+    if (!ObjectId.isValid(id)) return null
+    const collection = await this.getCollection()
+    const { id: _ignored, createdAt, updatedAt, ...fields } = data as Partial<ShippingZone>
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: { ...this.normalizeZone(fields), updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+    return result ? this.toZone(result) : null
+  }
+
+  static async deleteZone(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false
+    const collection = await this.getCollection()
+    const result = await collection.deleteOne({ _id: new ObjectId(id) })
+    return result.deletedCount === 1
+  }
+
+  /**
+   * Pick the most specific active zone for a destination: a matching postal code
+   * prefix beats a plain country match, which beats the "*" catch-all.
+   */
+  static matchZone(zones: ShippingZone[], destination: ShippingDestination): ShippingZone | null {
+    const country = normalizeCountryCode(destination.country)
+    const postalCode = normalizePostalCode(destination.postalCode)
+
+    let best: { zone: ShippingZone; score: number } | null = null
+    for (const zone of zones) {
+      if (!zone.isActive) continue
+      const countryMatch = zone.countries.includes(country)
+      if (!countryMatch && !zone.countries.includes("*")) continue
+
+      let score = countryMatch ? 1 : 0
+      if (zone.postalCodePrefixes?.length) {
+        const prefix = zone.postalCodePrefixes
+          .filter((p) => postalCode.startsWith(p))
+          .sort((a, b) => b.length - a.length)[0]
+        if (!prefix) continue
+        score = 2 + prefix.length
+      }
+
+      if (!best || score > best.score) best = { zone, score }
+    }
+    return best?.zone ?? null
+  }
+
+  // Price of one method for a parcel, or null when the parcel is outside its rate table
+  static priceMethod(method: ShippingMethod, parcel: ShippingParcel): number | null {
+    let price = method.price
+    if (method.pricingBasis !== "flat" && method.rates?.length) {
+      const measure = method.pricingBasis === "weight" ? parcel.weight : parcel.itemCount
+      const tier = method.rates.find((t) => measure <= t.upTo)
+      if (!tier) return null
+      price = tier.price
+    }
+
+    if (method.freeShippingThreshold !== undefined && method.freeShippingThreshold !== null && parcel.orderValue >= method.freeShippingThreshold) {
+      return 0
+    }
+    return price
+  }
+
+  /** All methods available for a destination and parcel, cheapest first. */
+  static async getRates(destination: ShippingDestination, parcel: ShippingParcel): Promise<ShippingRateQuote[]> {
+    const configured = await this.getAllZones()
+    const zones = configured.some((zone) => zone.isActive) ? configured : [DEFAULT_SHIPPING_ZONE]
+    const zone = this.matchZone(zones, destination)
+    if (!zone) return []
+
+    const rates: ShippingRateQuote[] = []
+    for (const method of zone.methods) {
+      if (!method.isActive) continue
+      const price = this.priceMethod(method, parcel)
+      if (price === null) continue
+      rates.push({
+        methodId: method.id,
+        zoneId: zone.id,
+        name: method.name,
+        carrier: method.carrier,
+        price,
+        isFree: price === 0,
+        minDeliveryDays: method.minDeliveryDays,
+        maxDeliveryDays: method.maxDeliveryDays,
+      })
+    }
+    return rates.sort((a, b) => a.price - b.price)
+  }
+}
@@ -0,0 +1,179 @@
+import { ObjectId } from "mongodb"
+import { randomBytes } from "crypto"
+import { getDatabase } from "@/lib/mongodb"
+import { sendMail } from "@/lib/mail"
+import { restockMail } from "@/lib/mail/templates"
+import { appBaseUrl } from "@/lib/payments/paymentProvider"
+import type { ProductDocument } from "@/lib/models/Product"
+import type { UserDocument } from "@/lib/models/User"
+import type { StockUnit } from "@/lib/models/Inventory"
+import type { RestockSubscription, RestockSubscriptionDocument } from "@/lib/models/StockAlert"
+import type { Language } from "@/types"
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export class StockAlertError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "StockAlertError"
+  }
+}
+
+// A change to the stock of a unit, as recorded in the movement log
+export interface StockChange extends StockUnit {
+  productName?: string
+  quantity: number
+  stockAfter?: number
+}
+
+export class StockAlertService {
+  private static async getCollection() {
+    const db = await getDatabase()
+    return db.collection<RestockSubscriptionDocument>("restock_subscriptions")
+  }
+
+  private static toSubscription(doc: RestockSubscriptionDocument): RestockSubscription {
+    return {
+      id: doc._id!.toString(),
+      productId: doc.productId,
+      variationId: doc.variationId,
+      size: doc.size || undefined,
+      email: doc.email,
+      status: doc.status,
+      createdAt: doc.createdAt,
+      notifiedAt: doc.notifiedAt,
+    }
+  }
+
+  /**
+   * Sign a customer up for one email when a sold-out variation or size is back. Signing
+   * up twice for the same unit keeps the first subscription.
+   */
+  static async subscribe({
+    productId,
+    variationId,
+    size,
+    email,
+    customer,
+    language = "en",
+  }: StockUnit & { email: string; customer?: string; language?: Language }): Promise<RestockSubscription> {
+    const address = email?.trim().toLowerCase()
+    if (!address || !EMAIL_PATTERN.test(address)) {
+      throw new StockAlertError("Enter a valid email address")
+    }
+    if (!ObjectId.isValid(productId)) {
+      throw new StockAlertError("Product not found", 404)
+    }
+
+    const db = await getDatabase()
+    const product = await db.collection<ProductDocument>("products").findOne({ _id: new ObjectId(productId) })
+    const variation = product?.variations?.find((v) => v.id === variationId)
+    if (!variation || (size && !variation.sizePrices?.some((sp) => sp.size === size))) {
+      throw new StockAlertError("Product not found", 404)
+    }
+
+    const collection = await this.getCollection()
+    const result = await collection.findOneAndUpdate(
+      // Subscriptions to a whole variation are stored with a null size so the unique index covers them too
+      { productId, variationId, size: size || null, email: address, status: "pending" } as any,
+      {
+        $setOnInsert: {
+          ...(customer && customer !== "Guest" ? { customer } : {}),
+          variantName: [variation.color?.name, size].filter(Boolean).join(" / "),
+          language: language === "sv" ? "sv" : "en",
+          token: randomBytes(24).toString("hex"),
+          createdAt: new Date(),
+        },
+      },
+      { upsert: true, returnDocument: "after" },
+    )
+    return this.toSubscription(result!)
+  }
+
+  static async unsubscribe(token: string): Promise<boolean> {
+    if (!token) return false
+    const collection = await this.getCollection()
+    const result = await collection.updateOne({ token, status: "pending" }, { $set: { status: "unsubscribed" } })
+    return result.modifiedCount > 0
+  }
+
+  /**
+   * React to a recorded stock change: mail waiting customers when a unit comes back in
+   * stock and admins when it drops to the low-stock threshold. Only crossings trigger
+   * mail, so stock moving around below the threshold does not repeat the alert. Mail
+   * failures are logged and never fail the stock change itself.
+   */
+  static async stockChanged(change: StockChange, threshold: number): Promise<void> {
+    if (typeof change.stockAfter !== "number") return
+    const before = change.stockAfter - change.quantity
+
+    try {
+      if (before <= 0 && change.stockAfter > 0) await this.notifyRestock(change)
+      if (before > threshold && change.stockAfter <= threshold) await this.notifyLowStock(change, threshold)
+    } catch (error) {
+      console.error(`Failed to send stock alerts for variation ${change.variationId}:`, error)
+    }
+  }
+
+  private static async notifyRestock(change: StockChange): Promise<void> {
+    const collection = await this.getCollection()
+    // Stock kept per variation covers every size; stock per size only the matching size
+    const waiting = await collection
+      .find({
+        productId: change.productId,
+        variationId: change.variationId,
+        status: "pending",
+        ...(change.size ? { size: { $in: [change.size, null] } } : {}),
+      } as any)
+      .toArray()
+
+    for (const subscription of waiting) {
+      // Claiming the subscription first means two restocks never mail the same customer twice
+      const claimed = await collection.updateOne(
+        { _id: subscription._id, status: "pending" },
+        { $set: { status: "notified", notifiedAt: new Date() } },
+      )
+      if (claimed.modifiedCount === 0) continue
+
+      const productName = change.productName || "Your product"
+      const content = restockMail(
+        {
+          productName,
+          variant: subscription.variantName || change.size || productName,
+          productUrl: `${appBaseUrl()}/design-tool?productId=${change.productId}`,
+          unsubscribeUrl: `${appBaseUrl()}/api/stock-alerts/unsubscribe?token=${subscription.token}`,
+        },
+        subscription.language || "en",
+      )
+      await sendMail({ to: subscription.email, ...content })
+    }
+  }
+
+  // Sent to LOW_STOCK_ALERT_EMAILS, or to every admin when that is not set
+  private static async notifyLowStock(change: StockChange, threshold: number): Promise<void> {
+    let recipients = (process.env.LOW_STOCK_ALERT_EMAILS || "")
+      .split(",")
+      .map((email) => email.trim())
+      .filter(Boolean)
+    if (recipients.length === 0) {
+      const db = await getDatabase()
+      const admins = await db
+        .collection<UserDocument>("users")
+        .find({ role: "admin" }, { projection: { email: 1 } })
+        .toArray()
+      recipients = admins.map((admin) => admin.email)
+    }
+    if (recipients.length === 0) return
+
+    const unit = [change.productName || change.productId, change.size && `size ${change.size}`].filter(Boolean).join(", ")
+    await sendMail({
+      to: recipients,
+      subject: change.stockAfter! <= 0 ? `Out of stock: ${unit}` : `Low stock: ${unit}`,
+      text: [
+        `${unit} is down to ${change.stockAfter} (low-stock threshold ${threshold}).`,
+        "",
+        `Restock or adjust it under Inventory: ${appBaseUrl()}/dashboard`,
+      ].join("\n"),
+    })
+  }
+}
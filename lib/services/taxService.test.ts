@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+vi.mock("@/lib/mongodb", () => ({ getDatabase: vi.fn() }))
+
+import { TaxService } from "@/lib/services/taxService"
+
+const fetchMock = vi.fn()
+
+describe("TaxService.verifyVatNumber", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock)
+    fetchMock.mockReset()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it("asks VIES in production when no setting is given", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+    vi.stubEnv("VIES_VALIDATION", "")
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ valid: false })))
+
+    expect(await TaxService.verifyVatNumber("DE123456789")).toBeNull()
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("charges VAT when VIES cannot be reached in time", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+    fetchMock.mockRejectedValue(new DOMException("The operation was aborted due to timeout", "TimeoutError"))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    expect(await TaxService.verifyVatNumber("DE223456789")).toBeNull()
+    expect(fetchMock.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal)
+
+    // Failures are not remembered, so the next checkout asks again
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ valid: true })))
+    expect(await TaxService.verifyVatNumber("DE223456789")).toMatchObject({ formatted: "DE223456789" })
+  })
+
+  it("reuses VIES answers for a while", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ valid: true })))
+
+    await TaxService.verifyVatNumber("DE323456789")
+    expect(await TaxService.verifyVatNumber("DE 323 456 789")).toMatchObject({ formatted: "DE323456789" })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("only format-checks when VIES is turned off or outside production", async () => {
+    vi.stubEnv("NODE_ENV", "production")
+    vi.stubEnv("VIES_VALIDATION", "false")
+    expect(await TaxService.verifyVatNumber("DE123456789")).toMatchObject({ formatted: "DE123456789" })
+
+    vi.stubEnv("NODE_ENV", "development")
+    vi.stubEnv("VIES_VALIDATION", "")
+    expect(await TaxService.verifyVatNumber("DE 123 456 789")).toMatchObject({ formatted: "DE123456789" })
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,260 @@
+import { ObjectId } from "mongodb"
+import { getDatabase } from "@/lib/mongodb"
+import { normalizeCountryCode, DEFAULT_COUNTRY_CODE } from "@/lib/utils/countries"
+import { EU_COUNTRY_CODES, parseVatNumber, type ParsedVatNumber } from "@/lib/utils/vatNumber"
+import type {
+  CreateTaxRuleData,
+  TaxBreakdown,
+  TaxBreakdownLine,
+  TaxClass,
+  TaxRule,
+  TaxRuleDocument,
+  TaxSettings,
+} from "@/lib/models/Tax"
+
+// Swedish rates, used until an admin configures rules
+export const DEFAULT_TAX_RULES: TaxRule[] = [
+  { id: "default-standard", country: "*", taxClass: "standard", rate: 0.25, label: "VAT", isActive: true },
+  { id: "default-reduced", country: "*", taxClass: "reduced", rate: 0.12, label: "VAT", isActive: true },
+  { id: "default-super-reduced", country: "*", taxClass: "super_reduced", rate: 0.06, label: "VAT", isActive: true },
+  { id: "default-zero", country: "*", taxClass: "zero", rate: 0, label: "VAT", isActive: true },
+]
+
+// Matches how orders were priced before tax rules existed: tax added on top, shipping untaxed
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  pricesIncludeTax: false,
+  shippingTaxClass: null,
+  originCountry: DEFAULT_COUNTRY_CODE,
+}
+
+const SETTINGS_ID = "tax"
+
+export interface TaxableLine {
+  amount: number // Line total in the catalog's pricing mode, before any order-level discountAmount
+  taxClass?: TaxClass
+}
+
+export interface TaxCalculationInput {
+  lines: TaxableLine[]
+  discountAmount: number
+  shippingAmount: number
+  country?: string
+  vatNumber?: string
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Unchecked numbers would let anyone skip VAT, so production asks VIES unless turned off
+function viesValidationEnabled(): boolean {
+  const setting = process.env.VIES_VALIDATION
+  return setting === "true" || (setting !== "false" && process.env.NODE_ENV === "production")
+}
+
+// VIES is slow at times; checkout charges VAT rather than wait longer than this
+const VIES_TIMEOUT_MS = 3000
+// Answers VIES gave are reused for a while; failed lookups are not cached
+const VIES_CACHE_TTL_MS = 10 * 60 * 1000
+const VIES_CACHE_MAX_ENTRIES = 1000
+const viesCache = new Map<string, { valid: boolean; expiresAt: number }>()
+
+function rememberViesResult(vatNumber: string, valid: boolean) {
+  // Maps keep insertion order, so the first key is the oldest entry
+  if (viesCache.size >= VIES_CACHE_MAX_ENTRIES) viesCache.delete(viesCache.keys().next().value!)
+  viesCache.set(vatNumber, { valid, expiresAt: Date.now() + VIES_CACHE_TTL_MS })
+}
+
+export class TaxService {
+  private static async getRuleCollection() {
+    const db = await getDatabase()
+    return db.collection<TaxRuleDocument>("taxRules")
+  }
+
+  private static async getSettingsCollection() {
+    const db = await getDatabase()
+    return db.collection<TaxSettings & { _id: string }>("settings")
+  }
+
+  private static toRule(doc: TaxRuleDocument): TaxRule {
+    return {
+      id: doc._id!.toString(),
+      country: doc.country,
+      taxClass: doc.taxClass,
+      rate: doc.rate,
+      label: doc.label,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    }
+  }
+
+  static async getAllRules(): Promise<TaxRule[]> {
+    const collection = await this.getRuleCollection()
+    const rules = await collection.find({}).sort({ country: 1, taxClass: 1 }).toArray()
+    return rules.map((rule) => this.toRule(rule))
+  }
+
+  static async createRule(data: CreateTaxRuleData): Promise<TaxRule> {
+    const collection = await this.getRuleCollection()
+    const country = data.country === "*" ? "*" : normalizeCountryCode(data.country)
+    const existing = await collection.findOne({ country, taxClass: data.taxClass })
+    if (existing) {
+      throw new Error(`A ${data.taxClass} rule for ${country} already exists`)
+    }
+
+    const now = new Date()
+    const doc: TaxRuleDocument = { ...data, country, createdAt: now, updatedAt: now }
+    const result = await collection.insertOne(doc)
+    return this.toRule({ ...doc, _id: result.insertedId })
+  }
+
+  static async updateRule(id: string, data: Partial<CreateTaxRuleData>): Promise<TaxRule | null> {
+    if (!ObjectId.isValid(id)) return null
+    const collection = await this.getRuleCollection()
+    const { id: _ignored, createdAt, updatedAt, ...fields } = data as Partial<TaxRule>
+    if (fields.country && fields.country !== "*") {
+      fields.country = normalizeCountryCode(fields.country)
+    }
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: { ...fields, updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+    return result ? this.toRule(result) : null
+  }
+
+  static async deleteRule(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false
+    const collection = await this.getRuleCollection()
+    const result = await collection.deleteOne({ _id: new ObjectId(id) })
+    return result.deletedCount === 1
+  }
+
+  static async getSettings(): Promise<TaxSettings> {
+    const collection = await this.getSettingsCollection()
+    const doc = await collection.findOne({ _id: SETTINGS_ID })
+    if (!doc) return DEFAULT_TAX_SETTINGS
+    const { _id, ...settings } = doc
+    return { ...DEFAULT_TAX_SETTINGS, ...settings }
+  }
+
+  static async updateSettings(data: Partial<TaxSettings>): Promise<TaxSettings> {
+    const collection = await this.getSettingsCollection()
+    const { updatedAt, ...fields } = data
+    if (fields.originCountry) {
+      fields.originCountry = normalizeCountryCode(fields.originCountry)
+    }
+    await collection.updateOne(
+      { _id: SETTINGS_ID },
+      { $set: { ...fields, updatedAt: new Date() } },
+      { upsert: true },
+    )
+    return this.getSettings()
+  }
+
+  /**
+   * Rule for a destination and class. Falls back to the "*" rule for the class,
+   * then to the destination's standard rate.
+   */
+  static findRule(rules: TaxRule[], country: string, taxClass: TaxClass): TaxRule | undefined {
+    const active = rules.filter((rule) => rule.isActive)
+    return (
+      active.find((rule) => rule.country === country && rule.taxClass === taxClass) ??
+      active.find((rule) => rule.country === "*" && rule.taxClass === taxClass) ??
+      active.find((rule) => rule.country === country && rule.taxClass === "standard") ??
+      active.find((rule) => rule.country === "*" && rule.taxClass === "standard")
+    )
+  }
+
+  /**
+   * Format-check an EU VAT number and confirm it with the EU VIES service. VIES is on in
+   * production unless VIES_VALIDATION is "false"; any VIES failure or timeout counts as invalid so VAT is charged.
+   */
+  static async verifyVatNumber(vatNumber: string): Promise<ParsedVatNumber | null> {
+    const parsed = parseVatNumber(vatNumber)
+    if (!parsed || !viesValidationEnabled()) return parsed
+
+    const cached = viesCache.get(parsed.formatted)
+    if (cached && cached.expiresAt > Date.now()) return cached.valid ? parsed : null
+
+    try {
+      const response = await fetch("https://ec.europa.eu/taxation_customs/vies/rest-api/check-vat-number", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ countryCode: parsed.prefix, vatNumber: parsed.number }),
+        signal: AbortSignal.timeout(VIES_TIMEOUT_MS),
+      })
+      if (!response.ok) return null
+      const result = await response.json()
+      rememberViesResult(parsed.formatted, !!result.valid)
+      return result.valid ? parsed : null
+    } catch (error) {
+      console.error("VIES lookup failed:", error)
+      return null
+    }
+  }
+
+  /** Tax for an order: lines grouped by rate, discount spread pro rata, optional shipping tax. */
+  static async calculate(input: TaxCalculationInput): Promise<{ breakdown: TaxBreakdown; total: number }> {
+    const [settings, configuredRules] = await Promise.all([this.getSettings(), this.getAllRules()])
+    const rules = configuredRules.some((rule) => rule.isActive) ? configuredRules : DEFAULT_TAX_RULES
+    const country = normalizeCountryCode(input.country)
+
+    // B2B reverse charge: a valid VAT number from another EU country than ours
+    const vat = input.vatNumber ? await this.verifyVatNumber(input.vatNumber) : null
+    const reverseCharge =
+      !!vat && vat.country === country && EU_COUNTRY_CODES.has(country) && country !== settings.originCountry
+
+    const subtotal = input.lines.reduce((sum, line) => sum + line.amount, 0)
+    const discountRatio = subtotal > 0 ? Math.min(1, input.discountAmount / subtotal) : 0
+
+    const grossByClass = new Map<TaxClass, number>()
+    for (const line of input.lines) {
+      const taxClass = line.taxClass || "standard"
+      grossByClass.set(taxClass, (grossByClass.get(taxClass) || 0) + line.amount * (1 - discountRatio))
+    }
+    if (settings.shippingTaxClass && input.shippingAmount > 0) {
+      const taxClass = settings.shippingTaxClass
+      grossByClass.set(taxClass, (grossByClass.get(taxClass) || 0) + input.shippingAmount)
+    }
+
+    const lines: TaxBreakdownLine[] = []
+    for (const [taxClass, amount] of grossByClass) {
+      if (amount <= 0) continue
+      const rule = this.findRule(rules, country, taxClass)
+      const ruleRate = rule?.rate ?? 0
+      // Tax-inclusive prices have the destination's tax stripped out, even under reverse charge
+      const netAmount = settings.pricesIncludeTax ? amount / (1 + ruleRate) : amount
+      const rate = reverseCharge ? 0 : ruleRate
+      const taxAmount = settings.pricesIncludeTax && !reverseCharge ? amount - netAmount : netAmount * rate
+      lines.push({ taxClass, rate, label: rule?.label || "VAT", netAmount: round(netAmount), taxAmount: round(taxAmount) })
+    }
+
+    const untaxedShipping = settings.shippingTaxClass ? 0 : input.shippingAmount
+    const shippingRate = settings.shippingTaxClass
+      ? reverseCharge
+        ? 0
+        : this.findRule(rules, country, settings.shippingTaxClass)?.rate ?? 0
+      : 0
+    const shippingTax = settings.pricesIncludeTax ? 0 : round(input.shippingAmount * shippingRate)
+
+    const netTotal = round(lines.reduce((sum, line) => sum + line.netAmount, 0) + untaxedShipping)
+    const taxTotal = round(lines.reduce((sum, line) => sum + line.taxAmount, 0))
+
+    return {
+      breakdown: {
+        country,
+        pricesIncludeTax: settings.pricesIncludeTax,
+        reverseCharge,
+        vatNumber: vat?.formatted,
+        lines,
+        netTotal,
+        taxTotal,
+        shippingTax,
+        shippingTaxClass: settings.shippingTaxClass && input.shippingAmount > 0 ? settings.shippingTaxClass : undefined,
+      },
+      total: round(netTotal + taxTotal),
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { ObjectId } from "mongodb"
+
+const { insertOne } = vi.hoisted(() => ({ insertOne: vi.fn() }))
+
+vi.mock("@/lib/mongodb", () => ({ getDatabase: async () => ({ collection: () => ({ insertOne }) }) }))
+
+import { PasswordError, UserService } from "@/lib/services/userService"
+import { verifyPassword } from "@/lib/utils/password"
+
+const user = (password: string) => ({
+  fullName: "Test",
+  email: "test@example.com",
+  password,
+  role: "user" as const,
+  customerNumber: "C-1",
+})
+
+beforeEach(() => {
+  insertOne.mockReset()
+  insertOne.mockResolvedValue({ insertedId: new ObjectId() })
+})
+
+describe("UserService.createUser", () => {
+  it("hashes passwords that look like a hash", async () => {
+    const password = "scrypt$attacker-chosen"
+    await UserService.createUser(user(password))
+
+    const stored = insertOne.mock.calls[0][0].password
+    expect(stored).not.toBe(password)
+    expect(await verifyPassword(password, stored)).toBe(true)
+  })
+})
+
+describe("UserService.importUser", () => {
+  it("only takes existing hashes", async () => {
+    await expect(UserService.importUser(user("hunter2hunter2"))).rejects.toThrow(PasswordError)
+    expect(insertOne).not.toHaveBeenCalled()
+  })
+})
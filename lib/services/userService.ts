@@ -1,6 +1,64 @@
+import { createHmac, timingSafeEqual } from "crypto"
 import { getDatabase } from "@/lib/mongodb"
 import type { UserDocument, User } from "@/lib/models/User"
 import { ObjectId } from "mongodb"
+import { hashPassword, isPasswordHash, needsRehash, passwordPolicyError, verifyPassword } from "@/lib/utils/password"
+
+// How long a password reset link can be used
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000
+// How long an email verification link can be used
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000
+// Consecutive wrong passwords before an account is locked, and for how long
+export const MAX_FAILED_LOGINS = 5
+export const ACCOUNT_LOCKOUT_MS = 15 * 60 * 1000
+
+export class PasswordError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "PasswordError"
+  }
+}
+
+export class EmailVerificationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = "EmailVerificationError"
+  }
+}
+
+// Thrown while an account is locked after too many wrong passwords
+export class AccountLockedError extends Error {
+  readonly code = "AccountLocked"
+
+  constructor(public lockedUntil: Date) {
+    super(`Too many failed logins, the account is locked until ${lockedUntil.toISOString()}`)
+    this.name = "AccountLockedError"
+  }
+}
+
+type TokenPurpose = "reset-password" | "verify-email"
+
+function tokenSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is required to sign account links")
+  }
+  return secret
+}
+
+/**
+ * Account link tokens are `<user id>.<expiry>.<signature>`. The signature covers the purpose
+ * and a value the link is bound to: the password hash for resets, so a reset link stops
+ * working once the password changes, and the email for verification links.
+ */
+function signToken(purpose: TokenPurpose, userId: string, expiresAt: number, binding: string): string {
+  return createHmac("sha256", tokenSecret()).update(`${purpose}.${userId}.${expiresAt}.${binding}`).digest("base64url")
+}
+
+function createToken(purpose: TokenPurpose, userId: string, ttlMs: number, binding: string): string {
+  const expiresAt = Date.now() + ttlMs
+  return `${userId}.${expiresAt}.${signToken(purpose, userId, expiresAt, binding)}`
+}
 
 export class UserService {
   private static async getCollection() {
@@ -8,7 +66,61 @@ export class UserService {
     return db.collection<UserDocument>("users")
   }
 
+  // Map a stored user to the public User shape, without the password
+  private static toUser(user: UserDocument): User {
+    return {
+      id: user._id!.toString(),
+      email: user.email,
+      role: user.role,
+      customerNumber: user.customerNumber,
+      fullName: user.fullName,
+      phone: user.phone,
+      address: user.address,
+      city: user.city,
+      postalCode: user.postalCode,
+      country: user.country,
+      emailVerified: this.isEmailVerified(user),
+      failedLoginCount: user.failedLoginCount,
+      lockedUntil: user.lockedUntil,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    }
+  }
+
+  // The user with a token for `purpose`, or null when the token is malformed, expired or forged
+  private static async userForToken(
+    token: string,
+    purpose: TokenPurpose,
+    bindingOf: (user: UserDocument) => string,
+  ): Promise<UserDocument | null> {
+    const [userId, expires, signature] = (token || "").split(".")
+    const expiresAt = Number(expires)
+    if (!userId || !signature || !ObjectId.isValid(userId) || !(expiresAt > Date.now())) return null
+
+    const collection = await this.getCollection()
+    const user = await collection.findOne({ _id: new ObjectId(userId) })
+    if (!user) return null
+
+    const expected = Buffer.from(signToken(purpose, userId, expiresAt, bindingOf(user)))
+    const given = Buffer.from(signature)
+    if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null
+    return user
+  }
+
+  // The password is always hashed, whatever it looks like; accounts with existing hashes go through importUser
   static async createUser(userData: Omit<UserDocument, "_id" | "createdAt" | "updatedAt">): Promise<User> {
+    return this.insertUser({ ...userData, password: await hashPassword(userData.password) })
+  }
+
+  /** For migrations: store an account whose password was already hashed by this app. */
+  static async importUser(userData: Omit<UserDocument, "_id" | "createdAt" | "updatedAt">): Promise<User> {
+    if (!isPasswordHash(userData.password)) {
+      throw new PasswordError("Imported users need a password hash")
+    }
+    return this.insertUser(userData)
+  }
+
+  private static async insertUser(userData: Omit<UserDocument, "_id" | "createdAt" | "updatedAt">): Promise<User> {
     const collection = await this.getCollection()
 
     const newUser: UserDocument = {
@@ -19,20 +131,7 @@ export class UserService {
 
     const result = await collection.insertOne(newUser)
 
-    return {
-      id: result.insertedId.toString(),
-      email: newUser.email,
-      role: newUser.role,
-      customerNumber: newUser.customerNumber,
-      fullName: newUser.fullName,
-      phone: newUser.phone,
-      address: newUser.address,
-      city: newUser.city,
-      postalCode: newUser.postalCode,
-      country: newUser.country,
-      createdAt: newUser.createdAt,
-      updatedAt: newUser.updatedAt,
-    }
+    return this.toUser({ ...newUser, _id: result.insertedId })
   }
 
   static async findUserByEmail(email: string): Promise<UserDocument | null> {
@@ -41,29 +140,169 @@ export class UserService {
     return user
   }
 
+  /**
+   * The user with this email and password, or null. Plaintext passwords from before
+   * hashing, and hashes with outdated parameters, are re-hashed on a successful login.
+   * Throws AccountLockedError while the account is locked, without checking the password.
+   */
+  static async verifyCredentials(email: string, password: string): Promise<UserDocument | null> {
+    const user = await this.findUserByEmail(email)
+    if (!user) return null
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      throw new AccountLockedError(user.lockedUntil)
+    }
+
+    if (!(await verifyPassword(password, user.password))) {
+      await this.recordFailedLogin(user)
+      return null
+    }
+
+    const collection = await this.getCollection()
+    if (user.failedLoginCount || user.lockedUntil) {
+      await collection.updateOne({ _id: user._id }, { $set: { failedLoginCount: 0 }, $unset: { lockedUntil: "" } })
+    }
+    if (needsRehash(user.password)) {
+      // Matching on the old value keeps a concurrent password change from being overwritten
+      await collection.updateOne(
+        { _id: user._id, password: user.password },
+        { $set: { password: await hashPassword(password), updatedAt: new Date() } },
+      )
+    }
+    return user
+  }
+
+  /**
+   * Count a wrong password and lock the account once MAX_FAILED_LOGINS is reached. The count
+   * only resets on a successful login, so after a lock expires each further failure locks again.
+   */
+  private static async recordFailedLogin(user: UserDocument): Promise<void> {
+    const collection = await this.getCollection()
+    const now = new Date()
+    const lockUntil = new Date(now.getTime() + ACCOUNT_LOCKOUT_MS)
+
+    const result = await collection.findOneAndUpdate(
+      { _id: user._id },
+      [
+        { $set: { failedLoginCount: { $add: [{ $ifNull: ["$failedLoginCount", 0] }, 1] }, lastFailedLoginAt: now } },
+        { $set: { lockedUntil: { $cond: [{ $gte: ["$failedLoginCount", MAX_FAILED_LOGINS] }, lockUntil, "$lockedUntil"] } } },
+      ],
+      { returnDocument: "after" },
+    )
+    if (result?.lockedUntil && result.lockedUntil > now) {
+      throw new AccountLockedError(result.lockedUntil)
+    }
+  }
+
+  // Lift a lockout before it expires
+  static async unlockUser(id: string): Promise<User | null> {
+    const collection = await this.getCollection()
+    const result = await collection.findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: { failedLoginCount: 0, updatedAt: new Date() }, $unset: { lockedUntil: "" } },
+      { returnDocument: "after" },
+    )
+
+    if (!result) return null
+
+    return this.toUser(result)
+  }
+
+  // Accounts created before verification existed have no emailVerifiedAt and count as verified
+  static isEmailVerified(user: UserDocument): boolean {
+    return user.emailVerifiedAt !== null
+  }
+
+  static async hasVerifiedEmail(id: string): Promise<boolean> {
+    if (!ObjectId.isValid(id)) return false
+    const collection = await this.getCollection()
+    const user = await collection.findOne({ _id: new ObjectId(id) }, { projection: { emailVerifiedAt: 1 } })
+    return !!user && this.isEmailVerified(user as UserDocument)
+  }
+
+  // Signed, expiring link token for the verification email; it stops working if the email changes
+  static createEmailVerificationToken(userId: string, email: string): string {
+    return createToken("verify-email", userId, EMAIL_VERIFICATION_TTL_MS, email)
+  }
+
+  // Mark the email as verified; using a link again after that is harmless
+  static async verifyEmail(token: string): Promise<User> {
+    const user = await this.userForToken(token, "verify-email", (u) => u.email)
+    if (!user) {
+      throw new EmailVerificationError("This verification link is invalid or has expired")
+    }
+
+    const collection = await this.getCollection()
+    const result = await collection.findOneAndUpdate(
+      { _id: user._id, emailVerifiedAt: null },
+      { $set: { emailVerifiedAt: new Date(), updatedAt: new Date() } },
+      { returnDocument: "after" },
+    )
+    return this.toUser(result ?? user)
+  }
+
+  static async changePassword(id: string, currentPassword: string, newPassword: string): Promise<void> {
+    const collection = await this.getCollection()
+    const user = await collection.findOne({ _id: new ObjectId(id) })
+    if (!user) {
+      throw new PasswordError("User not found", 404)
+    }
+    if (!(await verifyPassword(currentPassword || "", user.password))) {
+      throw new PasswordError("Current password is incorrect", 403)
+    }
+    await this.setPassword(user, newPassword)
+  }
+
+  // Signed, expiring link token for the forgot-password email
+  static createPasswordResetToken(user: UserDocument): string {
+    return createToken("reset-password", user._id!.toString(), PASSWORD_RESET_TTL_MS, user.password)
+  }
+
+  // Set a new password with a reset token; throws PasswordError when the token is not valid
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    const user = await this.userForToken(token, "reset-password", (u) => u.password)
+    if (!user) {
+      throw new PasswordError("This reset link is invalid or has expired")
+    }
+
+    await this.setPassword(user, newPassword)
+  }
+
+  private static async setPassword(user: UserDocument, newPassword: string): Promise<void> {
+    const policyError = passwordPolicyError(newPassword)
+    if (policyError) {
+      throw new PasswordError(policyError)
+    }
+
+    const collection = await this.getCollection()
+    // Conditional on the old hash, so one reset token can only ever be used once
+    const result = await collection.updateOne(
+      { _id: user._id, password: user.password },
+      { $set: { password: await hashPassword(newPassword), updatedAt: new Date() } },
+    )
+    if (result.modifiedCount === 0) {
+      throw new PasswordError("The password was changed in the meantime, please try again", 409)
+    }
+  }
+
   static async getAllUsers(): Promise<User[]> {
     const collection = await this.getCollection()
     const users = await collection.find({}).toArray()
 
-    return users.map((user) => ({
-      id: user._id!.toString(),
-      email: user.email,
-      role: user.role,
-      customerNumber: user.customerNumber,
-      fullName: user.fullName,
-      phone: user.phone,
-      address: user.address,
-      city: user.city,
-      postalCode: user.postalCode,
-      country: user.country,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-    }))
+    return users.map((user) => this.toUser(user))
   }
 
   static async updateUser(id: string, userData: Partial<Omit<UserDocument, "createdAt">>): Promise<User | null> {
     const collection = await this.getCollection()
 
+    // Passwords are never stored as given
+    if (userData.password !== undefined) {
+      const policyError = passwordPolicyError(userData.password)
+      if (policyError) {
+        throw new PasswordError(policyError)
+      }
+      userData = { ...userData, password: await hashPassword(userData.password) }
+    }
+
     const result = await collection.findOneAndUpdate(
       { _id: new ObjectId(id) },
       {
@@ -77,20 +316,7 @@ export class UserService {
 
     if (!result) return null
 
-    return {
-      id: result._id!.toString(),
-      email: result.email,
-      role: result.role,
-      customerNumber: result.customerNumber,
-      fullName: result.fullName,
-      phone: result.phone,
-      address: result.address,
-      city: result.city,
-      postalCode: result.postalCode,
-      country: result.country,
-      createdAt: result.createdAt,
-      updatedAt: result.updatedAt,
-    }
+    return this.toUser(result)
   }
 
   static async deleteUser(id: string): Promise<boolean> {
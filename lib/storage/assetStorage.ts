@@ -0,0 +1,14 @@
+// Where uploaded and generated images are kept; keys are content-addressed asset ids
+export interface AssetStorage {
+  name: string
+  exists(key: string): Promise<boolean>
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  get(key: string): Promise<Buffer | null>
+}
+
+export class AssetStorageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AssetStorageError"
+  }
+}
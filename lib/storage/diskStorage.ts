@@ -0,0 +1,43 @@
+import { access, mkdir, readFile, writeFile } from "fs/promises"
+import path from "path"
+import type { AssetStorage } from "@/lib/storage/assetStorage"
+
+// Spread over subdirectories by the first characters of the hash so no directory grows huge
+function fileFor(key: string): string {
+  const directory = path.resolve(process.env.ASSET_DIR || ".assets")
+  return path.join(directory, key.slice(0, 2), key)
+}
+
+// Local backend: one file per asset under ASSET_DIR
+export const diskStorage: AssetStorage = {
+  name: "disk",
+
+  async exists(key) {
+    try {
+      await access(fileFor(key))
+      return true
+    } catch {
+      return false
+    }
+  },
+
+  async put(key, body) {
+    const file = fileFor(key)
+    await mkdir(path.dirname(file), { recursive: true })
+    try {
+      await writeFile(file, body, { flag: "wx" })
+    } catch (error: any) {
+      // The same content was stored concurrently; assets never change, so either copy will do
+      if (error?.code !== "EEXIST") throw error
+    }
+  },
+
+  async get(key) {
+    try {
+      return await readFile(fileFor(key))
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null
+      throw error
+    }
+  },
+}
@@ -0,0 +1,14 @@
+import type { AssetStorage } from "@/lib/storage/assetStorage"
+import { diskStorage } from "@/lib/storage/diskStorage"
+import { s3Storage } from "@/lib/storage/s3Storage"
+
+export * from "@/lib/storage/assetStorage"
+
+const BACKENDS: AssetStorage[] = [diskStorage, s3Storage]
+
+// Chosen with ASSET_STORAGE; without it assets go to S3 when a bucket is configured and to local disk otherwise
+export function getAssetStorage(): AssetStorage {
+  const configured = BACKENDS.find((backend) => backend.name === process.env.ASSET_STORAGE)
+  if (configured) return configured
+  return process.env.S3_BUCKET ? s3Storage : diskStorage
+}
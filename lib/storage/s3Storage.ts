@@ -0,0 +1,96 @@
+import { createHash, createHmac } from "crypto"
+import { type AssetStorage, AssetStorageError } from "@/lib/storage/assetStorage"
+
+interface S3Config {
+  endpoint: string
+  region: string
+  bucket: string
+  prefix: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+function getConfig(): S3Config {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new AssetStorageError("S3 storage is not configured")
+  }
+  const region = process.env.S3_REGION || "us-east-1"
+  return {
+    endpoint: (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, ""),
+    region,
+    bucket: S3_BUCKET,
+    prefix: process.env.S3_PREFIX || "assets/",
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+  }
+}
+
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex")
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest()
+
+/**
+ * Send a request signed with AWS Signature Version 4. Objects are addressed path-style
+ * (endpoint/bucket/key), which every S3-compatible service (MinIO, R2, Spaces) accepts.
+ */
+async function s3Request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+  const config = getConfig()
+  const url = new URL(`${config.endpoint}/${config.bucket}/${config.prefix}${key}`)
+  const payloadHash = sha256(body || "")
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "")
+  const dateStamp = amzDate.slice(0, 8)
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+
+  const signedHeaders = "host;x-amz-content-sha256;x-amz-date"
+  const canonicalRequest = [
+    method,
+    url.pathname.split("/").map((segment) => encodeURIComponent(decodeURIComponent(segment))).join("/"),
+    "",
+    `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+    signedHeaders,
+    payloadHash,
+  ].join("\n")
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n")
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region),
+  )
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex")
+
+  return fetch(url, {
+    method,
+    headers: {
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+      ...(contentType ? { "Content-Type": contentType } : {}),
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  })
+}
+
+// S3-compatible backend, configured with S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY and optionally S3_ENDPOINT and S3_REGION
+export const s3Storage: AssetStorage = {
+  name: "s3",
+
+  async exists(key) {
+    const response = await s3Request("HEAD", key)
+    if (response.status === 404) return false
+    if (!response.ok) throw new AssetStorageError(`S3 HEAD ${key} failed with ${response.status}`)
+    return true
+  },
+
+  async put(key, body, contentType) {
+    const response = await s3Request("PUT", key, body, contentType)
+    if (!response.ok) {
+      throw new AssetStorageError(`S3 PUT ${key} failed with ${response.status}: ${await response.text()}`)
+    }
+  },
+
+  async get(key) {
+    const response = await s3Request("GET", key)
+    if (response.status === 404) return null
+    if (!response.ok) throw new AssetStorageError(`S3 GET ${key} failed with ${response.status}`)
+    return Buffer.from(await response.arrayBuffer())
+  },
+}
@@ -0,0 +1,26 @@
+import Stripe from "stripe"
+
+// Check if Stripe secret key is available
+if (!process.env.STRIPE_SECRET_KEY) {
+  console.warn("STRIPE_SECRET_KEY is not set. Payment functionality will be disabled.")
+}
+
+// Shared server-side Stripe client; null when payments are not configured
+export const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: "2023-10-16" as any, // Use a valid API version with type assertion
+    })
+  : null
+
+/**
+ * Verify a webhook payload against the `stripe-signature` header.
+ * Uses the static helper so signatures can be checked without an API key,
+ * which lets locally signed fixture events be replayed in development.
+ */
+export function constructWebhookEvent(payload: string, signature: string): Stripe.Event {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  if (!secret) {
+    throw new Error("STRIPE_WEBHOOK_SECRET is not set")
+  }
+  return Stripe.webhooks.constructEvent(payload, signature, secret)
+}
@@ -0,0 +1,54 @@
+// The shop is based in Sweden; addresses without a country are treated as domestic
+export const DEFAULT_COUNTRY_CODE = "SE"
+
+// Country names customers commonly type at checkout, mapped to ISO 3166-1 alpha-2
+const COUNTRY_NAME_TO_CODE: Record<string, string> = {
+  sweden: "SE",
+  sverige: "SE",
+  norway: "NO",
+  norge: "NO",
+  denmark: "DK",
+  danmark: "DK",
+  finland: "FI",
+  suomi: "FI",
+  iceland: "IS",
+  germany: "DE",
+  deutschland: "DE",
+  tyskland: "DE",
+  netherlands: "NL",
+  nederland: "NL",
+  holland: "NL",
+  belgium: "BE",
+  france: "FR",
+  frankrike: "FR",
+  spain: "ES",
+  spanien: "ES",
+  italy: "IT",
+  italien: "IT",
+  austria: "AT",
+  österrike: "AT",
+  poland: "PL",
+  polen: "PL",
+  ireland: "IE",
+  irland: "IE",
+  estonia: "EE",
+  estland: "EE",
+  latvia: "LV",
+  lettland: "LV",
+  lithuania: "LT",
+  litauen: "LT",
+  "united kingdom": "GB",
+  storbritannien: "GB",
+}
+
+/** Normalize a free-text country (code or name) to an upper-case ISO alpha-2 code. */
+export function normalizeCountryCode(country?: string | null): string {
+  const value = (country || "").trim()
+  if (!value) return DEFAULT_COUNTRY_CODE
+  if (/^[a-z]{2}$/i.test(value)) return value.toUpperCase()
+  return COUNTRY_NAME_TO_CODE[value.toLowerCase()] || value.toUpperCase()
+}
+
+export function normalizePostalCode(postalCode?: string | null): string {
+  return (postalCode || "").replace(/\s+/g, "").toUpperCase()
+}
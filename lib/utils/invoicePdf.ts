@@ -0,0 +1,186 @@
+import jsPDF from 'jspdf'
+import type { Invoice, InvoiceParty } from '@/lib/models/Invoice'
+
+const formatAmount = (amount: number) => `${amount.toFixed(2)} SEK`
+const formatDate = (date: Date | string) => new Date(date).toISOString().split('T')[0]
+const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`
+
+function partyLines(party: InvoiceParty): string[] {
+  return [
+    party.name,
+    party.address,
+    [party.postalCode, party.city].filter(Boolean).join(' '),
+    party.country,
+    party.organisationNumber && `Org. no: ${party.organisationNumber}`,
+    party.vatId && `VAT no: ${party.vatId}`,
+    party.email,
+    party.phone,
+  ].filter((line): line is string => !!line)
+}
+
+export function generateInvoicePDF(invoice: Invoice): jsPDF {
+  const doc = new jsPDF()
+  const isCreditNote = invoice.type === 'credit_note'
+  const title = isCreditNote ? 'Credit Note' : 'Invoice'
+
+  doc.setProperties({
+    title: `${title} ${invoice.invoiceNumber} - ${invoice.seller.name}`,
+    subject: `${title} for order ${invoice.orderId}`,
+    author: invoice.seller.name,
+    creator: 'PrintWrap Pro System'
+  })
+
+  // Header
+  doc.setFillColor(99, 76, 158)
+  doc.rect(0, 0, 210, 30, 'F')
+  doc.setTextColor(255, 255, 255)
+  doc.setFontSize(22)
+  doc.setFont('helvetica', 'bold')
+  doc.text(invoice.seller.name, 20, 20)
+  doc.setFontSize(18)
+  doc.text(title.toUpperCase(), 190, 20, { align: 'right' })
+
+  // Invoice details
+  doc.setTextColor(0, 0, 0)
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'normal')
+  const details = [
+    [`${title} number`, invoice.invoiceNumber],
+    ['Issue date', formatDate(invoice.issueDate)],
+    ...(isCreditNote ? [] : [['Due date', formatDate(invoice.dueDate)]]),
+    ['Order', invoice.orderId],
+    ...(invoice.creditedInvoiceNumber ? [['Credits invoice', invoice.creditedInvoiceNumber]] : []),
+    ...(invoice.replacesInvoiceNumber ? [['Replaces invoice', invoice.replacesInvoiceNumber]] : []),
+    ['Payment terms', invoice.paymentTerms],
+  ]
+  let yPos = 42
+  details.forEach(([label, value]) => {
+    doc.setFont('helvetica', 'bold')
+    doc.text(`${label}:`, 120, yPos)
+    doc.setFont('helvetica', 'normal')
+    doc.text(value, 155, yPos)
+    yPos += 6
+  })
+
+  // Seller and buyer
+  doc.setFont('helvetica', 'bold')
+  doc.text('From', 20, 42)
+  doc.setFont('helvetica', 'normal')
+  partyLines(invoice.seller).forEach((line, index) => doc.text(line, 20, 48 + index * 5))
+
+  const buyerTop = Math.max(yPos, 48 + partyLines(invoice.seller).length * 5) + 8
+  doc.setFont('helvetica', 'bold')
+  doc.text('Bill to', 20, buyerTop)
+  doc.setFont('helvetica', 'normal')
+  const buyerLines = partyLines(invoice.buyer)
+  buyerLines.forEach((line, index) => doc.text(line, 20, buyerTop + 6 + index * 5))
+  yPos = buyerTop + 6 + buyerLines.length * 5 + 10
+
+  // Line items
+  const columns = { description: 20, quantity: 105, unitPrice: 125, rate: 148, tax: 165, net: 190 }
+  const drawLineHeader = () => {
+    doc.setFillColor(243, 240, 250)
+    doc.rect(18, yPos - 5, 174, 8, 'F')
+    doc.setFont('helvetica', 'bold')
+    doc.text('Description', columns.description, yPos)
+    doc.text('Qty', columns.quantity, yPos, { align: 'right' })
+    doc.text('Unit (net)', columns.unitPrice, yPos, { align: 'right' })
+    doc.text('VAT', columns.rate, yPos, { align: 'right' })
+    doc.text('VAT amount', columns.tax, yPos, { align: 'right' })
+    doc.text('Net', columns.net, yPos, { align: 'right' })
+    doc.setFont('helvetica', 'normal')
+    yPos += 8
+  }
+  drawLineHeader()
+
+  invoice.lines.forEach((line) => {
+    if (yPos > 260) {
+      doc.addPage()
+      yPos = 20
+      drawLineHeader()
+    }
+    const description = doc.splitTextToSize(line.description, 80) as string[]
+    doc.text(description, columns.description, yPos)
+    doc.text(String(line.quantity), columns.quantity, yPos, { align: 'right' })
+    doc.text(line.unitPrice.toFixed(2), columns.unitPrice, yPos, { align: 'right' })
+    doc.text(formatRate(line.taxRate), columns.rate, yPos, { align: 'right' })
+    doc.text(line.taxAmount.toFixed(2), columns.tax, yPos, { align: 'right' })
+    doc.text(line.netAmount.toFixed(2), columns.net, yPos, { align: 'right' })
+    yPos += description.length * 5 + 2
+  })
+
+  // Totals per tax rate
+  if (yPos > 220) {
+    doc.addPage()
+    yPos = 20
+  }
+  yPos += 4
+  doc.setDrawColor(99, 76, 158)
+  doc.line(20, yPos, 190, yPos)
+  yPos += 8
+
+  doc.setFont('helvetica', 'bold')
+  doc.text('VAT summary', 20, yPos)
+  yPos += 6
+  doc.setFont('helvetica', 'normal')
+  invoice.taxSummary.forEach((summary) => {
+    doc.text(`${summary.label} ${formatRate(summary.rate)}`, 20, yPos)
+    doc.text(`on ${formatAmount(summary.netAmount)}`, 70, yPos)
+    doc.text(formatAmount(summary.taxAmount), 120, yPos, { align: 'right' })
+    yPos += 6
+  })
+
+  yPos += 4
+  const totals: Array<[string, number]> = [
+    ['Net total', invoice.netTotal],
+    ['VAT total', invoice.taxTotal],
+  ]
+  totals.forEach(([label, amount]) => {
+    doc.text(label, 140, yPos)
+    doc.text(formatAmount(amount), 190, yPos, { align: 'right' })
+    yPos += 6
+  })
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(12)
+  doc.text(isCreditNote ? 'Total credited' : 'Total', 140, yPos)
+  doc.text(formatAmount(invoice.total), 190, yPos, { align: 'right' })
+  yPos += 10
+
+  // Legal notes
+  doc.setFontSize(9)
+  doc.setFont('helvetica', 'normal')
+  if (invoice.reverseCharge) {
+    doc.text(
+      `Reverse charge: VAT to be accounted for by the recipient (Article 196, Directive 2006/112/EC). Buyer VAT no: ${invoice.buyer.vatId}`,
+      20,
+      yPos,
+      { maxWidth: 170 }
+    )
+    yPos += 10
+  }
+  if (invoice.paidAt && !isCreditNote) {
+    doc.text(`Paid by ${invoice.paymentMethod} on ${formatDate(invoice.paidAt)}.`, 20, yPos)
+    yPos += 6
+  }
+
+  // Footer with the seller's registration details on every page
+  const footer = [
+    invoice.seller.name,
+    invoice.seller.organisationNumber && `Org. no ${invoice.seller.organisationNumber}`,
+    invoice.seller.vatId && `VAT no ${invoice.seller.vatId}`
+  ].filter(Boolean).join('  |  ')
+  const pageCount = doc.getNumberOfPages()
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i)
+    doc.setDrawColor(99, 76, 158)
+    doc.setLineWidth(0.5)
+    doc.line(20, 280, 190, 280)
+    doc.setFontSize(8)
+    doc.setTextColor(99, 76, 158)
+    doc.text(footer, 105, 285, { align: 'center' })
+    doc.setTextColor(128, 128, 128)
+    doc.text(`Page ${i} of ${pageCount}`, 105, 290, { align: 'center' })
+  }
+
+  return doc
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest"
+import { allowedNextStatuses } from "@/lib/utils/orderStatus"
+
+describe("allowedNextStatuses", () => {
+  it("keeps unpaid orders out of production", () => {
+    expect(allowedNextStatuses("Queued", "pending")).toEqual(["On Hold", "Cancelled"])
+    expect(allowedNextStatuses("On Hold", undefined)).toEqual(["Queued", "Cancelled"])
+  })
+
+  it("offers the whole workflow once the order is paid", () => {
+    expect(allowedNextStatuses("Queued", "paid")).toEqual(["Printing", "In Production", "On Hold", "Cancelled"])
+    expect(allowedNextStatuses("In Production", "partially_refunded")).toContain("Shipped")
+  })
+})
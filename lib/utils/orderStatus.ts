@@ -0,0 +1,84 @@
+/**
+ * Production status workflow for orders
+ */
+
+import type { PaymentStatus } from "@/lib/models/Order"
+
+export type OrderStatus =
+  | "Queued"
+  | "Printing"
+  | "In Production"
+  | "Shipped"
+  | "Completed"
+  | "On Hold"
+  | "Cancelled"
+  | "Returned"
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  "Queued",
+  "Printing",
+  "In Production",
+  "Shipped",
+  "Completed",
+  "On Hold",
+  "Cancelled",
+  "Returned",
+]
+
+// Allowed next statuses for each status; an empty list marks a final status
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  Queued: ["Printing", "In Production", "On Hold", "Cancelled"],
+  Printing: ["In Production", "On Hold", "Cancelled"],
+  "In Production": ["Shipped", "On Hold", "Cancelled"],
+  "On Hold": ["Queued", "Printing", "In Production", "Cancelled"],
+  Shipped: ["Completed", "Returned"],
+  Completed: ["Returned"],
+  Cancelled: [],
+  Returned: [],
+}
+
+// Orders are created at checkout, before payment; these statuses are only reached once the order is paid
+export const PAID_ORDER_STATUSES: OrderStatus[] = ["Printing", "In Production", "Shipped", "Completed"]
+
+// A partial refund leaves the rest of the order paid for
+export const PRODUCIBLE_PAYMENT_STATUSES: PaymentStatus[] = ["paid", "partially_refunded"]
+
+export interface OrderStatusChange {
+  from: OrderStatus | null
+  to: OrderStatus
+  changedBy: string
+  changedAt: Date
+  note?: string
+}
+
+export class OrderStatusTransitionError extends Error {
+  constructor(public from: OrderStatus, public to: OrderStatus) {
+    super(`Cannot change order status from "${from}" to "${to}"`)
+    this.name = "OrderStatusTransitionError"
+  }
+}
+
+export class OrderNotPaidError extends Error {
+  constructor(public to: OrderStatus) {
+    super(`Order must be paid before it can move to "${to}"`)
+    this.name = "OrderNotPaidError"
+  }
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && (ORDER_STATUSES as string[]).includes(value)
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export function isPaidForProduction(paymentStatus: PaymentStatus | undefined): boolean {
+  return !!paymentStatus && PRODUCIBLE_PAYMENT_STATUSES.includes(paymentStatus)
+}
+
+// Next statuses allowed by the workflow; without a payment only holding and cancelling are left
+export function allowedNextStatuses(from: OrderStatus, paymentStatus: PaymentStatus | undefined): OrderStatus[] {
+  const next = ORDER_STATUS_TRANSITIONS[from] ?? []
+  return isPaidForProduction(paymentStatus) ? next : next.filter((to) => !PAID_ORDER_STATUSES.includes(to))
+}
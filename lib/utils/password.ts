@@ -0,0 +1,70 @@
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual, type ScryptOptions } from "crypto"
+
+/**
+ * Password hashing with scrypt. Hashes are stored as
+ * `scrypt$<N>$<r>$<p>$<salt>$<hash>` (base64 salt and hash), so the cost can be raised
+ * later and old hashes still verify; needsRehash tells when to upgrade them.
+ */
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 }
+const KEY_LENGTH = 64
+// scrypt needs about 128 * N * r bytes, 32 MB here, which is just over Node's default limit
+const MAX_MEMORY = 64 * 1024 * 1024
+
+export const MIN_PASSWORD_LENGTH = 8
+
+function scrypt(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scryptCallback(password, salt, KEY_LENGTH, { ...options, maxmem: MAX_MEMORY }, (error, key) =>
+      error ? reject(error) : resolve(key),
+    )
+  })
+}
+
+export function isPasswordHash(stored: string | undefined): boolean {
+  return !!stored && stored.startsWith("scrypt$")
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const { N, r, p } = SCRYPT_PARAMS
+  const key = await scrypt(password, salt, { N, r, p })
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$")
+}
+
+/**
+ * Check a password against a stored hash. Accounts created before hashing still hold
+ * the plaintext password, which is compared in constant time so it can be upgraded.
+ */
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  if (!stored) return false
+
+  if (!isPasswordHash(stored)) {
+    const given = Buffer.from(password)
+    const expected = Buffer.from(stored)
+    return given.length === expected.length && timingSafeEqual(given, expected)
+  }
+
+  const [, N, r, p, salt, hash] = stored.split("$")
+  const expected = Buffer.from(hash, "base64")
+  const key = await scrypt(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) })
+  return key.length === expected.length && timingSafeEqual(key, expected)
+}
+
+// Plaintext legacy passwords and hashes made with weaker parameters should be re-hashed
+export function needsRehash(stored: string | undefined): boolean {
+  if (!isPasswordHash(stored)) return true
+  const [, N, r, p] = stored!.split("$")
+  return Number(N) < SCRYPT_PARAMS.N || Number(r) < SCRYPT_PARAMS.r || Number(p) < SCRYPT_PARAMS.p
+}
+
+// Returns why a new password is not acceptable, or null when it is
+export function passwordPolicyError(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+  if (password.length > 256) {
+    return "Password can be at most 256 characters"
+  }
+  return null
+}
@@ -22,6 +22,14 @@ interface Order {
   status: string
   items: OrderItem[]
   shippingOption: string
+  shippingMethod?: {
+    name: string
+    carrier?: string
+    price: number
+    minDeliveryDays: number
+    maxDeliveryDays: number
+  }
+  shippingCost?: number
   paymentMethod: string
   paymentIntentId?: string
   customerName?: string
@@ -31,6 +39,17 @@ interface Order {
   customerCity?: string
   customerPostalCode?: string
   customerCountry?: string
+  customerVatNumber?: string
+  subtotal?: number
+  discountAmount?: number
+  taxBreakdown?: {
+    pricesIncludeTax: boolean
+    reverseCharge: boolean
+    vatNumber?: string
+    lines: Array<{ taxClass: string; rate: number; label: string; netAmount: number; taxAmount: number }>
+    netTotal: number
+    taxTotal: number
+  }
 }
 
 export function generateOrderPDF(order: Order): jsPDF {
@@ -120,7 +139,44 @@ export function generateOrderPDF(order: Order): jsPDF {
   yPos += 8
   doc.text(`Payment Method: ${order.paymentMethod}`, 20, yPos)
   yPos += 8
-  doc.text(`Shipping: ${order.shippingOption}`, 20, yPos)
+  if (order.shippingMethod) {
+    const carrier = order.shippingMethod.carrier ? ` via ${order.shippingMethod.carrier}` : ''
+    doc.text(`Shipping: ${order.shippingMethod.name}${carrier} - ${(order.shippingCost ?? order.shippingMethod.price).toFixed(2)} SEK`, 20, yPos)
+    yPos += 8
+    doc.text(`Estimated Delivery: ${order.shippingMethod.minDeliveryDays}-${order.shippingMethod.maxDeliveryDays} business days`, 20, yPos)
+  } else {
+    doc.text(`Shipping: ${order.shippingOption}`, 20, yPos)
+  }
+
+  // Tax Breakdown
+  if (order.taxBreakdown) {
+    const tax = order.taxBreakdown
+    yPos += 15
+    doc.setFontSize(16)
+    doc.setFont('helvetica', 'bold')
+    doc.text('Tax Breakdown', 20, yPos)
+
+    yPos += 10
+    doc.setFontSize(10)
+    doc.setFont('helvetica', 'normal')
+    tax.lines.forEach((line) => {
+      const rate = Math.round(line.rate * 1000) / 10
+      doc.text(`${line.label} ${rate}% on ${line.netAmount.toFixed(2)} SEK: ${line.taxAmount.toFixed(2)} SEK`, 20, yPos)
+      yPos += 6
+    })
+    doc.text(`Net Total: ${tax.netTotal.toFixed(2)} SEK`, 20, yPos)
+    yPos += 6
+    doc.text(`Tax Total: ${tax.taxTotal.toFixed(2)} SEK`, 20, yPos)
+    yPos += 6
+    if (tax.pricesIncludeTax) {
+      doc.text('Prices include tax.', 20, yPos)
+      yPos += 6
+    }
+    if (tax.reverseCharge) {
+      doc.text(`Reverse charge - VAT to be accounted for by the recipient (VAT no. ${tax.vatNumber || order.customerVatNumber}).`, 20, yPos)
+      yPos += 6
+    }
+  }
   
   // Products and Designs Section
   yPos += 15
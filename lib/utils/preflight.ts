@@ -0,0 +1,167 @@
+import type { PrintArea } from "@/lib/models/Product"
+import { placementOf, printAreaGuides, type CanvasRect, type PrintAreaGuides } from "@/lib/utils/printArea"
+
+/**
+ * Print-quality checks for a design, run in the design tool before anything goes to the cart.
+ * They read the canvas JSON, so saved sides can be checked without loading them onto the canvas.
+ */
+
+// Images print soft below the recommended resolution and visibly pixelated below the minimum
+export const RECOMMENDED_IMAGE_DPI = 150
+export const MINIMUM_IMAGE_DPI = 72
+// Finer lines and smaller type do not survive garment printing
+export const MIN_STROKE_WIDTH_MM = 0.5
+export const MIN_TEXT_SIZE_MM = 2
+
+export type PreflightCode = "low_resolution" | "thin_stroke" | "small_text" | "outside_print_area" | "outside_safe_zone"
+
+export interface PreflightIssue {
+  code: PreflightCode
+  // Errors block adding to the cart; warnings must be acknowledged
+  severity: "warning" | "error"
+  angle: string
+  message: string
+  objectIndex: number // Position of the top-level object on its side's canvas
+}
+
+// The parts of a Fabric object's JSON the checks read
+interface CanvasObjectJSON {
+  type?: string
+  left?: number
+  top?: number
+  width?: number
+  height?: number
+  scaleX?: number
+  scaleY?: number
+  angle?: number
+  originX?: string | number
+  originY?: string | number
+  visible?: boolean
+  stroke?: string | null
+  strokeWidth?: number
+  strokeUniform?: boolean
+  fontSize?: number
+  text?: string
+  objects?: CanvasObjectJSON[]
+}
+
+// Fabric 6 writes class names ("IText"), older canvases wrote "i-text"
+const kindOf = (obj: CanvasObjectJSON) => (obj.type || "").toLowerCase().replace(/-/g, "")
+const isText = (obj: CanvasObjectJSON) => ["text", "itext", "textbox"].includes(kindOf(obj))
+
+function originFactor(origin: string | number | undefined, start: string, end: string): number {
+  if (typeof origin === "number") return origin
+  if (origin === start) return 0
+  if (origin === end) return 1
+  return origin === "center" ? 0.5 : 0
+}
+
+// Axis-aligned bounds of a top-level object on the canvas, taking origin, scale and rotation into account
+export function objectBounds(obj: CanvasObjectJSON): CanvasRect {
+  const width = (obj.width || 0) * Math.abs(obj.scaleX ?? 1)
+  const height = (obj.height || 0) * Math.abs(obj.scaleY ?? 1)
+  const ox = originFactor(obj.originX, "left", "right") * width
+  const oy = originFactor(obj.originY, "top", "bottom") * height
+  const radians = ((obj.angle || 0) * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+
+  const corners = [
+    [-ox, -oy],
+    [width - ox, -oy],
+    [-ox, height - oy],
+    [width - ox, height - oy],
+  ].map(([x, y]) => ({ x: (obj.left || 0) + x * cos - y * sin, y: (obj.top || 0) + x * sin + y * cos }))
+
+  const xs = corners.map((c) => c.x)
+  const ys = corners.map((c) => c.y)
+  const left = Math.min(...xs)
+  const top = Math.min(...ys)
+  return { left, top, width: Math.max(...xs) - left, height: Math.max(...ys) - top }
+}
+
+// Printed pixels per inch of an image drawn at `scale` canvas pixels per source pixel
+export function effectiveDpi(scale: number, guides: Pick<PrintAreaGuides, "pxPerMm">): number {
+  return (25.4 * guides.pxPerMm) / scale
+}
+
+// Largest print, in mm, an image of this many pixels makes at the recommended resolution
+export function maxPrintSizeMm(widthPx: number, heightPx: number, dpi = RECOMMENDED_IMAGE_DPI) {
+  return { width: Math.round((widthPx / dpi) * 25.4), height: Math.round((heightPx / dpi) * 25.4) }
+}
+
+function describe(obj: CanvasObjectJSON): string {
+  if (isText(obj)) return obj.text ? `Text "${obj.text.length > 20 ? `${obj.text.slice(0, 20)}…` : obj.text}"` : "Text"
+  if (kindOf(obj) === "image") return "Image"
+  if (kindOf(obj) === "group") return "Group"
+  return "Shape"
+}
+
+// Quality issues of one object and its children; `scale` is the accumulated scale of enclosing groups
+function checkObject(
+  obj: CanvasObjectJSON,
+  scale: number,
+  guides: PrintAreaGuides,
+  report: (code: PreflightCode, severity: PreflightIssue["severity"], message: string) => void,
+) {
+  const scaleX = Math.abs(obj.scaleX ?? 1) * scale
+  const scaleY = Math.abs(obj.scaleY ?? 1) * scale
+  const name = describe(obj)
+
+  if (kindOf(obj) === "image" && obj.width && obj.height) {
+    const dpi = Math.round(effectiveDpi(Math.max(scaleX, scaleY), guides))
+    if (dpi < MINIMUM_IMAGE_DPI) {
+      report("low_resolution", "error", `${name} prints at ${dpi} dpi; make it smaller or use a larger image (at least ${MINIMUM_IMAGE_DPI} dpi)`)
+    } else if (dpi < RECOMMENDED_IMAGE_DPI) {
+      report("low_resolution", "warning", `${name} prints at ${dpi} dpi and may look blurry (${RECOMMENDED_IMAGE_DPI} dpi recommended)`)
+    }
+  }
+
+  if (obj.stroke && obj.strokeWidth && obj.strokeWidth > 0) {
+    const strokeMm = (obj.strokeWidth * (obj.strokeUniform ? 1 : Math.min(scaleX, scaleY))) / guides.pxPerMm
+    if (strokeMm < MIN_STROKE_WIDTH_MM) {
+      report("thin_stroke", "warning", `${name} has a ${strokeMm.toFixed(2)} mm outline, thinner than the ${MIN_STROKE_WIDTH_MM} mm that prints reliably`)
+    }
+  }
+
+  if (isText(obj) && obj.fontSize) {
+    const sizeMm = (obj.fontSize * scaleY) / guides.pxPerMm
+    if (sizeMm < MIN_TEXT_SIZE_MM) {
+      report("small_text", "warning", `${name} is ${sizeMm.toFixed(1)} mm high, smaller than the ${MIN_TEXT_SIZE_MM} mm minimum`)
+    }
+  }
+
+  for (const child of obj.objects || []) {
+    checkObject(child, Math.max(scaleX, scaleY), guides, report)
+  }
+}
+
+/**
+ * Check one side of a design against the product's print area for that side. Sides without a
+ * print area cannot be measured and report nothing.
+ */
+export function preflightCanvas(canvasJSON: any, area: PrintArea | undefined, angle: string): PreflightIssue[] {
+  if (!area || !canvasJSON?.objects?.length) return []
+
+  const guides = printAreaGuides(area)
+  const issues: PreflightIssue[] = []
+
+  ;(canvasJSON.objects as CanvasObjectJSON[]).forEach((obj, objectIndex) => {
+    if (obj.visible === false) return
+    const report = (code: PreflightCode, severity: PreflightIssue["severity"], message: string) =>
+      issues.push({ code, severity, angle, message, objectIndex })
+
+    const placement = placementOf(objectBounds(obj), guides)
+    if (placement === "outside") {
+      report("outside_print_area", "warning", `${describe(obj)} extends outside the print area and will be cut off`)
+    } else if (placement === "outside_safe") {
+      report("outside_safe_zone", "warning", `${describe(obj)} is close to the edge and may be trimmed`)
+    }
+
+    checkObject(obj, 1, guides, report)
+  })
+
+  return issues
+}
+
+export const hasBlockingIssues = (issues: PreflightIssue[]) => issues.some((issue) => issue.severity === "error")
@@ -0,0 +1,173 @@
+import type { PrintArea } from "@/lib/models/Product"
+
+// Side length of the design tool's canvas in pixels (see useFabricCanvas)
+export const DESIGN_CANVAS_SIZE = 600
+
+export const PRINTABLE_ANGLES = ["front", "back", "left", "right"] as const
+
+export const DEFAULT_PRINT_DPI = 300
+export const DEFAULT_BLEED_MM = 3
+export const DEFAULT_SAFE_MARGIN_MM = 5
+
+// Crop marks start this far outside the bleed and run this long; the slug line sits below them
+const CROP_MARK_OFFSET_MM = 2
+const CROP_MARK_LENGTH_MM = 5
+const SLUG_HEIGHT_MM = 6
+
+export interface MmRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface CanvasRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface CanvasPoint {
+  x: number
+  y: number
+}
+
+// A print area's zones on the design canvas, in canvas pixels
+export interface PrintAreaGuides {
+  pxPerMm: number
+  print: CanvasRect
+  safe: CanvasRect
+  bleed: CanvasRect
+  polygon?: CanvasPoint[]
+}
+
+// Where an object sits relative to the print area
+export type Placement = "inside" | "outside_safe" | "outside"
+
+// Where everything sits on a production sheet, in mm from its top-left corner
+export interface SheetLayout {
+  width: number
+  height: number
+  bleed: MmRect
+  trim: MmRect
+  cropMarks: Array<[number, number, number, number]> // x1, y1, x2, y2
+  slug: { x: number; y: number }
+}
+
+export function mmToPx(mm: number, dpi: number): number {
+  return Math.round((mm / 25.4) * dpi)
+}
+
+export function printAreaFor(product: { printAreas?: PrintArea[] } | null | undefined, angle: string): PrintArea | undefined {
+  return product?.printAreas?.find((area) => area.angle === angle && area.widthMm > 0 && area.heightMm > 0)
+}
+
+/**
+ * The part of the design canvas that is printed. Without an explicit rectangle it is the
+ * largest centred rectangle with the print area's proportions.
+ */
+export function canvasRectOf(area: PrintArea): CanvasRect {
+  if (area.canvasRect && area.canvasRect.width > 0 && area.canvasRect.height > 0) {
+    return area.canvasRect
+  }
+  const aspect = area.widthMm / area.heightMm
+  const width = aspect >= 1 ? DESIGN_CANVAS_SIZE : DESIGN_CANVAS_SIZE * aspect
+  const height = aspect >= 1 ? DESIGN_CANVAS_SIZE / aspect : DESIGN_CANVAS_SIZE
+  return {
+    left: (DESIGN_CANVAS_SIZE - width) / 2,
+    top: (DESIGN_CANVAS_SIZE - height) / 2,
+    width,
+    height,
+  }
+}
+
+export function sheetLayout(area: PrintArea, bleedMm = area.bleedMm ?? DEFAULT_BLEED_MM): SheetLayout {
+  const margin = bleedMm + CROP_MARK_OFFSET_MM + CROP_MARK_LENGTH_MM
+  const trim = { x: margin, y: margin, width: area.widthMm, height: area.heightMm }
+  const bleed = {
+    x: trim.x - bleedMm,
+    y: trim.y - bleedMm,
+    width: trim.width + 2 * bleedMm,
+    height: trim.height + 2 * bleedMm,
+  }
+
+  const width = trim.width + 2 * margin
+  const height = trim.height + 2 * margin + SLUG_HEIGHT_MM
+  const left = trim.x
+  const right = trim.x + trim.width
+  const top = trim.y
+  const bottom = trim.y + trim.height
+  const near = bleedMm + CROP_MARK_OFFSET_MM
+
+  // Two marks per corner, in line with the trim edges and kept clear of the bleed
+  const cropMarks: SheetLayout["cropMarks"] = []
+  for (const x of [left, right]) {
+    cropMarks.push([x, top - near, x, top - margin], [x, bottom + near, x, bottom + margin])
+  }
+  for (const y of [top, bottom]) {
+    cropMarks.push([left - near, y, left - margin, y], [right + near, y, right + margin, y])
+  }
+
+  return { width, height, bleed, trim, cropMarks, slug: { x: trim.x, y: bottom + margin + SLUG_HEIGHT_MM / 2 } }
+}
+
+function inset(rect: CanvasRect, by: number): CanvasRect {
+  return {
+    left: rect.left + by,
+    top: rect.top + by,
+    width: Math.max(rect.width - 2 * by, 0),
+    height: Math.max(rect.height - 2 * by, 0),
+  }
+}
+
+export function printAreaGuides(area: PrintArea): PrintAreaGuides {
+  const print = canvasRectOf(area)
+  const pxPerMm = print.width / area.widthMm
+  const polygon = area.polygon && area.polygon.length >= 3
+    ? area.polygon.map((point) => ({ x: print.left + point.x * pxPerMm, y: print.top + point.y * pxPerMm }))
+    : undefined
+
+  return {
+    pxPerMm,
+    print,
+    safe: inset(print, (area.safeMarginMm ?? DEFAULT_SAFE_MARGIN_MM) * pxPerMm),
+    bleed: inset(print, -(area.bleedMm ?? DEFAULT_BLEED_MM) * pxPerMm),
+    polygon,
+  }
+}
+
+function containsPoint(rect: CanvasRect, { x, y }: CanvasPoint): boolean {
+  return x >= rect.left && x <= rect.left + rect.width && y >= rect.top && y <= rect.top + rect.height
+}
+
+// Ray casting; points on the edge may land either way, which is fine at canvas resolution
+function polygonContains(polygon: CanvasPoint[], { x, y }: CanvasPoint): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Classify an object's bounding box. With a polygon, the box corners must also lie inside it;
+ * the safe zone is always the print rectangle inset by the safe margin.
+ */
+export function placementOf(bounds: CanvasRect, guides: PrintAreaGuides): Placement {
+  const corners = [
+    { x: bounds.left, y: bounds.top },
+    { x: bounds.left + bounds.width, y: bounds.top },
+    { x: bounds.left, y: bounds.top + bounds.height },
+    { x: bounds.left + bounds.width, y: bounds.top + bounds.height },
+  ]
+  const withinPrint = corners.every(
+    (corner) => containsPoint(guides.print, corner) && (!guides.polygon || polygonContains(guides.polygon, corner)),
+  )
+  if (!withinPrint) return "outside"
+  return corners.every((corner) => containsPoint(guides.safe, corner)) ? "inside" : "outside_safe"
+}
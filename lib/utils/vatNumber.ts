@@ -0,0 +1,52 @@
+// EU VAT number formats, keyed by VAT prefix (Greece uses EL rather than its ISO code GR)
+const VAT_NUMBER_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{10}01$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+}
+
+export const EU_COUNTRY_CODES = new Set(
+  Object.keys(VAT_NUMBER_FORMATS).map((prefix) => (prefix === "EL" ? "GR" : prefix)),
+)
+
+export interface ParsedVatNumber {
+  prefix: string // VAT prefix as printed, e.g. "EL"
+  country: string // ISO country code, e.g. "GR"
+  number: string // Digits/letters after the prefix
+  formatted: string // Prefix and number without separators
+}
+
+/** Parse and format-check an EU VAT number; returns null when it cannot be valid. */
+export function parseVatNumber(input?: string | null): ParsedVatNumber | null {
+  const cleaned = (input || "").replace(/[\s.\-]/g, "").toUpperCase()
+  const prefix = cleaned.slice(0, 2)
+  const number = cleaned.slice(2)
+  const format = VAT_NUMBER_FORMATS[prefix]
+  if (!format || !format.test(number)) return null
+
+  return { prefix, country: prefix === "EL" ? "GR" : prefix, number, formatted: `${prefix}${number}` }
+}
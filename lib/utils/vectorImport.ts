@@ -0,0 +1,152 @@
+import * as fabric from "fabric"
+
+/**
+ * Vector artwork import for the design tool. SVGs become editable Fabric groups; the first page
+ * of a PDF, or of an Illustrator file saved with PDF compatibility, is converted to SVG first.
+ * Pages that cannot be kept as vectors are rendered to a PNG instead.
+ */
+
+export type ImportKind = "svg" | "pdf"
+
+// File picker filter for artwork the tool can import as vectors
+export const VECTOR_IMPORT_ACCEPT = ".svg,.pdf,.ai,image/svg+xml,application/pdf,application/illustrator"
+
+// Pages with more drawing operations than this are too heavy to edit as individual paths
+const MAX_VECTOR_OPERATIONS = 20_000
+// Long edge of a rasterised page; about 250 mm at 300 dpi
+const RASTER_LONG_EDGE_PX = 3000
+
+export class VectorImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "VectorImportError"
+  }
+}
+
+export type PdfImport =
+  | { kind: "vector"; svg: string }
+  | { kind: "raster"; png: Blob; reason: string }
+
+export function importKindOf(file: File): ImportKind | null {
+  const extension = file.name.split(".").pop()?.toLowerCase()
+  if (file.type === "image/svg+xml" || extension === "svg") return "svg"
+  if (file.type === "application/pdf" || extension === "pdf" || extension === "ai") return "pdf"
+  return null
+}
+
+// Axis-aligned rectangle of a clip path in its owner's plane, or null for any other shape
+function clipRectangle(clip: NonNullable<fabric.FabricObject["clipPath"]>) {
+  if ((clip.angle || 0) % 90 !== 0 || clip.skewX || clip.skewY) return null
+  if (clip instanceof fabric.Path) {
+    const points = clip.path.filter((command) => command[0] !== "Z")
+    if (points.some((command) => command[0] !== "M" && command[0] !== "L")) return null
+    if (new Set(points.map((command) => command[1])).size > 2 || new Set(points.map((command) => command[2])).size > 2) return null
+  } else if (!(clip instanceof fabric.Rect)) {
+    return null
+  }
+  return clip.getBoundingRect()
+}
+
+/**
+ * PDFs clip nearly everything to the page or artboard. Fabric draws clipped objects through a
+ * bitmap cache, which would rasterise them in print files, so clips that cut nothing are dropped.
+ */
+function dropRedundantClips(object: fabric.FabricObject) {
+  const clip = object.clipPath
+  if (!clip || clip.inverted) return
+  const rect = clipRectangle(clip)
+  if (!rect) return
+
+  // Non-absolute clip paths live in the object's own plane, centred on it
+  const halfWidth = (object.width + (object.strokeWidth || 0)) / 2
+  const halfHeight = (object.height + (object.strokeWidth || 0)) / 2
+  const tolerance = 0.5
+  if (
+    rect.left <= -halfWidth + tolerance &&
+    rect.top <= -halfHeight + tolerance &&
+    rect.left + rect.width >= halfWidth - tolerance &&
+    rect.top + rect.height >= halfHeight - tolerance
+  ) {
+    object.clipPath = undefined
+  }
+}
+
+/**
+ * Parse SVG markup into one Fabric object. Several elements become a group whose children can be
+ * selected and edited individually.
+ */
+export async function svgToFabric(svg: string): Promise<fabric.FabricObject> {
+  const { objects, options } = await fabric.loadSVGFromString(svg)
+  const elements = objects.filter((object): object is fabric.FabricObject => !!object)
+  if (elements.length === 0) {
+    throw new VectorImportError("The file contains no artwork that can be imported")
+  }
+
+  elements.forEach(dropRedundantClips)
+  const artwork = fabric.util.groupSVGElements(elements, options)
+  if (artwork instanceof fabric.Group) {
+    artwork.set({ subTargetCheck: true, interactive: true })
+  }
+  return artwork
+}
+
+async function loadPdfjs() {
+  const pdfjs = await import("pdfjs-dist")
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.js", import.meta.url).toString()
+  return pdfjs
+}
+
+async function renderPng(page: import("pdfjs-dist").PDFPageProxy): Promise<Blob> {
+  const base = page.getViewport({ scale: 1 })
+  const viewport = page.getViewport({ scale: RASTER_LONG_EDGE_PX / Math.max(base.width, base.height) })
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(viewport.width)
+  canvas.height = Math.round(viewport.height)
+  await page.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new VectorImportError("Could not render the page"))), "image/png"),
+  )
+}
+
+/**
+ * Convert the first page of a PDF or PDF-compatible Illustrator file. Live text cannot be
+ * converted faithfully because the fonts stay embedded in the PDF, so such pages are rasterised;
+ * artwork with text converted to outlines imports as vectors.
+ */
+export async function importPdfFirstPage(data: ArrayBuffer): Promise<PdfImport> {
+  if (!new TextDecoder().decode(data.slice(0, 1024)).includes("%PDF")) {
+    throw new VectorImportError('This file is not PDF compatible. In Illustrator, save it with "Create PDF Compatible File" enabled.')
+  }
+
+  const pdfjs = await loadPdfjs()
+  // pdf.js 3 compiles embedded font outlines with eval, which lets a crafted font run script
+  // (CVE-2024-4367); 4.x fixes it but drops SVGGraphics, so eval stays off here instead
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false }).promise
+  try {
+    const page = await pdf.getPage(1)
+    const operatorList = await page.getOperatorList()
+    const textOperations = [pdfjs.OPS.showText, pdfjs.OPS.showSpacedText, pdfjs.OPS.nextLineShowText, pdfjs.OPS.nextLineSetSpacingShowText]
+
+    let reason: string
+    if (operatorList.fnArray.some((fn) => textOperations.includes(fn))) {
+      reason = "The page contains live text; convert text to outlines to import it as vectors."
+    } else if (operatorList.fnArray.length > MAX_VECTOR_OPERATIONS) {
+      reason = "The page is too complex to edit as individual shapes."
+    } else {
+      try {
+        // One SVG unit per PDF point; images inside the page are embedded as data URLs
+        const graphics = new pdfjs.SVGGraphics(page.commonObjs, page.objs, true)
+        const element = (await graphics.getSVG(operatorList, page.getViewport({ scale: 1 }))) as unknown as SVGElement
+        return { kind: "vector", svg: new XMLSerializer().serializeToString(element) }
+      } catch (error) {
+        console.warn("PDF to SVG conversion failed, rasterising the page instead:", error)
+        reason = "The page uses features that cannot be converted to vectors."
+      }
+    }
+
+    return { kind: "raster", png: await renderPng(page), reason }
+  } finally {
+    await pdf.destroy()
+  }
+}
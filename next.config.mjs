@@ -9,6 +9,17 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Production files are rendered on the server with Fabric's node build and the native canvas module
+    serverComponentsExternalPackages: ["fabric", "canvas", "jsdom"],
+  },
+  webpack: (config, { isServer }) => {
+    // pdf.js only loads the native canvas module under Node; the browser build must not bundle it
+    if (!isServer) {
+      config.resolve.alias.canvas = false
+    }
+    return config
+  },
 }
 
 export default nextConfig
@@ -82,6 +82,197 @@ async function initIndexes() {
       }
     }
 
+    // Unique order number index (order numbers are issued by a counter, see orderNumberService)
+    const ordersCollection = db.collection('orders')
+    try {
+      await ordersCollection.createIndex(
+        { orderId: 1 },
+        { name: "order_id_unique_index", unique: true }
+      )
+      console.log('✅ Unique order ID index created')
+    } catch (error) {
+      if (error.code === 85 || error.code === 86) {
+        console.log('ℹ️ Order ID index already exists')
+      } else if (error.code === 11000) {
+        // Legacy ORD-xxxxxx numbers could collide; list them so they can be renumbered by hand
+        const duplicates = await ordersCollection.aggregate([
+          { $group: { _id: "$orderId", count: { $sum: 1 } } },
+          { $match: { count: { $gt: 1 } } },
+        ]).toArray()
+        console.error('❌ Duplicate order IDs prevent the unique index:', duplicates.map((d) => d._id).join(', '))
+      } else {
+        console.error('❌ Error creating order ID index:', error.message)
+      }
+    }
+
+    // Idempotent order creation: at most one order per idempotency key and per payment intent
+    for (const field of ['idempotencyKey', 'paymentIntentId']) {
+      try {
+        await ordersCollection.createIndex(
+          { [field]: 1 },
+          { name: `order_${field}_unique_index`, unique: true, partialFilterExpression: { [field]: { $type: "string" } } }
+        )
+        console.log(`✅ Unique ${field} index created`)
+      } catch (error) {
+        if (error.code === 85 || error.code === 86) {
+          console.log(`ℹ️ ${field} index already exists`)
+        } else {
+          console.error(`❌ Error creating ${field} index:`, error.message)
+        }
+      }
+    }
+
+    // Orders whose invoice failed at payment and is waiting to be retried
+    try {
+      await ordersCollection.createIndex(
+        { paidAt: 1 },
+        { name: "order_invoice_pending_index", partialFilterExpression: { invoicePending: true } }
+      )
+      console.log('✅ Pending invoice index created')
+    } catch (error) {
+      if (error.code === 85 || error.code === 86) {
+        console.log('ℹ️ Pending invoice index already exists')
+      } else {
+        console.error('❌ Error creating pending invoice index:', error.message)
+      }
+    }
+
+    // Invoices: one number per document, and at most one invoice per order or credit note per refund.
+    // Documents are claimed by sourceKey before they are numbered, so only set numbers must be unique.
+    const invoicesCollection = db.collection('invoices')
+    const invoiceNumberIndexes = await invoicesCollection.indexes().catch(() => [])
+    if (invoiceNumberIndexes.some((index) => index.name === 'invoice_invoiceNumber_unique_index' && !index.partialFilterExpression)) {
+      await invoicesCollection.dropIndex('invoice_invoiceNumber_unique_index')
+      console.log('ℹ️ Dropped the invoice number index so it can be recreated for numbered invoices only')
+    }
+    for (const field of ['invoiceNumber', 'sourceKey']) {
+      try {
+        await invoicesCollection.createIndex(
+          { [field]: 1 },
+          {
+            name: `invoice_${field}_unique_index`,
+            unique: true,
+            ...(field === 'invoiceNumber' ? { partialFilterExpression: { invoiceNumber: { $type: 'string' } } } : {}),
+          }
+        )
+        console.log(`✅ Unique invoice ${field} index created`)
+      } catch (error) {
+        if (error.code === 85 || error.code === 86) {
+          console.log(`ℹ️ Invoice ${field} index already exists`)
+        } else {
+          console.error(`❌ Error creating invoice ${field} index:`, error.message)
+        }
+      }
+    }
+    try {
+      await invoicesCollection.createIndex({ orderId: 1, createdAt: 1 }, { name: "invoice_order_index" })
+      await invoicesCollection.createIndex({ customer: 1, createdAt: -1 }, { name: "invoice_customer_index" })
+      console.log('✅ Invoice lookup indexes created')
+    } catch (error) {
+      console.error('❌ Error creating invoice lookup indexes:', error.message)
+    }
+
+    // Coupons: generated codes are unique across campaigns, and redemptions are unique per order
+    // and per customer use so usage limits hold under concurrent checkouts
+    try {
+      await db.collection('coupon_codes').createIndex({ code: 1 }, { name: "coupon_code_unique_index", unique: true })
+      await db.collection('coupon_codes').createIndex({ couponId: 1, batchId: 1 }, { name: "coupon_code_batch_index" })
+      await db.collection('coupon_redemptions').createIndex(
+        { couponId: 1, orderId: 1 },
+        { name: "coupon_redemption_order_unique_index", unique: true }
+      )
+      await db.collection('coupon_redemptions').createIndex(
+        { couponId: 1, customerKey: 1, customerUse: 1 },
+        {
+          name: "coupon_redemption_customer_use_unique_index",
+          unique: true,
+          partialFilterExpression: { customerUse: { $type: "number" } },
+        }
+      )
+      await db.collection('coupon_redemptions').createIndex(
+        { status: 1, expiresAt: 1 },
+        { name: "coupon_redemption_expiry_index", partialFilterExpression: { status: "reserved" } }
+      )
+      console.log('✅ Coupon code and redemption indexes created')
+    } catch (error) {
+      console.error('❌ Error creating coupon indexes:', error.message)
+    }
+
+    // Promotions: checkout loads the active ones on every quote
+    try {
+      await db.collection('promotions').createIndex({ isActive: 1, priority: -1 }, { name: "promotion_active_index" })
+      console.log('✅ Promotion lookup index created')
+    } catch (error) {
+      console.error('❌ Error creating promotion index:', error.message)
+    }
+
+    // Gift cards: codes are unique and each customer has one store credit balance; holds are
+    // swept by expiry and looked up per order when the payment settles
+    try {
+      await db.collection('gift_cards').createIndex({ code: 1 }, { name: "gift_card_code_unique_index", unique: true })
+      await db.collection('gift_cards').createIndex(
+        { customer: 1, kind: 1 },
+        {
+          name: "gift_card_store_credit_unique_index",
+          unique: true,
+          partialFilterExpression: { kind: "store_credit" },
+        }
+      )
+      await db.collection('gift_card_transactions').createIndex(
+        { giftCardId: 1, createdAt: -1 },
+        { name: "gift_card_transaction_card_index" }
+      )
+      await db.collection('gift_card_transactions').createIndex({ orderId: 1 }, { name: "gift_card_transaction_order_index" })
+      await db.collection('gift_card_transactions').createIndex(
+        { holdStatus: 1, expiresAt: 1 },
+        { name: "gift_card_hold_expiry_index", partialFilterExpression: { holdStatus: "held" } }
+      )
+      console.log('✅ Gift card indexes created')
+    } catch (error) {
+      console.error('❌ Error creating gift card indexes:', error.message)
+    }
+
+    // Inventory: reservations are looked up per order and swept by expiry; the movement log is
+    // read newest first, overall and per product
+    try {
+      await db.collection('inventory_reservations').createIndex({ orderId: 1 }, { name: "inventory_reservation_order_index" })
+      await db.collection('inventory_reservations').createIndex(
+        { status: 1, expiresAt: 1 },
+        { name: "inventory_reservation_expiry_index", partialFilterExpression: { status: "reserved" } }
+      )
+      await db.collection('stock_movements').createIndex({ productId: 1, createdAt: -1 }, { name: "stock_movement_product_index" })
+      await db.collection('stock_movements').createIndex({ createdAt: -1 }, { name: "stock_movement_created_at_index" })
+      // One waiting subscription per customer and variation or size; restocks look them up per variation
+      await db.collection('restock_subscriptions').createIndex(
+        { productId: 1, variationId: 1, size: 1, email: 1 },
+        { name: "restock_subscription_unique_index", unique: true, partialFilterExpression: { status: "pending" } }
+      )
+      await db.collection('restock_subscriptions').createIndex({ token: 1 }, { name: "restock_subscription_token_index" })
+      console.log('✅ Inventory indexes created')
+    } catch (error) {
+      console.error('❌ Error creating inventory indexes:', error.message)
+    }
+
+    // Transactional email: each event is mailed at most once
+    try {
+      await db.collection('mail_log').createIndex({ key: 1 }, { name: "mail_log_key_unique_index", unique: true })
+      console.log('✅ Mail log index created')
+    } catch (error) {
+      console.error('❌ Error creating mail log index:', error.message)
+    }
+
+    // Login throttling: one counter per IP or account, dropped by the TTL index when its window ends
+    try {
+      await db.collection('login_attempts').createIndex({ key: 1 }, { name: "login_attempt_key_unique_index", unique: true })
+      await db.collection('login_attempts').createIndex(
+        { expiresAt: 1 },
+        { name: "login_attempt_expiry_index", expireAfterSeconds: 0 }
+      )
+      console.log('✅ Login attempt indexes created')
+    } catch (error) {
+      console.error('❌ Error creating login attempt indexes:', error.message)
+    }
+
     // Get index information
     const indexes = await productsCollection.indexes()
     console.log('\n📊 Current indexes:')
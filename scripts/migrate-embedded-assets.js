@@ -0,0 +1,120 @@
+const { MongoClient } = require('mongodb')
+
+// Moves base64 images embedded in carts, designs and orders into asset storage and points the
+// documents at /api/assets URLs instead. Images are uploaded through the running app, so they
+// land in whichever backend it is configured with; ids are content hashes, so reruns are safe.
+// Usage: node scripts/migrate-embedded-assets.js [--dry-run]
+const COLLECTIONS = ['carts', 'designs', 'orders']
+const DATA_URL = /data:image\/[\w.+-]+;base64,[A-Za-z0-9+/]+=*/g
+
+async function uploadDataUrl(dataUrl, uploadUrl) {
+  const [header, base64] = dataUrl.split(',')
+  const form = new FormData()
+  form.append('file', new Blob([Buffer.from(base64, 'base64')], { type: header.slice(5, header.indexOf(';')) }))
+
+  const response = await fetch(uploadUrl, { method: 'POST', body: form })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Upload failed with ${response.status}`)
+  }
+  return body.url
+}
+
+// Replace data URLs anywhere in a value, including inside stringified canvas JSON
+async function externalize(value, replace) {
+  if (typeof value === 'string') {
+    const matches = value.match(DATA_URL)
+    if (!matches) return value
+    let result = value
+    for (const match of new Set(matches)) {
+      result = result.split(match).join(await replace(match))
+    }
+    return result
+  }
+  if (Array.isArray(value)) {
+    const items = []
+    for (const item of value) items.push(await externalize(item, replace))
+    return items
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy = {}
+    for (const [key, child] of Object.entries(value)) copy[key] = await externalize(child, replace)
+    return copy
+  }
+  return value
+}
+
+async function migrateEmbeddedAssets() {
+  const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017/printwrap_pro'
+  const uploadUrl = `${(process.env.APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')}/api/assets`
+  const dryRun = process.argv.includes('--dry-run')
+  const client = new MongoClient(uri)
+
+  try {
+    await client.connect()
+    console.log(`✅ Connected to MongoDB${dryRun ? ' (dry run, nothing is changed)' : ''}`)
+    const db = client.db()
+    const uploaded = new Map()
+    let failures = 0
+
+    for (const name of COLLECTIONS) {
+      const collection = db.collection(name)
+      let documents = 0
+      let images = 0
+      let bytes = 0
+
+      // A regex on the whole document is not possible, so scan and check each one
+      for await (const doc of collection.find({})) {
+        const { _id, ...fields } = doc
+        const found = JSON.stringify(fields).match(DATA_URL)
+        if (!found) continue
+
+        documents++
+        images += found.length
+        bytes += found.reduce((total, dataUrl) => total + dataUrl.length, 0)
+        if (dryRun) continue
+
+        const replace = async (dataUrl) => {
+          if (!uploaded.has(dataUrl)) {
+            try {
+              uploaded.set(dataUrl, await uploadDataUrl(dataUrl, uploadUrl))
+            } catch (error) {
+              failures++
+              console.error(`❌ ${name} ${_id}: ${error.message}`)
+              uploaded.set(dataUrl, dataUrl)
+            }
+          }
+          return uploaded.get(dataUrl)
+        }
+
+        const update = {}
+        for (const [key, value] of Object.entries(fields)) {
+          const migrated = await externalize(value, replace)
+          if (JSON.stringify(migrated) !== JSON.stringify(value)) update[key] = migrated
+        }
+        if (Object.keys(update).length > 0) {
+          await collection.updateOne({ _id }, { $set: update })
+        }
+      }
+
+      console.log(`📦 ${name}: ${images} embedded image(s) in ${documents} document(s), ${(bytes / 1024 / 1024).toFixed(1)}MB`)
+    }
+
+    if (!dryRun) {
+      console.log(`\n🎉 Stored ${new Set(uploaded.values()).size} asset(s)${failures ? `, ${failures} image(s) left embedded` : ''}`)
+    }
+  } catch (error) {
+    console.error('❌ Error migrating embedded assets:', error)
+    process.exitCode = 1
+  } finally {
+    await client.close()
+    console.log('🔌 Disconnected from MongoDB')
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  migrateEmbeddedAssets().catch(console.error)
+}
+
+module.exports = { migrateEmbeddedAssets }
@@ -0,0 +1,259 @@
+const http = require('http')
+const crypto = require('crypto')
+
+// Local stand-in for the Swish and Klarna APIs, for development and tests.
+// Usage: node scripts/payment-mock-server.js, then point the app at it:
+//   SWISH_API_URL=http://localhost:4010/swish SWISH_PAYEE_ALIAS=1234679304
+//   KLARNA_API_URL=http://localhost:4010/klarna KLARNA_USERNAME=mock KLARNA_PASSWORD=mock
+// Swish payments are settled after MOCK_SWISH_DELAY_MS with MOCK_SWISH_OUTCOME (PAID, DECLINED, ERROR or CANCELLED).
+// Klarna's hosted payment page offers Approve and Decline links.
+const port = Number(process.env.MOCK_PAYMENTS_PORT || 4010)
+const baseUrl = process.env.MOCK_PAYMENTS_URL || `http://localhost:${port}`
+const swishDelayMs = Number(process.env.MOCK_SWISH_DELAY_MS || 3000)
+const swishOutcome = process.env.MOCK_SWISH_OUTCOME || 'PAID'
+
+const swishPayments = new Map()
+const klarnaSessions = new Map()
+const klarnaHppSessions = new Map()
+const klarnaAuthorizations = new Map()
+const klarnaOrders = new Map()
+
+const randomId = () => crypto.randomUUID().replace(/-/g, '').toUpperCase()
+
+function readBody(request) {
+  return new Promise((resolve) => {
+    let raw = ''
+    request.on('data', (chunk) => (raw += chunk))
+    request.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {})
+      } catch {
+        resolve({})
+      }
+    })
+  })
+}
+
+function send(response, status, body, headers = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  response.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+function redirect(response, location) {
+  response.writeHead(302, { Location: location })
+  response.end()
+}
+
+async function notify(url, body) {
+  if (!url) return
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    console.log(`📨 Callback to ${url}: ${response.status}`)
+  } catch (error) {
+    console.error(`❌ Callback to ${url} failed:`, error.message)
+  }
+}
+
+async function handleSwish(method, path, request, response) {
+  let match = path.match(/^\/api\/v2\/paymentrequests\/(\w+)$/)
+  if (match && method === 'PUT') {
+    const body = await readBody(request)
+    const payment = {
+      id: match[1],
+      payeePaymentReference: body.payeePaymentReference,
+      callbackUrl: body.callbackUrl,
+      payerAlias: body.payerAlias,
+      payeeAlias: body.payeeAlias,
+      amount: Number(body.amount),
+      currency: body.currency,
+      message: body.message,
+      status: 'CREATED',
+      dateCreated: new Date().toISOString(),
+    }
+    swishPayments.set(payment.id, payment)
+    console.log(`💸 Swish payment ${payment.id} created for ${payment.amount} ${payment.currency}`)
+
+    setTimeout(() => {
+      if (payment.status !== 'CREATED') return
+      payment.status = swishOutcome
+      payment.datePaid = new Date().toISOString()
+      if (swishOutcome === 'PAID') {
+        payment.paymentReference = randomId()
+      } else {
+        payment.errorCode = 'RF07'
+        payment.errorMessage = 'Transaction declined'
+      }
+      console.log(`💸 Swish payment ${payment.id} is ${payment.status}`)
+      notify(payment.callbackUrl, payment)
+    }, swishDelayMs)
+
+    // Without a payer alias the customer opens the app with the request token (m-commerce)
+    const headers = { Location: `${baseUrl}/swish/api/v1/paymentrequests/${payment.id}` }
+    if (!payment.payerAlias) headers.PaymentRequestToken = randomId().toLowerCase()
+    return send(response, 201, undefined, headers)
+  }
+
+  match = path.match(/^\/api\/v1\/paymentrequests\/(\w+)$/)
+  if (match && method === 'GET') {
+    const payment = swishPayments.get(match[1])
+    return payment ? send(response, 200, payment) : send(response, 404, [{ errorCode: 'RP04', errorMessage: 'Not found' }])
+  }
+  if (match && method === 'PATCH') {
+    const payment = swishPayments.get(match[1])
+    if (!payment) return send(response, 404, [{ errorCode: 'RP04', errorMessage: 'Not found' }])
+    if (payment.status !== 'CREATED') return send(response, 422, [{ errorCode: 'RP07', errorMessage: 'Payment can no longer be cancelled' }])
+    payment.status = 'CANCELLED'
+    console.log(`💸 Swish payment ${payment.id} cancelled`)
+    return send(response, 200, payment)
+  }
+
+  match = path.match(/^\/api\/v2\/refunds\/(\w+)$/)
+  if (match && method === 'PUT') {
+    const body = await readBody(request)
+    const refund = { id: match[1], ...body, status: 'CREATED' }
+    console.log(`↩️ Swish refund ${refund.id} of ${refund.amount} for ${refund.originalPaymentReference}`)
+    setTimeout(() => {
+      refund.status = 'PAID'
+      notify(refund.callbackUrl, refund)
+    }, swishDelayMs)
+    return send(response, 201)
+  }
+
+  return send(response, 404, [{ errorCode: 'NF', errorMessage: `No mock for ${method} ${path}` }])
+}
+
+async function handleKlarna(method, path, request, response) {
+  if (path === '/payments/v1/sessions' && method === 'POST') {
+    const session = { ...(await readBody(request)), session_id: crypto.randomUUID() }
+    klarnaSessions.set(session.session_id, session)
+    console.log(`🛍️ Klarna session ${session.session_id} for ${session.order_amount / 100} ${session.purchase_currency}`)
+    return send(response, 200, { session_id: session.session_id, client_token: 'mock-client-token' })
+  }
+
+  let match = path.match(/^\/payments\/v1\/sessions\/([\w-]+)$/)
+  if (match && method === 'GET') {
+    const session = klarnaSessions.get(match[1])
+    return session ? send(response, 200, session) : send(response, 404, { error_messages: ['Session not found'] })
+  }
+
+  if (path === '/hpp/v1/sessions' && method === 'POST') {
+    const body = await readBody(request)
+    const paymentSessionId = (body.payment_session_url || '').split('/').pop()
+    if (!klarnaSessions.has(paymentSessionId)) {
+      return send(response, 400, { error_messages: ['Unknown payment session'] })
+    }
+    const hppId = crypto.randomUUID()
+    klarnaHppSessions.set(hppId, { paymentSessionId, merchantUrls: body.merchant_urls || {} })
+    return send(response, 201, { session_id: hppId, redirect_url: `${baseUrl}/klarna/hpp/${hppId}` })
+  }
+
+  // The hosted payment page the customer is redirected to
+  match = path.match(/^\/hpp\/([\w-]+)(?:\/(approve|decline))?$/)
+  if (match && method === 'GET') {
+    const hpp = klarnaHppSessions.get(match[1])
+    if (!hpp) return send(response, 404, { error_messages: ['Session not found'] })
+
+    if (match[2] === 'approve') {
+      const token = crypto.randomUUID()
+      klarnaAuthorizations.set(token, hpp.paymentSessionId)
+      return redirect(response, hpp.merchantUrls.success.replace('{{authorization_token}}', token))
+    }
+    if (match[2] === 'decline') {
+      return redirect(response, hpp.merchantUrls.cancel)
+    }
+
+    const session = klarnaSessions.get(hpp.paymentSessionId)
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+    return response.end(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 420px; margin: 80px auto; text-align: center">
+  <h1>Klarna (mock)</h1>
+  <p>${(session.order_amount / 100).toFixed(2)} ${session.purchase_currency}</p>
+  <p><a href="/klarna/hpp/${match[1]}/approve">Approve</a> &middot; <a href="/klarna/hpp/${match[1]}/decline">Decline</a></p>
+</body></html>`)
+  }
+
+  match = path.match(/^\/payments\/v1\/authorizations\/([\w-]+)\/order$/)
+  if (match && method === 'POST') {
+    const body = await readBody(request)
+    if (!klarnaAuthorizations.has(match[1])) {
+      return send(response, 404, { error_messages: ['Authorization not found'] })
+    }
+    klarnaAuthorizations.delete(match[1])
+
+    const order = {
+      order_id: crypto.randomUUID(),
+      status: body.auto_capture ? 'CAPTURED' : 'AUTHORIZED',
+      fraud_status: 'ACCEPTED',
+      order_amount: body.order_amount,
+      captured_amount: body.auto_capture ? body.order_amount : 0,
+      refunded_amount: 0,
+      purchase_currency: body.purchase_currency,
+      merchant_reference1: body.merchant_reference1,
+    }
+    klarnaOrders.set(order.order_id, order)
+    console.log(`🛍️ Klarna order ${order.order_id} ${order.status} for ${order.merchant_reference1}`)
+
+    const pushUrl = body.merchant_urls?.push?.replace('{order.id}', order.order_id)
+    setTimeout(() => notify(pushUrl, { order_id: order.order_id }), 1000)
+    return send(response, 200, { order_id: order.order_id, fraud_status: order.fraud_status, redirect_url: `${baseUrl}/klarna/done` })
+  }
+
+  match = path.match(/^\/ordermanagement\/v1\/orders\/([\w-]+)$/)
+  if (match && method === 'GET') {
+    const order = klarnaOrders.get(match[1])
+    return order ? send(response, 200, order) : send(response, 404, { error_messages: ['Order not found'] })
+  }
+
+  match = path.match(/^\/ordermanagement\/v1\/orders\/([\w-]+)\/cancel$/)
+  if (match && method === 'POST') {
+    const order = klarnaOrders.get(match[1])
+    if (!order) return send(response, 404, { error_messages: ['Order not found'] })
+    if (order.status !== 'AUTHORIZED') return send(response, 403, { error_messages: ['Order can no longer be cancelled'] })
+    order.status = 'CANCELLED'
+    console.log(`🛍️ Klarna order ${order.order_id} cancelled`)
+    return send(response, 204)
+  }
+
+  match = path.match(/^\/ordermanagement\/v1\/orders\/([\w-]+)\/refunds$/)
+  if (match && method === 'POST') {
+    const order = klarnaOrders.get(match[1])
+    if (!order) return send(response, 404, { error_messages: ['Order not found'] })
+
+    const body = await readBody(request)
+    if (order.refunded_amount + body.refunded_amount > order.captured_amount) {
+      return send(response, 403, { error_messages: ['Refund amount exceeds captured amount'] })
+    }
+    order.refunded_amount += body.refunded_amount
+    const refundId = crypto.randomUUID()
+    console.log(`↩️ Klarna refund ${refundId} of ${body.refunded_amount / 100} for ${order.order_id}`)
+    return send(response, 201, undefined, { 'Refund-Id': refundId })
+  }
+
+  return send(response, 404, { error_messages: [`No mock for ${method} ${path}`] })
+}
+
+const server = http.createServer(async (request, response) => {
+  const { pathname } = new URL(request.url, baseUrl)
+  try {
+    if (pathname.startsWith('/swish/')) {
+      return await handleSwish(request.method, pathname.slice('/swish'.length), request, response)
+    }
+    if (pathname.startsWith('/klarna/')) {
+      return await handleKlarna(request.method, pathname.slice('/klarna'.length), request, response)
+    }
+    send(response, 404, { error: 'Unknown provider' })
+  } catch (error) {
+    console.error('❌ Mock server error:', error)
+    send(response, 500, { error: error.message })
+  }
+})
+
+server.listen(port, () => {
+  console.log(`✅ Payment mock server listening on ${baseUrl}`)
+  console.log(`   Swish:  SWISH_API_URL=${baseUrl}/swish`)
+  console.log(`   Klarna: KLARNA_API_URL=${baseUrl}/klarna`)
+})
@@ -0,0 +1,49 @@
+const fs = require('fs')
+const path = require('path')
+const Stripe = require('stripe')
+
+// Replays a fixture event against the local webhook endpoint, signed with STRIPE_WEBHOOK_SECRET.
+// Usage: node scripts/send-stripe-webhook.js <event-type> <paymentIntentId> [amountRefunded]
+async function sendWebhook() {
+  const [eventType, paymentIntentId, amountRefunded] = process.argv.slice(2)
+  const secret = process.env.STRIPE_WEBHOOK_SECRET
+  const url = process.env.WEBHOOK_URL || 'http://localhost:3000/api/payment/webhook'
+
+  if (!eventType || !paymentIntentId) {
+    console.error('❌ Usage: node scripts/send-stripe-webhook.js <event-type> <paymentIntentId> [amountRefunded]')
+    process.exit(1)
+  }
+  if (!secret) {
+    console.error('❌ STRIPE_WEBHOOK_SECRET must be set to sign fixture events')
+    process.exit(1)
+  }
+
+  const fixturePath = path.join(__dirname, 'fixtures', 'stripe', `${eventType}.json`)
+  if (!fs.existsSync(fixturePath)) {
+    console.error(`❌ No fixture found for ${eventType} (${fixturePath})`)
+    process.exit(1)
+  }
+
+  const event = JSON.parse(fs.readFileSync(fixturePath, 'utf8').replace(/{{PAYMENT_INTENT_ID}}/g, paymentIntentId))
+  event.id = `${event.id}_${Date.now()}`
+  event.created = Math.floor(Date.now() / 1000)
+  if (amountRefunded !== undefined && event.data.object.object === 'charge') {
+    event.data.object.amount_refunded = Math.round(Number(amountRefunded) * 100)
+    event.data.object.refunded = event.data.object.amount_refunded >= event.data.object.amount
+  }
+
+  const payload = JSON.stringify(event)
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret })
+
+  console.log(`📨 Sending ${eventType} for ${paymentIntentId} to ${url}`)
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'stripe-signature': signature },
+    body: payload,
+  })
+
+  console.log(`${response.ok ? '✅' : '❌'} ${response.status}`, await response.text())
+  process.exit(response.ok ? 0 : 1)
+}
+
+sendWebhook()
@@ -1,3 +1,8 @@
+import type { OrderStatus, OrderStatusChange } from "@/lib/utils/orderStatus"
+import type { TaxBreakdown, TaxClass } from "@/lib/models/Tax"
+import type { AppliedDiscount, PromotionStacking } from "@/lib/models/Promotion"
+import type { PrintArea } from "@/lib/models/Product"
+
 export interface User {
   id: string
   email: string
@@ -9,6 +14,9 @@ export interface User {
   city?: string
   postalCode?: string
   country?: string
+  emailVerified?: boolean
+  failedLoginCount?: number
+  lockedUntil?: string | Date
 }
 
 export interface VariationImage {
@@ -47,6 +55,14 @@ export interface Product {
   variations?: Variation[];
   /** If true, product participates in global coupon discounts */
   eligibleForCoupons?: boolean;
+  /** Shipping weight per unit in grams */
+  weight?: number;
+  /** Tax class used to look up the VAT rate, defaults to "standard" */
+  taxClass?: TaxClass;
+  /** Stock at or below this is reported as low */
+  lowStockThreshold?: number;
+  /** Physical print size per angle, used for production files */
+  printAreas?: PrintArea[];
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -91,12 +107,53 @@ export interface CartItem extends Product {
   designCanvasJSON?: any;
 }
 
+export type PaymentStatus = "pending" | "paid" | "failed" | "canceled" | "refunded" | "partially_refunded"
+
+// One way an order was paid: gift cards and store credit first, the payment provider for the rest
+export interface OrderTender {
+  method: "gift_card" | "store_credit" | "card" | "swish" | "klarna"
+  amount: number
+  giftCardId?: string
+  code?: string // Masked gift card code, e.g. "•••• 7KQ2"
+}
+
+// Shipment details entered when an order is marked as shipped
+export interface OrderTracking {
+  carrier: string
+  number: string
+  url?: string
+}
+
+export interface OrderRefund {
+  id: string
+  type: "full" | "items" | "shipping"
+  amount: number
+  items?: Array<{ index: number; quantity: number; amount: number }>
+  reason?: string
+  providerRefundId?: string
+  // Where the money went back to; the payment provider alone when unset
+  tenders?: OrderTender[]
+  createdBy?: string
+  createdAt: Date
+}
+
+export interface OrderShippingMethod {
+  id: string
+  name: string
+  carrier?: string
+  price: number
+  minDeliveryDays: number
+  maxDeliveryDays: number
+}
+
 export interface Order {
   id: string // This is the orderId from MongoDB
   customer: string // customerNumber
   date: string
   total: number
-  status: "Queued" | "Printing" | "In Production" | "Shipped" | "Completed"
+  status: OrderStatus
+  statusHistory?: OrderStatusChange[]
+  tracking?: OrderTracking
   items: Array<{
     name: string
     quantity: number
@@ -111,10 +168,35 @@ export interface Order {
     designCanvasJSON?: any
     /** Base product id for reference */
     productId?: string
+    taxClass?: TaxClass
+    discountAmount?: number // This line's share of the order's discounts
   }>
-  shippingOption: "standard" | "express"
+  shippingOption: string // Id of the selected shipping method
   paymentMethod: "card" | "swish" | "klarna"
   paymentIntentId?: string
+  // Payment state reported by the payment provider, independent of the production status
+  paymentStatus?: PaymentStatus
+  paidAt?: Date
+  paymentError?: string
+  // How the total was paid, when gift cards or store credit were used
+  tenders?: OrderTender[]
+  // Refunds issued against the payment, newest last
+  refunds?: OrderRefund[]
+  refundedAmount?: number
+  // Server-computed price breakdown
+  subtotal?: number
+  discountAmount?: number
+  vatAmount?: number
+  taxBreakdown?: TaxBreakdown
+  shippingCost?: number
+  shippingMethod?: OrderShippingMethod
+  appliedCoupon?: {
+    code: string
+    discountAmount: number
+    discountType: "percentage" | "fixed"
+  } | null
+  // Every promotion and coupon that reduced the order, in the order they were applied
+  discounts?: AppliedDiscount[]
   // Customer information
   customerName?: string
   customerEmail?: string
@@ -123,6 +205,8 @@ export interface Order {
   customerCity?: string
   customerPostalCode?: string
   customerCountry?: string
+  customerVatNumber?: string
+  language?: Language
 }
 
 export interface Design {
@@ -201,6 +285,12 @@ export interface Coupon {
   validUntil: Date
   applicableProducts?: string[]
   applicableCategories?: string[]
+  priority?: number
+  stacking?: PromotionStacking
+  maxUsesPerCustomer?: number
+  firstOrderOnly?: boolean
+  allowedCustomers?: string[]
+  singleUseCodesOnly?: boolean
   createdAt?: Date
   updatedAt?: Date
 }
@@ -217,6 +307,12 @@ export interface CreateCouponData {
   validUntil: Date
   applicableProducts?: string[]
   applicableCategories?: string[]
+  priority?: number
+  stacking?: PromotionStacking
+  maxUsesPerCustomer?: number
+  firstOrderOnly?: boolean
+  allowedCustomers?: string[]
+  singleUseCodesOnly?: boolean
 }
 
 export interface UpdateCouponData {
@@ -232,6 +328,12 @@ export interface UpdateCouponData {
   validUntil?: Date
   applicableProducts?: string[]
   applicableCategories?: string[]
+  priority?: number
+  stacking?: PromotionStacking
+  maxUsesPerCustomer?: number
+  firstOrderOnly?: boolean
+  allowedCustomers?: string[]
+  singleUseCodesOnly?: boolean
 }
 
 export interface CouponValidationResult {